@@ -0,0 +1,175 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createSupabaseServerClient, isSupabaseServerConfigured } from "../../../lib/supabaseServer";
+import {
+  deleteAlertAcks,
+  getAccessToken,
+  jsonWithEtag,
+  loadAlertAck,
+  loadAlertAcks,
+  loadAlertRules,
+  loadManagerProfile,
+  replaceAlertRules,
+  saveAlertAck,
+} from "../../lib/dataApi";
+import { canActOnAlerts, canEditConfig } from "../../lib/auth";
+import { applyAlertAckAction, normalizeAlertRules, type AlertAckAction } from "../../lib/alertRules";
+
+/**
+ * API Route: /api/alerts
+ *
+ * Alert rules and acknowledge/snooze state shared by every dashboard (alert_rules
+ * and alert_acks tables - see alertRules.ts):
+ * - GET    → { ok: true, rules, acks } (ETag / 304 like /api/nfos)
+ * - PUT    { rules } → { ok: true, rules } - replaces every rule (admins only - canEditConfig)
+ * - POST   { alert_id, action: "acknowledge" | "snooze" | "reopen", minutes? } → { ok: true, ack }
+ *          (ack null after reopen; the server stamps the times)
+ * - DELETE { alert_ids } → { ok: true } - forget acks for alerts that stopped firing
+ * POST and DELETE are for admins and supervisors (canActOnAlerts).
+ *
+ * Queries run with the caller's Supabase access token, so Row Level Security applies.
+ * Errors come back as { ok: false, error } with 200 status.
+ */
+
+const MAX_ALERT_RULES = 200;
+
+// Longest snooze POST accepts
+const MAX_SNOOZE_MINUTES = 24 * 60;
+
+// DELETE accepts at most this many alert ids per request
+const MAX_PRUNED_ACKS = 1000;
+
+const RULE_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+const ALERT_ACK_ACTIONS: AlertAckAction[] = ["acknowledge", "snooze", "reopen"];
+
+const notConfigured = () =>
+  NextResponse.json(
+    { ok: false, error: "Supabase not configured (set NEXT_PUBLIC_SUPABASE_URL / NEXT_PUBLIC_SUPABASE_ANON_KEY)" },
+    { status: 200 }
+  );
+
+const notSignedIn = () => NextResponse.json({ ok: false, error: "Not signed in" }, { status: 200 });
+
+const notAllowed = (error: string) => NextResponse.json({ ok: false, error }, { status: 200 });
+
+const badRequest = (error: string) => NextResponse.json({ ok: false, error }, { status: 200 });
+
+const exceptionResponse = (error: unknown) => {
+  console.error("Alerts exception:", error);
+  return NextResponse.json(
+    {
+      ok: false,
+      error: error instanceof Error ? error.message : (error as { message?: string })?.message ?? "Server exception",
+    },
+    { status: 200 }
+  );
+};
+
+export async function GET(request: NextRequest) {
+  try {
+    if (!isSupabaseServerConfigured) return notConfigured();
+
+    const accessToken = getAccessToken(request);
+    if (!accessToken) return notSignedIn();
+
+    const client = createSupabaseServerClient(accessToken);
+    const [rules, acks] = await Promise.all([loadAlertRules(client), loadAlertAcks(client)]);
+
+    return jsonWithEtag(request, { ok: true, rules, acks });
+  } catch (error) {
+    return exceptionResponse(error);
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    if (!isSupabaseServerConfigured) return notConfigured();
+
+    const accessToken = getAccessToken(request);
+    if (!accessToken) return notSignedIn();
+
+    const client = createSupabaseServerClient(accessToken);
+    const profile = await loadManagerProfile(client, accessToken);
+    if (!profile) return notSignedIn();
+    if (!canEditConfig(profile)) return notAllowed("Only admins can edit alert rules");
+
+    const body = (await request.json()) as Record<string, unknown>;
+    if (!Array.isArray(body.rules)) return badRequest("rules must be an array");
+    if (body.rules.length > MAX_ALERT_RULES) return badRequest(`At most ${MAX_ALERT_RULES} rules`);
+
+    const rules = normalizeAlertRules(body.rules);
+    if (rules.length !== body.rules.length) return badRequest("Every rule needs an id and a known kind");
+    if (!rules.every((rule) => RULE_ID_PATTERN.test(rule.id))) {
+      return badRequest("Rule ids may only contain letters, digits, - and _");
+    }
+    if (new Set(rules.map((rule) => rule.id)).size !== rules.length) return badRequest("Rule ids must be unique");
+
+    const saved = await replaceAlertRules(client, rules);
+    console.log("Alerts - rules saved:", saved.length);
+
+    return NextResponse.json({ ok: true, rules: saved });
+  } catch (error) {
+    return exceptionResponse(error);
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    if (!isSupabaseServerConfigured) return notConfigured();
+
+    const accessToken = getAccessToken(request);
+    if (!accessToken) return notSignedIn();
+
+    const client = createSupabaseServerClient(accessToken);
+    const profile = await loadManagerProfile(client, accessToken);
+    if (!profile) return notSignedIn();
+    if (!canActOnAlerts(profile)) return notAllowed("Only admins and supervisors can work alerts");
+
+    const body = (await request.json()) as Record<string, unknown>;
+    const alertId = typeof body.alert_id === "string" ? body.alert_id.trim() : "";
+    const action = body.action as AlertAckAction;
+    if (!alertId) return badRequest("alert_id is required");
+    if (!ALERT_ACK_ACTIONS.includes(action)) return badRequest("action must be acknowledge, snooze or reopen");
+
+    const minutes = typeof body.minutes === "number" && Number.isFinite(body.minutes) ? body.minutes : null;
+    if (action === "snooze" && (minutes == null || minutes <= 0 || minutes > MAX_SNOOZE_MINUTES)) {
+      return badRequest(`minutes must be between 1 and ${MAX_SNOOZE_MINUTES}`);
+    }
+
+    const previous = action === "snooze" ? await loadAlertAck(client, alertId) : undefined;
+    const ack = applyAlertAckAction(previous, action, minutes);
+    await saveAlertAck(client, alertId, ack);
+    console.log("Alerts -", action, alertId);
+
+    return NextResponse.json({ ok: true, ack });
+  } catch (error) {
+    return exceptionResponse(error);
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    if (!isSupabaseServerConfigured) return notConfigured();
+
+    const accessToken = getAccessToken(request);
+    if (!accessToken) return notSignedIn();
+
+    const client = createSupabaseServerClient(accessToken);
+    const profile = await loadManagerProfile(client, accessToken);
+    if (!profile) return notSignedIn();
+    if (!canActOnAlerts(profile)) return notAllowed("Only admins and supervisors can work alerts");
+
+    const body = (await request.json()) as Record<string, unknown>;
+    const alertIds = Array.isArray(body.alert_ids)
+      ? body.alert_ids.filter((id): id is string => typeof id === "string" && id.trim() !== "")
+      : [];
+    if (alertIds.length === 0) return badRequest("alert_ids is required");
+    if (alertIds.length > MAX_PRUNED_ACKS) return badRequest(`At most ${MAX_PRUNED_ACKS} alert_ids`);
+
+    await deleteAlertAcks(client, alertIds);
+
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    return exceptionResponse(error);
+  }
+}
@@ -0,0 +1,179 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createSupabaseServerClient, isSupabaseServerConfigured } from "../../../lib/supabaseServer";
+import {
+  getAccessToken,
+  insertAssignment,
+  jsonWithEtag,
+  loadAssignments,
+  loadManagerProfile,
+  updateAssignmentStatus,
+} from "../../lib/dataApi";
+import { canAssignJobs, canEditConfig } from "../../lib/auth";
+import { isAssignmentStatus, type NewAssignmentInput } from "../../lib/assignments";
+import { DEFAULT_JOB_PRIORITY, computeSlaDueDates, isJobPriority } from "../../lib/sla";
+
+/**
+ * API Route: /api/assignments
+ *
+ * Jobs sent to the Android app (nfo_assignments table):
+ * - GET   → { ok: true, assignments } - open ones plus the last week, newest first (ETag / 304 like /api/nfos)
+ * - POST  { username, site_id, warehouse_id?, warehouse_name?, route_geometry?, route_distance_km?,
+ *           route_engine?, eta_min?, eta_at?, notes?, priority?, ticket_ref?, response_due_at?,
+ *           restore_due_at? } → { ok: true, assignment }
+ *           (SLA deadlines are computed from the priority's targets, starting now; only admins
+ *           may override them, with valid dates after now and response before restore)
+ * - PATCH { id, status, expectedStatus?, at? } → { ok: true, assignment } (assignment is null when
+ *           expectedStatus no longer matched - someone else already moved the job; `at` is the
+ *           heartbeat time of the transition, stamped instead of now)
+ *
+ * Queries run with the caller's Supabase access token, so Row Level Security decides
+ * who may read. Creating and moving jobs is for admins and supervisors only
+ * (canAssignJobs); statuses only move forward and `at` can't be before the job's
+ * previous step. Errors come back as { ok: false, error } with 200 status.
+ */
+
+const notConfigured = () =>
+  NextResponse.json(
+    { ok: false, error: "Supabase not configured (set NEXT_PUBLIC_SUPABASE_URL / NEXT_PUBLIC_SUPABASE_ANON_KEY)" },
+    { status: 200 }
+  );
+
+const notSignedIn = () => NextResponse.json({ ok: false, error: "Not signed in" }, { status: 200 });
+
+const notAllowed = () =>
+  NextResponse.json({ ok: false, error: "Only admins and supervisors can assign jobs" }, { status: 200 });
+
+const exceptionResponse = (error: unknown) => {
+  console.error("Assignments exception:", error);
+  return NextResponse.json(
+    {
+      ok: false,
+      error: error instanceof Error ? error.message : (error as { message?: string })?.message ?? "Server exception",
+    },
+    { status: 200 }
+  );
+};
+
+const numberOrNull = (value: unknown) => (typeof value === "number" && Number.isFinite(value) ? value : null);
+const stringOrNull = (value: unknown) => (typeof value === "string" && value.trim() !== "" ? value.trim() : null);
+const timeOrNull = (value: unknown) => {
+  const text = stringOrNull(value);
+  const ms = text ? new Date(text).getTime() : NaN;
+  return Number.isFinite(ms) ? ms : null;
+};
+
+export async function GET(request: NextRequest) {
+  try {
+    if (!isSupabaseServerConfigured) return notConfigured();
+
+    const accessToken = getAccessToken(request);
+    if (!accessToken) return notSignedIn();
+
+    const assignments = await loadAssignments(createSupabaseServerClient(accessToken));
+
+    return jsonWithEtag(request, { ok: true, assignments });
+  } catch (error) {
+    return exceptionResponse(error);
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    if (!isSupabaseServerConfigured) return notConfigured();
+
+    const accessToken = getAccessToken(request);
+    if (!accessToken) return notSignedIn();
+
+    const client = createSupabaseServerClient(accessToken);
+    const profile = await loadManagerProfile(client, accessToken);
+    if (!profile) return notSignedIn();
+    if (!canAssignJobs(profile)) return notAllowed();
+
+    const body = (await request.json()) as Record<string, unknown>;
+    const username = stringOrNull(body.username);
+    const siteId = stringOrNull(body.site_id);
+    if (!username || !siteId) {
+      return NextResponse.json({ ok: false, error: "username and site_id are required" }, { status: 200 });
+    }
+
+    const geometry = Array.isArray(body.route_geometry) ? (body.route_geometry as [number, number][]) : null;
+    const priority = isJobPriority(body.priority) ? body.priority : DEFAULT_JOB_PRIORITY;
+    const now = Date.now();
+    const dueDates = computeSlaDueDates(priority, now);
+
+    // Deadlines other than the priority's targets - admins only, and they must make sense
+    if (body.response_due_at != null || body.restore_due_at != null) {
+      if (!canEditConfig(profile)) {
+        return NextResponse.json({ ok: false, error: "Only admins can override SLA deadlines" }, { status: 200 });
+      }
+      const responseMs =
+        body.response_due_at != null ? timeOrNull(body.response_due_at) : Date.parse(dueDates.response_due_at);
+      const restoreMs =
+        body.restore_due_at != null ? timeOrNull(body.restore_due_at) : Date.parse(dueDates.restore_due_at);
+      if (responseMs == null || restoreMs == null || responseMs <= now || restoreMs < responseMs) {
+        return NextResponse.json(
+          { ok: false, error: "SLA deadlines must be valid dates after now, with response before restore" },
+          { status: 200 }
+        );
+      }
+      dueDates.response_due_at = new Date(responseMs).toISOString();
+      dueDates.restore_due_at = new Date(restoreMs).toISOString();
+    }
+
+    const input: NewAssignmentInput = {
+      username,
+      site_id: siteId,
+      warehouse_id: numberOrNull(body.warehouse_id),
+      warehouse_name: stringOrNull(body.warehouse_name),
+      route_geometry: geometry && geometry.length >= 2 ? geometry : null,
+      route_distance_km: numberOrNull(body.route_distance_km),
+      route_engine: stringOrNull(body.route_engine) as NewAssignmentInput["route_engine"],
+      eta_min: numberOrNull(body.eta_min),
+      eta_at: stringOrNull(body.eta_at),
+      notes: stringOrNull(body.notes),
+      priority,
+      ticket_ref: stringOrNull(body.ticket_ref),
+      ...dueDates,
+    };
+
+    const assignment = await insertAssignment(client, input);
+    console.log("Assignments - created:", { id: assignment.id, username, siteId });
+
+    return NextResponse.json({ ok: true, assignment });
+  } catch (error) {
+    return exceptionResponse(error);
+  }
+}
+
+export async function PATCH(request: NextRequest) {
+  try {
+    if (!isSupabaseServerConfigured) return notConfigured();
+
+    const accessToken = getAccessToken(request);
+    if (!accessToken) return notSignedIn();
+
+    const client = createSupabaseServerClient(accessToken);
+    const profile = await loadManagerProfile(client, accessToken);
+    if (!profile) return notSignedIn();
+    if (!canAssignJobs(profile)) return notAllowed();
+
+    const body = (await request.json()) as Record<string, unknown>;
+    const id = numberOrNull(body.id);
+    if (id == null || !isAssignmentStatus(body.status)) {
+      return NextResponse.json({ ok: false, error: "id and a valid status are required" }, { status: 200 });
+    }
+    const expectedStatus = isAssignmentStatus(body.expectedStatus) ? body.expectedStatus : undefined;
+
+    const assignment = await updateAssignmentStatus(
+      client,
+      id,
+      body.status,
+      expectedStatus,
+      stringOrNull(body.at) ?? undefined
+    );
+
+    return NextResponse.json({ ok: true, assignment });
+  } catch (error) {
+    return exceptionResponse(error);
+  }
+}
@@ -0,0 +1,181 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ROUTING_PROVIDER_TIMEOUT_MS, getProviderConfig, orsRequestHeaders } from "../../lib/routingConfig";
+import {
+  ISOCHRONE_BANDS_MIN,
+  MAX_ISOCHRONE_SOURCES,
+  bufferIsochrones,
+  type IsochroneEngine,
+  type IsochronePolygon,
+} from "../../lib/coverage";
+
+/**
+ * API Route: /api/isochrones
+ *
+ * Drive-time isochrones around a set of points (the free NFOs) for the Live Map
+ * coverage layer.
+ *
+ * Engine order, per location:
+ * 1. ORS isochrones (POST {ors}/isochrones_post, range_type "time"), in blocks of
+ *    MAX_ORS_LOCATIONS - the public ORS limit per request. Each call has the
+ *    routing provider timeout and is cancelled when the client goes away.
+ * 2. Straight-line buffer at ISOCHRONE_BUFFER_SPEED_KMH for any location ORS
+ *    didn't return polygons for (or when no ORS provider is configured)
+ *
+ * Request:  { locations: [lng, lat][], ranges_min?: number[], profile?: "driving-car" }
+ * Response: { ok: true, isochrones, engines, summary }
+ *   - isochrones: { sourceIndex, rangeMin, ring: [lng, lat][] }[] (outer ring only)
+ *   - engines[i]: "ors" | "haversine" for locations[i]
+ * Failures return { ok: false, error } with 200 status for graceful handling (same as /api/ors-route).
+ */
+
+const ORS_ISOCHRONES_PATH = "/isochrones_post";
+
+const ORS_ISOCHRONES_PROVIDER = getProviderConfig("ors");
+
+// ORS accepts at most 5 locations per isochrones request
+const MAX_ORS_LOCATIONS = 5;
+
+// Longest band we allow (ORS driving-car caps time ranges at 1 hour)
+const MAX_RANGE_MIN = 60;
+
+type LngLat = [number, number];
+
+function isValidLngLat(value: unknown): value is LngLat {
+  return (
+    Array.isArray(value) &&
+    value.length === 2 &&
+    Number.isFinite(value[0]) &&
+    Number.isFinite(value[1]) &&
+    Math.abs(value[0]) <= 180 &&
+    Math.abs(value[1]) <= 90
+  );
+}
+
+/**
+ * Call ORS isochrones for one block. Returns null if ORS fails or times out.
+ */
+async function fetchOrsIsochroneBlock(
+  locations: LngLat[],
+  rangesMin: number[],
+  profile: string,
+  signal: AbortSignal
+): Promise<IsochronePolygon[] | null> {
+  if (!ORS_ISOCHRONES_PROVIDER) return null;
+  try {
+    const orsRes = await fetch(`${ORS_ISOCHRONES_PROVIDER.baseUrl}${ORS_ISOCHRONES_PATH}`, {
+      method: "POST",
+      signal: AbortSignal.any([signal, AbortSignal.timeout(ROUTING_PROVIDER_TIMEOUT_MS)]),
+      headers: orsRequestHeaders(ORS_ISOCHRONES_PROVIDER),
+      body: JSON.stringify({
+        locations,
+        range: rangesMin.map((m) => m * 60),
+        range_type: "time",
+        profile,
+      }),
+    });
+
+    const orsText = await orsRes.text();
+    if (!orsRes.ok) {
+      console.warn("Isochrones - ORS error:", orsRes.status, orsText.substring(0, 500));
+      return null;
+    }
+
+    const data = JSON.parse(orsText);
+    if (!Array.isArray(data.features)) {
+      console.warn("Isochrones - ORS response has no features");
+      return null;
+    }
+
+    const polygons: IsochronePolygon[] = [];
+    for (const feature of data.features) {
+      const ring = feature?.geometry?.coordinates?.[0];
+      const groupIndex = feature?.properties?.group_index;
+      const seconds = feature?.properties?.value;
+      if (!Array.isArray(ring) || !Number.isInteger(groupIndex) || !Number.isFinite(seconds)) continue;
+      polygons.push({
+        sourceIndex: groupIndex,
+        rangeMin: Math.round(seconds / 60),
+        ring: ring.map(([lng, lat]: number[]) => [lng, lat] as LngLat),
+      });
+    }
+    return polygons;
+  } catch (error) {
+    console.warn("Isochrones - ORS exception:", error);
+    return null;
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { locations, profile = "driving-car" } = body ?? {};
+    const rangesMin: number[] = Array.isArray(body?.ranges_min) ? body.ranges_min : ISOCHRONE_BANDS_MIN;
+
+    if (!Array.isArray(locations) || locations.length === 0 || !locations.every(isValidLngLat)) {
+      return NextResponse.json(
+        { ok: false, error: "Invalid locations: need a non-empty array of [lng, lat]" },
+        { status: 200 }
+      );
+    }
+    if (locations.length > MAX_ISOCHRONE_SOURCES) {
+      return NextResponse.json(
+        { ok: false, error: `Too many locations: ${locations.length} exceeds ${MAX_ISOCHRONE_SOURCES}` },
+        { status: 200 }
+      );
+    }
+    if (
+      rangesMin.length === 0 ||
+      !rangesMin.every((m) => Number.isFinite(m) && m > 0 && m <= MAX_RANGE_MIN)
+    ) {
+      return NextResponse.json(
+        { ok: false, error: `Invalid ranges_min: minutes between 1 and ${MAX_RANGE_MIN}` },
+        { status: 200 }
+      );
+    }
+
+    console.log("Isochrones - incoming request:", { locations: locations.length, rangesMin, profile });
+
+    const isochrones: IsochronePolygon[] = [];
+    const engines: (IsochroneEngine | null)[] = locations.map(() => null);
+
+    // 1) ORS, block by block
+    for (let offset = 0; offset < locations.length; offset += MAX_ORS_LOCATIONS) {
+      const block = (locations as LngLat[]).slice(offset, offset + MAX_ORS_LOCATIONS);
+      if (request.signal.aborted) break;
+      const polygons = await fetchOrsIsochroneBlock(block, rangesMin, profile, request.signal);
+      if (!polygons) continue;
+      for (const polygon of polygons) {
+        const sourceIndex = offset + polygon.sourceIndex;
+        isochrones.push({ ...polygon, sourceIndex });
+        engines[sourceIndex] = "ors";
+      }
+    }
+
+    // 2) Straight-line buffer for every location ORS didn't cover
+    const summary = { ors: 0, haversine: 0 };
+    const finalEngines: IsochroneEngine[] = engines.map((engine, i) => {
+      if (engine != null) {
+        summary[engine] += 1;
+        return engine;
+      }
+      const [lng, lat] = locations[i] as LngLat;
+      isochrones.push(...bufferIsochrones(i, lat, lng, rangesMin));
+      summary.haversine += 1;
+      return "haversine";
+    });
+
+    console.log("Isochrones - result summary:", summary);
+
+    return NextResponse.json({ ok: true, isochrones, engines: finalEngines, summary });
+  } catch (error) {
+    console.error("Isochrones exception:", error);
+    return NextResponse.json(
+      {
+        ok: false,
+        error: "Server exception",
+        detail: error instanceof Error ? error.message : String(error),
+      },
+      { status: 200 }
+    );
+  }
+}
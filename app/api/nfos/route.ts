@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createSupabaseServerClient, isSupabaseServerConfigured } from "../../../lib/supabaseServer";
+import { getAccessToken, jsonWithEtag, loadLatestNfoStatus, loadManagerProfile } from "../../lib/dataApi";
+import { filterNfosForProfile } from "../../lib/auth";
+
+/**
+ * API Route: /api/nfos
+ *
+ * Latest nfo_status row per username (nfo_status_latest view - see dataApi.ts),
+ * with lat/lng normalised to numbers. Supervisors only get the NFOs whose
+ * home_location is in their regions (filterNfosForProfile).
+ *
+ * Queries run with the caller's Supabase access token (Authorization: Bearer), so
+ * Row Level Security applies. Send If-None-Match with the last ETag to get an
+ * empty 304 when nothing changed.
+ *
+ * Response: { ok: true, nfos } or { ok: false, error } with 200 status (same as /api/ors-route).
+ */
+
+export async function GET(request: NextRequest) {
+  try {
+    if (!isSupabaseServerConfigured) {
+      return NextResponse.json(
+        { ok: false, error: "Supabase not configured (set NEXT_PUBLIC_SUPABASE_URL / NEXT_PUBLIC_SUPABASE_ANON_KEY)" },
+        { status: 200 }
+      );
+    }
+
+    const accessToken = getAccessToken(request);
+    if (!accessToken) {
+      return NextResponse.json({ ok: false, error: "Not signed in" }, { status: 200 });
+    }
+
+    const client = createSupabaseServerClient(accessToken);
+    const profile = await loadManagerProfile(client, accessToken);
+    if (!profile) {
+      return NextResponse.json({ ok: false, error: "Not signed in" }, { status: 200 });
+    }
+
+    const nfos = filterNfosForProfile(profile, await loadLatestNfoStatus(client));
+
+    return jsonWithEtag(request, { ok: true, nfos });
+  } catch (error) {
+    console.error("Nfos exception:", error);
+    return NextResponse.json(
+      {
+        ok: false,
+        error: error instanceof Error ? error.message : (error as { message?: string })?.message ?? "Server exception",
+      },
+      { status: 200 }
+    );
+  }
+}
@@ -0,0 +1,155 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createSupabaseServerClient, isSupabaseServerConfigured } from "../../../lib/supabaseServer";
+import { getAccessToken, loadManagerProfile } from "../../lib/dataApi";
+import { canActOnAlerts } from "../../lib/auth";
+
+/**
+ * API Route: /api/notify
+ *
+ * Forwards NFO alert notifications from the dashboard to an incoming webhook
+ * (Slack / Teams style) configured via ALERT_WEBHOOK_URL. The URL stays on the
+ * server so it isn't exposed in the browser bundle.
+ *
+ * Only signed-in admins and supervisors (the roles that work alerts) may post:
+ * send the Supabase access token as Authorization: Bearer, like /api/nfos.
+ *
+ * Each notification carries a `key` unique per state transition. Keys are
+ * remembered for DEDUP_TTL_MS so several open dashboard tabs don't post the
+ * same transition more than once.
+ *
+ * Request:  { notifications: { key, kind, username, name, area, title, body, at }[] }
+ * Response: { ok: true, sent, skipped } or { ok: false, error } with 200 status (same as /api/ors-route).
+ */
+
+const ALERT_WEBHOOK_URL = process.env.ALERT_WEBHOOK_URL ?? "";
+
+const DEDUP_TTL_MS = 24 * 60 * 60 * 1000;
+// Clients send larger sets in batches of this size (notifications.ts WEBHOOK_BATCH_SIZE)
+const MAX_NOTIFICATIONS_PER_REQUEST = 50;
+
+// key → time it was delivered (per server instance)
+const deliveredKeys = new Map<string, number>();
+
+type IncomingNotification = {
+  key: string;
+  kind: string;
+  username: string;
+  name: string | null;
+  area: string | null;
+  title: string;
+  body: string;
+  at: string;
+};
+
+function isValidNotification(value: unknown): value is IncomingNotification {
+  if (!value || typeof value !== "object") return false;
+  const n = value as Record<string, unknown>;
+  return (
+    typeof n.key === "string" &&
+    typeof n.kind === "string" &&
+    typeof n.username === "string" &&
+    typeof n.title === "string" &&
+    typeof n.body === "string"
+  );
+}
+
+function pruneDeliveredKeys(now: number) {
+  for (const [key, deliveredAt] of deliveredKeys) {
+    if (now - deliveredAt > DEDUP_TTL_MS) deliveredKeys.delete(key);
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    if (!ALERT_WEBHOOK_URL) {
+      return NextResponse.json(
+        { ok: false, error: "Webhook not configured (set ALERT_WEBHOOK_URL)" },
+        { status: 200 }
+      );
+    }
+
+    if (!isSupabaseServerConfigured) {
+      return NextResponse.json(
+        { ok: false, error: "Supabase not configured (set NEXT_PUBLIC_SUPABASE_URL / NEXT_PUBLIC_SUPABASE_ANON_KEY)" },
+        { status: 200 }
+      );
+    }
+
+    const accessToken = getAccessToken(request);
+    if (!accessToken) {
+      return NextResponse.json({ ok: false, error: "Not signed in" }, { status: 200 });
+    }
+
+    const profile = await loadManagerProfile(createSupabaseServerClient(accessToken), accessToken);
+    if (!profile) {
+      return NextResponse.json({ ok: false, error: "Not signed in" }, { status: 200 });
+    }
+    if (!canActOnAlerts(profile)) {
+      return NextResponse.json({ ok: false, error: "Only admins and supervisors can send alerts" }, { status: 200 });
+    }
+
+    const body = await request.json();
+    const notifications = body?.notifications;
+
+    if (!Array.isArray(notifications) || !notifications.every(isValidNotification)) {
+      return NextResponse.json(
+        { ok: false, error: "Invalid notifications: need an array of { key, kind, username, title, body }" },
+        { status: 200 }
+      );
+    }
+
+    if (notifications.length > MAX_NOTIFICATIONS_PER_REQUEST) {
+      return NextResponse.json(
+        { ok: false, error: `Too many notifications: max ${MAX_NOTIFICATIONS_PER_REQUEST} per request` },
+        { status: 200 }
+      );
+    }
+
+    const now = Date.now();
+    pruneDeliveredKeys(now);
+
+    const toSend = notifications.filter((n) => !deliveredKeys.has(n.key));
+    const skipped = notifications.length - toSend.length;
+
+    if (toSend.length === 0) {
+      return NextResponse.json({ ok: true, sent: 0, skipped });
+    }
+
+    // `text` is what Slack/Teams incoming webhooks render; `alerts` keeps the structured data
+    const webhookPayload = {
+      text: toSend.map((n) => `*${n.title}* – ${n.body}${n.area ? ` (${n.area})` : ""}`).join("\n"),
+      alerts: toSend,
+    };
+
+    console.log("Notify - posting to webhook:", { count: toSend.length, skipped });
+
+    const webhookRes = await fetch(ALERT_WEBHOOK_URL, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(webhookPayload),
+    });
+
+    if (!webhookRes.ok) {
+      const text = await webhookRes.text();
+      console.warn("Notify - webhook error:", webhookRes.status, text.substring(0, 500));
+      return NextResponse.json(
+        { ok: false, error: `Webhook returned ${webhookRes.status}` },
+        { status: 200 }
+      );
+    }
+
+    for (const n of toSend) deliveredKeys.set(n.key, now);
+
+    return NextResponse.json({ ok: true, sent: toSend.length, skipped });
+  } catch (error) {
+    console.error("Notify exception:", error);
+    return NextResponse.json(
+      {
+        ok: false,
+        error: "Server exception",
+        detail: error instanceof Error ? error.message : String(error),
+      },
+      { status: 200 }
+    );
+  }
+}
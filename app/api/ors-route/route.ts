@@ -1,22 +1,25 @@
 import { NextRequest, NextResponse } from "next/server";
+import {
+  ORS_BACKEND_URL,
+  MAXIMUM_SEARCH_RADIUS,
+  getProviderConfig,
+  orsRequestHeaders,
+} from "../../lib/routingConfig";
+import { normalizeOrsSteps } from "../../lib/routingProviders";
+import type { RouteStep } from "../../lib/routing";
 
 /**
  * API Route: /api/ors-route
  * 
  * Proxies routing requests to the ORS backend with enhanced options:
  * - Increased maximum_search_radius (5000m / 5km) so off-road sites can still get routes
- * - Returns { ok: true, route: <data> } on success
+ * - Returns { ok: true, route: <data> } on success (route.steps = turn-by-turn directions)
  * - Returns { ok: false, orsStatus, orsError } on failure (with 200 status for graceful handling)
  * 
  * We use POST to the /route_post endpoint which supports the full ORS options including
  * maximum_search_radius.
  */
 
-const ORS_BACKEND_URL = process.env.NEXT_PUBLIC_ORS_BACKEND_URL || "https://meerabeer1990-nfo-ors-backend.hf.space";
-
-// Increased search radius to handle off-road sites (default is 350m, we use 5km)
-const MAXIMUM_SEARCH_RADIUS = 5000;
-
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
@@ -41,6 +44,7 @@ export async function POST(request: NextRequest) {
     let totalDistanceMeters = 0;
     let totalDurationSeconds = 0;
     let allCoordinates: [number, number][] = [];
+    const allSteps: RouteStep[] = [];
 
     for (let i = 0; i < coordinates.length - 1; i++) {
       const startCoord = coordinates[i];
@@ -52,7 +56,7 @@ export async function POST(request: NextRequest) {
         coordinates: [startCoord, endCoord],
         profile,
         preference: "fastest",
-        instructions: false,
+        instructions: true,
         options: {
           maximum_search_radius: MAXIMUM_SEARCH_RADIUS,
         },
@@ -62,12 +66,13 @@ export async function POST(request: NextRequest) {
       console.log(`ORS request body (leg ${i + 1}):`, JSON.stringify(orsRequestBody, null, 2));
 
       // Use POST to the /route_post endpoint which supports options
-      const url = `${ORS_BACKEND_URL}/route_post`;
+      const orsProvider = getProviderConfig("ors");
+      const url = `${orsProvider?.baseUrl ?? ORS_BACKEND_URL}/route_post`;
       console.log(`ORS API route - leg ${i + 1} URL:`, url);
 
       const orsRes = await fetch(url, {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers: orsRequestHeaders(orsProvider),
         body: JSON.stringify(orsRequestBody),
       });
 
@@ -116,6 +121,7 @@ export async function POST(request: NextRequest) {
 
       totalDistanceMeters += distanceMeters;
       totalDurationSeconds += durationSeconds;
+      allSteps.push(...normalizeOrsSteps(feature));
 
       // Append coordinates (skip first point on subsequent legs to avoid duplicates)
       if (i === 0) {
@@ -132,6 +138,7 @@ export async function POST(request: NextRequest) {
         coordinates: allCoordinates,
         distanceMeters: totalDistanceMeters,
         durationSeconds: totalDurationSeconds,
+        steps: allSteps,
       },
     });
   } catch (error) {
@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createSupabaseServerClient, isSupabaseServerConfigured } from "../../../lib/supabaseServer";
+import { getAccessToken, jsonWithEtag, loadNfoStatusHistory } from "../../lib/dataApi";
+import { MAX_REPORT_DAYS, aggregateNfoHistory } from "../../lib/reports";
+
+/**
+ * API Route: /api/reports
+ *
+ * Productivity metrics from the nfo_status heartbeat history:
+ * - GET ?from=ISO&to=ISO&tzOffset=<minutes> → { ok: true, days, truncated }
+ *   days: one row per NFO per local day (on-shift / busy / free / silent hours,
+ *   distinct sites, km driven); tzOffset is the browser's getTimezoneOffset().
+ *   ETag / 304 like /api/nfos, so re-opening the same closed week is cheap.
+ *
+ * Queries run with the caller's Supabase access token, so Row Level Security decides
+ * whose heartbeats are included. Errors come back as { ok: false, error } with 200 status.
+ */
+
+const notConfigured = () =>
+  NextResponse.json(
+    { ok: false, error: "Supabase not configured (set NEXT_PUBLIC_SUPABASE_URL / NEXT_PUBLIC_SUPABASE_ANON_KEY)" },
+    { status: 200 }
+  );
+
+const notSignedIn = () => NextResponse.json({ ok: false, error: "Not signed in" }, { status: 200 });
+
+const badRequest = (error: string) => NextResponse.json({ ok: false, error }, { status: 200 });
+
+const parseTime = (value: string | null): number | null => {
+  if (!value) return null;
+  const ms = new Date(value).getTime();
+  return Number.isNaN(ms) ? null : ms;
+};
+
+export async function GET(request: NextRequest) {
+  try {
+    if (!isSupabaseServerConfigured) return notConfigured();
+
+    const accessToken = getAccessToken(request);
+    if (!accessToken) return notSignedIn();
+
+    const params = request.nextUrl.searchParams;
+    const from = parseTime(params.get("from"));
+    const to = parseTime(params.get("to"));
+    if (from == null || to == null || to <= from) return badRequest("from and to (ISO dates, from < to) are required");
+    if (to - from > MAX_REPORT_DAYS * 24 * 60 * 60 * 1000) {
+      return badRequest(`Reports are limited to ${MAX_REPORT_DAYS} days`);
+    }
+
+    const tzOffset = Number(params.get("tzOffset") ?? 0);
+    const tzOffsetMin = Number.isFinite(tzOffset) && Math.abs(tzOffset) <= 14 * 60 ? tzOffset : 0;
+
+    const startedAt = Date.now();
+    const { rows, truncated } = await loadNfoStatusHistory(
+      createSupabaseServerClient(accessToken),
+      new Date(from).toISOString(),
+      new Date(to).toISOString()
+    );
+    const days = aggregateNfoHistory(rows, tzOffsetMin);
+    console.log("Reports - aggregated:", { heartbeats: rows.length, nfoDays: days.length, ms: Date.now() - startedAt });
+
+    return jsonWithEtag(request, { ok: true, days, truncated });
+  } catch (error) {
+    console.error("Reports exception:", error);
+    return NextResponse.json(
+      {
+        ok: false,
+        error: error instanceof Error ? error.message : (error as { message?: string })?.message ?? "Server exception",
+      },
+      { status: 200 }
+    );
+  }
+}
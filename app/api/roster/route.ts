@@ -0,0 +1,146 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createSupabaseServerClient, isSupabaseServerConfigured } from "../../../lib/supabaseServer";
+import {
+  deleteRosterShift,
+  getAccessToken,
+  jsonWithEtag,
+  loadManagerProfile,
+  loadRoster,
+  upsertRosterShifts,
+} from "../../lib/dataApi";
+import { canEditRoster } from "../../lib/auth";
+import type { NewRosterShift } from "../../lib/roster";
+
+/**
+ * API Route: /api/roster
+ *
+ * Planned NFO shifts (nfo_roster table):
+ * - GET    ?from=ISO&to=ISO → { ok: true, shifts } - shifts overlapping the range, by start time,
+ *          each with first_on_shift_at / last_on_shift_at from nfo_status (ETag / 304 like /api/nfos)
+ * - POST   { shifts: [{ username, shift_start, shift_end, notes? }] } → { ok: true, shifts }
+ *          (upsert - a shift with the same username and start replaces the old one)
+ * - DELETE { id } → { ok: true }
+ *
+ * Queries run with the caller's Supabase access token, so Row Level Security decides
+ * who may read the roster; only admins and supervisors may edit it (canEditRoster). Errors come back as { ok: false, error } with 200 status.
+ */
+
+// Longest range GET accepts - keeps the ranged heartbeat read for actuals bounded
+const MAX_RANGE_DAYS = 31;
+
+const notConfigured = () =>
+  NextResponse.json(
+    { ok: false, error: "Supabase not configured (set NEXT_PUBLIC_SUPABASE_URL / NEXT_PUBLIC_SUPABASE_ANON_KEY)" },
+    { status: 200 }
+  );
+
+const notSignedIn = () => NextResponse.json({ ok: false, error: "Not signed in" }, { status: 200 });
+
+const notAllowed = () =>
+  NextResponse.json({ ok: false, error: "Only admins and supervisors can edit the roster" }, { status: 200 });
+
+const badRequest = (error: string) => NextResponse.json({ ok: false, error }, { status: 200 });
+
+const exceptionResponse = (error: unknown) => {
+  console.error("Roster exception:", error);
+  return NextResponse.json(
+    {
+      ok: false,
+      error: error instanceof Error ? error.message : (error as { message?: string })?.message ?? "Server exception",
+    },
+    { status: 200 }
+  );
+};
+
+const parseTime = (value: unknown): number | null => {
+  if (typeof value !== "string" || value.trim() === "") return null;
+  const ms = new Date(value).getTime();
+  return Number.isNaN(ms) ? null : ms;
+};
+
+export async function GET(request: NextRequest) {
+  try {
+    if (!isSupabaseServerConfigured) return notConfigured();
+
+    const accessToken = getAccessToken(request);
+    if (!accessToken) return notSignedIn();
+
+    const from = parseTime(request.nextUrl.searchParams.get("from"));
+    const to = parseTime(request.nextUrl.searchParams.get("to"));
+    if (from == null || to == null || to <= from) return badRequest("from and to (ISO dates, from < to) are required");
+    if (to - from > MAX_RANGE_DAYS * 24 * 60 * 60 * 1000) return badRequest(`Range is limited to ${MAX_RANGE_DAYS} days`);
+
+    const shifts = await loadRoster(
+      createSupabaseServerClient(accessToken),
+      new Date(from).toISOString(),
+      new Date(to).toISOString()
+    );
+
+    return jsonWithEtag(request, { ok: true, shifts });
+  } catch (error) {
+    return exceptionResponse(error);
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    if (!isSupabaseServerConfigured) return notConfigured();
+
+    const accessToken = getAccessToken(request);
+    if (!accessToken) return notSignedIn();
+
+    const client = createSupabaseServerClient(accessToken);
+    const profile = await loadManagerProfile(client, accessToken);
+    if (!profile) return notSignedIn();
+    if (!canEditRoster(profile)) return notAllowed();
+
+    const body = (await request.json()) as Record<string, unknown>;
+    if (!Array.isArray(body.shifts) || body.shifts.length === 0) return badRequest("shifts are required");
+
+    const shifts: NewRosterShift[] = [];
+    for (const [idx, raw] of (body.shifts as Record<string, unknown>[]).entries()) {
+      const username = typeof raw?.username === "string" ? raw.username.trim() : "";
+      const start = parseTime(raw?.shift_start);
+      const end = parseTime(raw?.shift_end);
+      if (!username || start == null || end == null || end <= start) {
+        return badRequest(`Shift ${idx + 1}: username, shift_start and a later shift_end are required`);
+      }
+      shifts.push({
+        username,
+        shift_start: new Date(start).toISOString(),
+        shift_end: new Date(end).toISOString(),
+        notes: typeof raw.notes === "string" && raw.notes.trim() !== "" ? raw.notes.trim() : null,
+      });
+    }
+
+    const saved = await upsertRosterShifts(client, shifts);
+    console.log("Roster - saved shifts:", saved.length);
+
+    return NextResponse.json({ ok: true, shifts: saved });
+  } catch (error) {
+    return exceptionResponse(error);
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    if (!isSupabaseServerConfigured) return notConfigured();
+
+    const accessToken = getAccessToken(request);
+    if (!accessToken) return notSignedIn();
+
+    const client = createSupabaseServerClient(accessToken);
+    const profile = await loadManagerProfile(client, accessToken);
+    if (!profile) return notSignedIn();
+    if (!canEditRoster(profile)) return notAllowed();
+
+    const body = (await request.json()) as Record<string, unknown>;
+    if (typeof body.id !== "number" || !Number.isFinite(body.id)) return badRequest("id is required");
+
+    await deleteRosterShift(client, body.id);
+
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    return exceptionResponse(error);
+  }
+}
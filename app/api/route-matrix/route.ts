@@ -0,0 +1,272 @@
+import { NextRequest, NextResponse } from "next/server";
+import { MAXIMUM_SEARCH_RADIUS, getProviderBaseUrl, getProviderConfig, orsRequestHeaders } from "../../lib/routingConfig";
+import { haversineKm } from "../../lib/routing";
+
+/**
+ * API Route: /api/route-matrix
+ *
+ * Returns a duration/distance matrix between N sources and M destinations so the
+ * dashboard can rank many NFOs against sites in one round trip instead of N routes.
+ *
+ * Engine order, per cell:
+ * 1. ORS matrix (POST {ors}/matrix_post) with maximum_search_radius snapping
+ * 2. OSRM table with the same radius - fills cells ORS left empty
+ * 3. Haversine straight-line distance (no duration) - fills anything still empty
+ *
+ * The ORS and OSRM backends are the first configured routing providers of each kind
+ * (see routingConfig.ts), so a self-hosted OSRM is used here too. An engine with no
+ * configured provider is skipped.
+ *
+ * Large requests are split into blocks of at most MAX_BLOCK_SIZE sources × MAX_BLOCK_SIZE
+ * destinations to stay under the engines' matrix size limits.
+ *
+ * Request:  { sources: [lng, lat][], destinations: [lng, lat][], profile?: "driving-car" }
+ * Response: { ok: true, durations, distances, engines, summary }
+ *   - durations[i][j]: seconds, or null when only straight-line distance is known
+ *   - distances[i][j]: meters (driving, or straight-line for haversine cells)
+ *   - engines[i][j]:   "ors" | "osrm" | "haversine"
+ * Failures return { ok: false, error } with 200 status for graceful handling (same as /api/ors-route).
+ */
+
+const ORS_MATRIX_PATH = "/matrix_post";
+
+const ORS_MATRIX_PROVIDER = getProviderConfig("ors");
+const OSRM_TABLE_BASE_URL = getProviderBaseUrl("osrm");
+
+// Keep each engine call to <= 100 coordinates (OSRM public table limit)
+const MAX_BLOCK_SIZE = 50;
+
+// Hard cap on total cells per request
+const MAX_CELLS = 10_000;
+
+type LngLat = [number, number];
+type MatrixEngine = "ors" | "osrm" | "haversine";
+
+type BlockResult = {
+  durations: (number | null)[][];
+  distances: (number | null)[][];
+} | null;
+
+function isValidLngLat(value: unknown): value is LngLat {
+  return (
+    Array.isArray(value) &&
+    value.length === 2 &&
+    Number.isFinite(value[0]) &&
+    Number.isFinite(value[1]) &&
+    Math.abs(value[0]) <= 180 &&
+    Math.abs(value[1]) <= 90
+  );
+}
+
+/**
+ * Call the ORS matrix endpoint for one block. Returns null if ORS fails.
+ */
+async function fetchOrsMatrixBlock(
+  sources: LngLat[],
+  destinations: LngLat[],
+  profile: string
+): Promise<BlockResult> {
+  if (!ORS_MATRIX_PROVIDER) return null;
+  try {
+    const locations = [...sources, ...destinations];
+    const orsRequestBody = {
+      locations,
+      sources: sources.map((_, i) => i),
+      destinations: destinations.map((_, j) => sources.length + j),
+      metrics: ["duration", "distance"],
+      units: "m",
+      profile,
+      options: {
+        maximum_search_radius: MAXIMUM_SEARCH_RADIUS,
+      },
+    };
+
+    const orsRes = await fetch(`${ORS_MATRIX_PROVIDER.baseUrl}${ORS_MATRIX_PATH}`, {
+      method: "POST",
+      headers: orsRequestHeaders(ORS_MATRIX_PROVIDER),
+      body: JSON.stringify(orsRequestBody),
+    });
+
+    const orsText = await orsRes.text();
+    if (!orsRes.ok) {
+      console.warn("Route matrix - ORS error:", orsRes.status, orsText.substring(0, 500));
+      return null;
+    }
+
+    const data = JSON.parse(orsText);
+    if (!Array.isArray(data.durations) || !Array.isArray(data.distances)) {
+      console.warn("Route matrix - ORS response missing durations/distances");
+      return null;
+    }
+
+    return { durations: data.durations, distances: data.distances };
+  } catch (error) {
+    console.warn("Route matrix - ORS exception:", error);
+    return null;
+  }
+}
+
+/**
+ * Call the OSRM table service for one block. Returns null if OSRM fails.
+ */
+async function fetchOsrmTableBlock(
+  sources: LngLat[],
+  destinations: LngLat[]
+): Promise<BlockResult> {
+  if (!OSRM_TABLE_BASE_URL) return null;
+  try {
+    const locations = [...sources, ...destinations];
+    const coordString = locations.map(([lng, lat]) => `${lng},${lat}`).join(";");
+    const params = new URLSearchParams({
+      sources: sources.map((_, i) => i).join(";"),
+      destinations: destinations.map((_, j) => sources.length + j).join(";"),
+      annotations: "duration,distance",
+      radiuses: locations.map(() => String(MAXIMUM_SEARCH_RADIUS)).join(";"),
+    });
+
+    const url = `${OSRM_TABLE_BASE_URL}/table/v1/driving/${coordString}?${params}`;
+    const osrmRes = await fetch(url);
+    const data = await osrmRes.json();
+
+    if (data.code !== "Ok" || !Array.isArray(data.durations)) {
+      console.warn("Route matrix - OSRM error:", data.code, data.message);
+      return null;
+    }
+
+    return {
+      durations: data.durations,
+      // Older OSRM builds ignore annotations=distance - treat as unknown
+      distances: Array.isArray(data.distances)
+        ? data.distances
+        : sources.map(() => destinations.map(() => null)),
+    };
+  } catch (error) {
+    console.warn("Route matrix - OSRM exception:", error);
+    return null;
+  }
+}
+
+function chunk<T>(items: T[], size: number): { offset: number; items: T[] }[] {
+  const chunks: { offset: number; items: T[] }[] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push({ offset: i, items: items.slice(i, i + size) });
+  }
+  return chunks;
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const { sources, destinations, profile = "driving-car" } = body ?? {};
+
+    // Validate coordinates
+    if (
+      !Array.isArray(sources) || sources.length === 0 || !sources.every(isValidLngLat) ||
+      !Array.isArray(destinations) || destinations.length === 0 || !destinations.every(isValidLngLat)
+    ) {
+      return NextResponse.json(
+        { ok: false, error: "Invalid sources/destinations: need non-empty arrays of [lng, lat]" },
+        { status: 200 }
+      );
+    }
+
+    if (sources.length * destinations.length > MAX_CELLS) {
+      return NextResponse.json(
+        { ok: false, error: `Matrix too large: ${sources.length}×${destinations.length} exceeds ${MAX_CELLS} cells` },
+        { status: 200 }
+      );
+    }
+
+    console.log("Route matrix - incoming request:", {
+      sources: sources.length,
+      destinations: destinations.length,
+      profile,
+      searchRadius: MAXIMUM_SEARCH_RADIUS,
+    });
+
+    const durations: (number | null)[][] = sources.map(() => destinations.map(() => null));
+    const distances: (number | null)[][] = sources.map(() => destinations.map(() => null));
+    const engines: (MatrixEngine | null)[][] = sources.map(() => destinations.map(() => null));
+
+    // Merge a block result into the full matrix, only filling cells that are still empty
+    const mergeBlock = (
+      block: BlockResult,
+      engine: MatrixEngine,
+      srcOffset: number,
+      dstOffset: number
+    ) => {
+      if (!block) return;
+      block.durations.forEach((row, i) => {
+        row.forEach((duration, j) => {
+          const si = srcOffset + i;
+          const dj = dstOffset + j;
+          if (engines[si][dj] != null) return;
+          if (duration == null || !Number.isFinite(duration)) return;
+          durations[si][dj] = duration;
+          distances[si][dj] = block.distances[i]?.[j] ?? null;
+          engines[si][dj] = engine;
+        });
+      });
+    };
+
+    for (const srcChunk of chunk(sources as LngLat[], MAX_BLOCK_SIZE)) {
+      for (const dstChunk of chunk(destinations as LngLat[], MAX_BLOCK_SIZE)) {
+        // 1) ORS matrix
+        const orsBlock = await fetchOrsMatrixBlock(srcChunk.items, dstChunk.items, profile);
+        mergeBlock(orsBlock, "ors", srcChunk.offset, dstChunk.offset);
+
+        // 2) OSRM table, only if ORS left gaps in this block
+        const hasGaps = srcChunk.items.some((_, i) =>
+          dstChunk.items.some((__, j) => engines[srcChunk.offset + i][dstChunk.offset + j] == null)
+        );
+        if (hasGaps) {
+          const osrmBlock = await fetchOsrmTableBlock(srcChunk.items, dstChunk.items);
+          mergeBlock(osrmBlock, "osrm", srcChunk.offset, dstChunk.offset);
+        }
+      }
+    }
+
+    // 3) Haversine fallback per cell (distance only, no ETA)
+    const summary = { ors: 0, osrm: 0, haversine: 0 };
+    const finalEngines: MatrixEngine[][] = engines.map((row, i) =>
+      row.map((engine, j) => {
+        if (engine != null) {
+          // OSRM may return a duration without a distance - backfill with straight-line
+          if (distances[i][j] == null) {
+            const [sLng, sLat] = sources[i];
+            const [dLng, dLat] = destinations[j];
+            distances[i][j] = haversineKm(sLat, sLng, dLat, dLng) * 1000;
+          }
+          summary[engine] += 1;
+          return engine;
+        }
+        const [sLng, sLat] = sources[i];
+        const [dLng, dLat] = destinations[j];
+        distances[i][j] = haversineKm(sLat, sLng, dLat, dLng) * 1000;
+        durations[i][j] = null;
+        summary.haversine += 1;
+        return "haversine";
+      })
+    );
+
+    console.log("Route matrix - result summary:", summary);
+
+    return NextResponse.json({
+      ok: true,
+      durations,
+      distances,
+      engines: finalEngines,
+      summary,
+    });
+  } catch (error) {
+    console.error("Route matrix exception:", error);
+    return NextResponse.json(
+      {
+        ok: false,
+        error: "Server exception",
+        detail: error instanceof Error ? error.message : String(error),
+      },
+      { status: 200 }
+    );
+  }
+}
@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from "next/server";
+import { routeWithAllProviders, type LngLat } from "../../lib/routingProviders";
+import {
+  BEST_ROUTE_GRACE_MS,
+  haversineKm,
+  isProviderSelectionDecided,
+  type ProviderSelectionStrategy,
+} from "../../lib/routing";
+
+/**
+ * API Route: /api/route
+ *
+ * Routes the same waypoints with every configured routing provider (ORS, OSRM,
+ * self-hosted OSRM, Valhalla, GraphHopper - see routingConfig.ts) and returns each
+ * provider's result in priority order. calculateBestRoute picks the winner.
+ * Successful provider results are cached in memory (routeCache.ts) and come back
+ * with cached: true until they expire.
+ *
+ * Providers run in parallel. The response is sent as soon as the caller's selection
+ * `strategy` is decided (isProviderSelectionDecided in routing.ts); providers still
+ * running are aborted and come back with skipped: true. "best" gives slower providers
+ * BEST_ROUTE_GRACE_MS after the first answer to beat the primary, so one slow backend
+ * doesn't hold every route click up to its timeout. If the client disconnects,
+ * every provider call is aborted.
+ *
+ * Request:  { coordinates: [lng, lat][], strategy?: "best" | "first" } (2..MAX_WAYPOINTS waypoints, in order)
+ * Response: { ok: true, results: { providerId, engine, label, route, cached?, skipped?, error? }[] }
+ *   - route: { distanceKm, durationMin, coordinates } or null when that provider failed
+ * Failures return { ok: false, error } with 200 status (same as /api/ors-route).
+ */
+
+const MAX_WAYPOINTS = 25;
+
+function isValidLngLat(value: unknown): value is LngLat {
+  return (
+    Array.isArray(value) &&
+    value.length === 2 &&
+    Number.isFinite(value[0]) &&
+    Number.isFinite(value[1]) &&
+    Math.abs(value[0]) <= 180 &&
+    Math.abs(value[1]) <= 90
+  );
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+    const coordinates = body?.coordinates;
+
+    if (
+      !Array.isArray(coordinates) ||
+      coordinates.length < 2 ||
+      coordinates.length > MAX_WAYPOINTS ||
+      !coordinates.every(isValidLngLat)
+    ) {
+      return NextResponse.json(
+        { ok: false, error: `Invalid coordinates: need 2-${MAX_WAYPOINTS} [lng, lat] waypoints` },
+        { status: 200 }
+      );
+    }
+
+    const strategy: ProviderSelectionStrategy = body?.strategy === "first" ? "first" : "best";
+
+    // Straight-line length of the whole trip - lower bound for any driving route
+    let airDistanceKm = 0;
+    for (let i = 0; i < coordinates.length - 1; i++) {
+      const [lon1, lat1] = coordinates[i];
+      const [lon2, lat2] = coordinates[i + 1];
+      airDistanceKm += haversineKm(lat1, lon1, lat2, lon2);
+    }
+
+    const results = await routeWithAllProviders(coordinates, {
+      signal: request.signal,
+      isDecided: (partial, graceExpired) =>
+        isProviderSelectionDecided(partial, airDistanceKm, strategy, graceExpired),
+      graceMs: BEST_ROUTE_GRACE_MS,
+    });
+
+    console.log(
+      "Route API - provider results:",
+      results.map((r) => ({ provider: r.providerId, km: r.route?.distanceKm ?? null, skipped: r.skipped, error: r.error }))
+    );
+
+    return NextResponse.json({ ok: true, results });
+  } catch (error) {
+    console.error("Route API exception:", error);
+    return NextResponse.json(
+      {
+        ok: false,
+        error: "Server exception",
+        detail: error instanceof Error ? error.message : String(error),
+      },
+      { status: 200 }
+    );
+  }
+}
@@ -0,0 +1,177 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createSupabaseServerClient, isSupabaseServerConfigured } from "../../../lib/supabaseServer";
+import {
+  deleteSite,
+  getAccessToken,
+  jsonWithEtag,
+  loadManagerProfile,
+  loadSites,
+  replaceSites,
+  setSiteGeofenceRadius,
+} from "../../lib/dataApi";
+import { canEditConfig } from "../../lib/auth";
+import type { SiteRecord } from "../../lib/nfoHelpers";
+import { MAX_GEOFENCE_RADIUS_M, MIN_GEOFENCE_RADIUS_M } from "../../lib/geofence";
+
+/**
+ * API Route: /api/sites
+ *
+ * All Site_Coordinates rows (paginated past the 1000-row limit) as SiteRecord,
+ * with coordinates and the optional geofence_radius_m normalised to numbers.
+ *
+ * Queries run with the caller's Supabase access token (Authorization: Bearer), so
+ * Row Level Security applies. Send If-None-Match with the last ETag to get an
+ * empty 304 when nothing changed.
+ *
+ * Response: { ok: true, sites } or { ok: false, error } with 200 status (same as /api/ors-route).
+ *
+ * Edits from the Sites admin view (admins only - canEditConfig):
+ * - POST   { sites: [{ site_id, name?, latitude, longitude, area?, geofence_radius_m? }] } → { ok: true }
+ *          (upserted on site_id - needs the unique constraint from dataApi.ts replaceSites;
+ *          a site_id repeated in the request keeps its last entry)
+ * - PATCH  { site_id, geofence_radius_m } → { ok: true } (radius in meters, null = default;
+ *          set from the dashboard's geofence panel)
+ * - DELETE { site_id } → { ok: true } (removes all rows with that site_id)
+ */
+
+const notConfigured = () =>
+  NextResponse.json(
+    { ok: false, error: "Supabase not configured (set NEXT_PUBLIC_SUPABASE_URL / NEXT_PUBLIC_SUPABASE_ANON_KEY)" },
+    { status: 200 }
+  );
+
+const notSignedIn = () => NextResponse.json({ ok: false, error: "Not signed in" }, { status: 200 });
+
+const notAllowed = () => NextResponse.json({ ok: false, error: "Only admins can edit sites" }, { status: 200 });
+
+const badRequest = (error: string) => NextResponse.json({ ok: false, error }, { status: 200 });
+
+const exceptionResponse = (error: unknown) => {
+  console.error("Sites exception:", error);
+  return NextResponse.json(
+    {
+      ok: false,
+      error: error instanceof Error ? error.message : (error as { message?: string })?.message ?? "Server exception",
+    },
+    { status: 200 }
+  );
+};
+
+const finiteOrNull = (value: unknown) => (typeof value === "number" && Number.isFinite(value) ? value : null);
+const textOrNull = (value: unknown) => (typeof value === "string" && value.trim() !== "" ? value.trim() : null);
+
+export async function GET(request: NextRequest) {
+  try {
+    if (!isSupabaseServerConfigured) return notConfigured();
+
+    const accessToken = getAccessToken(request);
+    if (!accessToken) return notSignedIn();
+
+    const sites = await loadSites(createSupabaseServerClient(accessToken));
+
+    return jsonWithEtag(request, { ok: true, sites });
+  } catch (error) {
+    return exceptionResponse(error);
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    if (!isSupabaseServerConfigured) return notConfigured();
+
+    const accessToken = getAccessToken(request);
+    if (!accessToken) return notSignedIn();
+
+    const client = createSupabaseServerClient(accessToken);
+    const profile = await loadManagerProfile(client, accessToken);
+    if (!profile) return notSignedIn();
+    if (!canEditConfig(profile)) return notAllowed();
+
+    const body = (await request.json()) as Record<string, unknown>;
+    if (!Array.isArray(body.sites) || body.sites.length === 0) return badRequest("sites are required");
+
+    const sites: SiteRecord[] = [];
+    for (const [idx, raw] of (body.sites as Record<string, unknown>[]).entries()) {
+      const siteId = textOrNull(raw?.site_id);
+      const latitude = finiteOrNull(raw?.latitude);
+      const longitude = finiteOrNull(raw?.longitude);
+      if (!siteId || latitude == null || longitude == null) {
+        return badRequest(`Site ${idx + 1}: site_id, latitude and longitude are required`);
+      }
+      if (Math.abs(latitude) > 90 || Math.abs(longitude) > 180) {
+        return badRequest(`Site ${siteId}: coordinates out of range`);
+      }
+      const radius = finiteOrNull(raw.geofence_radius_m);
+      sites.push({
+        site_id: siteId,
+        name: textOrNull(raw.name),
+        latitude,
+        longitude,
+        area: textOrNull(raw.area),
+        geofence_radius_m: radius != null && radius > 0 ? radius : null,
+      });
+    }
+
+    await replaceSites(client, sites);
+    console.log("Sites - saved:", sites.length);
+
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    return exceptionResponse(error);
+  }
+}
+
+export async function PATCH(request: NextRequest) {
+  try {
+    if (!isSupabaseServerConfigured) return notConfigured();
+
+    const accessToken = getAccessToken(request);
+    if (!accessToken) return notSignedIn();
+
+    const client = createSupabaseServerClient(accessToken);
+    const profile = await loadManagerProfile(client, accessToken);
+    if (!profile) return notSignedIn();
+    if (!canEditConfig(profile)) return notAllowed();
+
+    const body = (await request.json()) as Record<string, unknown>;
+    const siteId = textOrNull(body.site_id);
+    if (!siteId) return badRequest("site_id is required");
+
+    const radius = body.geofence_radius_m == null ? null : finiteOrNull(body.geofence_radius_m);
+    if (body.geofence_radius_m != null && (radius == null || radius < MIN_GEOFENCE_RADIUS_M || radius > MAX_GEOFENCE_RADIUS_M)) {
+      return badRequest(`geofence_radius_m must be between ${MIN_GEOFENCE_RADIUS_M} and ${MAX_GEOFENCE_RADIUS_M}, or null`);
+    }
+
+    await setSiteGeofenceRadius(client, siteId, radius);
+    console.log("Sites - geofence radius:", siteId, radius);
+
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    return exceptionResponse(error);
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    if (!isSupabaseServerConfigured) return notConfigured();
+
+    const accessToken = getAccessToken(request);
+    if (!accessToken) return notSignedIn();
+
+    const client = createSupabaseServerClient(accessToken);
+    const profile = await loadManagerProfile(client, accessToken);
+    if (!profile) return notSignedIn();
+    if (!canEditConfig(profile)) return notAllowed();
+
+    const body = (await request.json()) as Record<string, unknown>;
+    const siteId = textOrNull(body.site_id);
+    if (!siteId) return badRequest("site_id is required");
+
+    await deleteSite(client, siteId);
+    console.log("Sites - deleted:", siteId);
+
+    return NextResponse.json({ ok: true });
+  } catch (error) {
+    return exceptionResponse(error);
+  }
+}
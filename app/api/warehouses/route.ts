@@ -0,0 +1,109 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createSupabaseServerClient, isSupabaseServerConfigured } from "../../../lib/supabaseServer";
+import { getAccessToken, jsonWithEtag, loadManagerProfile, loadWarehouses, saveWarehouse } from "../../lib/dataApi";
+import { canEditConfig } from "../../lib/auth";
+import { normalizeOpeningHours } from "../../lib/warehouses";
+
+/**
+ * API Route: /api/warehouses
+ *
+ * All warehouses as WarehouseRecord with coordinates normalised to numbers, plus
+ * the optional opening_hours and areas columns (see warehouses.ts).
+ *
+ * Queries run with the caller's Supabase access token (Authorization: Bearer), so
+ * Row Level Security applies. Send If-None-Match with the last ETag to get an
+ * empty 304 when nothing changed.
+ *
+ * Response: { ok: true, warehouses } or { ok: false, error } with 200 status (same as /api/ors-route).
+ *
+ * Edits from the Warehouses view (admins only - canEditConfig):
+ * - POST { warehouse: { id?, name, region?, latitude, longitude, is_active, opening_hours?, areas? } }
+ *        → { ok: true, warehouse } (no id = new warehouse)
+ */
+
+const notConfigured = () =>
+  NextResponse.json(
+    { ok: false, error: "Supabase not configured (set NEXT_PUBLIC_SUPABASE_URL / NEXT_PUBLIC_SUPABASE_ANON_KEY)" },
+    { status: 200 }
+  );
+
+const notSignedIn = () => NextResponse.json({ ok: false, error: "Not signed in" }, { status: 200 });
+
+const notAllowed = () => NextResponse.json({ ok: false, error: "Only admins can edit warehouses" }, { status: 200 });
+
+const badRequest = (error: string) => NextResponse.json({ ok: false, error }, { status: 200 });
+
+const exceptionResponse = (error: unknown) => {
+  console.error("Warehouses exception:", error);
+  return NextResponse.json(
+    {
+      ok: false,
+      error: error instanceof Error ? error.message : (error as { message?: string })?.message ?? "Server exception",
+    },
+    { status: 200 }
+  );
+};
+
+const finiteOrNull = (value: unknown) => (typeof value === "number" && Number.isFinite(value) ? value : null);
+const textOrNull = (value: unknown) => (typeof value === "string" && value.trim() !== "" ? value.trim() : null);
+
+export async function GET(request: NextRequest) {
+  try {
+    if (!isSupabaseServerConfigured) return notConfigured();
+
+    const accessToken = getAccessToken(request);
+    if (!accessToken) return notSignedIn();
+
+    const warehouses = await loadWarehouses(createSupabaseServerClient(accessToken));
+
+    return jsonWithEtag(request, { ok: true, warehouses });
+  } catch (error) {
+    return exceptionResponse(error);
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    if (!isSupabaseServerConfigured) return notConfigured();
+
+    const accessToken = getAccessToken(request);
+    if (!accessToken) return notSignedIn();
+
+    const client = createSupabaseServerClient(accessToken);
+    const profile = await loadManagerProfile(client, accessToken);
+    if (!profile) return notSignedIn();
+    if (!canEditConfig(profile)) return notAllowed();
+
+    const body = (await request.json()) as Record<string, unknown>;
+    const raw = body.warehouse as Record<string, unknown> | undefined;
+    if (!raw || typeof raw !== "object") return badRequest("warehouse is required");
+
+    const name = textOrNull(raw.name);
+    const latitude = finiteOrNull(raw.latitude);
+    const longitude = finiteOrNull(raw.longitude);
+    if (!name || latitude == null || longitude == null) {
+      return badRequest("name, latitude and longitude are required");
+    }
+    if (Math.abs(latitude) > 90 || Math.abs(longitude) > 180) {
+      return badRequest("coordinates out of range");
+    }
+
+    const warehouse = await saveWarehouse(client, {
+      id: finiteOrNull(raw.id),
+      name,
+      region: textOrNull(raw.region),
+      latitude,
+      longitude,
+      is_active: raw.is_active !== false,
+      opening_hours: normalizeOpeningHours(raw.opening_hours),
+      areas: Array.isArray(raw.areas)
+        ? Array.from(new Set(raw.areas.map(textOrNull).filter((a): a is string => a != null)))
+        : null,
+    });
+    console.log("Warehouses - saved:", warehouse.id, warehouse.name);
+
+    return NextResponse.json({ ok: true, warehouse });
+  } catch (error) {
+    return exceptionResponse(error);
+  }
+}
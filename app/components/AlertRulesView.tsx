@@ -0,0 +1,351 @@
+"use client";
+
+import { useState, useMemo } from "react";
+import {
+  ALERT_RULE_KINDS,
+  ALERT_SNOOZE_OPTIONS_MINUTES,
+  createAlertRule,
+  getAlertVisibility,
+  type AlertAckState,
+  type AlertRule,
+  type AlertRuleKind,
+  type AlertSeverity,
+  type FiringAlert,
+} from "../lib/alertRules";
+
+/**
+ * AlertRulesView - edit per-area alert rules and work the list of firing alerts.
+ *
+ * Rules and ack/snooze state are owned (and persisted) by page.tsx; this view
+ * only renders them and reports edits through the callbacks.
+ */
+interface AlertRulesViewProps {
+  rules: AlertRule[];
+  onRulesChange: (next: AlertRule[]) => void;
+  alerts: FiringAlert[];
+  acks: AlertAckState;
+  onAcknowledge: (alertId: string) => void;
+  onSnooze: (alertId: string, minutes: number) => void;
+  onReopen: (alertId: string) => void;
+  areas: string[];
+  now: number; // evaluation time from the parent's alert clock
+  canEditRules: boolean;   // admin only
+  canActOnAlerts: boolean; // acknowledge / snooze / reopen
+}
+
+const SEVERITY_STYLES: Record<AlertSeverity, string> = {
+  critical: "bg-red-100 text-red-700 border-red-300",
+  warning: "bg-amber-100 text-amber-700 border-amber-300",
+  info: "bg-sky-100 text-sky-700 border-sky-300",
+};
+
+export default function AlertRulesView({
+  rules,
+  onRulesChange,
+  alerts,
+  acks,
+  onAcknowledge,
+  onSnooze,
+  onReopen,
+  areas,
+  now,
+  canEditRules,
+  canActOnAlerts,
+}: AlertRulesViewProps) {
+  const [showHandled, setShowHandled] = useState(false);
+  const [newRuleKind, setNewRuleKind] = useState<AlertRuleKind>("stuck");
+  const [newRuleArea, setNewRuleArea] = useState("");
+
+  // Split firing alerts by acknowledge/snooze state
+  const { active, handled } = useMemo(() => {
+    const activeAlerts: FiringAlert[] = [];
+    const handledAlerts: FiringAlert[] = [];
+    for (const alert of alerts) {
+      if (getAlertVisibility(acks[alert.id], now) === "active") {
+        activeAlerts.push(alert);
+      } else {
+        handledAlerts.push(alert);
+      }
+    }
+    return { active: activeAlerts, handled: handledAlerts };
+  }, [alerts, acks, now]);
+
+  const updateRule = (id: string, patch: Partial<AlertRule>) => {
+    onRulesChange(rules.map((r) => (r.id === id ? { ...r, ...patch } : r)));
+  };
+
+  const removeRule = (id: string) => {
+    onRulesChange(rules.filter((r) => r.id !== id));
+  };
+
+  const addRule = () => {
+    onRulesChange([...rules, createAlertRule(newRuleKind, newRuleArea || null)]);
+  };
+
+  // Global rules first, then by area, then by kind
+  const sortedRules = [...rules].sort(
+    (a, b) =>
+      (a.area ?? "").localeCompare(b.area ?? "") ||
+      a.kind.localeCompare(b.kind)
+  );
+
+  const renderAlert = (alert: FiringAlert) => {
+    const visibility = getAlertVisibility(acks[alert.id], now);
+    const ack = acks[alert.id];
+    return (
+      <tr key={alert.id} className={`border-b last:border-b-0 ${visibility !== "active" ? "opacity-60" : ""}`}>
+        <td className="py-2 px-2">
+          <span className={`text-xs font-semibold px-2 py-0.5 rounded border ${SEVERITY_STYLES[alert.rule.severity]}`}>
+            {alert.rule.severity}
+          </span>
+        </td>
+        <td className="py-2 px-2">
+          <div className="font-mono text-xs">{alert.username}</div>
+          <div className="text-xs text-slate-500">{alert.name ?? ""}</div>
+        </td>
+        <td className="py-2 px-2 text-xs">{alert.area ?? "-"}</td>
+        <td className="py-2 px-2 text-xs">
+          <div className="font-semibold text-slate-700">{ALERT_RULE_KINDS[alert.rule.kind].label}</div>
+          <div className="text-slate-600">{alert.message}</div>
+        </td>
+        <td className="py-2 px-2 text-xs whitespace-nowrap">
+          {!canActOnAlerts ? (
+            <span className="text-slate-400">
+              {visibility === "active" ? "-" : visibility === "snoozed" ? "Snoozed" : "Acknowledged"}
+            </span>
+          ) : visibility === "active" ? (
+            <div className="flex flex-wrap gap-1">
+              <button
+                onClick={() => onAcknowledge(alert.id)}
+                className="px-2 py-0.5 rounded bg-emerald-600 text-white font-semibold hover:bg-emerald-700"
+              >
+                Acknowledge
+              </button>
+              {ALERT_SNOOZE_OPTIONS_MINUTES.map((minutes) => (
+                <button
+                  key={minutes}
+                  onClick={() => onSnooze(alert.id, minutes)}
+                  className="px-2 py-0.5 rounded bg-slate-200 text-slate-700 hover:bg-slate-300"
+                >
+                  Snooze {minutes >= 60 ? `${minutes / 60}h` : `${minutes}m`}
+                </button>
+              ))}
+            </div>
+          ) : (
+            <div className="flex items-center gap-2">
+              <span className="text-slate-500">
+                {visibility === "snoozed" && ack?.snoozedUntil
+                  ? `Snoozed until ${new Date(ack.snoozedUntil).toLocaleTimeString()}`
+                  : `Acknowledged ${ack?.acknowledgedAt ? new Date(ack.acknowledgedAt).toLocaleTimeString() : ""}`}
+              </span>
+              <button onClick={() => onReopen(alert.id)} className="text-sky-600 hover:underline">
+                Reopen
+              </button>
+            </div>
+          )}
+        </td>
+      </tr>
+    );
+  };
+
+  return (
+    <div className="max-w-6xl mx-auto space-y-6">
+      <header className="flex items-center justify-between">
+        <h1 className="text-2xl font-bold">Alert rules</h1>
+        <span className="text-xs text-gray-500">
+          {active.length} active · {handled.length} acknowledged/snoozed
+        </span>
+      </header>
+
+      {/* Firing alerts */}
+      <section className="bg-white rounded-xl shadow p-4">
+        <div className="flex items-center justify-between mb-3">
+          <h2 className="text-lg font-semibold">Firing alerts</h2>
+          <label className="flex items-center gap-2 text-xs text-slate-600">
+            <input type="checkbox" checked={showHandled} onChange={(e) => setShowHandled(e.target.checked)} />
+            Show acknowledged / snoozed
+          </label>
+        </div>
+        {active.length === 0 && (!showHandled || handled.length === 0) ? (
+          <div className="text-sm text-slate-400">No alerts firing.</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="border-b bg-slate-50">
+                  <th className="text-left py-2 px-2">Severity</th>
+                  <th className="text-left py-2 px-2">NFO</th>
+                  <th className="text-left py-2 px-2">Area</th>
+                  <th className="text-left py-2 px-2">Alert</th>
+                  <th className="text-left py-2 px-2">Action</th>
+                </tr>
+              </thead>
+              <tbody>
+                {active.map(renderAlert)}
+                {showHandled && handled.map(renderAlert)}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </section>
+
+      {/* Rule editor */}
+      <section className="bg-white rounded-xl shadow p-4">
+        <h2 className="text-lg font-semibold mb-1">Rules</h2>
+        <p className="text-xs text-slate-500 mb-3">
+          Area rules replace the global rule of the same kind for NFOs in that area. The silence threshold also
+          sets the dashboard&apos;s Not Active flag; NFOs count as online for half of it.
+        </p>
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="border-b bg-slate-50">
+                <th className="text-left py-2 px-2">On</th>
+                <th className="text-left py-2 px-2">Rule</th>
+                <th className="text-left py-2 px-2">Area</th>
+                <th className="text-left py-2 px-2">Severity</th>
+                <th className="text-left py-2 px-2">Condition</th>
+                <th className="py-2 px-2"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {sortedRules.map((rule) => {
+                const meta = ALERT_RULE_KINDS[rule.kind];
+                return (
+                  <tr key={rule.id} className="border-b last:border-b-0">
+                    <td className="py-2 px-2">
+                      <input
+                        type="checkbox"
+                        checked={rule.enabled}
+                        disabled={!canEditRules}
+                        onChange={(e) => updateRule(rule.id, { enabled: e.target.checked })}
+                      />
+                    </td>
+                    <td className="py-2 px-2">
+                      <div className="font-semibold text-slate-700">{meta.label}</div>
+                      <div className="text-xs text-slate-500">{meta.description}</div>
+                    </td>
+                    <td className="py-2 px-2">
+                      <select
+                        value={rule.area ?? ""}
+                        disabled={!canEditRules}
+                        onChange={(e) => updateRule(rule.id, { area: e.target.value || null })}
+                        className="border rounded-md px-2 py-1 text-xs"
+                      >
+                        <option value="">All areas</option>
+                        {areas.map((area) => (
+                          <option key={area} value={area}>
+                            {area}
+                          </option>
+                        ))}
+                      </select>
+                    </td>
+                    <td className="py-2 px-2">
+                      <select
+                        value={rule.severity}
+                        disabled={!canEditRules}
+                        onChange={(e) => updateRule(rule.id, { severity: e.target.value as AlertSeverity })}
+                        className="border rounded-md px-2 py-1 text-xs"
+                      >
+                        <option value="critical">critical</option>
+                        <option value="warning">warning</option>
+                        <option value="info">info</option>
+                      </select>
+                    </td>
+                    <td className="py-2 px-2 text-xs">
+                      {meta.usesThreshold && (
+                        <label className="flex items-center gap-1">
+                          &gt;
+                          <input
+                            type="number"
+                            min={1}
+                            value={rule.thresholdMinutes ?? ""}
+                            disabled={!canEditRules}
+                            onChange={(e) => {
+                              const value = parseFloat(e.target.value);
+                              updateRule(rule.id, { thresholdMinutes: Number.isFinite(value) && value > 0 ? value : null });
+                            }}
+                            className="border rounded-md px-2 py-1 w-20"
+                          />
+                          min
+                        </label>
+                      )}
+                      {meta.usesHours && (
+                        <label className="flex items-center gap-1">
+                          Hours
+                          <input
+                            type="time"
+                            value={rule.shiftStart ?? ""}
+                            disabled={!canEditRules}
+                            onChange={(e) => updateRule(rule.id, { shiftStart: e.target.value || null })}
+                            className="border rounded-md px-1 py-1"
+                          />
+                          –
+                          <input
+                            type="time"
+                            value={rule.shiftEnd ?? ""}
+                            disabled={!canEditRules}
+                            onChange={(e) => updateRule(rule.id, { shiftEnd: e.target.value || null })}
+                            className="border rounded-md px-1 py-1"
+                          />
+                        </label>
+                      )}
+                      {!meta.usesThreshold && !meta.usesHours && <span className="text-slate-400">-</span>}
+                    </td>
+                    <td className="py-2 px-2 text-right">
+                      {canEditRules && (
+                        <button
+                          onClick={() => removeRule(rule.id)}
+                          className="text-slate-400 hover:text-red-600 px-1"
+                          title="Delete rule"
+                        >
+                          ✕
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+
+        {canEditRules ? (
+          <div className="flex flex-wrap items-center gap-2 mt-4 text-sm">
+            <select
+              value={newRuleKind}
+              onChange={(e) => setNewRuleKind(e.target.value as AlertRuleKind)}
+              className="border rounded-md px-2 py-1"
+            >
+              {(Object.keys(ALERT_RULE_KINDS) as AlertRuleKind[]).map((kind) => (
+                <option key={kind} value={kind}>
+                  {ALERT_RULE_KINDS[kind].label}
+                </option>
+              ))}
+            </select>
+            <select
+              value={newRuleArea}
+              onChange={(e) => setNewRuleArea(e.target.value)}
+              className="border rounded-md px-2 py-1"
+            >
+              <option value="">All areas</option>
+              {areas.map((area) => (
+                <option key={area} value={area}>
+                  {area}
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={addRule}
+              className="px-3 py-1 rounded-md bg-sky-600 text-white font-medium hover:bg-sky-700"
+            >
+              Add rule
+            </button>
+          </div>
+        ) : (
+          <p className="text-xs text-slate-400 mt-4">Only admins can change alert rules.</p>
+        )}
+      </section>
+    </div>
+  );
+}
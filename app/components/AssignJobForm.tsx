@@ -0,0 +1,127 @@
+"use client";
+
+import { useState, useCallback } from "react";
+import type { NewAssignmentInput, NfoAssignment } from "../lib/assignments";
+import { createAssignment } from "../lib/dataClient";
+import { DEFAULT_JOB_PRIORITY, JOB_PRIORITIES, JOB_PRIORITY_LABELS, type JobPriority } from "../lib/sla";
+
+/**
+ * AssignJobForm - sends a planned route to the NFO's Android app as an
+ * nfo_assignments job with a priority (sets its SLA deadlines) and optional notes.
+ *
+ * `buildInput` is called at submit time so the ETA and SLA clocks start from the
+ * moment the job is sent. `compact` renders just a priority and a button
+ * (dispatch shortlist rows); the full form adds ticket reference and notes
+ * (Route Planner, Assignments view).
+ */
+export type AssignJobFields = {
+  notes: string;
+  priority: JobPriority;
+  ticketRef: string;
+};
+
+interface AssignJobFormProps {
+  buildInput: (fields: AssignJobFields) => NewAssignmentInput;
+  onCreated?: (assignment: NfoAssignment) => void;
+  compact?: boolean;
+}
+
+export default function AssignJobForm({ buildInput, onCreated, compact = false }: AssignJobFormProps) {
+  const [notes, setNotes] = useState("");
+  const [priority, setPriority] = useState<JobPriority>(DEFAULT_JOB_PRIORITY);
+  const [ticketRef, setTicketRef] = useState("");
+  const [sending, setSending] = useState(false);
+  const [created, setCreated] = useState<NfoAssignment | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleAssign = useCallback(async () => {
+    setSending(true);
+    setError(null);
+    try {
+      const assignment = await createAssignment(buildInput({ notes, priority, ticketRef }));
+      setCreated(assignment);
+      setNotes("");
+      setTicketRef("");
+      onCreated?.(assignment);
+    } catch (err) {
+      console.warn("[Assignments] Create failed:", err);
+      setError(err instanceof Error ? err.message : "Could not assign job");
+    } finally {
+      setSending(false);
+    }
+  }, [buildInput, notes, priority, ticketRef, onCreated]);
+
+  const prioritySelect = (
+    <select
+      value={priority}
+      onChange={(e) => setPriority(e.target.value as JobPriority)}
+      className={
+        compact
+          ? "border border-slate-300 rounded px-1 py-0.5 text-[11px]"
+          : "w-full border border-slate-300 rounded-lg px-2 py-1 text-xs focus:outline-none focus:ring-2 focus:ring-sky-500"
+      }
+      title="Job priority (sets the SLA deadlines)"
+    >
+      {JOB_PRIORITIES.map((p) => (
+        <option key={p} value={p}>
+          {compact ? p : JOB_PRIORITY_LABELS[p]}
+        </option>
+      ))}
+    </select>
+  );
+
+  if (compact) {
+    return (
+      <span className="inline-flex flex-col items-end">
+        <span className="inline-flex items-center gap-1">
+          {!created && prioritySelect}
+          <button
+            onClick={handleAssign}
+            disabled={sending || !!created}
+            className="px-2 py-0.5 rounded bg-emerald-600 text-white text-[11px] font-semibold hover:bg-emerald-700 disabled:bg-slate-300"
+            title={error ?? "Send this site to the NFO's app"}
+          >
+            {sending ? "Assigning…" : created ? `✓ Job #${created.id}` : "Assign"}
+          </button>
+        </span>
+        {error && <span className="text-[10px] text-red-600">Assign failed</span>}
+      </span>
+    );
+  }
+
+  return (
+    <div className="border-t border-slate-100 pt-3 space-y-2 text-xs">
+      <p className="font-medium text-slate-700">Send to NFO app</p>
+      <div className="flex gap-2">
+        {prioritySelect}
+        <input
+          type="text"
+          value={ticketRef}
+          onChange={(e) => setTicketRef(e.target.value)}
+          placeholder="Ticket ref (optional)"
+          className="w-full border border-slate-300 rounded-lg px-2 py-1 text-xs focus:outline-none focus:ring-2 focus:ring-sky-500"
+        />
+      </div>
+      <textarea
+        value={notes}
+        onChange={(e) => setNotes(e.target.value)}
+        placeholder="Notes for the engineer (optional)"
+        rows={2}
+        className="w-full border border-slate-300 rounded-lg px-2 py-1 text-xs focus:outline-none focus:ring-2 focus:ring-sky-500"
+      />
+      <button
+        onClick={handleAssign}
+        disabled={sending}
+        className="w-full py-1.5 rounded font-medium text-xs transition bg-emerald-600 text-white hover:bg-emerald-700 disabled:bg-slate-300"
+      >
+        {sending ? "Assigning…" : "Assign job"}
+      </button>
+      {created && (
+        <p className="text-emerald-700">
+          ✓ Job #{created.id} assigned to {created.username} – track it under Assignments.
+        </p>
+      )}
+      {error && <p className="text-red-600">{error}</p>}
+    </div>
+  );
+}
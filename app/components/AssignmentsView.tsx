@@ -0,0 +1,302 @@
+"use client";
+
+import { useState, useMemo } from "react";
+import { getSiteById, type NfoStatusRow, type SiteRecord } from "../lib/nfoHelpers";
+import {
+  ASSIGNMENT_STATUS_LABELS,
+  buildAssignmentInput,
+  isOpenAssignment,
+  type AssignmentStatus,
+  type NfoAssignment,
+} from "../lib/assignments";
+import { evaluateJobSla, formatSlaRemaining, type SlaClock } from "../lib/sla";
+import AssignJobForm, { type AssignJobFields } from "./AssignJobForm";
+
+/**
+ * AssignmentsView - jobs sent to the Android app and where each one is in its
+ * lifecycle (assigned → accepted → en route → on site → done).
+ *
+ * Assignments are loaded and advanced from heartbeats by page.tsx; this view
+ * renders them with the NFO's latest heartbeat and SLA state, reports manual
+ * changes (cancel / mark done) through `onUpdateStatus`, and can open a job
+ * without a planned route (e.g. a ticket phoned in).
+ */
+interface AssignmentsViewProps {
+  assignments: NfoAssignment[];
+  nfos: NfoStatusRow[];
+  sites: SiteRecord[];
+  onUpdateStatus: (assignment: NfoAssignment, status: AssignmentStatus) => void;
+  onAssignmentCreated: (assignment: NfoAssignment) => void;
+  now: number; // for overdue ETAs and SLA countdowns
+  canManage: boolean; // cancel / mark done
+  error: string | null;
+}
+
+const STATUS_STYLES: Record<AssignmentStatus, string> = {
+  assigned: "bg-slate-100 text-slate-700 border-slate-300",
+  accepted: "bg-sky-100 text-sky-700 border-sky-300",
+  en_route: "bg-indigo-100 text-indigo-700 border-indigo-300",
+  on_site: "bg-amber-100 text-amber-700 border-amber-300",
+  done: "bg-emerald-100 text-emerald-700 border-emerald-300",
+  cancelled: "bg-gray-100 text-gray-500 border-gray-300",
+};
+
+const TIMELINE: { status: AssignmentStatus; key: keyof NfoAssignment }[] = [
+  { status: "assigned", key: "created_at" },
+  { status: "accepted", key: "accepted_at" },
+  { status: "en_route", key: "en_route_at" },
+  { status: "on_site", key: "on_site_at" },
+  { status: "done", key: "done_at" },
+  { status: "cancelled", key: "cancelled_at" },
+];
+
+const slaText = (label: string, clock: SlaClock) => {
+  if (clock.state === "none") return null;
+  const text =
+    clock.state === "met"
+      ? "met"
+      : clock.remainingMs != null
+      ? formatSlaRemaining(clock.remainingMs)
+      : "breached";
+  const color =
+    clock.state === "breached"
+      ? "text-red-600 font-semibold"
+      : clock.state === "at_risk"
+      ? "text-amber-600"
+      : clock.state === "met"
+      ? "text-emerald-700"
+      : "text-slate-600";
+  return (
+    <div className={color}>
+      {label}: {text}
+    </div>
+  );
+};
+
+const formatTime = (iso: string | null) =>
+  iso ? new Date(iso).toLocaleString([], { month: "short", day: "numeric", hour: "2-digit", minute: "2-digit" }) : "-";
+
+export default function AssignmentsView({
+  assignments,
+  nfos,
+  sites,
+  onUpdateStatus,
+  onAssignmentCreated,
+  now,
+  canManage,
+  error,
+}: AssignmentsViewProps) {
+  const [showClosed, setShowClosed] = useState(false);
+  const [newJobUsername, setNewJobUsername] = useState("");
+  const [newJobSiteId, setNewJobSiteId] = useState("");
+
+  const newJobSite = getSiteById(sites, newJobSiteId);
+
+  // Job without a planned route - the app navigates to the site itself
+  const buildNewJob = ({ notes, priority, ticketRef }: AssignJobFields) =>
+    buildAssignmentInput({
+      username: newJobUsername,
+      siteId: newJobSite?.site_id ?? newJobSiteId.trim(),
+      warehouse: null,
+      route: null,
+      notes,
+      priority,
+      ticketRef,
+      now: Date.now(),
+    });
+
+  const heartbeatByUser = useMemo(() => new Map(nfos.map((n) => [n.username, n])), [nfos]);
+
+  const { open, closed } = useMemo(() => {
+    const openAssignments: NfoAssignment[] = [];
+    const closedAssignments: NfoAssignment[] = [];
+    for (const a of assignments) {
+      (isOpenAssignment(a) ? openAssignments : closedAssignments).push(a);
+    }
+    return { open: openAssignments, closed: closedAssignments };
+  }, [assignments]);
+
+  const renderAssignment = (a: NfoAssignment) => {
+    const heartbeat = heartbeatByUser.get(a.username);
+    const etaMs = a.eta_at ? new Date(a.eta_at).getTime() : null;
+    const overdue =
+      etaMs != null && now > etaMs && (a.status === "assigned" || a.status === "accepted" || a.status === "en_route");
+    const sla = evaluateJobSla(a, now);
+
+    return (
+      <tr key={a.id} className={`border-b last:border-b-0 align-top ${isOpenAssignment(a) ? "" : "opacity-60"}`}>
+        <td className="py-2 px-2 text-xs">
+          <div className="font-mono">#{a.id}</div>
+          <div className="font-semibold text-slate-700">{a.priority}</div>
+          {a.ticket_ref && <div className="text-slate-500">{a.ticket_ref}</div>}
+        </td>
+        <td className="py-2 px-2">
+          <div className="font-mono text-xs">{a.username}</div>
+          <div className="text-xs text-slate-500">{heartbeat?.name ?? ""}</div>
+        </td>
+        <td className="py-2 px-2 text-xs">
+          <div className="font-mono">{a.site_id}</div>
+          {a.warehouse_name && <div className="text-slate-500">via {a.warehouse_name}</div>}
+        </td>
+        <td className="py-2 px-2">
+          <span className={`text-xs font-semibold px-2 py-0.5 rounded border ${STATUS_STYLES[a.status]}`}>
+            {ASSIGNMENT_STATUS_LABELS[a.status]}
+          </span>
+        </td>
+        <td className="py-2 px-2 text-xs whitespace-nowrap">
+          {a.eta_at ? (
+            <span className={overdue ? "text-red-600 font-semibold" : "text-slate-700"}>
+              {formatTime(a.eta_at)}
+              {overdue && " (late)"}
+            </span>
+          ) : (
+            <span className="text-slate-400">-</span>
+          )}
+          {a.route_distance_km != null && (
+            <div className="text-slate-500">
+              {a.route_distance_km.toFixed(1)} km{a.eta_min != null ? `, ${Math.round(a.eta_min)} min` : " (air)"}
+            </div>
+          )}
+        </td>
+        <td className="py-2 px-2 text-[11px] whitespace-nowrap">
+          {slaText("Response", sla.response)}
+          {slaText("Restore", sla.restore)}
+        </td>
+        <td className="py-2 px-2 text-[11px] text-slate-600">
+          {TIMELINE.filter((step) => a[step.key]).map((step) => (
+            <div key={step.status}>
+              {ASSIGNMENT_STATUS_LABELS[step.status]}: {formatTime(a[step.key] as string)}
+            </div>
+          ))}
+        </td>
+        <td className="py-2 px-2 text-xs text-slate-600">
+          <div>{heartbeat?.activity || "-"}</div>
+          <div className="text-slate-400">
+            site {heartbeat?.site_id || "-"} · {formatTime(heartbeat?.last_active_at ?? null)}
+          </div>
+        </td>
+        <td className="py-2 px-2 text-xs text-slate-600 max-w-48 break-words">{a.notes ?? "-"}</td>
+        <td className="py-2 px-2 text-xs whitespace-nowrap">
+          {canManage && isOpenAssignment(a) ? (
+            <div className="flex flex-col gap-1">
+              <button
+                onClick={() => onUpdateStatus(a, "done")}
+                className="px-2 py-0.5 rounded bg-emerald-600 text-white font-semibold hover:bg-emerald-700"
+              >
+                Mark done
+              </button>
+              <button
+                onClick={() => onUpdateStatus(a, "cancelled")}
+                className="px-2 py-0.5 rounded bg-slate-200 text-slate-700 hover:bg-slate-300"
+              >
+                Cancel
+              </button>
+            </div>
+          ) : (
+            <span className="text-slate-400">-</span>
+          )}
+        </td>
+      </tr>
+    );
+  };
+
+  return (
+    <div className="max-w-6xl mx-auto space-y-6">
+      <header className="flex items-center justify-between">
+        <h1 className="text-2xl font-bold">Assignments</h1>
+        <span className="text-xs text-gray-500">
+          {open.length} open · {closed.length} done/cancelled (last 7 days)
+        </span>
+      </header>
+
+      {error && (
+        <div className="bg-orange-50 border border-orange-200 text-orange-700 rounded-lg p-3 text-sm">
+          ⚠️ {error}
+        </div>
+      )}
+
+      <section className="bg-white rounded-xl shadow p-4">
+        <div className="flex items-center justify-between mb-1">
+          <h2 className="text-lg font-semibold">Jobs</h2>
+          <label className="flex items-center gap-2 text-xs text-slate-600">
+            <input type="checkbox" checked={showClosed} onChange={(e) => setShowClosed(e.target.checked)} />
+            Show done / cancelled
+          </label>
+        </div>
+        <p className="text-xs text-slate-500 mb-3">
+          Assign jobs from the Route Planner or the Live Map dispatch shortlist. Status follows the NFO&apos;s
+          heartbeats: reporting the site accepts the job, and the app&apos;s activity moves it to en route, on site
+          and done.
+        </p>
+        {open.length === 0 && (!showClosed || closed.length === 0) ? (
+          <div className="text-sm text-slate-400">No open assignments.</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="border-b bg-slate-50">
+                  <th className="text-left py-2 px-2">Job</th>
+                  <th className="text-left py-2 px-2">NFO</th>
+                  <th className="text-left py-2 px-2">Site</th>
+                  <th className="text-left py-2 px-2">Status</th>
+                  <th className="text-left py-2 px-2">Planned arrival</th>
+                  <th className="text-left py-2 px-2">SLA</th>
+                  <th className="text-left py-2 px-2">Timeline</th>
+                  <th className="text-left py-2 px-2">Latest heartbeat</th>
+                  <th className="text-left py-2 px-2">Notes</th>
+                  <th className="text-left py-2 px-2">Action</th>
+                </tr>
+              </thead>
+              <tbody>
+                {open.map(renderAssignment)}
+                {showClosed && closed.map(renderAssignment)}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </section>
+
+      {canManage && (
+        <section className="bg-white rounded-xl shadow p-4 max-w-md">
+          <h2 className="text-lg font-semibold mb-1">New job</h2>
+          <p className="text-xs text-slate-500 mb-3">
+            Open a job without a planned route. Use the Route Planner to send a route with the job.
+          </p>
+          <div className="space-y-2 text-sm">
+            <select
+              value={newJobUsername}
+              onChange={(e) => setNewJobUsername(e.target.value)}
+              className="w-full border border-slate-300 rounded-lg px-3 py-2 text-sm"
+            >
+              <option value="">Select an NFO...</option>
+              {[...nfos]
+                .sort((x, y) => x.username.localeCompare(y.username))
+                .map((n) => (
+                  <option key={n.username} value={n.username}>
+                    {n.username} – {n.name || "Unnamed"}
+                  </option>
+                ))}
+            </select>
+            <input
+              type="text"
+              value={newJobSiteId}
+              onChange={(e) => setNewJobSiteId(e.target.value)}
+              placeholder="Site ID"
+              className="w-full border border-slate-300 rounded-lg px-3 py-2 text-sm"
+            />
+            {newJobSiteId.trim() !== "" && !newJobSite && (
+              <p className="text-xs text-orange-600">Unknown site ID</p>
+            )}
+          </div>
+          {newJobUsername && newJobSite && (
+            <AssignJobForm
+              key={`${newJobUsername}-${newJobSite.site_id}`}
+              buildInput={buildNewJob}
+              onCreated={onAssignmentCreated}
+            />
+          )}
+        </section>
+      )}
+    </div>
+  );
+}
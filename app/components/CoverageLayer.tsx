@@ -0,0 +1,145 @@
+"use client";
+
+import { Polygon, CircleMarker, Tooltip } from "react-leaflet";
+import type { SiteRecord } from "../lib/nfoHelpers";
+import {
+  ISOCHRONE_BANDS_MIN,
+  ISOCHRONE_BAND_COLORS,
+  type IsochronePolygon,
+  type SiteCoverage,
+} from "../lib/coverage";
+
+/**
+ * CoverageLayer - Live Map overlay for the response-time coverage (coverage.ts):
+ * drive-time isochrones around the free on-shift NFOs, widest band underneath,
+ * plus a red ring on every site none of them can reach in the largest band.
+ *
+ * CoveragePanel is the matching side-panel block: the toggle, a band legend and
+ * uncovered sites per area (click an area to filter the map to it).
+ */
+interface CoverageLayerProps {
+  polygons: IsochronePolygon[];
+  sites: SiteRecord[]; // sites currently shown on the map
+  coverage: SiteCoverage | null;
+}
+
+export default function CoverageLayer({ polygons, sites, coverage }: CoverageLayerProps) {
+  // Widest band first so the faster bands stay visible on top
+  const ordered = [...polygons].sort((a, b) => b.rangeMin - a.rangeMin);
+  const uncoveredSites = coverage ? sites.filter((s) => coverage.bandBySiteId.get(s.site_id) === null) : [];
+
+  return (
+    <>
+      {ordered.map((p, idx) => (
+        <Polygon
+          key={`iso-${p.sourceIndex}-${p.rangeMin}-${idx}`}
+          positions={p.ring.map(([lng, lat]) => [lat, lng] as [number, number])}
+          pathOptions={{
+            color: ISOCHRONE_BAND_COLORS[p.rangeMin] ?? "#64748b",
+            weight: 1,
+            opacity: 0.5,
+            fillOpacity: 0.12,
+          }}
+          interactive={false}
+        />
+      ))}
+      {uncoveredSites.map((site, idx) => (
+        <CircleMarker
+          key={`uncovered-${site.site_id}-${idx}`}
+          center={[site.latitude as number, site.longitude as number]}
+          radius={7}
+          pathOptions={{ color: "#dc2626", weight: 2, fillColor: "#fecaca", fillOpacity: 0.8 }}
+        >
+          <Tooltip>
+            {site.site_id} – no free NFO within {ISOCHRONE_BANDS_MIN[ISOCHRONE_BANDS_MIN.length - 1]} min
+          </Tooltip>
+        </CircleMarker>
+      ))}
+    </>
+  );
+}
+
+interface CoveragePanelProps {
+  enabled: boolean;
+  onToggle: () => void;
+  loading: boolean;
+  error: string | null;
+  sourceCount: number;     // free on-shift NFOs used
+  estimatedCount: number;  // of those, drawn as straight-line buffers
+  coverage: SiteCoverage | null;
+  onAreaSelect: (area: string) => void;
+}
+
+export function CoveragePanel({
+  enabled,
+  onToggle,
+  loading,
+  error,
+  sourceCount,
+  estimatedCount,
+  coverage,
+  onAreaSelect,
+}: CoveragePanelProps) {
+  const maxBand = ISOCHRONE_BANDS_MIN[ISOCHRONE_BANDS_MIN.length - 1];
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-3 text-xs">
+      <button
+        onClick={onToggle}
+        className={`w-full flex items-center gap-2 p-1.5 rounded transition-all cursor-pointer ${
+          enabled ? "bg-emerald-100 ring-2 ring-emerald-500" : "hover:bg-gray-100"
+        }`}
+      >
+        <span className="flex-1 text-left font-semibold">Response-time coverage</span>
+        <span className="text-gray-500">{enabled ? "On" : "Off"}</span>
+      </button>
+
+      {enabled && (
+        <div className="mt-2 space-y-2">
+          <div className="flex items-center gap-3">
+            {ISOCHRONE_BANDS_MIN.map((band) => (
+              <span key={band} className="flex items-center gap-1">
+                <span
+                  className="inline-block w-3 h-3 rounded-sm"
+                  style={{ backgroundColor: ISOCHRONE_BAND_COLORS[band], opacity: 0.6 }}
+                />
+                ≤{band} min
+              </span>
+            ))}
+          </div>
+          <div className="text-gray-500">
+            {loading
+              ? "Computing isochrones…"
+              : `${sourceCount} free on-shift NFO(s)${
+                  estimatedCount > 0 ? ` · ${estimatedCount} as straight-line estimate` : ""
+                }`}
+          </div>
+          {error && <div className="text-orange-600">⚠️ {error}</div>}
+          {coverage && (
+            <>
+              <div className="font-semibold">
+                {coverage.uncoveredCount} site(s) beyond {maxBand} min
+              </div>
+              <div className="max-h-40 overflow-y-auto divide-y">
+                {coverage.byArea
+                  .filter((a) => a.uncovered > 0)
+                  .map((a) => (
+                    <button
+                      key={a.area}
+                      onClick={() => onAreaSelect(a.area)}
+                      className="w-full flex items-center justify-between py-1 hover:bg-gray-50"
+                    >
+                      <span>{a.area}</span>
+                      <span className="text-red-600 font-medium">
+                        {a.uncovered} / {a.total}
+                      </span>
+                    </button>
+                  ))}
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,217 @@
+"use client";
+
+import { useState, useEffect, useCallback, useMemo, useRef } from "react";
+import type { NfoStatusRow, SiteRecord } from "../lib/nfoHelpers";
+import type { WarehouseRecord } from "./RoutePlanner";
+import {
+  recommendNfosForSite,
+  type DispatchCandidate,
+  type DispatchOptions,
+  type DispatchPickup,
+  type DispatchRecommendation,
+} from "../lib/dispatch";
+import { isAbortError } from "../lib/routing";
+import { isWarehouseOpen, warehousesForArea } from "../lib/warehouses";
+import { buildAssignmentInput, type NfoAssignment } from "../lib/assignments";
+import AssignJobForm, { type AssignJobFields } from "./AssignJobForm";
+
+/**
+ * DispatchShortlist - ranks free, on-shift NFOs for a site by driving ETA.
+ *
+ * Used in the Live Map side panel under "Top 5 Closest NFOs". Calculation is
+ * on demand (button) because each candidate costs one or two routing calls.
+ * A job that needs parts can add a warehouse pickup to every candidate's route.
+ */
+interface DispatchShortlistProps<T extends NfoStatusRow> {
+  site: SiteRecord;
+  nfos: T[];
+  warehouses: WarehouseRecord[];
+  options?: DispatchOptions;
+  // Show the candidate's driving route on the map
+  onShowRoute?: (candidate: DispatchCandidate<T>) => void;
+  activeRouteUsername?: string | null;
+  // Assign the site to a candidate as an nfo_assignments job (admins / supervisors)
+  canAssign?: boolean;
+  onAssignmentCreated?: (assignment: NfoAssignment) => void;
+}
+
+export default function DispatchShortlist<T extends NfoStatusRow>({
+  site,
+  nfos,
+  warehouses,
+  options,
+  onShowRoute,
+  activeRouteUsername,
+  canAssign = false,
+  onAssignmentCreated,
+}: DispatchShortlistProps<T>) {
+  const [recommendation, setRecommendation] = useState<DispatchRecommendation<T> | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [pickup, setPickup] = useState<DispatchPickup>("none");
+
+  const siteWarehouses = useMemo(() => warehousesForArea(warehouses, site.area), [warehouses, site.area]);
+
+  // In-flight ranking - aborted when superseded so a stale result can't land
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Results belong to one site and pickup - clear (and cancel) when either changes
+  useEffect(() => {
+    abortRef.current?.abort();
+    setRecommendation(null);
+    setError(null);
+    setLoading(false);
+  }, [site.site_id, pickup]);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const handleRecommend = useCallback(async () => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    setLoading(true);
+    setError(null);
+    try {
+      const result = await recommendNfosForSite(
+        site,
+        nfos,
+        warehouses,
+        { ...options, pickup },
+        { signal: controller.signal }
+      );
+      setRecommendation(result);
+    } catch (err) {
+      if (isAbortError(err)) return;
+      setRecommendation(null);
+      setError(err instanceof Error ? err.message : "Dispatch ranking failed");
+    } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        setLoading(false);
+      }
+    }
+  }, [site, nfos, warehouses, options, pickup]);
+
+  // Job payload for a candidate, using the route the ranking already computed
+  const buildCandidateAssignment = useCallback(
+    (candidate: DispatchCandidate<T>, { notes, priority, ticketRef }: AssignJobFields) => {
+      const warehouse =
+        candidate.viaWarehouseId != null ? warehouses.find((w) => w.id === candidate.viaWarehouseId) ?? null : null;
+      return buildAssignmentInput({
+        username: candidate.nfo.username,
+        siteId: site.site_id,
+        warehouse,
+        route: candidate.route,
+        notes,
+        priority,
+        ticketRef,
+        now: Date.now(),
+      });
+    },
+    [site.site_id, warehouses]
+  );
+
+  return (
+    <div className="bg-white rounded-lg border-2 border-emerald-500 p-3 text-xs">
+      <div className="flex items-center justify-between mb-2">
+        <div className="font-bold text-[13px]">🚚 Dispatch by ETA</div>
+        <button
+          onClick={handleRecommend}
+          disabled={loading}
+          className="px-2.5 py-1 rounded bg-emerald-600 text-white font-semibold hover:bg-emerald-700 disabled:bg-slate-300"
+        >
+          {loading ? "Ranking..." : recommendation ? "Recalculate" : "Recommend"}
+        </button>
+      </div>
+      <div className="text-[11px] text-slate-500 mb-2">
+        Free, on-shift, active NFOs ranked by driving time to{" "}
+        <span className="font-semibold text-blue-600">{site.site_id}</span>
+      </div>
+      <label className="flex items-center gap-2 mb-2 text-[11px] text-slate-600">
+        Pickup
+        <select
+          value={String(pickup)}
+          onChange={(e) => {
+            const value = e.target.value;
+            setPickup(value === "none" || value === "auto" ? value : Number(value));
+          }}
+          className="flex-1 border rounded px-1 py-0.5"
+        >
+          <option value="none">None – straight to site</option>
+          <option value="auto">Nearest open warehouse for {site.area?.trim() || "this area"}</option>
+          {siteWarehouses.map((w) => (
+            <option key={w.id} value={String(w.id)}>
+              {`${w.name}${isWarehouseOpen(w) ? "" : " (closed)"}`}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      {error && <div className="text-red-600 mb-2">⚠️ {error}</div>}
+
+      {recommendation && (
+        <>
+          <div className="text-[10px] text-slate-500 mb-2">
+            {recommendation.eligibleCount} eligible · excluded: {recommendation.excluded.busyOrOffShift} busy/off-shift,{" "}
+            {recommendation.excluded.notActive} not active, {recommendation.excluded.noGps} no GPS
+          </div>
+          {recommendation.candidates.length === 0 ? (
+            <div className="text-slate-400">No free NFOs available for this site.</div>
+          ) : (
+            <ol className="space-y-2">
+              {recommendation.candidates.map((c) => {
+                const isActive = activeRouteUsername === c.nfo.username;
+                return (
+                  <li
+                    key={`dispatch-${c.nfo.username}`}
+                    className={`rounded border p-2 ${isActive ? "border-emerald-500 bg-emerald-50" : "border-slate-200"}`}
+                  >
+                    <div className="flex items-start justify-between gap-2">
+                      <div>
+                        <div className="font-bold text-slate-800">
+                          {c.rank}. {c.nfo.name || c.nfo.username}
+                        </div>
+                        <div className="text-[10px] text-slate-500">{c.nfo.username}</div>
+                      </div>
+                      <div className="text-right">
+                        <div className={`font-bold ${c.etaMin != null ? "text-emerald-700" : "text-amber-600"}`}>
+                          {c.etaMin != null ? `${Math.round(c.etaMin)} min` : "n/a"}
+                        </div>
+                        <div className="text-[10px] text-slate-500">{c.distanceKm.toFixed(1)} km</div>
+                      </div>
+                    </div>
+                    <ul className="mt-1 text-[10px] text-slate-600 list-disc pl-4">
+                      {c.explanation.map((line, idx) => (
+                        <li key={idx}>{line}</li>
+                      ))}
+                    </ul>
+                    <div className="mt-1 flex items-start justify-between gap-2">
+                      {onShowRoute && (
+                        <button
+                          onClick={() => onShowRoute(c)}
+                          className={`px-2 py-0.5 rounded text-[10px] font-semibold text-white ${
+                            isActive ? "bg-emerald-600" : "bg-blue-500 hover:bg-blue-600"
+                          }`}
+                        >
+                          {isActive ? "✓ Route Shown" : "🚗 Show route"}
+                        </button>
+                      )}
+                      {canAssign && (
+                        <AssignJobForm
+                          compact
+                          buildInput={(fields) => buildCandidateAssignment(c, fields)}
+                          onCreated={onAssignmentCreated}
+                        />
+                      )}
+                    </div>
+                  </li>
+                );
+              })}
+            </ol>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,53 @@
+"use client";
+
+import { downloadCsv, downloadXlsx, toExportSheet, type ExportColumn } from "../lib/tableExport";
+
+/**
+ * ExportButtons - small CSV / XLSX download pair for a dashboard table.
+ *
+ * `rows` are exported as passed, so callers hand in the already filtered list.
+ * The file name gets a local timestamp so repeated handover exports don't
+ * overwrite each other.
+ */
+interface ExportButtonsProps<T> {
+  filename: string; // without extension
+  sheetName: string;
+  columns: ExportColumn<T>[];
+  rows: T[];
+  title?: string;
+}
+
+const timestampSuffix = () => {
+  const d = new Date();
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}_${pad(d.getHours())}${pad(d.getMinutes())}`;
+};
+
+export default function ExportButtons<T>({ filename, sheetName, columns, rows, title }: ExportButtonsProps<T>) {
+  const disabled = rows.length === 0;
+  const buttonClass =
+    "px-2 py-0.5 text-xs rounded border border-slate-300 text-slate-700 hover:bg-slate-100 disabled:opacity-40";
+
+  return (
+    <span className="inline-flex items-center gap-1" title={title}>
+      <button
+        type="button"
+        disabled={disabled}
+        onClick={() => downloadCsv(`${filename}_${timestampSuffix()}.csv`, columns, rows)}
+        className={buttonClass}
+      >
+        CSV
+      </button>
+      <button
+        type="button"
+        disabled={disabled}
+        onClick={() =>
+          downloadXlsx(`${filename}_${timestampSuffix()}.xlsx`, [toExportSheet(sheetName, columns, rows)])
+        }
+        className={buttonClass}
+      >
+        XLSX
+      </button>
+    </span>
+  );
+}
@@ -3,6 +3,8 @@
 import dynamic from "next/dynamic";
 import type { NfoStatusRow, SiteRecord } from "../lib/nfoHelpers";
 import type { WarehouseRecord } from "./RoutePlanner";
+import type { AlertRule } from "../lib/alertRules";
+import type { NfoAssignment } from "../lib/assignments";
 
 /**
  * Props for LiveMap component.
@@ -23,6 +25,13 @@ type LiveMapProps = {
   onMapNfoFilterChange: (filter: string | null) => void;
   // For Leaflet invalidateSize() - true when Live Map tab is active
   isActive: boolean;
+  // Per-area Not Active thresholds (defaults when omitted)
+  alertRules?: AlertRule[];
+  // Dispatch shortlist can assign jobs (admins / supervisors)
+  canAssignJobs?: boolean;
+  onAssignmentCreated?: (assignment: NfoAssignment) => void;
+  // Jobs for the fault density heatmap (optional)
+  assignments?: NfoAssignment[];
 };
 
 const LiveMapInner = dynamic(() => import("./LiveMapInner"), {
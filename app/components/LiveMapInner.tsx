@@ -1,7 +1,7 @@
 "use client";
 
-import { useMemo, useCallback, useState, useEffect } from "react";
-import { MapContainer, TileLayer, Marker, Popup, Polyline, useMap, Circle } from "react-leaflet";
+import { useMemo, useCallback, useState, useEffect, useRef } from "react";
+import { MapContainer, TileLayer, Marker, Popup, Polyline, useMap, Circle, CircleMarker } from "react-leaflet";
 import L from "leaflet";
 import {
   type NfoStatusRow,
@@ -17,12 +17,63 @@ import {
   computePingStatus,
 } from "../lib/nfoHelpers";
 import type { WarehouseRecord } from "./RoutePlanner";
+import DispatchShortlist from "./DispatchShortlist";
+import RouteDirections from "./RouteDirections";
 import {
   calculateBestRoute,
   calculateRouteViaWarehouse,
   type RouteResult,
   type RouteEngine,
+  type RouteCacheSource,
+  type RouteStep,
+  ROUTE_ENGINE_LABELS,
+  isAbortError,
 } from "../lib/routing";
+import { buildRouteSheetLegs, type RouteSheet } from "../lib/routeSheet";
+import {
+  fetchNfoTrail,
+  buildTrailSegments,
+  findTrailIndexAt,
+  trailPositionAt,
+  TRAIL_WINDOW_OPTIONS_HOURS,
+  TRAIL_SPEED_OPTIONS,
+  type TrailPoint,
+} from "../lib/nfoTrail";
+import {
+  DEFAULT_ALERT_RULES,
+  resolveAreaThresholds,
+  type AlertRule,
+} from "../lib/alertRules";
+import type { NfoAssignment } from "../lib/assignments";
+import {
+  closedPickupNote,
+  closedPickupWarehouseForNfo,
+  formatOpeningHours,
+  pickupWarehouseForNfo,
+} from "../lib/warehouses";
+import { getDispatchEligibility } from "../lib/dispatch";
+import {
+  MAX_ISOCHRONE_SOURCES,
+  bufferIsochrones,
+  computeSiteCoverage,
+  coverageKeyLocations,
+  coverageSourceKey,
+  fetchIsochrones,
+  type IsochroneResult,
+} from "../lib/coverage";
+import CoverageLayer, { CoveragePanel } from "./CoverageLayer";
+import {
+  MAX_DETAILED_SITE_MARKERS,
+  buildHeatGrid,
+  clusterPoints,
+  cullToViewport,
+  faultHeatPoints,
+  siteHeatPoints,
+  type HeatmapMode,
+  type MapViewport,
+} from "../lib/mapClustering";
+import MapDensityLayers, { DensityPanel, MapViewportTracker } from "./MapDensityLayers";
+import { MAP_TILE_ATTRIBUTION, MAP_TILE_CROSS_ORIGIN, MAP_TILE_SUBDOMAINS, MAP_TILE_URL, MARKER_ICON_URLS } from "../lib/mapAssets";
 
 const PAGE_SIZE = 1000;
 
@@ -46,58 +97,56 @@ type LiveMapInnerProps = {
   onMapNfoFilterChange: (filter: string | null) => void;
   // For Leaflet invalidateSize() - true when Live Map tab is active
   isActive: boolean;
+  // Per-area Not Active thresholds (defaults when omitted)
+  alertRules?: AlertRule[];
+  // Dispatch shortlist can assign jobs (admins / supervisors)
+  canAssignJobs?: boolean;
+  onAssignmentCreated?: (assignment: NfoAssignment) => void;
+  // Jobs for the fault density heatmap (optional)
+  assignments?: NfoAssignment[];
 };
 
 // Site marker (blue)
 const siteIcon = L.icon({
-  iconUrl: "https://unpkg.com/leaflet@1.9.4/dist/images/marker-icon.png",
-  iconRetinaUrl:
-    "https://unpkg.com/leaflet@1.9.4/dist/images/marker-icon-2x.png",
-  shadowUrl: "https://unpkg.com/leaflet@1.9.4/dist/images/marker-shadow.png",
+  iconUrl: MARKER_ICON_URLS.default,
+  iconRetinaUrl: MARKER_ICON_URLS.defaultRetina,
+  shadowUrl: MARKER_ICON_URLS.shadow,
   iconSize: [25, 41],
   iconAnchor: [12, 41],
 });
 
 // NFO marker - Free (green)
 const nfoFreeIcon = L.icon({
-  iconUrl:
-    "https://raw.githubusercontent.com/pointhi/leaflet-color-markers/master/img/marker-icon-2x-green.png",
-  iconRetinaUrl:
-    "https://raw.githubusercontent.com/pointhi/leaflet-color-markers/master/img/marker-icon-2x-green.png",
-  shadowUrl: "https://unpkg.com/leaflet@1.9.4/dist/images/marker-shadow.png",
+  iconUrl: MARKER_ICON_URLS.green,
+  iconRetinaUrl: MARKER_ICON_URLS.green,
+  shadowUrl: MARKER_ICON_URLS.shadow,
   iconSize: [25, 41],
   iconAnchor: [12, 41],
 });
 
 // NFO marker - Busy (red)
 const nfoBusyIcon = L.icon({
-  iconUrl:
-    "https://raw.githubusercontent.com/pointhi/leaflet-color-markers/master/img/marker-icon-2x-red.png",
-  iconRetinaUrl:
-    "https://raw.githubusercontent.com/pointhi/leaflet-color-markers/master/img/marker-icon-2x-red.png",
-  shadowUrl: "https://unpkg.com/leaflet@1.9.4/dist/images/marker-shadow.png",
+  iconUrl: MARKER_ICON_URLS.red,
+  iconRetinaUrl: MARKER_ICON_URLS.red,
+  shadowUrl: MARKER_ICON_URLS.shadow,
   iconSize: [25, 41],
   iconAnchor: [12, 41],
 });
 
 // NFO marker - Off-shift/Logged out (grey)
 const nfoOffIcon = L.icon({
-  iconUrl:
-    "https://raw.githubusercontent.com/pointhi/leaflet-color-markers/master/img/marker-icon-2x-grey.png",
-  iconRetinaUrl:
-    "https://raw.githubusercontent.com/pointhi/leaflet-color-markers/master/img/marker-icon-2x-grey.png",
-  shadowUrl: "https://unpkg.com/leaflet@1.9.4/dist/images/marker-shadow.png",
+  iconUrl: MARKER_ICON_URLS.grey,
+  iconRetinaUrl: MARKER_ICON_URLS.grey,
+  shadowUrl: MARKER_ICON_URLS.shadow,
   iconSize: [25, 41],
   iconAnchor: [12, 41],
 });
 
 // Warehouse marker - Orange (distinct from NFOs and sites)
 const warehouseIcon = L.icon({
-  iconUrl:
-    "https://raw.githubusercontent.com/pointhi/leaflet-color-markers/master/img/marker-icon-2x-orange.png",
-  iconRetinaUrl:
-    "https://raw.githubusercontent.com/pointhi/leaflet-color-markers/master/img/marker-icon-2x-orange.png",
-  shadowUrl: "https://unpkg.com/leaflet@1.9.4/dist/images/marker-shadow.png",
+  iconUrl: MARKER_ICON_URLS.orange,
+  iconRetinaUrl: MARKER_ICON_URLS.orange,
+  shadowUrl: MARKER_ICON_URLS.shadow,
   iconSize: [25, 41],
   iconAnchor: [12, 41],
 });
@@ -565,9 +614,10 @@ type RouteInfo = {
   coordinates: [number, number][]; // [lng, lat] pairs from ORS
   distanceMeters: number;
   durationSeconds: number;
-  engine?: RouteEngine; // "ors" or "osrm" - which engine produced this route
+  engine?: RouteEngine; // which engine produced this route
   warning?: string;     // Warning if route seems suspicious (> 2× air distance)
   isFallback?: boolean; // true if both engines failed
+  cacheSource?: RouteCacheSource; // set when served from the route cache
 };
 
 // Route result for NFO tile (similar to dashboard)
@@ -576,15 +626,13 @@ type NfoTileRouteResult = {
   durationMin: number | null; // null for fallback (straight-line)
   coordinates: [number, number][]; // [lng, lat] pairs for polyline
   viaWarehouse: string | null;
+  closedWarehouse: string | null; // linked warehouse skipped because it is closed
   isFallback?: boolean;
-  engine?: RouteEngine;  // "ors" or "osrm" - which engine produced this route
+  engine?: RouteEngine;  // which engine produced this route
   warning?: string;      // Warning if route seems suspicious (> 2× air distance)
-};
-
-// Helper for case-insensitive warehouse name matching (same as dashboard)
-const namesMatch = (a: string | null, b: string | null): boolean => {
-  if (!a || !b) return false;
-  return a.toLowerCase().trim() === b.toLowerCase().trim();
+  cacheSource?: RouteCacheSource; // set when served from the route cache
+  steps: RouteStep[];    // turn-by-turn directions (empty for fallback)
+  siteId: string;        // destination, for the route sheet
 };
 
 // Format route summary - SAME FORMAT AS DASHBOARD: "107.41 km, 77 min via Jeddah MC"
@@ -602,7 +650,9 @@ const formatRouteSummary = (result: NfoTileRouteResult): string => {
   
   // Normal route: show distance and ETA with engine indicator
   const durationStr = Math.round(result.durationMin ?? 0);
-  const engineLabel = result.engine === "osrm" ? " [OSRM]" : "";
+  const engineLabel =
+    (result.engine && result.engine !== "ors" ? ` [${ROUTE_ENGINE_LABELS[result.engine]}]` : "") +
+    (result.cacheSource ? " [cached]" : "");
   if (result.viaWarehouse) {
     return `🚗 ${distStr} km, ${durationStr} min via ${result.viaWarehouse}${engineLabel}`;
   }
@@ -618,6 +668,10 @@ export default function LiveMapInner({
   onMapAreaFilterChange,
   onMapNfoFilterChange,
   isActive,
+  alertRules = DEFAULT_ALERT_RULES,
+  canAssignJobs = false,
+  onAssignmentCreated,
+  assignments = [],
 }: LiveMapInnerProps) {
   // PERSISTED STATE (controlled by parent, survives tab switch and F5):
   // - mapAreaFilter: Area/site filter ("NFOs_ONLY", null for All Sites, or specific area)
@@ -644,6 +698,25 @@ export default function LiveMapInner({
   const [nfoTileRouteLoading, setNfoTileRouteLoading] = useState(false);
   const [nfoTileRouteError, setNfoTileRouteError] = useState<string | null>(null);
 
+  // In-flight route requests - aborted when superseded so a stale route can't overwrite a newer one
+  const topRouteAbortRef = useRef<AbortController | null>(null);
+  const tileRouteAbortRef = useRef<AbortController | null>(null);
+  useEffect(() => () => {
+    topRouteAbortRef.current?.abort();
+    tileRouteAbortRef.current?.abort();
+  }, []);
+
+  // Breadcrumb trail playback for the selected NFO (ephemeral - cleared when the NFO changes)
+  const [trailWindowHours, setTrailWindowHours] = useState(8);
+  const [trailPoints, setTrailPoints] = useState<TrailPoint[] | null>(null);
+  const [trailLoading, setTrailLoading] = useState(false);
+  const [trailError, setTrailError] = useState<string | null>(null);
+  const [trailPlayheadMs, setTrailPlayheadMs] = useState<number | null>(null);
+  const [trailPlaying, setTrailPlaying] = useState(false);
+  // In-flight trail request - aborted when the NFO changes or a new load starts
+  const trailAbortRef = useRef<AbortController | null>(null);
+  const [trailSpeed, setTrailSpeed] = useState(TRAIL_SPEED_OPTIONS[1].value);
+
   // Warehouse visibility toggle (default: show warehouses)
   const [showWarehouses, setShowWarehouses] = useState(true);
 
@@ -744,6 +817,80 @@ export default function LiveMapInner({
     return allSitesWithCoords;
   }, [allSitesWithCoords, mapAreaFilter]);
 
+  // Response-time coverage: isochrones around every free, on-shift, active NFO with GPS
+  const [showCoverage, setShowCoverage] = useState(false);
+  const [coverageResult, setCoverageResult] = useState<{
+    key: string;
+    result: IsochroneResult | null;
+    error: string | null;
+  } | null>(null);
+
+  const coverageCandidates = useMemo(
+    () =>
+      nfosWithCoords
+        .filter(
+          (nfo) =>
+            getDispatchEligibility(nfo, undefined, resolveAreaThresholds(alertRules, nfo.home_location).staleMinutes)
+              .eligible
+        )
+        .sort((a, b) => a.username.localeCompare(b.username)),
+    [nfosWithCoords, alertRules]
+  );
+  const coverageSources = useMemo(() => coverageCandidates.slice(0, MAX_ISOCHRONE_SOURCES), [coverageCandidates]);
+
+  // Keys change only when a source moves by more than the rounding (~110 m),
+  // so the locations below stay stable between polls
+  const coverageKey = coverageSourceKey(
+    coverageSources.map((n) => ({ username: n.username, lat: n.lat as number, lng: n.lng as number }))
+  );
+  const overflowKey = coverageSourceKey(
+    coverageCandidates
+      .slice(MAX_ISOCHRONE_SOURCES)
+      .map((n) => ({ username: n.username, lat: n.lat as number, lng: n.lng as number }))
+  );
+  const coverageLocations = useMemo(() => coverageKeyLocations(coverageKey), [coverageKey]);
+
+  // Free NFOs beyond one request's worth: straight-line buffers instead of dropping them
+  const overflowPolygons = useMemo(
+    () =>
+      coverageKeyLocations(overflowKey).flatMap(([lng, lat], i) =>
+        bufferIsochrones(MAX_ISOCHRONE_SOURCES + i, lat, lng)
+      ),
+    [overflowKey]
+  );
+
+  const loadedCoverageKey = coverageResult?.key ?? null;
+  useEffect(() => {
+    if (!showCoverage || !coverageKey || loadedCoverageKey === coverageKey) return;
+    const controller = new AbortController();
+    fetchIsochrones(coverageLocations, { signal: controller.signal })
+      .then((result) => {
+        setCoverageResult({ key: coverageKey, result, error: result ? null : "Isochrones unavailable" });
+      })
+      .catch((error) => {
+        if (isAbortError(error)) return;
+        console.warn("[LiveMap] Isochrones failed:", error);
+        setCoverageResult({
+          key: coverageKey,
+          result: null,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      });
+    return () => controller.abort();
+  }, [showCoverage, coverageKey, coverageLocations, loadedCoverageKey]);
+
+  // No free NFOs = nothing to fetch, every site is uncovered
+  const coverageReady = coverageKey === "" || coverageResult?.key === coverageKey;
+  const currentCoverage = coverageKey !== "" && coverageResult?.key === coverageKey ? coverageResult : null;
+  const coveragePolygons = useMemo(
+    () => [...(currentCoverage?.result?.polygons ?? []), ...overflowPolygons],
+    [currentCoverage, overflowPolygons]
+  );
+  const siteCoverage = useMemo(
+    () => (showCoverage && coverageReady ? computeSiteCoverage(allSitesWithCoords, coveragePolygons) : null),
+    [showCoverage, coverageReady, allSitesWithCoords, coveragePolygons]
+  );
+
   // Build a map of site_id -> SiteRecord for quick lookups (use ALL sites)
   const siteById = useMemo(() => {
     return new Map(allSitesWithCoords.map((s) => [s.site_id, s]));
@@ -768,8 +915,12 @@ export default function LiveMapInner({
       // Use new assignment-based busy logic
       const { isBusy, isFree, isOnShift, isOffShift } = computeAssignmentState(nfo);
       
-      // Compute ping status (same as dashboard)
-      const { isNotActive, pingReason } = computePingStatus(nfo.last_active_at);
+      // Compute ping status (same as dashboard - per-area silence threshold)
+      const { isNotActive, pingReason } = computePingStatus(
+        nfo.last_active_at,
+        Date.now(),
+        resolveAreaThresholds(alertRules, nfo.home_location).staleMinutes
+      );
 
       const hasValidNfoCoords = hasValidLocation({ lat: nfo.lat, lng: nfo.lng });
       const assignedSiteId = (nfo.site_id ?? "").trim();
@@ -842,14 +993,8 @@ export default function LiveMapInner({
           const nfoPoint = { lat: nfo.lat!, lng: nfo.lng! };
           const sitePoint = { lat: targetSite.latitude!, lng: targetSite.longitude! };
           
-          // Check if we should route via warehouse
-          const warehouseNameTrimmed = (nfo.warehouse_name ?? "").trim();
-          const matchingWarehouse = nfo.via_warehouse && warehouseNameTrimmed
-            ? warehouses.find(w => 
-                namesMatch(w.name, warehouseNameTrimmed) && 
-                hasValidLocation({ lat: w.latitude, lng: w.longitude })
-              )
-            : null;
+          // Check if we should route via warehouse (skipped while it is closed)
+          const matchingWarehouse = pickupWarehouseForNfo(nfo, warehouses);
           
           if (matchingWarehouse) {
             // Route via warehouse: NFO -> Warehouse + Warehouse -> Site
@@ -898,7 +1043,7 @@ export default function LiveMapInner({
         isOffShift,
       };
     });
-  }, [nfosWithCoords, sites, warehouses]);
+  }, [nfosWithCoords, sites, warehouses, alertRules]);
 
   // Filter enrichedNfos based on selected status filter (mapNfoFilter from props)
   const filteredEnrichedNfos = useMemo(() => {
@@ -916,6 +1061,53 @@ export default function LiveMapInner({
     });
   }, [enrichedNfos, mapNfoFilter]);
 
+  // Viewport culling + clustering so "All Sites" (thousands of markers) stays interactive
+  const [viewport, setViewport] = useState<MapViewport | null>(null);
+  const [clusterMarkers, setClusterMarkers] = useState(true);
+  const [heatmapMode, setHeatmapMode] = useState<HeatmapMode>("off");
+
+  const siteMarkerData = useMemo(() => {
+    const latLng = (site: SiteRecord): [number, number] => [site.latitude as number, site.longitude as number];
+    // The site picked in search is always drawn on its own
+    const pinnedId = selectedSiteFromSearch?.site_id ?? null;
+    const inView = cullToViewport(sitesWithCoords, latLng, viewport);
+    const pinned = inView.filter((site) => site.site_id === pinnedId);
+    const rest = inView.filter((site) => site.site_id !== pinnedId);
+    if (!clusterMarkers || !viewport) return { singles: [...rest, ...pinned], clusters: [] };
+    const { singles, clusters } = clusterPoints(rest, latLng, viewport.zoom, "sites");
+    return { singles: [...singles, ...pinned], clusters };
+  }, [sitesWithCoords, viewport, clusterMarkers, selectedSiteFromSearch]);
+
+  const nfoMarkerData = useMemo(() => {
+    // NFOs picked in search / the detail tile are always drawn on their own (their popup opens)
+    const isPinned = (nfo: NfoStatusRow) =>
+      nfo.username === selectedNfoUsername || nfo.username === selectedNfoForTile?.username;
+    const inView = cullToViewport(filteredEnrichedNfos, (nfo) => [nfo.lat as number, nfo.lng as number], viewport);
+    const pinned = inView.filter(isPinned);
+    const rest = inView.filter((nfo) => !isPinned(nfo));
+    if (!clusterMarkers || !viewport) return { singles: [...rest, ...pinned], clusters: [] };
+    const { singles, clusters } = clusterPoints(
+      rest,
+      (nfo) => [nfo.lat as number, nfo.lng as number],
+      viewport.zoom,
+      "nfos"
+    );
+    return { singles: [...singles, ...pinned], clusters };
+  }, [filteredEnrichedNfos, viewport, clusterMarkers, selectedNfoUsername, selectedNfoForTile]);
+
+  // Above MAX_DETAILED_SITE_MARKERS sites are canvas circles without id labels
+  const detailedSiteMarkers = siteMarkerData.singles.length <= MAX_DETAILED_SITE_MARKERS;
+
+  const faultPoints = useMemo(
+    () => faultHeatPoints(assignments, allSitesWithCoords),
+    [assignments, allSitesWithCoords]
+  );
+  const heatGrid = useMemo(() => {
+    if (heatmapMode === "off") return null;
+    const points = heatmapMode === "faults" ? faultPoints : siteHeatPoints(sitesWithCoords);
+    return buildHeatGrid(points, viewport);
+  }, [heatmapMode, faultPoints, sitesWithCoords, viewport]);
+
   // Calculate closest NFOs to the selected site
   // This MUST come after enrichedNfos definition
   const closestNfosToSelectedSite = useMemo(() => {
@@ -946,6 +1138,10 @@ export default function LiveMapInner({
       return;
     }
 
+    topRouteAbortRef.current?.abort();
+    const controller = new AbortController();
+    topRouteAbortRef.current = controller;
+
     // Clear previous route and set loading state
     setActiveRoute(null);
     setRouteError(null);
@@ -958,7 +1154,9 @@ export default function LiveMapInner({
       const endLon = selectedSiteFromSearch.longitude as number;
 
       // Use shared routing helper (compares ORS vs OSRM, picks best engine)
-      const result: RouteResult = await calculateBestRoute(startLat, startLon, endLat, endLon);
+      const result: RouteResult = await calculateBestRoute(startLat, startLon, endLat, endLon, {
+        signal: controller.signal,
+      });
 
       console.log("Live Map Top-5 route result:", {
         username: nfo.username,
@@ -977,21 +1175,36 @@ export default function LiveMapInner({
         engine: result.engine,
         warning: result.warning,
         isFallback: result.isFallback,
+        cacheSource: result.cacheSource,
       });
     } catch (error) {
+      if (isAbortError(error)) return;
       console.error("Route fetch error:", error);
       setRouteError("Route failed, try again");
     } finally {
-      setRouteLoading(null);
+      if (topRouteAbortRef.current === controller) {
+        topRouteAbortRef.current = null;
+        setRouteLoading(null);
+      }
     }
   }, [selectedSiteFromSearch]);
 
-  // Clear route when selected site changes
+  // Clear (and cancel) route when selected site changes
   useEffect(() => {
+    topRouteAbortRef.current?.abort();
+    topRouteAbortRef.current = null;
     setActiveRoute(null);
     setRouteError(null);
+    setRouteLoading(null);
   }, [selectedSiteFromSearch]);
 
+  // A different (or no) NFO in the tile - its route request is no longer wanted
+  useEffect(() => {
+    tileRouteAbortRef.current?.abort();
+    tileRouteAbortRef.current = null;
+    setNfoTileRouteLoading(false);
+  }, [selectedNfoForTile]);
+
   // Handle NFO selection for the tile (from search or marker click)
   const handleNfoSelectForTile = useCallback((nfo: NfoStatusRow) => {
     setSelectedNfoForTile(nfo);
@@ -1044,6 +1257,11 @@ export default function LiveMapInner({
       return;
     }
 
+    tileRouteAbortRef.current?.abort();
+    const controller = new AbortController();
+    tileRouteAbortRef.current = controller;
+    const routeOptions = { signal: controller.signal };
+
     setNfoTileRouteLoading(true);
     setNfoTileRouteError(null);
     setNfoTileRoute(null);
@@ -1054,14 +1272,9 @@ export default function LiveMapInner({
       const siteLat = targetSite.latitude!;
       const siteLon = targetSite.longitude!;
 
-      // Check if we should route via warehouse (SAME as dashboard)
-      const warehouseNameTrimmed = (selectedNfoForTile.warehouse_name ?? "").trim();
-      const matchingWarehouse = selectedNfoForTile.via_warehouse && warehouseNameTrimmed
-        ? warehouses.find(w =>
-            namesMatch(w.name, warehouseNameTrimmed) &&
-            hasValidLocation({ lat: w.latitude, lng: w.longitude })
-          )
-        : null;
+      // Check if we should route via warehouse (SAME as dashboard - skipped while it is closed)
+      const matchingWarehouse = pickupWarehouseForNfo(selectedNfoForTile, warehouses);
+      const closedWarehouse = closedPickupWarehouseForNfo(selectedNfoForTile, warehouses);
 
       console.log("NFO Tile route request:", {
         username: selectedNfoForTile.username,
@@ -1080,11 +1293,12 @@ export default function LiveMapInner({
         result = await calculateRouteViaWarehouse(
           nfoLat, nfoLon,
           warehouseLat, warehouseLon,
-          siteLat, siteLon
+          siteLat, siteLon,
+          routeOptions
         );
       } else {
         // Direct route using shared helper (ORS vs OSRM comparison)
-        result = await calculateBestRoute(nfoLat, nfoLon, siteLat, siteLon);
+        result = await calculateBestRoute(nfoLat, nfoLon, siteLat, siteLon, routeOptions);
       }
 
       console.log("NFO Tile route result:", {
@@ -1101,17 +1315,152 @@ export default function LiveMapInner({
         durationMin: result.isFallback ? null : result.durationMin,
         coordinates: result.coordinates,
         viaWarehouse: matchingWarehouse ? matchingWarehouse.name : null,
+        closedWarehouse: closedWarehouse ? closedWarehouse.name : null,
         isFallback: result.isFallback,
         engine: result.engine,
         warning: result.warning,
+        cacheSource: result.cacheSource,
+        steps: result.steps ?? [],
+        siteId: targetSite.site_id,
       });
     } catch (err) {
+      if (isAbortError(err)) return;
       setNfoTileRouteError(err instanceof Error ? err.message : "Route failed");
     } finally {
-      setNfoTileRouteLoading(false);
+      if (tileRouteAbortRef.current === controller) {
+        tileRouteAbortRef.current = null;
+        setNfoTileRouteLoading(false);
+      }
     }
   }, [selectedNfoForTile, sites, warehouses]);
 
+  // Printable / shareable directions for the tile route (both legs when via warehouse)
+  const nfoTileRouteSheet = useMemo((): RouteSheet | null => {
+    if (!nfoTileRoute || nfoTileRoute.isFallback || !selectedNfoForTile) return null;
+    const nfoLabel = selectedNfoForTile.username;
+    const stops = nfoTileRoute.viaWarehouse
+      ? [nfoLabel, nfoTileRoute.viaWarehouse, nfoTileRoute.siteId]
+      : [nfoLabel, nfoTileRoute.siteId];
+    return {
+      title: `${nfoLabel} → ${nfoTileRoute.siteId}`,
+      engineLabel: nfoTileRoute.engine ? ROUTE_ENGINE_LABELS[nfoTileRoute.engine] : undefined,
+      distanceKm: nfoTileRoute.distanceKm,
+      durationMin: nfoTileRoute.durationMin,
+      warning: nfoTileRoute.warning,
+      legs: buildRouteSheetLegs(nfoTileRoute.steps, stops),
+    };
+  }, [nfoTileRoute, selectedNfoForTile]);
+
+  // Reset the breadcrumb trail whenever a different NFO is selected (or selection is cleared)
+  const selectedTileUsername = selectedNfoForTile?.username ?? null;
+  useEffect(() => {
+    // A trail still loading belongs to the previous NFO
+    trailAbortRef.current?.abort();
+    trailAbortRef.current = null;
+    setTrailLoading(false);
+    setTrailPoints(null);
+    setTrailError(null);
+    setTrailPlayheadMs(null);
+    setTrailPlaying(false);
+  }, [selectedTileUsername]);
+
+  // Load heartbeat history for the selected NFO over the chosen window
+  const loadTrailForNfoTile = useCallback(async () => {
+    if (!selectedNfoForTile) return;
+
+    // Only the latest request may update the tile (same as the route requests)
+    trailAbortRef.current?.abort();
+    const controller = new AbortController();
+    trailAbortRef.current = controller;
+
+    setTrailLoading(true);
+    setTrailError(null);
+    setTrailPlaying(false);
+
+    try {
+      const toMs = Date.now();
+      const fromMs = toMs - trailWindowHours * 60 * 60 * 1000;
+      const points = await fetchNfoTrail(selectedNfoForTile.username, fromMs, toMs, controller.signal);
+      if (controller.signal.aborted) return;
+
+      if (points.length === 0) {
+        setTrailPoints(null);
+        setTrailPlayheadMs(null);
+        setTrailError(`No GPS heartbeats in the last ${trailWindowHours} h`);
+        return;
+      }
+
+      setTrailPoints(points);
+      // Start with the whole trail visible; Play rewinds to the start
+      setTrailPlayheadMs(points[points.length - 1].at);
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      console.warn("Trail load failed:", err);
+      setTrailPoints(null);
+      setTrailError(err instanceof Error ? err.message : "Failed to load trail");
+    } finally {
+      if (trailAbortRef.current === controller) {
+        trailAbortRef.current = null;
+        setTrailLoading(false);
+      }
+    }
+  }, [selectedNfoForTile, trailWindowHours]);
+
+  const handleClearTrail = useCallback(() => {
+    trailAbortRef.current?.abort();
+    trailAbortRef.current = null;
+    setTrailLoading(false);
+    setTrailPoints(null);
+    setTrailError(null);
+    setTrailPlayheadMs(null);
+    setTrailPlaying(false);
+  }, []);
+
+  const trailStartMs = trailPoints && trailPoints.length > 0 ? trailPoints[0].at : null;
+  const trailEndMs = trailPoints && trailPoints.length > 0 ? trailPoints[trailPoints.length - 1].at : null;
+
+  const handleToggleTrailPlay = useCallback(() => {
+    if (trailStartMs == null || trailEndMs == null) return;
+    if (!trailPlaying && (trailPlayheadMs == null || trailPlayheadMs >= trailEndMs)) {
+      // Rewind when pressing Play at the end of the trail
+      setTrailPlayheadMs(trailStartMs);
+    }
+    setTrailPlaying(!trailPlaying);
+  }, [trailPlaying, trailPlayheadMs, trailStartMs, trailEndMs]);
+
+  // Advance the playhead while playing (200ms ticks, speed = shift seconds per real second)
+  useEffect(() => {
+    if (!trailPlaying || trailEndMs == null) return;
+    const TICK_MS = 200;
+    const id = setInterval(() => {
+      setTrailPlayheadMs((current) => Math.min((current ?? 0) + trailSpeed * TICK_MS, trailEndMs));
+    }, TICK_MS);
+    return () => clearInterval(id);
+  }, [trailPlaying, trailSpeed, trailEndMs]);
+
+  // Stop once the playhead reaches the end of the trail
+  useEffect(() => {
+    if (trailPlaying && trailEndMs != null && trailPlayheadMs != null && trailPlayheadMs >= trailEndMs) {
+      setTrailPlaying(false);
+    }
+  }, [trailPlaying, trailPlayheadMs, trailEndMs]);
+
+  // Time-coloured segments up to the playhead, plus the interpolated playhead marker
+  const trailSegments = useMemo(() => {
+    if (!trailPoints) return [];
+    return buildTrailSegments(trailPoints, trailPlayheadMs ?? undefined);
+  }, [trailPoints, trailPlayheadMs]);
+
+  const trailPlayheadPosition = useMemo(() => {
+    if (!trailPoints || trailPlayheadMs == null) return null;
+    return trailPositionAt(trailPoints, trailPlayheadMs);
+  }, [trailPoints, trailPlayheadMs]);
+
+  const trailPointAtPlayhead = useMemo(() => {
+    if (!trailPoints || trailPlayheadMs == null) return null;
+    return trailPoints[findTrailIndexAt(trailPoints, trailPlayheadMs)];
+  }, [trailPoints, trailPlayheadMs]);
+
   // Get enriched data for the selected NFO tile
   const enrichedSelectedNfo = useMemo(() => {
     if (!selectedNfoForTile) return null;
@@ -1218,6 +1567,37 @@ export default function LiveMapInner({
           />
         </div>
 
+        {/* Response-time coverage (isochrones of free NFOs) */}
+        <div style={{ flex: "0 0 auto" }}>
+          <CoveragePanel
+            enabled={showCoverage}
+            onToggle={() => setShowCoverage(!showCoverage)}
+            loading={!coverageReady}
+            error={currentCoverage?.error ?? null}
+            sourceCount={coverageCandidates.length}
+            estimatedCount={
+              (currentCoverage?.result?.engines.filter((e) => e === "haversine").length ?? 0) +
+              coverageCandidates.length -
+              coverageSources.length
+            }
+            coverage={siteCoverage}
+            onAreaSelect={onMapAreaFilterChange}
+          />
+        </div>
+
+        {/* Marker clustering + density heatmap */}
+        <div style={{ flex: "0 0 auto" }}>
+          <DensityPanel
+            clustering={clusterMarkers}
+            onToggleClustering={() => setClusterMarkers(!clusterMarkers)}
+            heatmapMode={heatmapMode}
+            onHeatmapModeChange={setHeatmapMode}
+            faultDataAvailable={faultPoints.length > 0}
+            siteCount={sitesWithCoords.length}
+            renderedSiteCount={siteMarkerData.singles.length}
+          />
+        </div>
+
         {/* NFO Search with Clear button */}
         <div style={{ flex: "0 0 auto" }}>
           <h3 style={{ marginTop: 0, marginBottom: "8px", fontSize: "13px", fontWeight: "bold" }}>
@@ -1383,12 +1763,15 @@ export default function LiveMapInner({
                         <div style={{ fontWeight: "bold", color: activeRoute.isFallback ? "#d97706" : "#2e7d32", marginBottom: "2px" }}>
                           {activeRoute.isFallback ? "📏" : "🚗"} {activeRoute.isFallback ? "Air Distance" : "Driving Route"}{" "}
                           {!activeRoute.isFallback && (
-                            activeRoute.engine === "osrm" ? (
-                              <span style={{ color: "#7c3aed", fontWeight: "600" }}>[OSRM fallback]</span>
+                            activeRoute.engine && activeRoute.engine !== "ors" ? (
+                              <span style={{ color: "#7c3aed", fontWeight: "600" }}>[{ROUTE_ENGINE_LABELS[activeRoute.engine]} fallback]</span>
                             ) : (
                               <span style={{ color: "#059669", fontWeight: "600" }}>[ORS]</span>
                             )
                           )}
+                          {activeRoute.cacheSource && (
+                            <span style={{ color: "#64748b", fontWeight: "600" }}> [cached]</span>
+                          )}
                         </div>
                         <div style={{ color: "#333" }}>
                           <span style={{ fontWeight: "bold" }}>Distance:</span> {(activeRoute.distanceMeters / 1000).toFixed(2)} km
@@ -1415,6 +1798,35 @@ export default function LiveMapInner({
           </div>
         )}
 
+        {/* Dispatch shortlist - free NFOs ranked by driving ETA to the selected site */}
+        {selectedSiteFromSearch && (
+          <div style={{ flex: "0 0 auto" }}>
+            <DispatchShortlist
+              site={selectedSiteFromSearch}
+              nfos={enrichedNfos}
+              warehouses={warehouses}
+              options={{
+                staleMinutesForArea: (area) => resolveAreaThresholds(alertRules, area).staleMinutes,
+              }}
+              activeRouteUsername={activeRoute?.nfoUsername ?? null}
+              canAssign={canAssignJobs}
+              onAssignmentCreated={onAssignmentCreated}
+              onShowRoute={(candidate) => {
+                setRouteError(null);
+                setActiveRoute({
+                  nfoUsername: candidate.nfo.username,
+                  coordinates: candidate.route.coordinates,
+                  distanceMeters: candidate.route.distanceKm * 1000,
+                  durationSeconds: candidate.route.durationMin * 60,
+                  engine: candidate.route.engine,
+                  warning: candidate.route.warning,
+                  isFallback: candidate.route.isFallback,
+                });
+              }}
+            />
+          </div>
+        )}
+
         {/* Selected NFO Tile Panel - shows when an NFO is selected via search or marker click */}
         {/* SAME FIELDS AS DASHBOARD ROW: Username, Name, On shift, Status, Ping Status, Activity, Site ID, Via warehouse, Warehouse, Nearest site, Air distance, Last active */}
         {selectedNfoForTile && enrichedSelectedNfo && (
@@ -1587,15 +1999,23 @@ export default function LiveMapInner({
                   <div style={{ fontWeight: "bold", color: nfoTileRoute.isFallback ? "#d97706" : "#2e7d32" }}>
                     {formatRouteSummary(nfoTileRoute)}
                   </div>
+                  {nfoTileRoute.closedWarehouse && (
+                    <div style={{ marginTop: "4px", fontSize: "10px", color: "#c2410c" }}>
+                      {closedPickupNote(nfoTileRoute.closedWarehouse)}
+                    </div>
+                  )}
                   {/* Engine label row */}
                   {!nfoTileRoute.isFallback && (
                     <div style={{ marginTop: "4px", fontSize: "10px" }}>
                       Engine:{" "}
-                      {nfoTileRoute.engine === "osrm" ? (
-                        <span style={{ color: "#7c3aed", fontWeight: "600" }}>OSRM (fallback)</span>
+                      {nfoTileRoute.engine && nfoTileRoute.engine !== "ors" ? (
+                        <span style={{ color: "#7c3aed", fontWeight: "600" }}>{ROUTE_ENGINE_LABELS[nfoTileRoute.engine]} (fallback)</span>
                       ) : (
                         <span style={{ color: "#059669", fontWeight: "600" }}>ORS</span>
                       )}
+                      {nfoTileRoute.cacheSource && (
+                        <span style={{ color: "#64748b" }}> · cached</span>
+                      )}
                     </div>
                   )}
                   {/* Warning if route seems suspicious */}
@@ -1604,6 +2024,123 @@ export default function LiveMapInner({
                       ⚠️ {nfoTileRoute.warning}
                     </div>
                   )}
+                  {nfoTileRouteSheet && (
+                    <div style={{ marginTop: "6px" }}>
+                      <RouteDirections sheet={nfoTileRouteSheet} />
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
+
+            {/* Trail Playback Section - breadcrumbs from nfo_status history */}
+            <div style={{ borderTop: "1px solid #e0e0e0", paddingTop: "10px", marginTop: "10px" }}>
+              <div style={{ fontWeight: "bold", fontSize: "12px", marginBottom: "6px" }}>
+                🕒 Trail playback
+              </div>
+              <div style={{ display: "flex", alignItems: "center", gap: "8px", fontSize: "11px" }}>
+                <select
+                  value={trailWindowHours}
+                  onChange={(e) => setTrailWindowHours(Number(e.target.value))}
+                  style={{ padding: "4px", border: "1px solid #ddd", borderRadius: "4px", fontSize: "11px" }}
+                >
+                  {TRAIL_WINDOW_OPTIONS_HOURS.map((h) => (
+                    <option key={h} value={h}>Last {h} h</option>
+                  ))}
+                </select>
+                <button
+                  onClick={loadTrailForNfoTile}
+                  disabled={trailLoading}
+                  style={{
+                    padding: "4px 12px",
+                    fontSize: "11px",
+                    backgroundColor: trailLoading ? "#ccc" : "#0ea5e9",
+                    color: "#fff",
+                    border: "none",
+                    borderRadius: "4px",
+                    cursor: trailLoading ? "not-allowed" : "pointer",
+                    fontWeight: "bold",
+                  }}
+                >
+                  {trailLoading ? "Loading..." : trailPoints ? "Reload" : "Load trail"}
+                </button>
+                {trailPoints && (
+                  <button
+                    onClick={handleClearTrail}
+                    style={{
+                      padding: "4px 10px",
+                      fontSize: "11px",
+                      backgroundColor: "#f3f4f6",
+                      color: "#666",
+                      border: "1px solid #ddd",
+                      borderRadius: "4px",
+                      cursor: "pointer",
+                    }}
+                  >
+                    Clear
+                  </button>
+                )}
+              </div>
+
+              {trailError && (
+                <div style={{ marginTop: "6px", color: "#ef4444", fontSize: "11px" }}>
+                  ⚠️ {trailError}
+                </div>
+              )}
+
+              {trailPoints && trailStartMs != null && trailEndMs != null && (
+                <div style={{ marginTop: "8px", fontSize: "10px", color: "#333" }}>
+                  <div style={{ color: "#666", marginBottom: "4px" }}>
+                    {trailPoints.length} heartbeats · {new Date(trailStartMs).toLocaleTimeString()} – {new Date(trailEndMs).toLocaleTimeString()}
+                  </div>
+                  <input
+                    type="range"
+                    min={trailStartMs}
+                    max={trailEndMs}
+                    step={1000}
+                    value={trailPlayheadMs ?? trailEndMs}
+                    onChange={(e) => {
+                      setTrailPlaying(false);
+                      setTrailPlayheadMs(Number(e.target.value));
+                    }}
+                    style={{ width: "100%" }}
+                  />
+                  <div style={{ display: "flex", alignItems: "center", gap: "8px", marginTop: "4px" }}>
+                    <button
+                      onClick={handleToggleTrailPlay}
+                      style={{
+                        padding: "3px 10px",
+                        fontSize: "11px",
+                        backgroundColor: trailPlaying ? "#f59e0b" : "#22c55e",
+                        color: "#fff",
+                        border: "none",
+                        borderRadius: "4px",
+                        cursor: "pointer",
+                        fontWeight: "bold",
+                      }}
+                    >
+                      {trailPlaying ? "⏸ Pause" : "▶ Play"}
+                    </button>
+                    <select
+                      value={trailSpeed}
+                      onChange={(e) => setTrailSpeed(Number(e.target.value))}
+                      style={{ padding: "2px", border: "1px solid #ddd", borderRadius: "4px", fontSize: "10px" }}
+                    >
+                      {TRAIL_SPEED_OPTIONS.map((opt) => (
+                        <option key={opt.value} value={opt.value}>{opt.label}</option>
+                      ))}
+                    </select>
+                    <span style={{ fontFamily: "monospace", fontWeight: "bold" }}>
+                      {trailPlayheadMs != null ? new Date(trailPlayheadMs).toLocaleTimeString() : "-"}
+                    </span>
+                  </div>
+                  {trailPointAtPlayhead && (
+                    <div style={{ marginTop: "4px", color: "#666" }}>
+                      Status: <span style={{ fontWeight: "bold" }}>{trailPointAtPlayhead.status || "-"}</span>
+                      {" · "}Activity: {trailPointAtPlayhead.activity || "-"}
+                      {" · "}Site: <span style={{ fontFamily: "monospace" }}>{trailPointAtPlayhead.site_id?.trim() || "-"}</span>
+                    </div>
+                  )}
                 </div>
               )}
             </div>
@@ -1618,10 +2155,13 @@ export default function LiveMapInner({
           zoom={7}
           style={{ height: "100%", width: "100%" }}
           scrollWheelZoom={true}
+          preferCanvas={true}
         >
       <TileLayer
-        attribution="&copy; OpenStreetMap contributors"
-        url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
+        attribution={MAP_TILE_ATTRIBUTION}
+        url={MAP_TILE_URL}
+        subdomains={MAP_TILE_SUBDOMAINS}
+        crossOrigin={MAP_TILE_CROSS_ORIGIN}
       />
 
       {/* Fix Leaflet map size when tab becomes active or window resizes */}
@@ -1630,6 +2170,21 @@ export default function LiveMapInner({
       {/* Map Center Control - handles zoom to NFO clicks */}
       <MapCenterControl />
 
+      {/* Bounds + zoom for culling and clustering */}
+      <MapViewportTracker onChange={setViewport} />
+
+      {/* Isochrone coverage - below every marker and line */}
+      {showCoverage && (
+        <CoverageLayer polygons={coveragePolygons} sites={sitesWithCoords} coverage={siteCoverage} />
+      )}
+
+      {/* Density heatmap and cluster bubbles */}
+      <MapDensityLayers
+        siteClusters={siteMarkerData.clusters}
+        nfoClusters={nfoMarkerData.clusters}
+        heatGrid={heatGrid}
+      />
+
       {/* Bold yellow connection lines from NFOs to selected/nearest sites */}
       {connectionLines.map((line, idx) => (
         <Polyline
@@ -1664,8 +2219,26 @@ export default function LiveMapInner({
         />
       )}
 
+      {/* Breadcrumb trail for the selected NFO - coloured from blue (oldest) to red (newest) */}
+      {trailSegments.map((segment, idx) => (
+        <Polyline
+          key={`trail-${selectedTileUsername ?? "nfo"}-${idx}`}
+          positions={segment.positions}
+          pathOptions={{ color: segment.color, weight: 4, opacity: 0.85 }}
+        />
+      ))}
+
+      {/* Playhead marker - interpolated position at the scrubber time */}
+      {trailPlayheadPosition && (
+        <CircleMarker
+          center={[trailPlayheadPosition.lat, trailPlayheadPosition.lng]}
+          radius={8}
+          pathOptions={{ color: "#111827", fillColor: "#facc15", fillOpacity: 1, weight: 2 }}
+        />
+      )}
+
       {/* NFO markers with status-based colors */}
-      {filteredEnrichedNfos.map((enriched, nfoIdx) => {
+      {nfoMarkerData.singles.map((enriched, nfoIdx) => {
         const minutesSinceActive = ageMinutes(enriched.last_active_at);
         const icon = getNfoIcon(enriched);
         const isSelectedNfo = selectedNfoUsername === enriched.username;
@@ -1787,9 +2360,39 @@ export default function LiveMapInner({
         );
       })}
 
-      {/* Site markers with labels - only shown when not NFOs_ONLY */}
-      {sitesWithCoords.map((site, siteIdx) => {
+      {/* Site markers with labels - only shown when not NFOs_ONLY, culled to the viewport.
+          Above MAX_DETAILED_SITE_MARKERS they are canvas circles without labels. */}
+      {siteMarkerData.singles.map((site, siteIdx) => {
         const isSelected = selectedSiteFromSearch?.site_id === site.site_id;
+        const sitePopup = (
+          <Popup>
+            <div className="text-xs space-y-1">
+              <div>
+                <strong>Site: {site.site_id}</strong>
+              </div>
+              {site.name && <div>Name: {site.name}</div>}
+              {site.area && <div>Area: {site.area}</div>}
+              <div>
+                Coords: {site.latitude?.toFixed(4)}, {site.longitude?.toFixed(4)}
+              </div>
+            </div>
+          </Popup>
+        );
+        if (!detailedSiteMarkers) {
+          return (
+            <CircleMarker
+              key={`site-dot-${site.site_id}-${siteIdx}`}
+              center={[site.latitude as number, site.longitude as number]}
+              radius={4}
+              pathOptions={{ color: "#1e40af", weight: 1, fillColor: "#3388ff", fillOpacity: 0.9 }}
+              eventHandlers={{
+                click: () => setSelectedSiteFromSearch(site),
+              }}
+            >
+              {sitePopup}
+            </CircleMarker>
+          );
+        }
         return (
         <div key={`site-marker-${site.site_id}-${siteIdx}`}>
           <Marker
@@ -1800,18 +2403,7 @@ export default function LiveMapInner({
               click: () => setSelectedSiteFromSearch(site),
             }}
           >
-            <Popup>
-              <div className="text-xs space-y-1">
-                <div>
-                  <strong>Site: {site.site_id}</strong>
-                </div>
-                {site.name && <div>Name: {site.name}</div>}
-                {site.area && <div>Area: {site.area}</div>}
-                <div>
-                  Coords: {site.latitude?.toFixed(4)}, {site.longitude?.toFixed(4)}
-                </div>
-              </div>
-            </Popup>
+            {sitePopup}
           </Marker>
           {/* Site ID label - highlighted if selected */}
           <Marker
@@ -1849,6 +2441,14 @@ export default function LiveMapInner({
                   <span className="text-gray-500">Region:</span> {wh.region}
                 </div>
               )}
+              {wh.areas && wh.areas.length > 0 && (
+                <div>
+                  <span className="text-gray-500">Areas:</span> {wh.areas.join(", ")}
+                </div>
+              )}
+              <div>
+                <span className="text-gray-500">Hours:</span> {formatOpeningHours(wh.opening_hours)}
+              </div>
               <div className="text-gray-500">
                 Coords: {wh.latitude?.toFixed(4)}, {wh.longitude?.toFixed(4)}
               </div>
@@ -0,0 +1,207 @@
+"use client";
+
+import { useEffect } from "react";
+import { Marker, Rectangle, Tooltip, useMap, useMapEvents } from "react-leaflet";
+import L from "leaflet";
+import {
+  heatColor,
+  type HeatGrid,
+  type HeatmapMode,
+  type MapViewport,
+  type MarkerCluster,
+} from "../lib/mapClustering";
+
+/**
+ * MapDensityLayers - Live Map overlays for large marker sets (mapClustering.ts):
+ * the density heatmap grid underneath, then one count bubble per site / NFO
+ * cluster. Clicking a bubble zooms to its members.
+ *
+ * MapViewportTracker reports the map's bounds and zoom after every move so the
+ * parent can cull and cluster, and DensityPanel is the matching side-panel block
+ * with the clustering toggle and heatmap mode.
+ */
+interface MapDensityLayersProps {
+  siteClusters: MarkerCluster[];
+  nfoClusters: MarkerCluster[];
+  heatGrid: HeatGrid | null;
+}
+
+const SITE_CLUSTER_COLOR = "#2563eb";
+const NFO_CLUSTER_COLOR = "#7c3aed";
+
+// Bubble size grows with the member count, capped so big clusters don't cover the map
+const clusterSizePx = (count: number) => Math.min(56, 26 + Math.round(Math.log10(count) * 12));
+
+// Icons are reused across renders - only a handful of (color, count) pairs exist per view
+const clusterIconCache = new Map<string, L.DivIcon>();
+
+function getClusterIcon(count: number, color: string): L.DivIcon {
+  const cacheKey = `${color}-${count}`;
+  const cached = clusterIconCache.get(cacheKey);
+  if (cached) return cached;
+  const size = clusterSizePx(count);
+  const icon = L.divIcon({
+    className: "map-cluster",
+    html: `<div style="width: ${size}px; height: ${size}px; border-radius: 50%; background: ${color}; opacity: 0.85; border: 3px solid rgba(255,255,255,0.8); box-shadow: 0 1px 4px rgba(0,0,0,0.35); color: white; font-size: 11px; font-weight: 700; display: flex; align-items: center; justify-content: center;">${count}</div>`,
+    iconSize: [size, size],
+    iconAnchor: [size / 2, size / 2],
+  });
+  clusterIconCache.set(cacheKey, icon);
+  return icon;
+}
+
+function ClusterMarker({ cluster, color, label }: { cluster: MarkerCluster; color: string; label: string }) {
+  const map = useMap();
+  return (
+    <Marker
+      position={[cluster.lat, cluster.lng]}
+      icon={getClusterIcon(cluster.count, color)}
+      eventHandlers={{
+        click: () =>
+          map.fitBounds(
+            [
+              [cluster.bounds.south, cluster.bounds.west],
+              [cluster.bounds.north, cluster.bounds.east],
+            ],
+            { padding: [40, 40] }
+          ),
+      }}
+    >
+      <Tooltip>
+        {cluster.count} {label} – click to zoom in
+      </Tooltip>
+    </Marker>
+  );
+}
+
+export default function MapDensityLayers({ siteClusters, nfoClusters, heatGrid }: MapDensityLayersProps) {
+  return (
+    <>
+      {heatGrid &&
+        heatGrid.cells.map((cell) => (
+          <Rectangle
+            key={cell.key}
+            bounds={[
+              [cell.bounds.south, cell.bounds.west],
+              [cell.bounds.north, cell.bounds.east],
+            ]}
+            pathOptions={{
+              stroke: false,
+              fillColor: heatColor(heatGrid.max > 0 ? cell.value / heatGrid.max : 0),
+              fillOpacity: 0.55,
+            }}
+            interactive={false}
+          />
+        ))}
+      {siteClusters.map((cluster) => (
+        <ClusterMarker key={cluster.key} cluster={cluster} color={SITE_CLUSTER_COLOR} label="sites" />
+      ))}
+      {nfoClusters.map((cluster) => (
+        <ClusterMarker key={cluster.key} cluster={cluster} color={NFO_CLUSTER_COLOR} label="NFOs" />
+      ))}
+    </>
+  );
+}
+
+/**
+ * Reports the current bounds + zoom on mount and after every pan / zoom.
+ */
+export function MapViewportTracker({ onChange }: { onChange: (viewport: MapViewport) => void }) {
+  const map = useMapEvents({
+    moveend: () => onChange(readViewport(map)),
+  });
+
+  useEffect(() => {
+    onChange(readViewport(map));
+  }, [map, onChange]);
+
+  return null;
+}
+
+function readViewport(map: L.Map): MapViewport {
+  const bounds = map.getBounds();
+  return {
+    bounds: {
+      south: bounds.getSouth(),
+      west: bounds.getWest(),
+      north: bounds.getNorth(),
+      east: bounds.getEast(),
+    },
+    zoom: map.getZoom(),
+  };
+}
+
+interface DensityPanelProps {
+  clustering: boolean;
+  onToggleClustering: () => void;
+  heatmapMode: HeatmapMode;
+  onHeatmapModeChange: (mode: HeatmapMode) => void;
+  faultDataAvailable: boolean; // any job with a located site
+  siteCount: number;           // sites in the current filter
+  renderedSiteCount: number;   // of those, drawn as individual markers
+}
+
+export function DensityPanel({
+  clustering,
+  onToggleClustering,
+  heatmapMode,
+  onHeatmapModeChange,
+  faultDataAvailable,
+  siteCount,
+  renderedSiteCount,
+}: DensityPanelProps) {
+  const modes: { id: HeatmapMode; label: string; disabled: boolean }[] = [
+    { id: "off", label: "Off", disabled: false },
+    { id: "sites", label: "Sites", disabled: false },
+    { id: "faults", label: "Faults", disabled: !faultDataAvailable },
+  ];
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-3 text-xs space-y-2">
+      <button
+        onClick={onToggleClustering}
+        className={`w-full flex items-center gap-2 p-1.5 rounded transition-all cursor-pointer ${
+          clustering ? "bg-blue-100 ring-2 ring-blue-500" : "hover:bg-gray-100"
+        }`}
+      >
+        <span className="flex-1 text-left font-semibold">Cluster markers</span>
+        <span className="text-gray-500">{clustering ? "On" : "Off"}</span>
+      </button>
+
+      <div>
+        <div className="font-semibold mb-1">Heatmap</div>
+        <div className="flex gap-1">
+          {modes.map((mode) => (
+            <button
+              key={mode.id}
+              onClick={() => onHeatmapModeChange(mode.id)}
+              disabled={mode.disabled}
+              title={mode.disabled ? "No jobs with a located site yet" : undefined}
+              className={`flex-1 px-2 py-1 rounded border transition-all ${
+                heatmapMode === mode.id
+                  ? "bg-red-100 border-red-400 text-red-700 font-semibold"
+                  : "border-gray-200 hover:bg-gray-100"
+              } disabled:opacity-40 disabled:cursor-not-allowed`}
+            >
+              {mode.label}
+            </button>
+          ))}
+        </div>
+        {heatmapMode !== "off" && (
+          <div className="flex items-center gap-1 mt-1 text-gray-500">
+            <span>Sparse</span>
+            <span
+              className="flex-1 h-2 rounded"
+              style={{ background: `linear-gradient(to right, ${heatColor(0)}, ${heatColor(0.5)}, ${heatColor(1)})` }}
+            />
+            <span>Dense</span>
+          </div>
+        )}
+      </div>
+
+      <div className="text-gray-500">
+        {renderedSiteCount} of {siteCount} site(s) drawn individually in this view
+      </div>
+    </div>
+  );
+}
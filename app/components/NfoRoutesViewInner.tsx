@@ -3,15 +3,10 @@
 import { useEffect, useMemo, useState } from "react";
 import { MapContainer, Marker, Polyline, Popup, TileLayer } from "react-leaflet";
 import L from "leaflet";
-import { supabase } from "../../lib/supabaseClient";
 import { parseCoords } from "../lib/geoHelpers";
-import { type NfoStatusRow, computeAssignmentState } from "../lib/nfoHelpers";
-
-type SiteCoordinate = {
-  site_id: string;
-  latitude: any; // can be string or number from Supabase
-  longitude: any; // can be string or number from Supabase
-};
+import { type NfoStatusRow, type SiteRecord, computeAssignmentState } from "../lib/nfoHelpers";
+import { fetchSites } from "../lib/dataClient";
+import { MAP_TILE_ATTRIBUTION, MAP_TILE_CROSS_ORIGIN, MAP_TILE_SUBDOMAINS, MAP_TILE_URL, MARKER_ICON_URLS } from "../lib/mapAssets";
 
 type NfoRoutesViewProps = {
   nfos: NfoStatusRow[];
@@ -20,9 +15,9 @@ type NfoRoutesViewProps = {
 // Create icon lazily only on client side to avoid SSR issues
 const createDefaultIcon = () =>
   L.icon({
-    iconUrl: "https://unpkg.com/leaflet@1.9.4/dist/images/marker-icon.png",
-    iconRetinaUrl: "https://unpkg.com/leaflet@1.9.4/dist/images/marker-icon-2x.png",
-    shadowUrl: "https://unpkg.com/leaflet@1.9.4/dist/images/marker-shadow.png",
+    iconUrl: MARKER_ICON_URLS.default,
+    iconRetinaUrl: MARKER_ICON_URLS.defaultRetina,
+    shadowUrl: MARKER_ICON_URLS.shadow,
     iconSize: [25, 41],
     iconAnchor: [12, 41],
   });
@@ -45,30 +40,21 @@ export default function NfoRoutesViewInner({ nfos }: NfoRoutesViewProps) {
     return createDefaultIcon();
   }, [isClient]);
 
-  const [sites, setSites] = useState<SiteCoordinate[]>([]);
+  const [sites, setSites] = useState<SiteRecord[]>([]);
   const [selectedUsername, setSelectedUsername] = useState<string>("");
   const [selectedSiteId, setSelectedSiteId] = useState<string>("");
   const [routeCoords, setRouteCoords] = useState<[number, number][]>([]);
   const [loadingRoute, setLoadingRoute] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  // Load sites from Supabase
+  // Load sites from /api/sites (shares the dashboard's ETag cache, usually a 304)
   useEffect(() => {
     const loadSites = async () => {
-      const { data, error } = await supabase
-        .from("Site_Coordinates")
-        .select("site_id, site_name, latitude, longitude, area");
-
-      if (error) {
-        console.error("Error loading sites:", error);
-      } else {
-        setSites(
-          (data ?? []).map((row: any) => ({
-            site_id: row.site_id,
-            latitude: row.latitude,
-            longitude: row.longitude,
-          }))
-        );
+      try {
+        const { data } = await fetchSites();
+        setSites(data);
+      } catch (err) {
+        console.error("Error loading sites:", err);
       }
     };
 
@@ -108,7 +94,7 @@ export default function NfoRoutesViewInner({ nfos }: NfoRoutesViewProps) {
         return;
       }
 
-      // Parse site coordinates (they may be strings from Supabase)
+      // Site coordinates are normalised by /api/sites but may still be missing
       const siteCoords = parseCoords(site.latitude, site.longitude);
       if (!siteCoords) {
         setError("Invalid site coordinates");
@@ -269,8 +255,10 @@ export default function NfoRoutesViewInner({ nfos }: NfoRoutesViewProps) {
             style={{ height: "600px", width: "100%" }}
           >
             <TileLayer
-              attribution="&copy; OpenStreetMap contributors"
-              url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
+              attribution={MAP_TILE_ATTRIBUTION}
+              url={MAP_TILE_URL}
+              subdomains={MAP_TILE_SUBDOMAINS}
+              crossOrigin={MAP_TILE_CROSS_ORIGIN}
             />
 
             {/* NFO marker */}
@@ -0,0 +1,133 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import type { SiteRecord } from "../lib/nfoHelpers";
+import { MAP_TILE_BULK_DOWNLOAD_ALLOWED } from "../lib/mapAssets";
+import {
+  MAX_PRECACHE_TILES,
+  clearCachedTiles,
+  countCachedTiles,
+  isServiceWorkerSupported,
+  planRegionTiles,
+  precacheRegionTiles,
+  siteRegionBounds,
+  type TilePrecacheResult,
+} from "../lib/offline";
+
+/**
+ * OfflineMapPanel - Settings block for the offline map (offline.ts): downloads
+ * the tiles covering every located site into the service worker's tile cache so
+ * the Live Map, Route Planner and NFO Routes maps keep their background when
+ * the control room loses its connection.
+ */
+interface OfflineMapPanelProps {
+  sites: SiteRecord[];
+}
+
+export default function OfflineMapPanel({ sites }: OfflineMapPanelProps) {
+  const [cachedTiles, setCachedTiles] = useState<number | null>(null);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [result, setResult] = useState<TilePrecacheResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const plan = useMemo(() => {
+    const bounds = siteRegionBounds(sites);
+    return bounds ? planRegionTiles(bounds) : null;
+  }, [sites]);
+
+  useEffect(() => {
+    countCachedTiles().then(setCachedTiles).catch(() => setCachedTiles(null));
+  }, []);
+
+  const supported = isServiceWorkerSupported() && typeof caches !== "undefined";
+  const running = progress != null && progress.done < progress.total;
+
+  const handleDownload = async () => {
+    if (!plan) return;
+    setError(null);
+    setResult(null);
+    setProgress({ done: 0, total: plan.urls.length });
+    try {
+      const outcome = await precacheRegionTiles(plan.urls, (done, total) => setProgress({ done, total }));
+      setResult(outcome);
+    } catch (err) {
+      console.error("[OfflineMap] Tile download failed:", err);
+      setError(err instanceof Error ? err.message : String(err));
+      setProgress(null);
+    }
+    setCachedTiles(await countCachedTiles());
+  };
+
+  const handleClear = async () => {
+    if (!window.confirm("Remove all cached map tiles?")) return;
+    await clearCachedTiles();
+    setResult(null);
+    setProgress(null);
+    setCachedTiles(await countCachedTiles());
+  };
+
+  return (
+    <section className="bg-white rounded-xl shadow p-4 space-y-3 text-sm">
+      <div>
+        <h3 className="text-lg font-semibold">Offline map</h3>
+        <p className="text-xs text-slate-500">
+          Saves map tiles for the operating region (every site with coordinates) in this browser. Marker icons are
+          bundled with the app, and the last NFO positions are kept automatically.
+        </p>
+      </div>
+
+      {!supported ? (
+        <p className="text-orange-600">⚠️ This browser doesn&apos;t support offline caching.</p>
+      ) : !plan ? (
+        <p className="text-slate-500">No sites with coordinates yet.</p>
+      ) : (
+        <>
+          <div className="text-xs text-slate-600 space-y-1">
+            <div>
+              Region: {plan.bounds.south.toFixed(2)}, {plan.bounds.west.toFixed(2)} → {plan.bounds.north.toFixed(2)},{" "}
+              {plan.bounds.east.toFixed(2)}
+            </div>
+            <div>
+              {plan.urls.length} tiles, zoom {plan.minZoom}–{plan.maxZoom}
+              {plan.truncated && ` (deeper zoom levels exceed ${MAX_PRECACHE_TILES} tiles)`}
+            </div>
+            <div>Tiles in cache: {cachedTiles ?? "–"}</div>
+          </div>
+
+          {!MAP_TILE_BULK_DOWNLOAD_ALLOWED && (
+            <p className="text-xs text-orange-600">
+              ⚠️ Region download is off: the public OpenStreetMap tile servers don&apos;t allow bulk downloads. Set
+              NEXT_PUBLIC_MAP_TILE_URL to a self-hosted or licensed tile server (with CORS headers) to enable it.
+              Tiles you view are still kept for offline use.
+            </p>
+          )}
+
+          <div className="flex items-center gap-2">
+            <button
+              onClick={handleDownload}
+              disabled={running || plan.urls.length === 0 || !MAP_TILE_BULK_DOWNLOAD_ALLOWED}
+              className="px-3 py-1.5 rounded bg-sky-600 text-white text-xs font-semibold hover:bg-sky-700 disabled:opacity-50"
+            >
+              {running ? `Downloading… ${progress.done} / ${progress.total}` : "Download region for offline use"}
+            </button>
+            <button
+              onClick={handleClear}
+              disabled={running}
+              className="px-3 py-1.5 rounded border border-slate-300 text-xs hover:bg-slate-50 disabled:opacity-50"
+            >
+              Clear cached tiles
+            </button>
+          </div>
+
+          {result && (
+            <p className="text-xs text-emerald-700">
+              ✓ {result.cached} downloaded, {result.skipped} already cached
+              {result.failed > 0 && <span className="text-orange-600"> · {result.failed} failed</span>}
+            </p>
+          )}
+          {error && <p className="text-xs text-red-600">{error}</p>}
+        </>
+      )}
+    </section>
+  );
+}
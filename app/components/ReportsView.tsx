@@ -0,0 +1,287 @@
+"use client";
+
+import { useState, useMemo, useEffect } from "react";
+import type { NfoStatusRow } from "../lib/nfoHelpers";
+import {
+  reportPeriodRange,
+  summarizeReport,
+  type NfoDayMetrics,
+  type ReportGrouping,
+  type ReportRow,
+} from "../lib/reports";
+import { toLocalDateInput } from "../lib/roster";
+import { fetchReport } from "../lib/dataClient";
+import type { ExportColumn } from "../lib/tableExport";
+import ExportButtons from "./ExportButtons";
+
+/**
+ * ReportsView - daily and weekly productivity per NFO, area or day, built from
+ * the full nfo_status history (see reports.ts).
+ *
+ * Opens on last week (Monday–Sunday), which is what management asks for every
+ * Monday. Only NFOs this manager may see are included; the current table and the
+ * raw per-day rows can be downloaded as CSV or XLSX.
+ */
+interface ReportsViewProps {
+  nfos: NfoStatusRow[]; // NFOs this manager may see
+  now: number;
+}
+
+type ReportPeriod = "day" | "week";
+
+const GROUPING_LABELS: Record<ReportGrouping, string> = {
+  nfo: "Per NFO",
+  area: "Per area",
+  day: "Per day",
+};
+
+const REPORT_COLUMNS: ExportColumn<ReportRow>[] = [
+  { header: "Group", value: (r) => r.label },
+  { header: "Area", value: (r) => r.area },
+  { header: "NFOs", value: (r) => r.nfoCount },
+  { header: "Active NFO-days", value: (r) => r.activeDays },
+  { header: "On-shift hours", value: (r) => r.onShiftHours },
+  { header: "Busy hours", value: (r) => r.busyHours },
+  { header: "Idle (free) hours", value: (r) => r.freeHours },
+  { header: "Utilisation %", value: (r) => r.utilisationPercent },
+  { header: "Sites visited", value: (r) => r.sitesVisited },
+  { header: "Est. km driven", value: (r) => r.kmDriven },
+  { header: "Silent hours", value: (r) => r.silentHours },
+];
+
+const DAY_COLUMNS: ExportColumn<NfoDayMetrics>[] = [
+  { header: "Day", value: (d) => d.day },
+  { header: "Username", value: (d) => d.username },
+  { header: "Name", value: (d) => d.name },
+  { header: "Area", value: (d) => d.area },
+  { header: "On-shift hours", value: (d) => d.onShiftHours },
+  { header: "Busy hours", value: (d) => d.busyHours },
+  { header: "Idle (free) hours", value: (d) => d.freeHours },
+  { header: "Sites visited", value: (d) => d.siteIds.length },
+  { header: "Site IDs", value: (d) => d.siteIds.join(" ") },
+  { header: "Est. km driven", value: (d) => d.kmDriven },
+  { header: "Silent hours", value: (d) => d.silentHours },
+  { header: "Heartbeats", value: (d) => d.heartbeats },
+];
+
+const shiftDate = (day: string, deltaDays: number) => {
+  const range = reportPeriodRange(day, "day");
+  if (!range) return day;
+  const d = new Date(range.from);
+  d.setDate(d.getDate() + deltaDays);
+  return toLocalDateInput(d.getTime());
+};
+
+export default function ReportsView({ nfos, now }: ReportsViewProps) {
+  const [period, setPeriod] = useState<ReportPeriod>("week");
+  const [day, setDay] = useState(() => shiftDate(toLocalDateInput(now), -7));
+  const [grouping, setGrouping] = useState<ReportGrouping>("nfo");
+  const [days, setDays] = useState<NfoDayMetrics[]>([]);
+  const [truncated, setTruncated] = useState(false);
+  const [loadedKey, setLoadedKey] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const range = useMemo(() => reportPeriodRange(day, period), [day, period]);
+  const rangeKey = range ? `${range.from}|${range.to}` : null;
+
+  useEffect(() => {
+    if (!range) return;
+    const key = `${range.from}|${range.to}`;
+    let cancelled = false;
+    fetchReport(range.from, range.to)
+      .then(({ data }) => {
+        if (cancelled) return;
+        setDays(data.days);
+        setTruncated(data.truncated);
+        setLoadedKey(key);
+        setError(null);
+      })
+      .catch((reportError) => {
+        if (cancelled) return;
+        console.warn("[Reports] Load failed:", reportError);
+        setError(reportError instanceof Error ? reportError.message : String(reportError));
+        setLoadedKey(key);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [range]);
+
+  const visibleDays = useMemo(() => {
+    const visible = new Set(nfos.map((n) => n.username));
+    return days.filter((d) => visible.has(d.username));
+  }, [days, nfos]);
+
+  const rows = useMemo(() => summarizeReport(visibleDays, grouping), [visibleDays, grouping]);
+  const totals = useMemo(() => {
+    const sum = { onShiftHours: 0, busyHours: 0, kmDriven: 0, sitesVisited: 0 };
+    for (const d of visibleDays) {
+      sum.onShiftHours += d.onShiftHours;
+      sum.busyHours += d.busyHours;
+      sum.kmDriven += d.kmDriven;
+      sum.sitesVisited += d.siteIds.length;
+    }
+    return sum;
+  }, [visibleDays]);
+
+  const periodLabel = range ? (period === "day" ? range.firstDay : `${range.firstDay} – ${range.lastDay}`) : "";
+  const filePrefix = range ? `nfo-report-${range.firstDay}${period === "week" ? `_${range.lastDay}` : ""}` : "nfo-report";
+  const loading = loadedKey !== rangeKey;
+
+  return (
+    <div className="max-w-6xl mx-auto space-y-6">
+      <header className="flex flex-wrap items-center justify-between gap-3">
+        <h1 className="text-2xl font-bold">Reports</h1>
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <select
+            value={period}
+            onChange={(e) => setPeriod(e.target.value as ReportPeriod)}
+            className="border border-slate-300 rounded-lg px-2 py-1"
+          >
+            <option value="day">Daily</option>
+            <option value="week">Weekly (Mon–Sun)</option>
+          </select>
+          <button
+            onClick={() => setDay((d) => shiftDate(d, period === "week" ? -7 : -1))}
+            className="px-2 py-1 rounded border border-slate-300 hover:bg-slate-100"
+          >
+            ‹
+          </button>
+          <input
+            type="date"
+            value={day}
+            onChange={(e) => e.target.value && setDay(e.target.value)}
+            className="border border-slate-300 rounded-lg px-2 py-1"
+          />
+          <button
+            onClick={() => setDay((d) => shiftDate(d, period === "week" ? 7 : 1))}
+            className="px-2 py-1 rounded border border-slate-300 hover:bg-slate-100"
+          >
+            ›
+          </button>
+          <button
+            onClick={() => {
+              setPeriod("week");
+              setDay(shiftDate(toLocalDateInput(now), -7));
+            }}
+            className="px-2 py-1 rounded border border-slate-300 hover:bg-slate-100"
+          >
+            Last week
+          </button>
+        </div>
+      </header>
+
+      {error && (
+        <div className="bg-orange-50 border border-orange-200 text-orange-700 rounded-lg p-3 text-sm">
+          ⚠️ {error}
+        </div>
+      )}
+      {truncated && (
+        <div className="bg-amber-50 border border-amber-200 text-amber-700 rounded-lg p-3 text-sm">
+          This period has more heartbeats than one report reads – the latest days are incomplete. Use a shorter period.
+        </div>
+      )}
+
+      <section className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        {[
+          { label: "On-shift hours", value: totals.onShiftHours.toFixed(1) },
+          {
+            label: "Utilisation (busy / on shift)",
+            value: totals.onShiftHours > 0 ? `${Math.round((totals.busyHours / totals.onShiftHours) * 100)}%` : "-",
+          },
+          { label: "Sites visited", value: String(totals.sitesVisited) },
+          { label: "Est. km driven", value: totals.kmDriven.toFixed(0) },
+        ].map((kpi) => (
+          <div key={kpi.label} className="bg-white rounded-xl shadow p-4">
+            <div className="text-xs text-slate-500">{kpi.label}</div>
+            <div className="text-2xl font-semibold">{loading ? "…" : kpi.value}</div>
+          </div>
+        ))}
+      </section>
+
+      <section className="bg-white rounded-xl shadow p-4">
+        <div className="flex flex-wrap items-center justify-between gap-2 mb-1">
+          <h2 className="text-lg font-semibold">{periodLabel}</h2>
+          <div className="flex items-center gap-2 text-xs">
+            {(Object.keys(GROUPING_LABELS) as ReportGrouping[]).map((g) => (
+              <button
+                key={g}
+                onClick={() => setGrouping(g)}
+                className={`px-2 py-1 rounded border ${
+                  grouping === g ? "bg-slate-800 text-white border-slate-800" : "border-slate-300 hover:bg-slate-100"
+                }`}
+              >
+                {GROUPING_LABELS[g]}
+              </button>
+            ))}
+            <span className="ml-2 text-slate-500">Export</span>
+            <ExportButtons
+              filename={`${filePrefix}-${grouping}`}
+              sheetName={GROUPING_LABELS[grouping]}
+              columns={REPORT_COLUMNS}
+              rows={rows}
+            />
+            <span className="text-slate-500">Raw NFO-days</span>
+            <ExportButtons
+              filename={`${filePrefix}-nfo-days`}
+              sheetName="NFO days"
+              columns={DAY_COLUMNS}
+              rows={visibleDays}
+              title="One row per NFO per day"
+            />
+          </div>
+        </div>
+        <p className="text-xs text-slate-500 mb-3">
+          Hours are credited between consecutive heartbeats (up to 15 min each); longer on-shift gaps count as silent
+          time. Km are straight-line distances between on-shift GPS fixes.
+        </p>
+        {loading ? (
+          <div className="text-sm text-slate-400">Aggregating heartbeats…</div>
+        ) : rows.length === 0 ? (
+          <div className="text-sm text-slate-400">No heartbeats in this period.</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="border-b bg-slate-50">
+                  <th className="text-left py-2 px-2">{grouping === "nfo" ? "NFO" : grouping === "area" ? "Area" : "Day"}</th>
+                  {grouping === "nfo" && <th className="text-left py-2 px-2">Area</th>}
+                  {grouping !== "nfo" && <th className="text-right py-2 px-2">NFOs</th>}
+                  <th className="text-right py-2 px-2">On shift (h)</th>
+                  <th className="text-right py-2 px-2">Busy (h)</th>
+                  <th className="text-right py-2 px-2">Idle (h)</th>
+                  <th className="text-right py-2 px-2">Utilisation</th>
+                  <th className="text-right py-2 px-2">Sites</th>
+                  <th className="text-right py-2 px-2">Km</th>
+                  <th className="text-right py-2 px-2">Silent (h)</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((r) => (
+                  <tr key={r.key} className="border-b last:border-b-0 hover:bg-slate-50">
+                    <td className="py-2 px-2 text-xs">{r.label}</td>
+                    {grouping === "nfo" && <td className="py-2 px-2 text-xs">{r.area ?? "-"}</td>}
+                    {grouping !== "nfo" && <td className="py-2 px-2 text-xs text-right">{r.nfoCount}</td>}
+                    <td className="py-2 px-2 text-xs text-right">{r.onShiftHours.toFixed(1)}</td>
+                    <td className="py-2 px-2 text-xs text-right">{r.busyHours.toFixed(1)}</td>
+                    <td className="py-2 px-2 text-xs text-right">{r.freeHours.toFixed(1)}</td>
+                    <td className="py-2 px-2 text-xs text-right">
+                      {r.utilisationPercent != null ? `${r.utilisationPercent}%` : "-"}
+                    </td>
+                    <td className="py-2 px-2 text-xs text-right">{r.sitesVisited}</td>
+                    <td className="py-2 px-2 text-xs text-right">{r.kmDriven.toFixed(1)}</td>
+                    <td
+                      className={`py-2 px-2 text-xs text-right ${r.silentHours >= 1 ? "text-orange-600 font-semibold" : ""}`}
+                    >
+                      {r.silentHours.toFixed(1)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </section>
+    </div>
+  );
+}
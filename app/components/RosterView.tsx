@@ -0,0 +1,407 @@
+"use client";
+
+import { useState, useMemo, useEffect, useCallback } from "react";
+import type { NfoStatusRow } from "../lib/nfoHelpers";
+import {
+  SHIFT_FLAG_LABELS,
+  buildRosterShift,
+  evaluateShiftCompliance,
+  localDayRange,
+  parseRosterCsv,
+  toLocalDateInput,
+  type NewRosterShift,
+  type RosterShift,
+  type ShiftCompliance,
+} from "../lib/roster";
+import { deleteRosterShift, fetchRoster, saveRosterShifts } from "../lib/dataClient";
+
+/**
+ * RosterView - planned shifts for one day against what the NFOs actually did.
+ *
+ * Each shift shows its first/last on-shift heartbeat and is flagged for a late
+ * start, early logout or no-show (see roster.ts). Supervisors and admins can add
+ * single shifts or import a CSV (`username,date,start,end[,notes]`); changes are
+ * reported through `onRosterChanged` so the dashboard's coverage refreshes.
+ */
+interface RosterViewProps {
+  nfos: NfoStatusRow[]; // NFOs this manager may see - shifts of others are hidden
+  now: number; // clock from the parent for in-progress / no-show checks
+  canEdit: boolean;
+  onRosterChanged: () => void;
+}
+
+const CSV_EXAMPLE = "username,date,start,end,notes\nnfo01,2026-10-20,08:00,16:00,\nnfo02,2026-10-20,22:00,06:00,night";
+
+const formatClock = (ms: number | null) =>
+  ms == null ? "-" : new Date(ms).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+
+const shiftDays = (day: string, delta: number) => {
+  const range = localDayRange(day);
+  if (!range) return day;
+  const d = new Date(range.from);
+  d.setDate(d.getDate() + delta);
+  return toLocalDateInput(d.getTime());
+};
+
+function ComplianceCell({ compliance }: { compliance: ShiftCompliance }) {
+  if (compliance.flags.length === 0) {
+    const label =
+      compliance.state === "upcoming" ? "Upcoming" : compliance.state === "in_progress" ? "On time" : "Completed";
+    return <span className={compliance.state === "upcoming" ? "text-slate-400" : "text-emerald-700"}>{label}</span>;
+  }
+  return (
+    <div className="flex flex-col gap-0.5">
+      {compliance.flags.map((flag) => (
+        <span key={flag} className="text-xs font-semibold px-2 py-0.5 rounded border bg-red-50 text-red-700 border-red-200">
+          {SHIFT_FLAG_LABELS[flag]}
+          {flag === "late_start" && compliance.lateByMin != null && ` (+${compliance.lateByMin} min)`}
+          {flag === "early_logout" && compliance.earlyByMin != null && ` (−${compliance.earlyByMin} min)`}
+        </span>
+      ))}
+    </div>
+  );
+}
+
+export default function RosterView({ nfos, now, canEdit, onRosterChanged }: RosterViewProps) {
+  const [day, setDay] = useState(() => toLocalDateInput(now));
+  const [shifts, setShifts] = useState<RosterShift[]>([]);
+  const [loadedDay, setLoadedDay] = useState<string | null>(null);
+  const [reloadToken, setReloadToken] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  // Add-shift form
+  const [newUsername, setNewUsername] = useState("");
+  const [newStart, setNewStart] = useState("08:00");
+  const [newEnd, setNewEnd] = useState("16:00");
+  const [newNotes, setNewNotes] = useState("");
+
+  // CSV import
+  const [csvText, setCsvText] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [importMessage, setImportMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    const range = localDayRange(day);
+    if (!range) return;
+    let cancelled = false;
+    fetchRoster(range.from, range.to)
+      .then(({ data }) => {
+        if (cancelled) return;
+        setShifts(data);
+        setLoadedDay(day);
+        setError(null);
+      })
+      .catch((rosterError) => {
+        if (cancelled) return;
+        console.warn("[Roster] Load failed:", rosterError);
+        setError(rosterError instanceof Error ? rosterError.message : String(rosterError));
+        setLoadedDay(day);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [day, reloadToken]);
+
+  const heartbeatByUser = useMemo(() => new Map(nfos.map((n) => [n.username, n])), [nfos]);
+
+  const csvPreview = useMemo(() => {
+    if (!csvText.trim()) return null;
+    const parsed = parseRosterCsv(csvText);
+    const unknown = parsed.shifts.filter((s) => !heartbeatByUser.has(s.username));
+    return {
+      shifts: parsed.shifts.filter((s) => heartbeatByUser.has(s.username)),
+      errors: [
+        ...parsed.errors,
+        ...unknown.map((s) => `Unknown or not visible NFO "${s.username}" – skipped`),
+      ],
+    };
+  }, [csvText, heartbeatByUser]);
+
+  const rows = useMemo(
+    () =>
+      shifts
+        .filter((s) => heartbeatByUser.has(s.username))
+        .map((shift) => ({ shift, compliance: evaluateShiftCompliance(shift, heartbeatByUser.get(shift.username), now) })),
+    [shifts, heartbeatByUser, now]
+  );
+
+  const counts = useMemo(() => {
+    const c = { inProgress: 0, late_start: 0, early_logout: 0, no_show: 0 };
+    for (const { compliance } of rows) {
+      if (compliance.state === "in_progress") c.inProgress += 1;
+      for (const flag of compliance.flags) c[flag] += 1;
+    }
+    return c;
+  }, [rows]);
+
+  const save = useCallback(
+    async (toSave: NewRosterShift[]) => {
+      setSaving(true);
+      setImportMessage(null);
+      try {
+        const saved = await saveRosterShifts(toSave);
+        setReloadToken((t) => t + 1);
+        onRosterChanged();
+        return saved;
+      } catch (saveError) {
+        console.warn("[Roster] Save failed:", saveError);
+        setError(saveError instanceof Error ? saveError.message : String(saveError));
+        return null;
+      } finally {
+        setSaving(false);
+      }
+    },
+    [onRosterChanged]
+  );
+
+  const handleAddShift = async () => {
+    const shift = buildRosterShift(newUsername, day, newStart, newEnd, newNotes);
+    if (!shift) {
+      setError("Pick an NFO and valid start/end times");
+      return;
+    }
+    if (await save([shift])) setNewNotes("");
+  };
+
+  const handleImport = async () => {
+    if (!csvPreview || csvPreview.shifts.length === 0) return;
+    const saved = await save(csvPreview.shifts);
+    if (saved) {
+      setImportMessage(`✓ Imported ${saved.length} shift${saved.length === 1 ? "" : "s"}`);
+      setCsvText("");
+    }
+  };
+
+  const handleCsvFile = (file: File | undefined) => {
+    if (!file) return;
+    file
+      .text()
+      .then(setCsvText)
+      .catch((readError) => setError(readError instanceof Error ? readError.message : String(readError)));
+  };
+
+  const handleDelete = async (shift: RosterShift) => {
+    try {
+      await deleteRosterShift(shift.id);
+      setShifts((prev) => prev.filter((s) => s.id !== shift.id));
+      onRosterChanged();
+    } catch (deleteError) {
+      console.warn("[Roster] Delete failed:", deleteError);
+      setError(deleteError instanceof Error ? deleteError.message : String(deleteError));
+    }
+  };
+
+  return (
+    <div className="max-w-6xl mx-auto space-y-6">
+      <header className="flex items-center justify-between">
+        <h1 className="text-2xl font-bold">Shift roster</h1>
+        <div className="flex items-center gap-2 text-sm">
+          <button
+            onClick={() => setDay((d) => shiftDays(d, -1))}
+            className="px-2 py-1 rounded border border-slate-300 hover:bg-slate-100"
+          >
+            ‹
+          </button>
+          <input
+            type="date"
+            value={day}
+            onChange={(e) => e.target.value && setDay(e.target.value)}
+            className="border border-slate-300 rounded-lg px-2 py-1"
+          />
+          <button
+            onClick={() => setDay((d) => shiftDays(d, 1))}
+            className="px-2 py-1 rounded border border-slate-300 hover:bg-slate-100"
+          >
+            ›
+          </button>
+        </div>
+      </header>
+
+      {error && (
+        <div className="bg-orange-50 border border-orange-200 text-orange-700 rounded-lg p-3 text-sm">
+          ⚠️ {error}
+        </div>
+      )}
+
+      <section className="bg-white rounded-xl shadow p-4">
+        <div className="flex items-center justify-between mb-1">
+          <h2 className="text-lg font-semibold">Planned vs actual</h2>
+          <span className="text-xs text-slate-500">
+            {rows.length} shift{rows.length === 1 ? "" : "s"} · {counts.inProgress} in progress · {counts.late_start}{" "}
+            late · {counts.early_logout} early logout · {counts.no_show} no-show
+          </span>
+        </div>
+        <p className="text-xs text-slate-500 mb-3">
+          Actual times are the first and last on-shift heartbeat around each shift. Late starts and early logouts
+          allow a few minutes&apos; grace.
+        </p>
+        {loadedDay !== day ? (
+          <div className="text-sm text-slate-400">Loading roster…</div>
+        ) : rows.length === 0 ? (
+          <div className="text-sm text-slate-400">No shifts planned for this day.</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="border-b bg-slate-50">
+                  <th className="text-left py-2 px-2">NFO</th>
+                  <th className="text-left py-2 px-2">Area</th>
+                  <th className="text-left py-2 px-2">Planned</th>
+                  <th className="text-left py-2 px-2">Actual</th>
+                  <th className="text-left py-2 px-2">Compliance</th>
+                  <th className="text-left py-2 px-2">Notes</th>
+                  {canEdit && <th className="text-left py-2 px-2">Action</th>}
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map(({ shift, compliance }) => {
+                  const nfo = heartbeatByUser.get(shift.username);
+                  const start = new Date(shift.shift_start).getTime();
+                  const end = new Date(shift.shift_end).getTime();
+                  const lastMs = shift.last_on_shift_at ? new Date(shift.last_on_shift_at).getTime() : null;
+                  return (
+                    <tr
+                      key={shift.id}
+                      className={`border-b last:border-b-0 align-top ${compliance.flags.length > 0 ? "bg-red-50/50" : ""}`}
+                    >
+                      <td className="py-2 px-2">
+                        <div className="font-mono text-xs">{shift.username}</div>
+                        <div className="text-xs text-slate-500">{nfo?.name ?? ""}</div>
+                      </td>
+                      <td className="py-2 px-2 text-xs">{nfo?.home_location ?? "-"}</td>
+                      <td className="py-2 px-2 text-xs whitespace-nowrap">
+                        {formatClock(start)} – {formatClock(end)}
+                        {toLocalDateInput(end) !== toLocalDateInput(start) && (
+                          <span className="text-slate-400"> (+1 day)</span>
+                        )}
+                      </td>
+                      <td className="py-2 px-2 text-xs whitespace-nowrap">
+                        {compliance.firstOnShiftAt == null
+                          ? "-"
+                          : `${formatClock(compliance.firstOnShiftAt)} – ${
+                              compliance.state === "in_progress" && nfo?.on_shift === true ? "now" : formatClock(lastMs)
+                            }`}
+                      </td>
+                      <td className="py-2 px-2 text-xs">
+                        <ComplianceCell compliance={compliance} />
+                      </td>
+                      <td className="py-2 px-2 text-xs text-slate-600 max-w-48 break-words">{shift.notes ?? "-"}</td>
+                      {canEdit && (
+                        <td className="py-2 px-2 text-xs">
+                          <button
+                            onClick={() => handleDelete(shift)}
+                            className="px-2 py-0.5 rounded bg-slate-200 text-slate-700 hover:bg-slate-300"
+                          >
+                            Remove
+                          </button>
+                        </td>
+                      )}
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </section>
+
+      {canEdit && (
+        <div className="grid gap-6 md:grid-cols-2">
+          <section className="bg-white rounded-xl shadow p-4">
+            <h2 className="text-lg font-semibold mb-1">Add shift</h2>
+            <p className="text-xs text-slate-500 mb-3">
+              On {day}. An end time before the start is a night shift ending the next morning.
+            </p>
+            <div className="space-y-2 text-sm">
+              <select
+                value={newUsername}
+                onChange={(e) => setNewUsername(e.target.value)}
+                className="w-full border border-slate-300 rounded-lg px-3 py-2 text-sm"
+              >
+                <option value="">Select an NFO...</option>
+                {[...nfos]
+                  .sort((x, y) => x.username.localeCompare(y.username))
+                  .map((n) => (
+                    <option key={n.username} value={n.username}>
+                      {n.username} – {n.name || "Unnamed"}
+                    </option>
+                  ))}
+              </select>
+              <div className="flex gap-2">
+                <input
+                  type="time"
+                  value={newStart}
+                  onChange={(e) => setNewStart(e.target.value)}
+                  className="w-full border border-slate-300 rounded-lg px-3 py-2 text-sm"
+                />
+                <input
+                  type="time"
+                  value={newEnd}
+                  onChange={(e) => setNewEnd(e.target.value)}
+                  className="w-full border border-slate-300 rounded-lg px-3 py-2 text-sm"
+                />
+              </div>
+              <input
+                type="text"
+                value={newNotes}
+                onChange={(e) => setNewNotes(e.target.value)}
+                placeholder="Notes (optional)"
+                className="w-full border border-slate-300 rounded-lg px-3 py-2 text-sm"
+              />
+              <button
+                onClick={handleAddShift}
+                disabled={saving || !newUsername}
+                className="w-full py-1.5 rounded font-medium text-sm bg-sky-600 text-white hover:bg-sky-700 disabled:bg-slate-300"
+              >
+                {saving ? "Saving…" : "Add shift"}
+              </button>
+            </div>
+          </section>
+
+          <section className="bg-white rounded-xl shadow p-4">
+            <h2 className="text-lg font-semibold mb-1">Import CSV</h2>
+            <p className="text-xs text-slate-500 mb-3">
+              One shift per line: <span className="font-mono">username,date,start,end[,notes]</span> with local
+              times. A shift with the same NFO and start replaces the existing one.
+            </p>
+            <div className="space-y-2 text-sm">
+              <input
+                type="file"
+                accept=".csv,text/csv"
+                onChange={(e) => handleCsvFile(e.target.files?.[0])}
+                className="text-xs"
+              />
+              <textarea
+                value={csvText}
+                onChange={(e) => setCsvText(e.target.value)}
+                placeholder={CSV_EXAMPLE}
+                rows={5}
+                className="w-full border border-slate-300 rounded-lg px-3 py-2 text-xs font-mono"
+              />
+              {csvPreview && (
+                <div className="text-xs">
+                  <p className="text-slate-600">{csvPreview.shifts.length} shift(s) ready to import</p>
+                  {csvPreview.errors.length > 0 && (
+                    <ul className="mt-1 max-h-24 overflow-y-auto text-orange-700 list-disc pl-4">
+                      {csvPreview.errors.map((e) => (
+                        <li key={e}>{e}</li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              )}
+              <button
+                onClick={handleImport}
+                disabled={saving || !csvPreview || csvPreview.shifts.length === 0}
+                className="w-full py-1.5 rounded font-medium text-sm bg-sky-600 text-white hover:bg-sky-700 disabled:bg-slate-300"
+              >
+                {saving ? "Importing…" : "Import shifts"}
+              </button>
+              {importMessage && <p className="text-xs text-emerald-700">{importMessage}</p>}
+            </div>
+          </section>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,101 @@
+"use client";
+
+import { useState, useCallback } from "react";
+import {
+  formatStepDistance,
+  printRouteSheet,
+  routeSheetStepCount,
+  shareRouteSheet,
+  type RouteSheet,
+} from "../lib/routeSheet";
+
+/**
+ * RouteDirections - turn-by-turn steps of a calculated route, grouped per leg,
+ * with buttons to print or share the route sheet.
+ *
+ * Used in the Route Planner summary and the Live Map NFO tile. Collapsed by
+ * default since a long route can have dozens of steps.
+ */
+interface RouteDirectionsProps {
+  sheet: RouteSheet;
+  defaultOpen?: boolean;
+}
+
+export default function RouteDirections({ sheet, defaultOpen = false }: RouteDirectionsProps) {
+  const [open, setOpen] = useState(defaultOpen);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const stepCount = routeSheetStepCount(sheet);
+
+  const handlePrint = useCallback(() => {
+    setNotice(printRouteSheet(sheet) ? null : "Popup blocked – allow popups to print the route sheet.");
+  }, [sheet]);
+
+  const handleShare = useCallback(async () => {
+    const outcome = await shareRouteSheet(sheet);
+    setNotice(outcome === "copied" ? "Directions copied to clipboard." : outcome === "failed" ? "Could not share directions." : null);
+  }, [sheet]);
+
+  return (
+    <div className="border-t border-slate-100 pt-3 space-y-2 text-xs">
+      <div className="flex items-center justify-between gap-2">
+        <button
+          onClick={() => setOpen((o) => !o)}
+          className="font-medium text-slate-700 hover:text-sky-700"
+        >
+          {open ? "▾" : "▸"} Directions ({stepCount} step{stepCount === 1 ? "" : "s"})
+        </button>
+        <div className="flex gap-1">
+          <button
+            onClick={handlePrint}
+            className="px-2 py-1 rounded border border-slate-300 text-slate-600 hover:bg-slate-100"
+            title="Open a printable route sheet"
+          >
+            🖨 Print
+          </button>
+          <button
+            onClick={handleShare}
+            className="px-2 py-1 rounded border border-slate-300 text-slate-600 hover:bg-slate-100"
+            title="Share or copy the directions as text"
+          >
+            📤 Share
+          </button>
+        </div>
+      </div>
+
+      {notice && <p className="text-[11px] text-slate-500">{notice}</p>}
+
+      {open && (
+        <div className="space-y-3 max-h-80 overflow-y-auto">
+          {sheet.legs.map((leg, legIdx) => (
+            <div key={`leg-${legIdx}`}>
+              {sheet.legs.length > 1 && (
+                <p className="font-semibold text-slate-700 mb-1">
+                  {leg.from} → {leg.to}{" "}
+                  <span className="font-normal text-slate-500">
+                    {leg.distanceKm.toFixed(1)} km, {Math.round(leg.durationMin)} min
+                  </span>
+                </p>
+              )}
+              {leg.steps.length === 0 ? (
+                <p className="text-slate-500">No turn-by-turn directions available for this leg.</p>
+              ) : (
+                <ol className="space-y-1">
+                  {leg.steps.map((step, idx) => (
+                    <li key={`step-${idx}`} className="flex justify-between gap-2">
+                      <span className="text-slate-700">
+                        <span className="text-slate-400 mr-1">{idx + 1}.</span>
+                        {step.instruction}
+                      </span>
+                      <span className="text-slate-500 whitespace-nowrap">{formatStepDistance(step.distanceKm)}</span>
+                    </li>
+                  ))}
+                </ol>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
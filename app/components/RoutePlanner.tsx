@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useMemo, useCallback, useEffect } from "react";
+import { useState, useMemo, useCallback, useEffect, useRef } from "react";
 import dynamic from "next/dynamic";
 import { SiteRecord, calculateDistanceKm, hasValidLocation, formatDistanceLabel } from "../lib/nfoHelpers";
 import { 
@@ -10,9 +10,25 @@ import {
   type RouteResult as SharedRouteResult,
   type MultiLegRouteResult,
   type RouteEngine,
+  ROUTE_ENGINE_LABELS,
   type EngineRouteData,
+  type RouteCacheSource,
+  type RouteStep,
   ROUTE_SANITY_RATIO_THRESHOLD,
+  isAbortError,
 } from "../lib/routing";
+import {
+  planMultiStopRoute,
+  MAX_MULTI_STOP_SITES,
+  type MultiStopRouteResult,
+  type OptimizerStop,
+} from "../lib/routeOptimizer";
+import { buildRouteSheetLegs, type RouteSheet } from "../lib/routeSheet";
+import RouteDirections from "./RouteDirections";
+import AssignJobForm, { type AssignJobFields } from "./AssignJobForm";
+import { buildAssignmentInput, type NfoAssignment } from "../lib/assignments";
+import { isWarehouseOpen, warehousesForArea, type WarehouseOpeningHours } from "../lib/warehouses";
+import { rankWarehousesForTrip, type WarehouseRanking } from "../lib/warehouseRanking";
 
 // Dynamic import for the map to avoid SSR issues
 const RoutePlannerMap = dynamic(() => import("./RoutePlannerMap"), {
@@ -32,6 +48,8 @@ export type WarehouseRecord = {
   latitude: number | null;
   longitude: number | null;
   is_active: boolean;
+  opening_hours?: WarehouseOpeningHours | null; // null = no hours set (always open)
+  areas?: string[] | null;                      // areas this warehouse serves (empty = all)
 };
 
 export type EnrichedNfoForRouting = {
@@ -54,11 +72,16 @@ export type RouteResult = {
   isFallback?: boolean; // True if routing engines couldn't find route
   engine?: RouteEngine; // Which routing engine produced this result
   directDistanceKm?: number; // Straight-line distance for comparison
+  cacheSource?: RouteCacheSource; // set when served from the route cache
+  steps?: RouteStep[]; // turn-by-turn directions of the displayed engine's route
   // NEW: Alternative engine results for switching
   orsResult?: EngineRouteData;
   osrmResult?: EngineRouteData;
 };
 
+// "single" = one NFO → (warehouse) → site, "multi" = optimised daily trip over several sites
+export type RoutePlannerMode = "single" | "multi";
+
 export type RoutePlannerState = {
   selectedSiteId: string;
   selectedWarehouseId: string;
@@ -66,24 +89,46 @@ export type RoutePlannerState = {
   routeResult: RouteResult | null;
   siteSearch: string;
   nfoSearch: string;
+  mode: RoutePlannerMode;
+  selectedSiteIds: string[]; // multi-stop: sites to visit (any order)
+  multiStopResult: MultiStopRouteResult | null;
+  // "Auto" warehouse: ranking from the last Route click, for that NFO + site
+  autoWarehouse: { nfoUsername: string; siteId: string; ranking: WarehouseRanking | null } | null;
 };
 
+// selectedWarehouseId value that lets the planner pick the fastest pickup warehouse
+export const AUTO_WAREHOUSE_ID = "auto";
+
 export type RoutePoint = {
   type: "nfo" | "warehouse" | "site";
   lat: number;
   lng: number;
   label: string;
+  order?: number; // multi-stop: 1-based visiting order, shown on the marker
 };
 
 interface RoutePlannerProps {
   nfos: EnrichedNfoForRouting[];
   sites: SiteRecord[];
   warehouses: WarehouseRecord[];
+  now: number; // clock for warehouse opening hours
   state: RoutePlannerState;
   onStateChange: (next: RoutePlannerState) => void;
+  // Send the planned route to the NFO's app (admins / supervisors)
+  canAssign?: boolean;
+  onAssignmentCreated?: (assignment: NfoAssignment) => void;
 }
 
-export default function RoutePlanner({ nfos, sites, warehouses, state, onStateChange }: RoutePlannerProps) {
+export default function RoutePlanner({
+  nfos,
+  sites,
+  warehouses,
+  now,
+  state,
+  onStateChange,
+  canAssign = false,
+  onAssignmentCreated,
+}: RoutePlannerProps) {
   // Helper to update state partially
   const updateState = useCallback((patch: Partial<RoutePlannerState>) => {
     onStateChange({ ...state, ...patch });
@@ -91,6 +136,18 @@ export default function RoutePlanner({ nfos, sites, warehouses, state, onStateCh
 
   // Route loading state (local only - doesn't need persistence)
   const [routeLoading, setRouteLoading] = useState(false);
+
+  // In-flight route/trip request - a newer request or Clear aborts it so it can't overwrite state
+  const routeAbortRef = useRef<AbortController | null>(null);
+  useEffect(() => () => routeAbortRef.current?.abort(), []);
+
+  // Abort the previous request and start tracking a new one
+  const startRouteRequest = useCallback(() => {
+    routeAbortRef.current?.abort();
+    const controller = new AbortController();
+    routeAbortRef.current = controller;
+    return controller;
+  }, []);
   const [routeError, setRouteError] = useState<string | null>(null);
   const [routeWarning, setRouteWarning] = useState<string | null>(null);
   
@@ -106,8 +163,14 @@ export default function RoutePlanner({ nfos, sites, warehouses, state, onStateCh
     routeResult,
     siteSearch,
     nfoSearch,
+    mode,
+    selectedSiteIds,
+    multiStopResult,
+    autoWarehouse,
   } = state;
 
+  const isMultiStop = mode === "multi";
+
   // Deduplicate sites by site_id (Site_Coordinates can have duplicate site_ids)
   const uniqueSites = useMemo(() => {
     return Array.from(
@@ -137,25 +200,68 @@ export default function RoutePlanner({ nfos, sites, warehouses, state, onStateCh
     );
   }, [nfos, nfoSearch]);
 
-  // Filter warehouses to only active ones
+  // Only active warehouses that are open right now can be picked for a pickup
   const activeWarehouses = useMemo(() => {
-    return warehouses.filter(w => w.is_active);
-  }, [warehouses]);
+    return warehouses.filter(w => isWarehouseOpen(w, now));
+  }, [warehouses, now]);
+  const closedWarehouseCount = warehouses.filter(w => w.is_active).length - activeWarehouses.length;
 
   // Get selected entities
   const selectedSite = useMemo(() => {
     return sites.find(s => s.site_id === selectedSiteId) ?? null;
   }, [sites, selectedSiteId]);
 
+  // Auto: ranking of the last Route click, if it was for the NFO + site selected now (single route only)
+  const isAutoWarehouse = selectedWarehouseId === AUTO_WAREHOUSE_ID;
+  const currentRanking =
+    isAutoWarehouse &&
+    !isMultiStop &&
+    autoWarehouse?.nfoUsername === selectedNfoUsername &&
+    autoWarehouse?.siteId === selectedSiteId
+      ? autoWarehouse.ranking
+      : null;
+
   const selectedWarehouse = useMemo(() => {
     if (!selectedWarehouseId) return null;
-    return activeWarehouses.find(w => String(w.id) === selectedWarehouseId) ?? null;
-  }, [activeWarehouses, selectedWarehouseId]);
+    const id = isAutoWarehouse ? currentRanking?.options[0]?.warehouseId : selectedWarehouseId;
+    if (id == null) return null;
+    return activeWarehouses.find(w => String(w.id) === String(id)) ?? null;
+  }, [activeWarehouses, selectedWarehouseId, isAutoWarehouse, currentRanking]);
 
   const selectedNfo = useMemo(() => {
     return nfos.find(n => n.username === selectedNfoUsername) ?? null;
   }, [nfos, selectedNfoUsername]);
 
+  // Warehouses assigned to the (first) destination's area, marked in the selector
+  const pickupArea = (isMultiStop ? uniqueSites.find(s => s.site_id === selectedSiteIds[0]) : selectedSite)?.area ?? null;
+  const servingWarehouseIds = useMemo(() => {
+    if (!pickupArea) return new Set<number>();
+    return new Set(
+      warehousesForArea(activeWarehouses, pickupArea)
+        .filter(w => w.areas && w.areas.length > 0)
+        .map(w => w.id)
+    );
+  }, [activeWarehouses, pickupArea]);
+
+  // Multi-stop: selected sites in the order they were added
+  const multiStopSites = useMemo(() => {
+    return selectedSiteIds
+      .map(id => uniqueSites.find(s => s.site_id === id))
+      .filter((s): s is SiteRecord => !!s);
+  }, [uniqueSites, selectedSiteIds]);
+
+  // Check if we can optimise a multi-stop trip
+  const canRouteMultiStop = useMemo(() => {
+    if (!selectedNfo || multiStopSites.length === 0) return false;
+    if (multiStopSites.length > MAX_MULTI_STOP_SITES) return false;
+    if (!hasValidLocation({ lat: selectedNfo.lat, lng: selectedNfo.lng })) return false;
+    if (multiStopSites.some(s => !hasValidLocation({ lat: s.latitude, lng: s.longitude }))) return false;
+    if (selectedWarehouse && !hasValidLocation({ lat: selectedWarehouse.latitude, lng: selectedWarehouse.longitude })) {
+      return false;
+    }
+    return true;
+  }, [selectedNfo, multiStopSites, selectedWarehouse]);
+
   // Check if we can route
   const canRoute = useMemo(() => {
     if (!selectedNfo || !selectedSite) return false;
@@ -199,6 +305,42 @@ export default function RoutePlanner({ nfos, sites, warehouses, state, onStateCh
   const routePoints = useMemo((): RoutePoint[] => {
     const points: RoutePoint[] = [];
 
+    if (isMultiStop) {
+      if (selectedNfo && hasValidLocation({ lat: selectedNfo.lat, lng: selectedNfo.lng })) {
+        points.push({
+          type: "nfo",
+          lat: selectedNfo.lat!,
+          lng: selectedNfo.lng!,
+          label: selectedNfo.name ? `${selectedNfo.username} – ${selectedNfo.name}` : selectedNfo.username,
+        });
+      }
+      if (selectedWarehouse && hasValidLocation({ lat: selectedWarehouse.latitude, lng: selectedWarehouse.longitude })) {
+        points.push({
+          type: "warehouse",
+          lat: selectedWarehouse.latitude!,
+          lng: selectedWarehouse.longitude!,
+          label: selectedWarehouse.name,
+        });
+      }
+      // Numbered markers once the trip is optimised, plain site markers before that
+      if (multiStopResult) {
+        multiStopResult.order.forEach((stop, idx) => {
+          points.push({ type: "site", lat: stop.lat, lng: stop.lng, label: stop.label, order: idx + 1 });
+        });
+      } else {
+        for (const site of multiStopSites) {
+          if (!hasValidLocation({ lat: site.latitude, lng: site.longitude })) continue;
+          points.push({
+            type: "site",
+            lat: site.latitude!,
+            lng: site.longitude!,
+            label: site.name ? `${site.site_id} – ${site.name}` : site.site_id,
+          });
+        }
+      }
+      return points;
+    }
+
     if (selectedNfo && hasValidLocation({ lat: selectedNfo.lat, lng: selectedNfo.lng })) {
       points.push({
         type: "nfo",
@@ -227,12 +369,15 @@ export default function RoutePlanner({ nfos, sites, warehouses, state, onStateCh
     }
 
     return points;
-  }, [selectedNfo, selectedWarehouse, selectedSite]);
+  }, [isMultiStop, selectedNfo, selectedWarehouse, selectedSite, multiStopResult, multiStopSites]);
 
   // Fetch route using shared routing logic (ORS vs OSRM comparison)
   const fetchRoute = useCallback(async () => {
     if (!canRoute || !selectedNfo || !selectedSite) return;
 
+    const controller = startRouteRequest();
+    const routeOptions = { signal: controller.signal };
+
     // Clear previous route data before starting new fetch
     setRouteLoading(true);
     setRouteError(null);
@@ -240,11 +385,25 @@ export default function RoutePlanner({ nfos, sites, warehouses, state, onStateCh
     updateState({ routeResult: null });
 
     try {
-      const hasWarehouse = selectedWarehouse && hasValidLocation({ lat: selectedWarehouse.latitude, lng: selectedWarehouse.longitude });
+      // Auto: score every open warehouse in the NFO's area with one matrix call, route via the fastest
+      let warehouse = selectedWarehouse;
+      let ranking: WarehouseRanking | null = null;
+      if (isAutoWarehouse) {
+        ranking = await rankWarehousesForTrip(
+          { lat: selectedNfo.lat!, lng: selectedNfo.lng!, area: selectedNfo.home_location },
+          { lat: selectedSite.latitude!, lng: selectedSite.longitude! },
+          activeWarehouses,
+          routeOptions
+        );
+        const best = ranking?.options[0];
+        warehouse = best ? activeWarehouses.find(w => w.id === best.warehouseId) ?? null : null;
+      }
+
+      const hasWarehouse = warehouse && hasValidLocation({ lat: warehouse.latitude, lng: warehouse.longitude });
 
       console.log("RoutePlanner fetchRoute", {
         nfo: { lat: selectedNfo.lat, lng: selectedNfo.lng },
-        warehouse: hasWarehouse ? { lat: selectedWarehouse.latitude, lng: selectedWarehouse.longitude } : null,
+        warehouse: hasWarehouse ? { lat: warehouse!.latitude, lng: warehouse!.longitude, auto: isAutoWarehouse } : null,
         site: { lat: selectedSite.latitude, lng: selectedSite.longitude, id: selectedSite.site_id },
       });
 
@@ -255,10 +414,11 @@ export default function RoutePlanner({ nfos, sites, warehouses, state, onStateCh
         result = await calculateRouteViaWarehouse(
           selectedNfo.lat!,
           selectedNfo.lng!,
-          selectedWarehouse.latitude!,
-          selectedWarehouse.longitude!,
+          warehouse!.latitude!,
+          warehouse!.longitude!,
           selectedSite.latitude!,
-          selectedSite.longitude!
+          selectedSite.longitude!,
+          routeOptions
         );
       } else {
         // Direct route - use best route comparison (ORS vs OSRM)
@@ -266,7 +426,8 @@ export default function RoutePlanner({ nfos, sites, warehouses, state, onStateCh
           selectedNfo.lat!,
           selectedNfo.lng!,
           selectedSite.latitude!,
-          selectedSite.longitude!
+          selectedSite.longitude!,
+          routeOptions
         );
       }
 
@@ -275,7 +436,10 @@ export default function RoutePlanner({ nfos, sites, warehouses, state, onStateCh
       console.log("RoutePlanner OSRM result:", result.osrmResult);
 
       // Set warning if present
-      setRouteWarning(result.warning ?? null);
+      setRouteWarning(
+        result.warning ??
+          (isAutoWarehouse && !ranking ? "No open warehouse serves this NFO's area – routed directly." : null)
+      );
       
       // Increment fit token to trigger one-time fit-to-bounds for this new route
       setRouteFitToken((t) => t + 1);
@@ -287,23 +451,107 @@ export default function RoutePlanner({ nfos, sites, warehouses, state, onStateCh
           distanceMeters: result.distanceKm * 1000,
           durationSeconds: result.durationMin * 60,
           viaWarehouse: !!hasWarehouse,
-          warehouseName: selectedWarehouse?.name,
+          warehouseName: hasWarehouse ? warehouse!.name : undefined,
           isFallback: result.isFallback ?? false,
           engine: result.engine,
           directDistanceKm: result.airDistanceKm,
+          cacheSource: result.cacheSource,
+          steps: result.steps,
           // Pass through raw engine results for alternative switching
           orsResult: result.orsResult,
           osrmResult: result.osrmResult,
         },
+        autoWarehouse: isAutoWarehouse
+          ? { nfoUsername: selectedNfo.username, siteId: selectedSite.site_id, ranking }
+          : autoWarehouse,
       });
     } catch (error) {
+      if (isAbortError(error)) return;
       console.error("RoutePlanner fetch error:", error);
       updateState({ routeResult: null });
       setRouteError("Failed to calculate route. Please try again.");
     } finally {
-      setRouteLoading(false);
+      if (routeAbortRef.current === controller) {
+        routeAbortRef.current = null;
+        setRouteLoading(false);
+      }
+    }
+  }, [
+    canRoute,
+    selectedNfo,
+    selectedSite,
+    selectedWarehouse,
+    isAutoWarehouse,
+    activeWarehouses,
+    autoWarehouse,
+    updateState,
+    startRouteRequest,
+  ]);
+
+  // Optimise the visiting order for a multi-stop trip and route every leg
+  const fetchMultiStopRoute = useCallback(async () => {
+    if (!canRouteMultiStop || !selectedNfo) return;
+
+    const controller = startRouteRequest();
+
+    setRouteLoading(true);
+    setRouteError(null);
+    setRouteWarning(null);
+    updateState({ multiStopResult: null });
+
+    try {
+      const stops: OptimizerStop[] = multiStopSites.map(site => ({
+        id: site.site_id,
+        label: site.name ? `${site.site_id} – ${site.name}` : site.site_id,
+        lat: site.latitude!,
+        lng: site.longitude!,
+      }));
+      const pickup: OptimizerStop | null = selectedWarehouse
+        ? {
+            id: String(selectedWarehouse.id),
+            label: selectedWarehouse.name,
+            lat: selectedWarehouse.latitude!,
+            lng: selectedWarehouse.longitude!,
+          }
+        : null;
+
+      const result = await planMultiStopRoute(
+        { lat: selectedNfo.lat!, lng: selectedNfo.lng!, label: selectedNfo.username },
+        stops,
+        pickup,
+        { signal: controller.signal }
+      );
+
+      console.log("RoutePlanner multi-stop result:", result);
+
+      if (result.isFallback) {
+        setRouteWarning("Some legs have no road route – showing straight-line distance for those legs.");
+      }
+
+      setRouteFitToken((t) => t + 1);
+      updateState({ multiStopResult: result });
+    } catch (error) {
+      if (isAbortError(error)) return;
+      console.error("RoutePlanner multi-stop error:", error);
+      updateState({ multiStopResult: null });
+      setRouteError(error instanceof Error ? error.message : "Failed to optimise route. Please try again.");
+    } finally {
+      if (routeAbortRef.current === controller) {
+        routeAbortRef.current = null;
+        setRouteLoading(false);
+      }
     }
-  }, [canRoute, selectedNfo, selectedSite, selectedWarehouse, updateState]);
+  }, [canRouteMultiStop, selectedNfo, multiStopSites, selectedWarehouse, updateState, startRouteRequest]);
+
+  // Multi-stop site list editing - any change invalidates the optimised order
+  const handleAddStop = useCallback((siteId: string) => {
+    if (!siteId || selectedSiteIds.includes(siteId)) return;
+    updateState({ selectedSiteIds: [...selectedSiteIds, siteId], multiStopResult: null });
+  }, [selectedSiteIds, updateState]);
+
+  const handleRemoveStop = useCallback((siteId: string) => {
+    updateState({ selectedSiteIds: selectedSiteIds.filter(id => id !== siteId), multiStopResult: null });
+  }, [selectedSiteIds, updateState]);
 
   // Switch to alternative engine (ORS ↔ OSRM)
   const switchToAlternativeEngine = useCallback((targetEngine: RouteEngine) => {
@@ -328,6 +576,7 @@ export default function RoutePlanner({ nfos, sites, warehouses, state, onStateCh
         coordinates: alternativeData.coordinates,
         distanceMeters: alternativeData.distanceKm * 1000,
         durationSeconds: alternativeData.durationMin * 60,
+        steps: alternativeData.steps,
         engine: targetEngine,
       },
     });
@@ -338,6 +587,9 @@ export default function RoutePlanner({ nfos, sites, warehouses, state, onStateCh
 
   // Clear all selections and route
   const handleClearRoute = useCallback(() => {
+    routeAbortRef.current?.abort();
+    routeAbortRef.current = null;
+    setRouteLoading(false);
     updateState({
       selectedSiteId: "",
       selectedWarehouseId: "",
@@ -345,6 +597,9 @@ export default function RoutePlanner({ nfos, sites, warehouses, state, onStateCh
       routeResult: null,
       siteSearch: "",
       nfoSearch: "",
+      selectedSiteIds: [],
+      multiStopResult: null,
+      autoWarehouse: null,
     });
     setRouteError(null);
     setRouteWarning(null);
@@ -406,6 +661,65 @@ export default function RoutePlanner({ nfos, sites, warehouses, state, onStateCh
     };
   }, [routeResult, routeWarning]);
 
+  // Route sheet (turn-by-turn directions per leg) for the current single-site route
+  const routeSheet = useMemo((): RouteSheet | null => {
+    if (!routeResult || routeResult.isFallback) return null;
+    const nfoLabel = selectedNfo?.username ?? "NFO";
+    const siteLabel = selectedSite?.site_id ?? "Site";
+    const stops = routeResult.viaWarehouse
+      ? [nfoLabel, routeResult.warehouseName ?? "Warehouse", siteLabel]
+      : [nfoLabel, siteLabel];
+    return {
+      title: `${nfoLabel} → ${siteLabel}`,
+      engineLabel: routeResult.engine ? ROUTE_ENGINE_LABELS[routeResult.engine] : undefined,
+      distanceKm: routeResult.distanceMeters / 1000,
+      durationMin: routeResult.durationSeconds / 60,
+      warning: routeWarning ?? undefined,
+      legs: buildRouteSheetLegs(routeResult.steps ?? [], stops),
+    };
+  }, [routeResult, routeWarning, selectedNfo, selectedSite]);
+
+  // Route sheet for the optimised multi-stop trip - one leg per stop
+  const multiStopSheet = useMemo((): RouteSheet | null => {
+    if (!multiStopResult) return null;
+    const nfoLabel = selectedNfo?.username ?? "NFO";
+    return {
+      title: `${nfoLabel} – daily route (${multiStopResult.order.length} sites)`,
+      distanceKm: multiStopResult.totalDistanceKm,
+      durationMin: multiStopResult.totalDurationMin,
+      warning: routeWarning ?? undefined,
+      legs: multiStopResult.legs.map((leg) => ({
+        from: leg.from.label,
+        to: leg.to.label,
+        distanceKm: leg.route.distanceKm,
+        durationMin: leg.route.durationMin,
+        steps: leg.route.steps ?? [],
+      })),
+    };
+  }, [multiStopResult, routeWarning, selectedNfo]);
+
+  // Job payload for the current single-site route - built when Assign is clicked
+  const buildRouteAssignment = useCallback(({ notes, priority, ticketRef }: AssignJobFields) => {
+    return buildAssignmentInput({
+      username: selectedNfo?.username ?? "",
+      siteId: selectedSite?.site_id ?? "",
+      warehouse: routeResult?.viaWarehouse ? selectedWarehouse : null,
+      route: routeResult
+        ? {
+            coordinates: routeResult.coordinates,
+            distanceKm: routeResult.distanceMeters / 1000,
+            durationMin: routeResult.durationSeconds / 60,
+            engine: routeResult.engine ?? "ors",
+            isFallback: routeResult.isFallback,
+          }
+        : null,
+      notes,
+      priority,
+      ticketRef,
+      now: Date.now(),
+    });
+  }, [routeResult, selectedNfo, selectedSite, selectedWarehouse]);
+
   // Format duration
   const formatDuration = (seconds: number): string => {
     const hours = Math.floor(seconds / 3600);
@@ -425,8 +739,87 @@ export default function RoutePlanner({ nfos, sites, warehouses, state, onStateCh
   return (
     <div className="flex gap-4 h-[calc(100vh-12rem)]">
       {/* Left side: Control panel */}
-      <div className="w-80 flex-shrink-0 space-y-4">
+      <div className="w-80 flex-shrink-0 space-y-4 overflow-y-auto">
+        {/* Mode toggle */}
+        <div className="bg-white rounded-xl shadow p-1 flex gap-1">
+          {([
+            { id: "single", label: "Single site" },
+            { id: "multi", label: "Multi-stop day" },
+          ] as { id: RoutePlannerMode; label: string }[]).map((m) => (
+            <button
+              key={m.id}
+              onClick={() => {
+                updateState({ mode: m.id });
+                setRouteError(null);
+                setRouteWarning(null);
+              }}
+              disabled={routeLoading}
+              className={`flex-1 py-2 rounded-lg text-sm font-medium transition ${
+                mode === m.id ? "bg-sky-600 text-white" : "text-slate-600 hover:bg-slate-100"
+              }`}
+            >
+              {m.label}
+            </button>
+          ))}
+        </div>
+
+        {/* Multi-stop site list */}
+        {isMultiStop && (
+          <div className="bg-white rounded-xl shadow p-4">
+            <label className="block text-sm font-medium text-slate-700 mb-2">
+              Sites to visit <span className="text-red-500">*</span>{" "}
+              <span className="text-slate-400">({selectedSiteIds.length}/{MAX_MULTI_STOP_SITES})</span>
+            </label>
+            <input
+              type="text"
+              placeholder="Search sites..."
+              value={siteSearch}
+              onChange={(e) => updateState({ siteSearch: e.target.value })}
+              className="w-full border border-slate-300 rounded-lg px-3 py-2 text-sm mb-2 focus:outline-none focus:ring-2 focus:ring-sky-500"
+            />
+            <select
+              value=""
+              onChange={(e) => handleAddStop(e.target.value)}
+              disabled={selectedSiteIds.length >= MAX_MULTI_STOP_SITES}
+              className="w-full border border-slate-300 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-sky-500 disabled:bg-slate-100"
+            >
+              <option value="">Add a site... ({filteredSites.length} available)</option>
+              {filteredSites
+                .filter(site => !selectedSiteIds.includes(site.site_id))
+                .sort((a, b) => a.site_id.localeCompare(b.site_id))
+                .map((site) => (
+                  <option key={site.site_id} value={site.site_id}>
+                    {site.site_id} – {site.name || "Unnamed"} ({site.area || "No area"})
+                  </option>
+                ))}
+            </select>
+            {multiStopSites.length > 0 && (
+              <ul className="mt-2 space-y-1">
+                {multiStopSites.map((site) => (
+                  <li key={site.site_id} className="flex items-center justify-between text-xs bg-slate-50 rounded px-2 py-1">
+                    <span className="text-slate-700">
+                      {site.site_id} <span className="text-slate-400">{site.area || ""}</span>
+                      {!hasValidLocation({ lat: site.latitude, lng: site.longitude }) && (
+                        <span className="text-orange-600"> ⚠️ no coordinates</span>
+                      )}
+                    </span>
+                    <button
+                      onClick={() => handleRemoveStop(site.site_id)}
+                      disabled={routeLoading}
+                      className="text-slate-400 hover:text-red-600 px-1"
+                      title="Remove stop"
+                    >
+                      ✕
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+
         {/* Site selector */}
+        {!isMultiStop && (
         <div className="bg-white rounded-xl shadow p-4">
           <label className="block text-sm font-medium text-slate-700 mb-2">
             Site <span className="text-red-500">*</span>
@@ -456,11 +849,13 @@ export default function RoutePlanner({ nfos, sites, warehouses, state, onStateCh
             <p className="text-xs text-orange-600 mt-1">⚠️ This site has missing coordinates</p>
           )}
         </div>
+        )}
 
         {/* Warehouse selector (optional) */}
         <div className="bg-white rounded-xl shadow p-4">
           <label className="block text-sm font-medium text-slate-700 mb-2">
-            Warehouse <span className="text-slate-400">(optional)</span>
+            {isMultiStop ? "Warehouse pickup" : "Warehouse"}{" "}
+            <span className="text-slate-400">{isMultiStop ? "(optional, visited first)" : "(optional)"}</span>
           </label>
           <select
             value={selectedWarehouseId}
@@ -468,14 +863,73 @@ export default function RoutePlanner({ nfos, sites, warehouses, state, onStateCh
             className="w-full border border-slate-300 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-sky-500"
           >
             <option value="">None</option>
+            <option value={AUTO_WAREHOUSE_ID} disabled={isMultiStop}>
+              Auto – fastest pickup in the NFO&apos;s area{isMultiStop ? " (single route only)" : ""}
+            </option>
             {activeWarehouses
-              .sort((a, b) => a.name.localeCompare(b.name))
+              .sort((a, b) =>
+                Number(servingWarehouseIds.has(b.id)) - Number(servingWarehouseIds.has(a.id)) ||
+                a.name.localeCompare(b.name)
+              )
               .map((wh) => (
                 <option key={wh.id} value={String(wh.id)}>
+                  {servingWarehouseIds.has(wh.id) ? "★ " : ""}
                   {wh.name} – {wh.region || "No region"}
                 </option>
               ))}
           </select>
+          {(servingWarehouseIds.size > 0 || closedWarehouseCount > 0) && (
+            <p className="text-xs text-slate-500 mt-1">
+              {servingWarehouseIds.size > 0 && `★ serves ${pickupArea}. `}
+              {closedWarehouseCount > 0 && `${closedWarehouseCount} closed warehouse(s) hidden.`}
+            </p>
+          )}
+          {isAutoWarehouse && !isMultiStop && !currentRanking && (
+            <p className="text-xs text-slate-500 mt-1">
+              Route to compare every open warehouse serving the NFO&apos;s area.
+            </p>
+          )}
+          {currentRanking && (
+            <div className="mt-2 text-xs space-y-1">
+              <div className="text-slate-500">
+                Best of {currentRanking.evaluated} warehouse(s)
+                {currentRanking.area ? ` for ${currentRanking.area}` : ""} · direct{" "}
+                {currentRanking.direct.km.toFixed(1)} km, {currentRanking.direct.min} min
+                {currentRanking.costSource === "haversine" && " (straight-line estimate)"}
+              </div>
+              {currentRanking.options.map((option, idx) => (
+                <div
+                  key={option.warehouseId}
+                  className={`flex items-center justify-between gap-2 rounded px-2 py-1 ${
+                    idx === 0 ? "bg-sky-50 border border-sky-200" : "bg-slate-50"
+                  }`}
+                >
+                  <span>
+                    <span className="font-medium">
+                      {idx + 1}. {option.name}
+                    </span>{" "}
+                    <span className="text-slate-500">
+                      {option.totalMin} min · {option.totalKm.toFixed(1)} km
+                      {option.estimated && " (est.)"}
+                    </span>
+                    <span className="block text-orange-700">
+                      {option.detourKm >= 0 ? "+" : ""}
+                      {option.detourKm.toFixed(1)} km / {option.detourMin >= 0 ? "+" : ""}
+                      {option.detourMin} min vs direct
+                    </span>
+                  </span>
+                  {idx > 0 && (
+                    <button
+                      onClick={() => updateState({ selectedWarehouseId: String(option.warehouseId) })}
+                      className="text-sky-700 underline whitespace-nowrap"
+                    >
+                      Use
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
           {selectedWarehouse && !hasValidLocation({ lat: selectedWarehouse.latitude, lng: selectedWarehouse.longitude }) && (
             <p className="text-xs text-orange-600 mt-1">⚠️ This warehouse has missing coordinates</p>
           )}
@@ -515,15 +969,15 @@ export default function RoutePlanner({ nfos, sites, warehouses, state, onStateCh
         {/* Route buttons */}
         <div className="flex gap-2">
           <button
-            onClick={fetchRoute}
-            disabled={!canRoute || routeLoading}
+            onClick={isMultiStop ? fetchMultiStopRoute : fetchRoute}
+            disabled={(isMultiStop ? !canRouteMultiStop : !canRoute) || routeLoading}
             className={`flex-1 py-3 rounded-xl font-medium transition ${
-              canRoute && !routeLoading
+              (isMultiStop ? canRouteMultiStop : canRoute) && !routeLoading
                 ? "bg-sky-600 text-white hover:bg-sky-700"
                 : "bg-slate-200 text-slate-400 cursor-not-allowed"
             }`}
           >
-            {routeLoading ? "Calculating..." : "Route"}
+            {routeLoading ? "Calculating..." : isMultiStop ? "Optimise route" : "Route"}
           </button>
           <button
             onClick={handleClearRoute}
@@ -541,8 +995,77 @@ export default function RoutePlanner({ nfos, sites, warehouses, state, onStateCh
           </div>
         )}
 
+        {/* Multi-stop trip summary */}
+        {isMultiStop && multiStopResult && (
+          <div className="bg-white rounded-xl shadow p-4 space-y-3">
+            <h3 className="font-semibold text-slate-800 text-sm">Daily Route</h3>
+
+            <div className="space-y-2">
+              <div className="flex justify-between text-sm">
+                <span className="text-slate-600">Total distance:</span>
+                <span className="font-semibold text-slate-800">
+                  {formatDistance(multiStopResult.totalDistanceKm * 1000)}
+                </span>
+              </div>
+              <div className="flex justify-between text-sm">
+                <span className="text-slate-600">Total driving time:</span>
+                <span className="font-semibold text-slate-800">
+                  {formatDuration(multiStopResult.totalDurationMin * 60)}
+                </span>
+              </div>
+              <p className="text-[11px] text-slate-500">
+                {multiStopResult.optimizer === "exact" ? "Optimal order" : "Near-optimal order (heuristic)"}
+                {" · "}
+                {multiStopResult.costSource === "matrix" ? "driving-time matrix" : "straight-line estimate"}
+              </p>
+            </div>
+
+            {routeWarning && (
+              <div className="bg-orange-50 border border-orange-200 rounded-lg p-2 text-xs text-orange-700">
+                ⚠️ {routeWarning}
+              </div>
+            )}
+
+            <ol className="border-t border-slate-100 pt-3 space-y-2">
+              {multiStopResult.legs.map((leg, idx) => {
+                // Stop number of the leg destination (warehouse pickup is unnumbered)
+                const siteIndex = multiStopResult.order.indexOf(leg.to);
+                return (
+                  <li key={`leg-${idx}`} className="text-xs">
+                    <div className="flex items-start justify-between gap-2">
+                      <span className="text-slate-700">
+                        {siteIndex >= 0 ? (
+                          <span className="inline-flex w-5 h-5 mr-1 rounded-full bg-orange-500 text-white text-[10px] font-bold items-center justify-center">
+                            {siteIndex + 1}
+                          </span>
+                        ) : (
+                          <span className="inline-flex w-5 h-5 mr-1 rounded-full bg-purple-500 text-white text-[10px] font-bold items-center justify-center">
+                            W
+                          </span>
+                        )}
+                        {leg.to.label}
+                      </span>
+                      <span className="text-right whitespace-nowrap">
+                        <span className="font-semibold text-slate-800">
+                          {leg.route.isFallback ? "n/a" : formatDuration(leg.route.durationMin * 60)}
+                        </span>
+                        <span className="block text-[10px] text-slate-500">
+                          {leg.route.distanceKm.toFixed(1)} km{leg.route.isFallback ? " (air)" : ` · ${leg.route.engine.toUpperCase()}`}
+                        </span>
+                      </span>
+                    </div>
+                    <div className="text-[10px] text-slate-400 ml-6">from {leg.from.label}</div>
+                  </li>
+                );
+              })}
+            </ol>
+
+            {multiStopSheet && <RouteDirections sheet={multiStopSheet} />}
+          </div>
+        )}
+
         {/* Route info panel */}
-        {routeResult && (
+        {!isMultiStop && routeResult && (
           <div className="bg-white rounded-xl shadow p-4 space-y-3">
             <h3 className="font-semibold text-slate-800 text-sm">Route Summary</h3>
             
@@ -591,8 +1114,9 @@ export default function RoutePlanner({ nfos, sites, warehouses, state, onStateCh
               {!routeResult.isFallback && routeResult.engine && (
                 <div className="flex justify-between text-sm">
                   <span className="text-slate-600">Engine:</span>
-                  <span className={`font-medium ${routeResult.engine === "osrm" ? "text-purple-600" : "text-green-600"}`}>
-                    {routeResult.engine === "osrm" ? "OSRM (fallback)" : "ORS"}
+                  <span className={`font-medium ${routeResult.engine !== "ors" ? "text-purple-600" : "text-green-600"}`}>
+                    {routeResult.engine !== "ors" ? `${ROUTE_ENGINE_LABELS[routeResult.engine]} (fallback)` : "ORS"}
+                    {routeResult.cacheSource && <span className="text-slate-400 font-normal"> · cached</span>}
                   </span>
                 </div>
               )}
@@ -641,6 +1165,16 @@ export default function RoutePlanner({ nfos, sites, warehouses, state, onStateCh
               </div>
             )}
 
+            {routeSheet && <RouteDirections sheet={routeSheet} />}
+
+            {canAssign && selectedNfo && selectedSite && (
+              <AssignJobForm
+                key={`${selectedNfo.username}-${selectedSite.site_id}-${routeResult.engine}-${routeResult.distanceMeters}`}
+                buildInput={buildRouteAssignment}
+                onCreated={onAssignmentCreated}
+              />
+            )}
+
             {airDistances && (
               <div className="border-t border-slate-100 pt-3 space-y-2">
                 <p className="text-xs text-slate-500 font-medium">Air distances:</p>
@@ -672,7 +1206,7 @@ export default function RoutePlanner({ nfos, sites, warehouses, state, onStateCh
         )}
 
         {/* Show air distance even without route */}
-        {!routeResult && airDistances && (
+        {!isMultiStop && !routeResult && airDistances && (
           <div className="bg-white rounded-xl shadow p-4">
             <h3 className="font-semibold text-slate-800 text-sm mb-2">Air Distances</h3>
             <div className="space-y-1 text-xs">
@@ -701,7 +1235,7 @@ export default function RoutePlanner({ nfos, sites, warehouses, state, onStateCh
       <div className="flex-1 bg-white rounded-xl shadow overflow-hidden">
         <RoutePlannerMap
           points={routePoints}
-          routeCoordinates={routeResult?.coordinates ?? null}
+          routeCoordinates={isMultiStop ? multiStopResult?.coordinates ?? null : routeResult?.coordinates ?? null}
           routeFitToken={routeFitToken}
         />
       </div>
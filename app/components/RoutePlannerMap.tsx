@@ -1,17 +1,18 @@
 "use client";
 
 import { useMemo, useEffect, useRef } from "react";
-import { MapContainer, TileLayer, Marker, Polyline, useMap } from "react-leaflet";
+import { MapContainer, TileLayer, Marker, Polyline, Tooltip, useMap } from "react-leaflet";
 import L from "leaflet";
 import "leaflet/dist/leaflet.css";
 import type { RoutePoint } from "./RoutePlanner";
+import { MAP_TILE_ATTRIBUTION, MAP_TILE_CROSS_ORIGIN, MAP_TILE_SUBDOMAINS, MAP_TILE_URL, MARKER_ICON_URLS } from "../lib/mapAssets";
 
 // Fix Leaflet default icon issue
 delete (L.Icon.Default.prototype as any)._getIconUrl;
 L.Icon.Default.mergeOptions({
-  iconRetinaUrl: "https://unpkg.com/leaflet@1.9.4/dist/images/marker-icon-2x.png",
-  iconUrl: "https://unpkg.com/leaflet@1.9.4/dist/images/marker-icon.png",
-  shadowUrl: "https://unpkg.com/leaflet@1.9.4/dist/images/marker-shadow.png",
+  iconRetinaUrl: MARKER_ICON_URLS.defaultRetina,
+  iconUrl: MARKER_ICON_URLS.default,
+  shadowUrl: MARKER_ICON_URLS.shadow,
 });
 
 // Custom icons for different point types
@@ -46,6 +47,17 @@ const nfoIcon = createIcon("#3B82F6", "N"); // Blue for NFO
 const warehouseIcon = createIcon("#8B5CF6", "W"); // Purple for Warehouse  
 const siteIcon = createIcon("#F97316", "S"); // Orange for Site
 
+// Numbered site icons for multi-stop trips (cached - one divIcon per stop number)
+const numberedSiteIcons = new Map<number, L.DivIcon>();
+const getNumberedSiteIcon = (order: number) => {
+  let icon = numberedSiteIcons.get(order);
+  if (!icon) {
+    icon = createIcon("#F97316", String(order));
+    numberedSiteIcons.set(order, icon);
+  }
+  return icon;
+};
+
 // LocalStorage key for persisting map view across tab switches
 const VIEW_STORAGE_KEY = "route-planner-map-view-v1";
 
@@ -168,9 +180,12 @@ export default function RoutePlannerMap({ points, routeCoordinates, routeFitToke
   const defaultCenter: [number, number] = [21.5, 39.2];
   const defaultZoom = 6;
 
-  // Get icon based on point type
-  const getIcon = (type: RoutePoint["type"]) => {
-    switch (type) {
+  // Get icon based on point type (sites with a stop number get a numbered icon)
+  const getIcon = (point: RoutePoint) => {
+    if (point.type === "site" && point.order != null) {
+      return getNumberedSiteIcon(point.order);
+    }
+    switch (point.type) {
       case "nfo":
         return nfoIcon;
       case "warehouse":
@@ -190,8 +205,10 @@ export default function RoutePlannerMap({ points, routeCoordinates, routeFitToke
       style={{ minHeight: "400px" }}
     >
       <TileLayer
-        url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
-        attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
+        url={MAP_TILE_URL}
+        subdomains={MAP_TILE_SUBDOMAINS}
+        crossOrigin={MAP_TILE_CROSS_ORIGIN}
+        attribution={MAP_TILE_ATTRIBUTION}
       />
       
       <MapSizeFixer />
@@ -215,9 +232,11 @@ export default function RoutePlannerMap({ points, routeCoordinates, routeFitToke
         <Marker
           key={`${point.type}-${idx}`}
           position={[point.lat, point.lng]}
-          icon={getIcon(point.type)}
+          icon={getIcon(point)}
         >
-          {/* Tooltip with label */}
+          <Tooltip direction="top" offset={[0, -16]}>
+            {point.order != null ? `Stop ${point.order}: ${point.label}` : point.label}
+          </Tooltip>
         </Marker>
       ))}
 
@@ -238,6 +257,12 @@ export default function RoutePlannerMap({ points, routeCoordinates, routeFitToke
               <div className="w-4 h-4 rounded-full bg-orange-500 border-2 border-white shadow-sm"></div>
               <span className="text-slate-600">Site</span>
             </div>
+            {points.some(p => p.order != null) && (
+              <div className="flex items-center gap-2">
+                <div className="w-4 h-4 rounded-full bg-orange-500 border-2 border-white shadow-sm text-[8px] text-white font-bold flex items-center justify-center">1</div>
+                <span className="text-slate-600">Stop order</span>
+              </div>
+            )}
             {routeLatLngs.length > 0 && (
               <div className="flex items-center gap-2 pt-1 border-t border-slate-200">
                 <div className="w-4 h-1 bg-green-500 rounded"></div>
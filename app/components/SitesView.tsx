@@ -0,0 +1,468 @@
+"use client";
+
+import { useState, useMemo, useCallback } from "react";
+import type { SiteRecord } from "../lib/nfoHelpers";
+import {
+  AREA_OUTLIER_KM,
+  OPERATING_BOUNDS,
+  SITE_ISSUE_LABELS,
+  parseSitesCsv,
+  validateSiteCoordinates,
+  validateSites,
+  type SiteIssue,
+  type SiteIssueKind,
+} from "../lib/siteValidation";
+import { deleteSite, saveSites } from "../lib/dataClient";
+import type { ExportColumn } from "../lib/tableExport";
+import ExportButtons from "./ExportButtons";
+
+/**
+ * SitesView - Site_Coordinates admin: search, validate, edit and bulk-import sites.
+ *
+ * Every row is checked for duplicate site_ids, missing or swapped coordinates,
+ * points outside the operating country and sites far from their area (see
+ * siteValidation.ts). Saving upserts on site_id, so the table needs the
+ * unique constraint from dataApi.ts replaceSites. Edits are admin-only; `onSitesChanged` lets
+ * the page reload the site list everything else uses.
+ */
+interface SitesViewProps {
+  sites: SiteRecord[];
+  canEdit: boolean;
+  onSitesChanged: () => Promise<void> | void;
+}
+
+type SiteForm = {
+  site_id: string;
+  name: string;
+  latitude: string;
+  longitude: string;
+  area: string;
+  geofence_radius_m: string;
+};
+
+type IssueFilter = "all" | "any" | SiteIssueKind;
+
+const PAGE_SIZE = 200;
+
+const ISSUE_STYLES: Record<SiteIssueKind, string> = {
+  duplicate: "bg-purple-50 text-purple-700 border-purple-200",
+  missing_coords: "bg-red-50 text-red-700 border-red-200",
+  swapped: "bg-orange-50 text-orange-700 border-orange-200",
+  outside_country: "bg-red-50 text-red-700 border-red-200",
+  far_from_area: "bg-amber-50 text-amber-700 border-amber-200",
+};
+
+const toForm = (site: SiteRecord): SiteForm => ({
+  site_id: site.site_id,
+  name: site.name ?? "",
+  latitude: site.latitude != null ? String(site.latitude) : "",
+  longitude: site.longitude != null ? String(site.longitude) : "",
+  area: site.area ?? "",
+  geofence_radius_m: site.geofence_radius_m != null ? String(site.geofence_radius_m) : "",
+});
+
+const fromForm = (form: SiteForm): SiteRecord => {
+  const num = (v: string) => (v.trim() === "" ? null : parseFloat(v));
+  return {
+    site_id: form.site_id.trim(),
+    name: form.name.trim() || null,
+    latitude: num(form.latitude),
+    longitude: num(form.longitude),
+    area: form.area.trim() || null,
+    geofence_radius_m: num(form.geofence_radius_m),
+  };
+};
+
+const EMPTY_FORM: SiteForm = { site_id: "", name: "", latitude: "", longitude: "", area: "", geofence_radius_m: "" };
+
+function IssueBadges({ issues }: { issues: SiteIssue[] }) {
+  if (issues.length === 0) return <span className="text-emerald-700">OK</span>;
+  return (
+    <div className="flex flex-wrap gap-1">
+      {issues.map((issue) => (
+        <span
+          key={issue.kind}
+          className={`text-[11px] px-1.5 py-0.5 rounded border ${ISSUE_STYLES[issue.kind]}`}
+          title={issue.message}
+        >
+          {SITE_ISSUE_LABELS[issue.kind]}
+        </span>
+      ))}
+    </div>
+  );
+}
+
+export default function SitesView({ sites, canEdit, onSitesChanged }: SitesViewProps) {
+  const [search, setSearch] = useState("");
+  const [issueFilter, setIssueFilter] = useState<IssueFilter>("any");
+  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+  const [form, setForm] = useState<SiteForm | null>(null);
+  const [csvText, setCsvText] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const validation = useMemo(() => validateSites(sites), [sites]);
+  const issuesFor = useCallback(
+    (siteId: string) => validation.issuesBySiteId.get(siteId.trim()) ?? [],
+    [validation]
+  );
+
+  // One entry per site row; duplicates stay visible so they can be compared
+  const filteredSites = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    return sites
+      .filter((s) => {
+        if (term && !`${s.site_id} ${s.name ?? ""} ${s.area ?? ""}`.toLowerCase().includes(term)) return false;
+        const issues = issuesFor(s.site_id);
+        if (issueFilter === "any") return issues.length > 0;
+        if (issueFilter !== "all") return issues.some((i) => i.kind === issueFilter);
+        return true;
+      })
+      .sort((a, b) => a.site_id.localeCompare(b.site_id));
+  }, [sites, search, issueFilter, issuesFor]);
+
+  const exportColumns = useMemo(
+    (): ExportColumn<SiteRecord>[] => [
+      { header: "site_id", value: (s) => s.site_id },
+      { header: "site_name", value: (s) => s.name },
+      { header: "latitude", value: (s) => s.latitude },
+      { header: "longitude", value: (s) => s.longitude },
+      { header: "area", value: (s) => s.area },
+      { header: "geofence_radius_m", value: (s) => s.geofence_radius_m },
+      { header: "issues", value: (s) => issuesFor(s.site_id).map((i) => `${SITE_ISSUE_LABELS[i.kind]}: ${i.message}`).join("; ") },
+    ],
+    [issuesFor]
+  );
+
+  const formSite = form ? fromForm(form) : null;
+  const formIssues = formSite ? validateSiteCoordinates(formSite) : [];
+  const formDuplicates = form ? sites.filter((s) => s.site_id.trim() === form.site_id.trim()) : [];
+
+  const csvPreview = useMemo(() => {
+    if (!csvText.trim()) return null;
+    const parsed = parseSitesCsv(csvText);
+    const flagged = validateSites(parsed.sites).issuesBySiteId.size;
+    return { ...parsed, flagged };
+  }, [csvText]);
+
+  const runSave = async (toSave: SiteRecord[], successMessage: string) => {
+    setSaving(true);
+    setError(null);
+    setMessage(null);
+    try {
+      await saveSites(toSave);
+      await onSitesChanged();
+      setMessage(successMessage);
+      return true;
+    } catch (saveError) {
+      console.warn("[Sites] Save failed:", saveError);
+      setError(saveError instanceof Error ? saveError.message : String(saveError));
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSaveForm = async () => {
+    if (!formSite || !formSite.site_id) return;
+    if (formSite.latitude == null || formSite.longitude == null) {
+      setError("Latitude and longitude are required");
+      return;
+    }
+    if (await runSave([formSite], `✓ Saved ${formSite.site_id}`)) setForm(null);
+  };
+
+  const handleSwap = (site: SiteRecord) =>
+    runSave(
+      [{ ...site, latitude: site.longitude, longitude: site.latitude }],
+      `✓ Swapped latitude/longitude of ${site.site_id}`
+    );
+
+  const handleDelete = async (siteId: string) => {
+    if (!window.confirm(`Delete every row for site ${siteId}?`)) return;
+    try {
+      await deleteSite(siteId);
+      await onSitesChanged();
+      setMessage(`✓ Deleted ${siteId}`);
+      if (form?.site_id === siteId) setForm(null);
+    } catch (deleteError) {
+      console.warn("[Sites] Delete failed:", deleteError);
+      setError(deleteError instanceof Error ? deleteError.message : String(deleteError));
+    }
+  };
+
+  const handleImport = async () => {
+    if (!csvPreview || csvPreview.sites.length === 0) return;
+    if (await runSave(csvPreview.sites, `✓ Imported ${csvPreview.sites.length} sites`)) setCsvText("");
+  };
+
+  const inputClass = "w-full border border-slate-300 rounded-lg px-3 py-1.5 text-sm";
+
+  return (
+    <div className="max-w-6xl mx-auto space-y-6">
+      <header className="flex items-center justify-between">
+        <h1 className="text-2xl font-bold">Sites</h1>
+        <span className="text-xs text-gray-500">
+          {sites.length} rows · {validation.issuesBySiteId.size} site IDs with issues
+        </span>
+      </header>
+
+      {error && (
+        <div className="bg-orange-50 border border-orange-200 text-orange-700 rounded-lg p-3 text-sm">⚠️ {error}</div>
+      )}
+      {message && <div className="bg-emerald-50 border border-emerald-200 text-emerald-700 rounded-lg p-3 text-sm">{message}</div>}
+
+      <section className="flex flex-wrap gap-2 text-xs">
+        {(Object.keys(SITE_ISSUE_LABELS) as SiteIssueKind[]).map((kind) => (
+          <button
+            key={kind}
+            onClick={() => setIssueFilter(issueFilter === kind ? "any" : kind)}
+            className={`px-2 py-1 rounded border ${ISSUE_STYLES[kind]} ${issueFilter === kind ? "ring-2 ring-slate-400" : ""}`}
+          >
+            {SITE_ISSUE_LABELS[kind]}: {validation.countsByKind[kind]}
+          </button>
+        ))}
+        <span className="self-center text-slate-500">
+          Country box {OPERATING_BOUNDS.south}–{OPERATING_BOUNDS.north}°N, {OPERATING_BOUNDS.west}–
+          {OPERATING_BOUNDS.east}°E · area outliers &gt; {AREA_OUTLIER_KM} km
+        </span>
+      </section>
+
+      <section className="bg-white rounded-xl shadow p-4">
+        <div className="flex flex-wrap items-center gap-3 mb-3 text-sm">
+          <input
+            type="text"
+            value={search}
+            onChange={(e) => {
+              setSearch(e.target.value);
+              setVisibleCount(PAGE_SIZE);
+            }}
+            placeholder="Search site ID, name or area"
+            className="border rounded-md px-3 py-1 text-sm"
+          />
+          <select
+            value={issueFilter}
+            onChange={(e) => {
+              setIssueFilter(e.target.value as IssueFilter);
+              setVisibleCount(PAGE_SIZE);
+            }}
+            className="border rounded-md px-2 py-1 text-sm"
+          >
+            <option value="any">Sites with issues</option>
+            <option value="all">All sites</option>
+            {(Object.keys(SITE_ISSUE_LABELS) as SiteIssueKind[]).map((kind) => (
+              <option key={kind} value={kind}>
+                {SITE_ISSUE_LABELS[kind]}
+              </option>
+            ))}
+          </select>
+          {canEdit && (
+            <button
+              onClick={() => setForm(EMPTY_FORM)}
+              className="px-3 py-1 text-sm bg-sky-600 text-white rounded-md hover:bg-sky-700"
+            >
+              New site
+            </button>
+          )}
+          <span className="ml-auto flex items-center gap-2 text-xs text-slate-500">
+            {filteredSites.length} rows
+            <ExportButtons filename="sites" sheetName="Sites" columns={exportColumns} rows={filteredSites} />
+          </span>
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="border-b bg-slate-50">
+                <th className="text-left py-2 px-2">Site ID</th>
+                <th className="text-left py-2 px-2">Name</th>
+                <th className="text-left py-2 px-2">Area</th>
+                <th className="text-left py-2 px-2">Latitude</th>
+                <th className="text-left py-2 px-2">Longitude</th>
+                <th className="text-left py-2 px-2">Geofence (m)</th>
+                <th className="text-left py-2 px-2">Issues</th>
+                {canEdit && <th className="text-left py-2 px-2">Action</th>}
+              </tr>
+            </thead>
+            <tbody>
+              {filteredSites.slice(0, visibleCount).map((site, idx) => {
+                const issues = issuesFor(site.site_id);
+                return (
+                  <tr key={`${site.site_id}-${idx}`} className="border-b last:border-b-0 align-top">
+                    <td className="py-1.5 px-2 font-mono text-xs">{site.site_id}</td>
+                    <td className="py-1.5 px-2 text-xs">{site.name ?? "-"}</td>
+                    <td className="py-1.5 px-2 text-xs">{site.area ?? "-"}</td>
+                    <td className="py-1.5 px-2 text-xs font-mono">{site.latitude ?? "-"}</td>
+                    <td className="py-1.5 px-2 text-xs font-mono">{site.longitude ?? "-"}</td>
+                    <td className="py-1.5 px-2 text-xs">{site.geofence_radius_m ?? "-"}</td>
+                    <td className="py-1.5 px-2 text-xs" title={issues.map((i) => i.message).join("\n")}>
+                      <IssueBadges issues={issues} />
+                    </td>
+                    {canEdit && (
+                      <td className="py-1.5 px-2 text-xs whitespace-nowrap space-x-1">
+                        <button
+                          onClick={() => setForm(toForm(site))}
+                          className="px-2 py-0.5 rounded bg-slate-200 text-slate-700 hover:bg-slate-300"
+                        >
+                          Edit
+                        </button>
+                        {issues.some((i) => i.kind === "swapped") && (
+                          <button
+                            onClick={() => handleSwap(site)}
+                            disabled={saving}
+                            className="px-2 py-0.5 rounded bg-orange-500 text-white hover:bg-orange-600 disabled:bg-slate-300"
+                          >
+                            Swap lat/lng
+                          </button>
+                        )}
+                        <button
+                          onClick={() => handleDelete(site.site_id)}
+                          className="px-2 py-0.5 rounded text-red-600 hover:bg-red-50"
+                        >
+                          Delete
+                        </button>
+                      </td>
+                    )}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+          {filteredSites.length === 0 && <div className="text-sm text-slate-400 py-2">No matching sites.</div>}
+          {filteredSites.length > visibleCount && (
+            <button
+              onClick={() => setVisibleCount((n) => n + PAGE_SIZE)}
+              className="mt-2 text-xs text-sky-700 underline"
+            >
+              Show {Math.min(PAGE_SIZE, filteredSites.length - visibleCount)} more of{" "}
+              {filteredSites.length - visibleCount}
+            </button>
+          )}
+        </div>
+      </section>
+
+      {canEdit && (
+        <div className="grid gap-6 md:grid-cols-2">
+          {form && (
+            <section className="bg-white rounded-xl shadow p-4">
+              <h2 className="text-lg font-semibold mb-3">{form.site_id ? `Edit ${form.site_id}` : "New site"}</h2>
+              <div className="space-y-2 text-sm">
+                {(
+                  [
+                    ["site_id", "Site ID"],
+                    ["name", "Name"],
+                    ["latitude", "Latitude"],
+                    ["longitude", "Longitude"],
+                    ["area", "Area"],
+                    ["geofence_radius_m", "Geofence radius (m, optional)"],
+                  ] as [keyof SiteForm, string][]
+                ).map(([field, label]) => (
+                  <label key={field} className="block">
+                    <span className="text-xs text-slate-500">{label}</span>
+                    <input
+                      type="text"
+                      value={form[field]}
+                      onChange={(e) => setForm({ ...form, [field]: e.target.value })}
+                      className={inputClass}
+                    />
+                  </label>
+                ))}
+                {formIssues.length > 0 && (
+                  <ul className="text-xs text-orange-700 list-disc pl-4">
+                    {formIssues.map((i) => (
+                      <li key={i.kind}>{i.message}</li>
+                    ))}
+                  </ul>
+                )}
+                {formDuplicates.length > 1 && (
+                  <div className="text-xs bg-purple-50 border border-purple-200 rounded p-2 space-y-1">
+                    <p className="text-purple-700 font-medium">
+                      {formDuplicates.length} rows share this site ID – saving needs the one-off site_id
+                      de-duplication (see replaceSites in dataApi.ts), which keeps the newest row.
+                    </p>
+                    {formDuplicates.map((dup, i) => (
+                      <div key={i} className="flex items-center justify-between gap-2">
+                        <span className="font-mono">
+                          {dup.latitude}, {dup.longitude} · {dup.name ?? "-"} · {dup.area ?? "-"}
+                        </span>
+                        <button onClick={() => setForm(toForm(dup))} className="text-purple-700 underline">
+                          Use
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                )}
+                <div className="flex gap-2">
+                  <button
+                    onClick={handleSaveForm}
+                    disabled={saving || !form.site_id.trim()}
+                    className="flex-1 py-1.5 rounded font-medium text-sm bg-sky-600 text-white hover:bg-sky-700 disabled:bg-slate-300"
+                  >
+                    {saving ? "Saving…" : "Save site"}
+                  </button>
+                  <button
+                    onClick={() => setForm(null)}
+                    className="px-3 py-1.5 rounded text-sm bg-slate-200 text-slate-700 hover:bg-slate-300"
+                  >
+                    Cancel
+                  </button>
+                </div>
+              </div>
+            </section>
+          )}
+
+          <section className="bg-white rounded-xl shadow p-4">
+            <h2 className="text-lg font-semibold mb-1">Bulk import (CSV)</h2>
+            <p className="text-xs text-slate-500 mb-3">
+              Columns <span className="font-mono">site_id,site_name,latitude,longitude,area[,geofence_radius_m]</span>.
+              Imported site IDs replace all their existing rows.
+            </p>
+            <div className="space-y-2 text-sm">
+              <input
+                type="file"
+                accept=".csv,text/csv"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) file.text().then(setCsvText).catch(() => setError("Could not read the file"));
+                }}
+                className="text-xs"
+              />
+              <textarea
+                value={csvText}
+                onChange={(e) => setCsvText(e.target.value)}
+                rows={5}
+                placeholder="site_id,site_name,latitude,longitude,area"
+                className="w-full border border-slate-300 rounded-lg px-3 py-2 text-xs font-mono"
+              />
+              {csvPreview && (
+                <div className="text-xs">
+                  <p className="text-slate-600">
+                    {csvPreview.sites.length} sites parsed
+                    {csvPreview.flagged > 0 && (
+                      <span className="text-orange-700"> · {csvPreview.flagged} with validation issues</span>
+                    )}
+                  </p>
+                  {csvPreview.errors.length > 0 && (
+                    <ul className="mt-1 max-h-24 overflow-y-auto text-orange-700 list-disc pl-4">
+                      {csvPreview.errors.map((e) => (
+                        <li key={e}>{e}</li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              )}
+              <button
+                onClick={handleImport}
+                disabled={saving || !csvPreview || csvPreview.sites.length === 0}
+                className="w-full py-1.5 rounded font-medium text-sm bg-sky-600 text-white hover:bg-sky-700 disabled:bg-slate-300"
+              >
+                {saving ? "Importing…" : "Import sites"}
+              </button>
+            </div>
+          </section>
+        </div>
+      )}
+    </div>
+  );
+}
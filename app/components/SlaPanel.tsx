@@ -0,0 +1,134 @@
+"use client";
+
+import { useMemo } from "react";
+import type { NfoStatusRow } from "../lib/nfoHelpers";
+import { ASSIGNMENT_STATUS_LABELS, isOpenAssignment, type NfoAssignment } from "../lib/assignments";
+import {
+  computeSlaCompliance,
+  evaluateJobSla,
+  formatSlaRemaining,
+  type JobPriority,
+  type SlaClock,
+} from "../lib/sla";
+
+/**
+ * SlaPanel - dashboard countdowns for every open job's response and restore SLA.
+ *
+ * Jobs are sorted by their next deadline; breached clocks are red, clocks in the
+ * last quarter of their target amber. The header shows restore-SLA compliance
+ * over the jobs finished in the loaded window (last 7 days).
+ */
+interface SlaPanelProps {
+  jobs: NfoAssignment[];
+  nfos: NfoStatusRow[];
+  now: number; // SLA clock from the parent
+}
+
+const PRIORITY_STYLES: Record<JobPriority, string> = {
+  P1: "bg-red-600 text-white",
+  P2: "bg-orange-500 text-white",
+  P3: "bg-sky-500 text-white",
+  P4: "bg-slate-400 text-white",
+};
+
+function SlaClockCell({ clock }: { clock: SlaClock }) {
+  if (clock.state === "none") return <span className="text-slate-400">-</span>;
+  if (clock.state === "met") return <span className="text-emerald-700 font-semibold">✓ Met</span>;
+  if (clock.state === "breached" && clock.remainingMs == null) {
+    return <span className="text-red-600 font-semibold">✗ Breached</span>;
+  }
+  return (
+    <span
+      className={`font-semibold ${
+        clock.state === "breached" ? "text-red-600" : clock.state === "at_risk" ? "text-amber-600" : "text-slate-700"
+      }`}
+      title={clock.dueAt ? `Due ${new Date(clock.dueAt).toLocaleString()}` : undefined}
+    >
+      {clock.state === "breached" && "⚠️ "}
+      {formatSlaRemaining(clock.remainingMs ?? 0)}
+    </span>
+  );
+}
+
+export default function SlaPanel({ jobs, nfos, now }: SlaPanelProps) {
+  const nameByUser = useMemo(() => new Map(nfos.map((n) => [n.username, n.name])), [nfos]);
+
+  const rows = useMemo(() => {
+    const nextDeadline = (sla: ReturnType<typeof evaluateJobSla>) => {
+      const running = [sla.response, sla.restore].filter((c) => c.remainingMs != null);
+      return running.length > 0 ? Math.min(...running.map((c) => c.dueAt ?? Infinity)) : Infinity;
+    };
+    return jobs
+      .filter(isOpenAssignment)
+      .map((job) => ({ job, sla: evaluateJobSla(job, now) }))
+      .sort((a, b) => nextDeadline(a.sla) - nextDeadline(b.sla));
+  }, [jobs, now]);
+
+  const compliance = useMemo(() => computeSlaCompliance(jobs), [jobs]);
+  const breachedCount = rows.filter((r) => r.sla.breached).length;
+
+  return (
+    <section className="bg-white rounded-xl shadow p-4">
+      <div className="flex items-center justify-between mb-3">
+        <h2 className="text-lg font-semibold">
+          SLA{" "}
+          {breachedCount > 0 && (
+            <span className="ml-1 text-xs font-semibold px-2 py-0.5 rounded-full bg-red-100 text-red-700">
+              {breachedCount} breached
+            </span>
+          )}
+        </h2>
+        <span className="text-xs text-slate-500">
+          {rows.length} open job{rows.length === 1 ? "" : "s"} · restore compliance{" "}
+          {compliance.percent != null ? `${compliance.percent}% (${compliance.met}/${compliance.closed})` : "n/a"}
+        </span>
+      </div>
+      {rows.length === 0 ? (
+        <div className="text-sm text-slate-400">No open jobs.</div>
+      ) : (
+        <div className="overflow-x-auto max-h-80 overflow-y-auto">
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="border-b bg-slate-50">
+                <th className="text-left py-2 px-2">Priority</th>
+                <th className="text-left py-2 px-2">Job</th>
+                <th className="text-left py-2 px-2">NFO</th>
+                <th className="text-left py-2 px-2">Site</th>
+                <th className="text-left py-2 px-2">Status</th>
+                <th className="text-left py-2 px-2">Response (on site)</th>
+                <th className="text-left py-2 px-2">Restore (done)</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(({ job, sla }) => (
+                <tr key={job.id} className={`border-b last:border-b-0 ${sla.breached ? "bg-red-50" : ""}`}>
+                  <td className="py-2 px-2">
+                    <span className={`text-[10px] font-bold px-1.5 py-0.5 rounded ${PRIORITY_STYLES[job.priority]}`}>
+                      {job.priority}
+                    </span>
+                  </td>
+                  <td className="py-2 px-2 text-xs">
+                    <div className="font-mono">#{job.id}</div>
+                    {job.ticket_ref && <div className="text-slate-500">{job.ticket_ref}</div>}
+                  </td>
+                  <td className="py-2 px-2 text-xs">
+                    <div className="font-mono">{job.username}</div>
+                    <div className="text-slate-500">{nameByUser.get(job.username) ?? ""}</div>
+                  </td>
+                  <td className="py-2 px-2 text-xs font-mono">{job.site_id}</td>
+                  <td className="py-2 px-2 text-xs">{ASSIGNMENT_STATUS_LABELS[job.status]}</td>
+                  <td className="py-2 px-2 text-xs whitespace-nowrap">
+                    <SlaClockCell clock={sla.response} />
+                  </td>
+                  <td className="py-2 px-2 text-xs whitespace-nowrap">
+                    <SlaClockCell clock={sla.restore} />
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,427 @@
+"use client";
+
+import { useState, useMemo } from "react";
+import type { NfoStatusRow } from "../lib/nfoHelpers";
+import type { WarehouseRecord } from "./RoutePlanner";
+import {
+  WEEKDAYS,
+  WEEKDAY_LABELS,
+  findUnmatchedWarehouseNames,
+  formatOpeningHours,
+  isWarehouseOpen,
+  resolveNfoWarehouse,
+  type WarehouseOpeningHours,
+  type Weekday,
+} from "../lib/warehouses";
+import { saveWarehouse } from "../lib/dataClient";
+
+/**
+ * WarehousesView - create and edit warehouses, their opening hours and the
+ * areas they serve, and see which NFOs point at each one.
+ *
+ * NFOs link to a warehouse by `warehouse_id` (older app builds: by name, see
+ * warehouses.ts). Names that match no warehouse are listed at the top so they
+ * can be fixed - either by creating the warehouse or correcting the app side.
+ * Pickup routing skips warehouses that are inactive or closed.
+ */
+interface WarehousesViewProps {
+  warehouses: WarehouseRecord[];
+  nfos: NfoStatusRow[]; // NFOs this manager may see
+  areas: string[];      // known areas (from Site_Coordinates)
+  canEdit: boolean;
+  now: number;
+  onWarehousesChanged: () => Promise<void> | void;
+}
+
+type DayForm = { open: boolean; from: string; to: string };
+
+type WarehouseForm = {
+  id: number | null;
+  name: string;
+  region: string;
+  latitude: string;
+  longitude: string;
+  is_active: boolean;
+  areas: string[];
+  hasHours: boolean;
+  days: Record<Weekday, DayForm>;
+};
+
+// Sun–Thu working week
+const DEFAULT_DAY = (day: Weekday): DayForm => ({
+  open: day !== "fri" && day !== "sat",
+  from: "08:00",
+  to: "17:00",
+});
+
+const toForm = (w: WarehouseRecord | null, name = ""): WarehouseForm => {
+  const hours = w?.opening_hours ?? null;
+  const days = {} as Record<Weekday, DayForm>;
+  for (const day of WEEKDAYS) {
+    const h = hours?.[day];
+    days[day] = hours ? { open: !!h, from: h?.open ?? "08:00", to: h?.close ?? "17:00" } : DEFAULT_DAY(day);
+  }
+  return {
+    id: w?.id ?? null,
+    name: w?.name ?? name,
+    region: w?.region ?? "",
+    latitude: w?.latitude != null ? String(w.latitude) : "",
+    longitude: w?.longitude != null ? String(w.longitude) : "",
+    is_active: w?.is_active ?? true,
+    areas: w?.areas ?? [],
+    hasHours: !!hours,
+    days,
+  };
+};
+
+const openingHoursFromForm = (form: WarehouseForm): WarehouseOpeningHours | null => {
+  if (!form.hasHours) return null;
+  const hours: WarehouseOpeningHours = {};
+  for (const day of WEEKDAYS) {
+    const d = form.days[day];
+    hours[day] = d.open ? { open: d.from, close: d.to } : null;
+  }
+  return hours;
+};
+
+export default function WarehousesView({
+  warehouses,
+  nfos,
+  areas,
+  canEdit,
+  now,
+  onWarehousesChanged,
+}: WarehousesViewProps) {
+  const [search, setSearch] = useState("");
+  const [form, setForm] = useState<WarehouseForm | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const unmatched = useMemo(() => findUnmatchedWarehouseNames(nfos, warehouses), [nfos, warehouses]);
+
+  // NFOs currently pointing at each warehouse, split by how they were linked
+  const linksByWarehouse = useMemo(() => {
+    const map = new Map<number, { byId: string[]; byName: string[] }>();
+    for (const nfo of nfos) {
+      const link = resolveNfoWarehouse(nfo, warehouses);
+      if (!link) continue;
+      const entry = map.get(link.warehouse.id) ?? { byId: [], byName: [] };
+      (link.matchedBy === "id" ? entry.byId : entry.byName).push(nfo.username);
+      map.set(link.warehouse.id, entry);
+    }
+    return map;
+  }, [nfos, warehouses]);
+
+  const filteredWarehouses = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    return warehouses
+      .filter((w) => !term || `${w.name} ${w.region ?? ""} ${(w.areas ?? []).join(" ")}`.toLowerCase().includes(term))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }, [warehouses, search]);
+
+  const areaOptions = useMemo(
+    () => Array.from(new Set([...areas, ...(form?.areas ?? [])])).sort((a, b) => a.localeCompare(b)),
+    [areas, form?.areas]
+  );
+
+  const handleSave = async () => {
+    if (!form) return;
+    const latitude = parseFloat(form.latitude);
+    const longitude = parseFloat(form.longitude);
+    if (!form.name.trim() || !Number.isFinite(latitude) || !Number.isFinite(longitude)) {
+      setError("Name, latitude and longitude are required");
+      return;
+    }
+
+    setSaving(true);
+    setError(null);
+    setMessage(null);
+    try {
+      const saved = await saveWarehouse({
+        id: form.id,
+        name: form.name.trim(),
+        region: form.region.trim() || null,
+        latitude,
+        longitude,
+        is_active: form.is_active,
+        opening_hours: openingHoursFromForm(form),
+        areas: form.areas,
+      });
+      await onWarehousesChanged();
+      setMessage(`✓ Saved ${saved.name}`);
+      setForm(null);
+    } catch (saveError) {
+      console.warn("[Warehouses] Save failed:", saveError);
+      setError(saveError instanceof Error ? saveError.message : String(saveError));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const updateDay = (day: Weekday, patch: Partial<DayForm>) =>
+    form && setForm({ ...form, days: { ...form.days, [day]: { ...form.days[day], ...patch } } });
+
+  const inputClass = "w-full border border-slate-300 rounded-lg px-3 py-1.5 text-sm";
+
+  return (
+    <div className="max-w-6xl mx-auto space-y-6">
+      <header className="flex items-center justify-between">
+        <h1 className="text-2xl font-bold">Warehouses</h1>
+        <span className="text-xs text-gray-500">
+          {warehouses.filter((w) => isWarehouseOpen(w, now)).length} of {warehouses.length} open now
+        </span>
+      </header>
+
+      {error && (
+        <div className="bg-orange-50 border border-orange-200 text-orange-700 rounded-lg p-3 text-sm">⚠️ {error}</div>
+      )}
+      {message && <div className="bg-emerald-50 border border-emerald-200 text-emerald-700 rounded-lg p-3 text-sm">{message}</div>}
+
+      {unmatched.length > 0 && (
+        <section className="bg-white rounded-xl shadow p-4 border border-orange-200">
+          <h2 className="text-lg font-semibold mb-1">Unmatched warehouse names</h2>
+          <p className="text-xs text-slate-500 mb-3">
+            These nfo_status values don&apos;t match any warehouse, so the NFOs are routed without their pickup.
+          </p>
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="border-b bg-slate-50">
+                <th className="text-left py-2 px-2">warehouse_name</th>
+                <th className="text-left py-2 px-2">warehouse_id</th>
+                <th className="text-left py-2 px-2">NFOs</th>
+                {canEdit && <th className="text-left py-2 px-2">Action</th>}
+              </tr>
+            </thead>
+            <tbody>
+              {unmatched.map((u) => (
+                <tr key={`${u.warehouseId ?? ""}|${u.warehouseName}`} className="border-b last:border-b-0 align-top">
+                  <td className="py-1.5 px-2 text-xs font-medium text-orange-700">{u.warehouseName || "-"}</td>
+                  <td className="py-1.5 px-2 text-xs font-mono">{u.warehouseId ?? "-"}</td>
+                  <td className="py-1.5 px-2 text-xs" title={u.usernames.join(", ")}>
+                    {u.usernames.length} · {u.usernames.slice(0, 5).join(", ")}
+                    {u.usernames.length > 5 && "…"}
+                  </td>
+                  {canEdit && (
+                    <td className="py-1.5 px-2 text-xs">
+                      {u.warehouseName && (
+                        <button
+                          onClick={() => setForm(toForm(null, u.warehouseName))}
+                          className="px-2 py-0.5 rounded bg-slate-200 text-slate-700 hover:bg-slate-300"
+                        >
+                          Create warehouse
+                        </button>
+                      )}
+                    </td>
+                  )}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </section>
+      )}
+
+      <section className="bg-white rounded-xl shadow p-4">
+        <div className="flex flex-wrap items-center gap-3 mb-3 text-sm">
+          <input
+            type="text"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search name, region or area"
+            className="border rounded-md px-3 py-1 text-sm"
+          />
+          {canEdit && (
+            <button
+              onClick={() => setForm(toForm(null))}
+              className="px-3 py-1 text-sm bg-sky-600 text-white rounded-md hover:bg-sky-700"
+            >
+              New warehouse
+            </button>
+          )}
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="border-b bg-slate-50">
+                <th className="text-left py-2 px-2">Name</th>
+                <th className="text-left py-2 px-2">Region</th>
+                <th className="text-left py-2 px-2">Areas</th>
+                <th className="text-left py-2 px-2">Opening hours</th>
+                <th className="text-left py-2 px-2">Status</th>
+                <th className="text-left py-2 px-2">Linked NFOs</th>
+                {canEdit && <th className="text-left py-2 px-2">Action</th>}
+              </tr>
+            </thead>
+            <tbody>
+              {filteredWarehouses.map((w) => {
+                const links = linksByWarehouse.get(w.id);
+                const open = isWarehouseOpen(w, now);
+                return (
+                  <tr key={w.id} className="border-b last:border-b-0 align-top">
+                    <td className="py-1.5 px-2 text-xs font-medium">{w.name}</td>
+                    <td className="py-1.5 px-2 text-xs">{w.region ?? "-"}</td>
+                    <td className="py-1.5 px-2 text-xs">{w.areas && w.areas.length > 0 ? w.areas.join(", ") : "All"}</td>
+                    <td className="py-1.5 px-2 text-xs">{formatOpeningHours(w.opening_hours)}</td>
+                    <td className="py-1.5 px-2 text-xs">
+                      {!w.is_active ? (
+                        <span className="text-slate-400">Inactive</span>
+                      ) : open ? (
+                        <span className="text-emerald-700">Open now</span>
+                      ) : (
+                        <span className="text-orange-600">Closed now</span>
+                      )}
+                    </td>
+                    <td
+                      className="py-1.5 px-2 text-xs"
+                      title={links ? [...links.byId, ...links.byName].join(", ") : undefined}
+                    >
+                      {links ? links.byId.length + links.byName.length : 0}
+                      {links && links.byName.length > 0 && (
+                        <span className="text-slate-400"> ({links.byName.length} by name only)</span>
+                      )}
+                    </td>
+                    {canEdit && (
+                      <td className="py-1.5 px-2 text-xs">
+                        <button
+                          onClick={() => setForm(toForm(w))}
+                          className="px-2 py-0.5 rounded bg-slate-200 text-slate-700 hover:bg-slate-300"
+                        >
+                          Edit
+                        </button>
+                      </td>
+                    )}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+          {filteredWarehouses.length === 0 && <div className="text-sm text-slate-400 py-2">No warehouses.</div>}
+        </div>
+      </section>
+
+      {canEdit && form && (
+        <section className="bg-white rounded-xl shadow p-4">
+          <h2 className="text-lg font-semibold mb-3">{form.id != null ? `Edit ${form.name}` : "New warehouse"}</h2>
+          <div className="grid gap-6 md:grid-cols-2 text-sm">
+            <div className="space-y-2">
+              {(
+                [
+                  ["name", "Name"],
+                  ["region", "Region"],
+                  ["latitude", "Latitude"],
+                  ["longitude", "Longitude"],
+                ] as const
+              ).map(([field, label]) => (
+                <label key={field} className="block">
+                  <span className="text-xs text-slate-500">{label}</span>
+                  <input
+                    type="text"
+                    value={form[field]}
+                    onChange={(e) => setForm({ ...form, [field]: e.target.value })}
+                    className={inputClass}
+                  />
+                </label>
+              ))}
+              <label className="flex items-center gap-2 text-xs">
+                <input
+                  type="checkbox"
+                  checked={form.is_active}
+                  onChange={(e) => setForm({ ...form, is_active: e.target.checked })}
+                />
+                Active (offered for pickups)
+              </label>
+              <div>
+                <span className="text-xs text-slate-500">Areas served (none = all areas)</span>
+                <div className="mt-1 max-h-32 overflow-y-auto border border-slate-200 rounded p-2 grid grid-cols-2 gap-1">
+                  {areaOptions.map((area) => (
+                    <label key={area} className="flex items-center gap-1 text-xs">
+                      <input
+                        type="checkbox"
+                        checked={form.areas.includes(area)}
+                        onChange={(e) =>
+                          setForm({
+                            ...form,
+                            areas: e.target.checked ? [...form.areas, area] : form.areas.filter((a) => a !== area),
+                          })
+                        }
+                      />
+                      {area}
+                    </label>
+                  ))}
+                  {areaOptions.length === 0 && <span className="text-xs text-slate-400">No areas known</span>}
+                </div>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <label className="flex items-center gap-2 text-xs">
+                <input
+                  type="checkbox"
+                  checked={form.hasHours}
+                  onChange={(e) => setForm({ ...form, hasHours: e.target.checked })}
+                />
+                Set opening hours (otherwise always open)
+              </label>
+              {form.hasHours && (
+                <div className="space-y-1">
+                  {WEEKDAYS.map((day) => {
+                    const d = form.days[day];
+                    return (
+                      <div key={day} className="flex items-center gap-2 text-xs">
+                        <label className="flex items-center gap-1 w-16">
+                          <input
+                            type="checkbox"
+                            checked={d.open}
+                            onChange={(e) => updateDay(day, { open: e.target.checked })}
+                          />
+                          {WEEKDAY_LABELS[day]}
+                        </label>
+                        {d.open ? (
+                          <>
+                            <input
+                              type="time"
+                              value={d.from}
+                              onChange={(e) => updateDay(day, { from: e.target.value })}
+                              className="border border-slate-300 rounded px-1 py-0.5"
+                            />
+                            <span>–</span>
+                            <input
+                              type="time"
+                              value={d.to}
+                              onChange={(e) => updateDay(day, { to: e.target.value })}
+                              className="border border-slate-300 rounded px-1 py-0.5"
+                            />
+                            {d.to < d.from && <span className="text-slate-400">next day</span>}
+                            {d.to === d.from && <span className="text-slate-400">24h</span>}
+                          </>
+                        ) : (
+                          <span className="text-slate-400">Closed</span>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </div>
+          </div>
+          <div className="flex gap-2 mt-4">
+            <button
+              onClick={handleSave}
+              disabled={saving}
+              className="px-4 py-1.5 rounded font-medium text-sm bg-sky-600 text-white hover:bg-sky-700 disabled:bg-slate-300"
+            >
+              {saving ? "Saving…" : "Save warehouse"}
+            </button>
+            <button
+              onClick={() => setForm(null)}
+              className="px-3 py-1.5 rounded text-sm bg-slate-200 text-slate-700 hover:bg-slate-300"
+            >
+              Cancel
+            </button>
+          </div>
+        </section>
+      )}
+    </div>
+  );
+}
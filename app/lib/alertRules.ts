@@ -0,0 +1,384 @@
+/**
+ * Alert rules - configurable, per-area thresholds for NFO alerts.
+ *
+ * Replaces the hard-coded dashboard constants:
+ * - "stuck" rule       → busy-at-site panel (was STUCK_MINUTES = 150)
+ * - "silence" rule     → "Not Active" flag (was STALE_MINUTES = 30) and the
+ *                        "online" window (half the silence threshold, was 15 min)
+ *
+ * Rules are scoped to a home_location (area) or global (area = null). For each
+ * rule kind, an NFO is evaluated against the rules for its own area when any
+ * exist, otherwise against the global rules - so a region can relax or tighten
+ * a threshold without duplicating alerts.
+ *
+ * Rules and acknowledge/snooze state are shared by every dashboard through
+ * /api/alerts - admins edit rules (canEditConfig), admins and supervisors work
+ * alerts (canActOnAlerts). An empty alert_rules table means DEFAULT_ALERT_RULES.
+ *
+ * Expected tables (Supabase SQL):
+ *   create table alert_rules (
+ *     id text primary key,
+ *     kind text not null, area text, enabled boolean not null default true,
+ *     severity text not null, threshold_minutes integer,
+ *     shift_start text, shift_end text
+ *   );
+ *   create table alert_acks (
+ *     alert_id text primary key,
+ *     acknowledged_at timestamptz, snoozed_until timestamptz
+ *   );
+ */
+
+import { type NfoStatusRow, ageMinutes, STALE_MINUTES } from "./nfoHelpers";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type AlertRuleKind =
+  | "stuck"
+  | "silence"
+  | "deviceSilent"
+  | "offGeofence"
+  | "onShiftOutsideHours";
+
+export type AlertSeverity = "info" | "warning" | "critical";
+
+export type AlertRule = {
+  id: string;
+  kind: AlertRuleKind;
+  area: string | null;              // home_location scope, null = all areas
+  enabled: boolean;
+  severity: AlertSeverity;
+  thresholdMinutes: number | null;  // stuck / silence only
+  shiftStart: string | null;        // "HH:MM" local time, onShiftOutsideHours only
+  shiftEnd: string | null;          // "HH:MM" local time (may be earlier than start for night shifts)
+};
+
+// Fields of the dashboard's EnrichedNfo that rules look at
+export type AlertSubject = NfoStatusRow & {
+  isOnShift: boolean;
+  isDeviceSilent: boolean;
+  locationMismatch: { message: string } | null;
+};
+
+export type FiringAlert = {
+  id: string; // `${rule.id}:${username}` - stable while the condition holds
+  rule: AlertRule;
+  username: string;
+  name: string | null;
+  area: string | null;
+  message: string;
+};
+
+export type AlertAck = {
+  acknowledgedAt: string | null;
+  snoozedUntil: string | null;
+};
+
+// alert id → acknowledge/snooze state
+export type AlertAckState = Record<string, AlertAck>;
+
+export type AlertAckAction = "acknowledge" | "snooze" | "reopen";
+
+export type AlertVisibility = "active" | "acknowledged" | "snoozed";
+
+export type AreaThresholds = {
+  stuckMinutes: number | null; // null when no enabled stuck rule applies (stuck panel off)
+  staleMinutes: number;
+  onlineMinutes: number;
+};
+
+export const DEFAULT_STUCK_MINUTES = 150; // 2.5 hours
+
+export const ALERT_RULE_KINDS: Record<
+  AlertRuleKind,
+  { label: string; description: string; usesThreshold: boolean; usesHours: boolean }
+> = {
+  stuck: {
+    label: "Stuck at site",
+    description: "Busy, on shift and no heartbeat for longer than the threshold",
+    usesThreshold: true,
+    usesHours: false,
+  },
+  silence: {
+    label: "Silence",
+    description: "On shift with no heartbeat for longer than the threshold (also drives Not Active)",
+    usesThreshold: true,
+    usesHours: false,
+  },
+  deviceSilent: {
+    label: "Device silent",
+    description: "On shift and the app reports device-silent",
+    usesThreshold: false,
+    usesHours: false,
+  },
+  offGeofence: {
+    label: "Off geofence",
+    description: "Busy at a site but outside its geofence",
+    usesThreshold: false,
+    usesHours: false,
+  },
+  onShiftOutsideHours: {
+    label: "On shift outside hours",
+    description: "On shift outside the area's working hours",
+    usesThreshold: false,
+    usesHours: true,
+  },
+};
+
+export const ALERT_SNOOZE_OPTIONS_MINUTES = [30, 60, 240];
+
+export const DEFAULT_ALERT_RULES: AlertRule[] = [
+  { id: "default-stuck", kind: "stuck", area: null, enabled: true, severity: "critical", thresholdMinutes: DEFAULT_STUCK_MINUTES, shiftStart: null, shiftEnd: null },
+  { id: "default-silence", kind: "silence", area: null, enabled: true, severity: "warning", thresholdMinutes: STALE_MINUTES, shiftStart: null, shiftEnd: null },
+  { id: "default-device-silent", kind: "deviceSilent", area: null, enabled: true, severity: "warning", thresholdMinutes: null, shiftStart: null, shiftEnd: null },
+  { id: "default-off-geofence", kind: "offGeofence", area: null, enabled: true, severity: "warning", thresholdMinutes: null, shiftStart: null, shiftEnd: null },
+  { id: "default-outside-hours", kind: "onShiftOutsideHours", area: null, enabled: false, severity: "info", thresholdMinutes: null, shiftStart: "07:00", shiftEnd: "19:00" },
+];
+
+const SEVERITY_ORDER: Record<AlertSeverity, number> = { critical: 0, warning: 1, info: 2 };
+
+// ============================================================================
+// Rule validation
+// ============================================================================
+
+const isRuleKind = (value: unknown): value is AlertRuleKind =>
+  typeof value === "string" && value in ALERT_RULE_KINDS;
+
+const isSeverity = (value: unknown): value is AlertSeverity =>
+  value === "info" || value === "warning" || value === "critical";
+
+/**
+ * Validate rules from a request body or alert_rules rows (already camelCase).
+ * Invalid entries are dropped; a non-array gives [].
+ */
+export function normalizeAlertRules(value: unknown): AlertRule[] {
+  if (!Array.isArray(value)) return [];
+
+  return value
+    .filter((r) => r && typeof r.id === "string" && r.id.trim() !== "" && isRuleKind(r.kind))
+    .map((r) => ({
+      id: r.id,
+      kind: r.kind,
+      area: typeof r.area === "string" && r.area.trim() ? r.area : null,
+      enabled: r.enabled !== false,
+      severity: isSeverity(r.severity) ? r.severity : "warning",
+      thresholdMinutes: Number.isFinite(r.thresholdMinutes) && r.thresholdMinutes > 0 ? r.thresholdMinutes : null,
+      shiftStart: typeof r.shiftStart === "string" ? r.shiftStart : null,
+      shiftEnd: typeof r.shiftEnd === "string" ? r.shiftEnd : null,
+    }));
+}
+
+/**
+ * New rule of the given kind, pre-filled from the matching default rule.
+ */
+export function createAlertRule(kind: AlertRuleKind, area: string | null): AlertRule {
+  const template = DEFAULT_ALERT_RULES.find((r) => r.kind === kind)!;
+  return {
+    ...template,
+    id: `${kind}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+    area,
+    enabled: true,
+  };
+}
+
+// ============================================================================
+// Resolution
+// ============================================================================
+
+const areaMatches = (ruleArea: string, nfoArea: string | null) =>
+  !!nfoArea && ruleArea.trim().toLowerCase() === nfoArea.trim().toLowerCase();
+
+/**
+ * Enabled rules of `kind` that apply to an NFO in `area`: the area's own rules
+ * when it has any, otherwise the global ones.
+ */
+export function getApplicableRules(
+  rules: AlertRule[],
+  kind: AlertRuleKind,
+  area: string | null
+): AlertRule[] {
+  const ofKind = rules.filter((r) => r.enabled && r.kind === kind);
+  const scoped = ofKind.filter((r) => r.area != null && areaMatches(r.area, area));
+  return scoped.length > 0 ? scoped : ofKind.filter((r) => r.area == null);
+}
+
+/**
+ * Dashboard thresholds for an area. Uses the tightest applicable rule. Without
+ * an enabled stuck rule nothing counts as stuck; the silence threshold falls
+ * back to the legacy default (Not Active / online still need one).
+ */
+export function resolveAreaThresholds(rules: AlertRule[], area: string | null): AreaThresholds {
+  const tightest = (kind: AlertRuleKind) => {
+    const values = getApplicableRules(rules, kind, area)
+      .map((r) => r.thresholdMinutes)
+      .filter((v): v is number => v != null);
+    return values.length > 0 ? Math.min(...values) : null;
+  };
+
+  const staleMinutes = tightest("silence") ?? STALE_MINUTES;
+  return {
+    stuckMinutes: tightest("stuck"),
+    staleMinutes,
+    onlineMinutes: staleMinutes / 2,
+  };
+}
+
+// ============================================================================
+// Evaluation
+// ============================================================================
+
+const parseHhMm = (value: string | null): number | null => {
+  if (!value) return null;
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value.trim());
+  if (!match) return null;
+  const minutes = Number(match[1]) * 60 + Number(match[2]);
+  return minutes < 24 * 60 ? minutes : null;
+};
+
+/**
+ * Whether `date` (local time) falls inside [start, end). Handles overnight windows.
+ */
+export function isWithinHours(date: Date, start: string | null, end: string | null): boolean {
+  const startMin = parseHhMm(start);
+  const endMin = parseHhMm(end);
+  if (startMin == null || endMin == null || startMin === endMin) return true;
+
+  const nowMin = date.getHours() * 60 + date.getMinutes();
+  return startMin < endMin
+    ? nowMin >= startMin && nowMin < endMin
+    : nowMin >= startMin || nowMin < endMin;
+}
+
+/**
+ * Message for one rule/NFO pair, or null when the rule doesn't fire.
+ */
+function evaluateRule(rule: AlertRule, nfo: AlertSubject, now: number): string | null {
+  const age = ageMinutes(nfo.last_active_at, now);
+
+  switch (rule.kind) {
+    case "stuck": {
+      const isBusyStatus = (nfo.status ?? "").toLowerCase() === "busy";
+      if (!nfo.logged_in || !nfo.on_shift || !isBusyStatus || age == null) return null;
+      if (rule.thresholdMinutes == null || age < rule.thresholdMinutes) return null;
+      return `Busy at ${nfo.site_id?.trim() || "site"} for ${Math.round(age)} min (limit ${rule.thresholdMinutes})`;
+    }
+    case "silence": {
+      if (!nfo.isOnShift || rule.thresholdMinutes == null) return null;
+      if (age == null) return "On shift with no heartbeat recorded";
+      if (age <= rule.thresholdMinutes) return null;
+      return `No heartbeat for ${Math.round(age)} min (limit ${rule.thresholdMinutes})`;
+    }
+    case "deviceSilent":
+      return nfo.isOnShift && nfo.isDeviceSilent ? "Device reports device-silent while on shift" : null;
+    case "offGeofence":
+      return nfo.locationMismatch ? nfo.locationMismatch.message : null;
+    case "onShiftOutsideHours":
+      if (!nfo.isOnShift || isWithinHours(new Date(now), rule.shiftStart, rule.shiftEnd)) return null;
+      return `On shift outside ${rule.shiftStart}–${rule.shiftEnd}`;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Evaluate every applicable rule for every NFO. Sorted by severity, then username.
+ */
+export function evaluateAlertRules(
+  rules: AlertRule[],
+  nfos: AlertSubject[],
+  now: number = Date.now()
+): FiringAlert[] {
+  const alerts: FiringAlert[] = [];
+  const kinds = Object.keys(ALERT_RULE_KINDS) as AlertRuleKind[];
+
+  for (const nfo of nfos) {
+    for (const kind of kinds) {
+      for (const rule of getApplicableRules(rules, kind, nfo.home_location)) {
+        const message = evaluateRule(rule, nfo, now);
+        if (!message) continue;
+        alerts.push({
+          id: `${rule.id}:${nfo.username}`,
+          rule,
+          username: nfo.username,
+          name: nfo.name,
+          area: nfo.home_location,
+          message,
+        });
+      }
+    }
+  }
+
+  return alerts.sort(
+    (a, b) =>
+      SEVERITY_ORDER[a.rule.severity] - SEVERITY_ORDER[b.rule.severity] ||
+      a.username.localeCompare(b.username)
+  );
+}
+
+// ============================================================================
+// Acknowledge / snooze
+// ============================================================================
+
+/**
+ * Current display state of a firing alert.
+ */
+export function getAlertVisibility(ack: AlertAck | undefined, now: number = Date.now()): AlertVisibility {
+  if (!ack) return "active";
+  if (ack.snoozedUntil && Date.parse(ack.snoozedUntil) > now) return "snoozed";
+  if (ack.acknowledgedAt) return "acknowledged";
+  return "active";
+}
+
+/**
+ * Ack/snooze entries for alerts that stopped firing, so a later re-occurrence
+ * shows up as a fresh alert. Acks are shared, so only alerts about NFOs this
+ * dashboard can see (or whose rule is gone) count - another region's alerts
+ * may still be firing.
+ */
+export function findStaleAlertAcks(
+  acks: AlertAckState,
+  firingIds: Set<string>,
+  visibleUsernames: Set<string>,
+  rules: AlertRule[]
+): string[] {
+  const ruleIds = new Set(rules.map((r) => r.id));
+  return Object.keys(acks).filter((id) => {
+    if (firingIds.has(id)) return false;
+    const separator = id.indexOf(":");
+    return !ruleIds.has(id.slice(0, separator)) || visibleUsernames.has(id.slice(separator + 1));
+  });
+}
+
+/**
+ * `acks` with the entry for `alertId` replaced (null removes it).
+ */
+export function withAlertAck(acks: AlertAckState, alertId: string, ack: AlertAck | null): AlertAckState {
+  const next = { ...acks };
+  if (ack) next[alertId] = ack;
+  else delete next[alertId];
+  return next;
+}
+
+/**
+ * Ack/snooze state after `action` at `now` - what /api/alerts stores, and what
+ * the dashboard shows until the server answers. null = no entry (reopened).
+ */
+export function applyAlertAckAction(
+  ack: AlertAck | undefined,
+  action: AlertAckAction,
+  minutes: number | null,
+  now: number = Date.now()
+): AlertAck | null {
+  switch (action) {
+    case "acknowledge":
+      return { acknowledgedAt: new Date(now).toISOString(), snoozedUntil: null };
+    case "snooze":
+      return {
+        acknowledgedAt: ack?.acknowledgedAt ?? null,
+        snoozedUntil: new Date(now + (minutes ?? 0) * 60_000).toISOString(),
+      };
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,306 @@
+/**
+ * NFO assignments - jobs sent from the console to the Android app.
+ *
+ * A supervisor assigns a site (and optional warehouse pickup) to an NFO from the
+ * Route Planner or the dispatch shortlist. That writes a row to the
+ * `nfo_assignments` table with the planned route, ETA and notes; the app picks
+ * it up from there.
+ *
+ * The app has no separate "job status" channel, so the lifecycle
+ *   assigned → accepted → en route → on site → done
+ * is derived from the NFO's later nfo_status heartbeats: once the heartbeat
+ * reports the assigned site_id the job is accepted, its activity text moves it
+ * to en route / on site / done, and releasing the site after being on site
+ * closes it. Statuses only ever move forward, and each status timestamp is the
+ * heartbeat time that moved it (not when a console noticed), so SLA results
+ * hold even if no console was open. When a console opens it replays the NFO's
+ * heartbeat history for jobs that are still open, so a visit that started and
+ * ended unwatched still reaches "done".
+ *
+ * Each assignment is also a job/ticket: it carries a priority, an optional
+ * ticket reference and SLA response/restore deadlines (see sla.ts).
+ *
+ * Expected table (Supabase SQL):
+ *   create table nfo_assignments (
+ *     id bigint generated always as identity primary key,
+ *     username text not null, site_id text not null,
+ *     warehouse_id bigint, warehouse_name text,
+ *     route_geometry jsonb, route_distance_km numeric, route_engine text,
+ *     eta_min numeric, eta_at timestamptz, notes text,
+ *     priority text not null default 'P3', ticket_ref text,
+ *     response_due_at timestamptz, restore_due_at timestamptz,
+ *     status text not null default 'assigned',
+ *     created_by uuid default auth.uid(), created_at timestamptz not null default now(),
+ *     updated_at timestamptz, accepted_at timestamptz, en_route_at timestamptz,
+ *     on_site_at timestamptz, done_at timestamptz, cancelled_at timestamptz
+ *   );
+ */
+
+import type { NfoStatusRow } from "./nfoHelpers";
+import type { RouteEngine, RouteResult } from "./routing";
+import type { WarehouseRecord } from "../components/RoutePlanner";
+import type { JobPriority } from "./sla";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type AssignmentStatus = "assigned" | "accepted" | "en_route" | "on_site" | "done" | "cancelled";
+
+export type NfoAssignment = {
+  id: number;
+  username: string;
+  site_id: string;
+  warehouse_id: number | null;
+  warehouse_name: string | null;
+  route_geometry: [number, number][] | null; // [lng, lat] pairs, null for straight-line fallback
+  route_distance_km: number | null;
+  route_engine: RouteEngine | null;
+  eta_min: number | null;
+  eta_at: string | null;    // planned arrival (ISO), assignment time + eta_min
+  notes: string | null;
+  priority: JobPriority;
+  ticket_ref: string | null; // external ticket / fault number
+  response_due_at: string | null; // SLA: on site by
+  restore_due_at: string | null;  // SLA: done by
+  status: AssignmentStatus;
+  created_by: string | null;
+  created_at: string;
+  updated_at: string | null;
+  accepted_at: string | null;
+  en_route_at: string | null;
+  on_site_at: string | null;
+  done_at: string | null;
+  cancelled_at: string | null;
+};
+
+// Body of POST /api/assignments. SLA deadlines are computed on the server from the
+// priority - only admins may send their own.
+export type NewAssignmentInput = Pick<
+  NfoAssignment,
+  | "username"
+  | "site_id"
+  | "warehouse_id"
+  | "warehouse_name"
+  | "route_geometry"
+  | "route_distance_km"
+  | "route_engine"
+  | "eta_min"
+  | "eta_at"
+  | "notes"
+  | "priority"
+  | "ticket_ref"
+> &
+  Partial<Pick<NfoAssignment, "response_due_at" | "restore_due_at">>;
+
+// A lifecycle step and the heartbeat time (ISO) it happened at
+export type AssignmentTransition = {
+  status: AssignmentStatus;
+  at: string;
+};
+
+// Heartbeat fields the lifecycle looks at
+export type AssignmentHeartbeat = Pick<NfoStatusRow, "site_id" | "activity" | "last_active_at">;
+
+export const ASSIGNMENT_STATUSES: AssignmentStatus[] = [
+  "assigned",
+  "accepted",
+  "en_route",
+  "on_site",
+  "done",
+  "cancelled",
+];
+
+export const ASSIGNMENT_STATUS_LABELS: Record<AssignmentStatus, string> = {
+  assigned: "Assigned",
+  accepted: "Accepted",
+  en_route: "En route",
+  on_site: "On site",
+  done: "Done",
+  cancelled: "Cancelled",
+};
+
+// Timestamp column stamped when a job reaches each status
+export const ASSIGNMENT_STATUS_TIMESTAMP: Record<AssignmentStatus, keyof NfoAssignment | null> = {
+  assigned: null, // created_at
+  accepted: "accepted_at",
+  en_route: "en_route_at",
+  on_site: "on_site_at",
+  done: "done_at",
+  cancelled: "cancelled_at",
+};
+
+export const isAssignmentStatus = (value: unknown): value is AssignmentStatus =>
+  typeof value === "string" && (ASSIGNMENT_STATUSES as string[]).includes(value);
+
+export const isOpenAssignment = (a: NfoAssignment) => a.status !== "done" && a.status !== "cancelled";
+
+// ============================================================================
+// Creating
+// ============================================================================
+
+/**
+ * Assignment payload for a planned route. Fallback (straight-line) routes are
+ * sent without geometry or ETA so the app doesn't navigate along a straight line.
+ * SLA deadlines are left to the server (computed from the priority on insert).
+ */
+export function buildAssignmentInput(params: {
+  username: string;
+  siteId: string;
+  warehouse: Pick<WarehouseRecord, "id" | "name"> | null;
+  route: Pick<RouteResult, "coordinates" | "distanceKm" | "durationMin" | "engine" | "isFallback"> | null;
+  notes: string;
+  priority: JobPriority;
+  ticketRef: string;
+  now: number;
+}): NewAssignmentInput {
+  const { route } = params;
+  const routed = route && !route.isFallback;
+  return {
+    username: params.username,
+    site_id: params.siteId,
+    warehouse_id: params.warehouse?.id ?? null,
+    warehouse_name: params.warehouse?.name ?? null,
+    route_geometry: routed ? route.coordinates : null,
+    route_distance_km: route ? route.distanceKm : null,
+    route_engine: routed ? route.engine : null,
+    eta_min: routed ? route.durationMin : null,
+    eta_at: routed ? new Date(params.now + route.durationMin * 60_000).toISOString() : null,
+    notes: params.notes.trim() || null,
+    priority: params.priority,
+    ticket_ref: params.ticketRef.trim() || null,
+  };
+}
+
+// ============================================================================
+// Lifecycle from heartbeats
+// ============================================================================
+
+const STATUS_ORDER: Record<AssignmentStatus, number> = {
+  assigned: 0,
+  accepted: 1,
+  en_route: 2,
+  on_site: 3,
+  done: 4,
+  cancelled: 4,
+};
+
+// Free-text activity from the app → lifecycle step (first match wins)
+const ACTIVITY_PATTERNS: { pattern: RegExp; status: AssignmentStatus }[] = [
+  { pattern: /\b(done|complete[d]?|finish(ed)?|closed|resolved)\b/i, status: "done" },
+  { pattern: /\b(on[\s_-]?site|arrived|at site|working|repair|maintenance|install)/i, status: "on_site" },
+  { pattern: /\b(en[\s_-]?route|travel(l?ing)?|driving|on the way|heading|pickup|warehouse)/i, status: "en_route" },
+];
+
+function statusFromActivity(activity: string | null): AssignmentStatus | null {
+  const text = (activity ?? "").trim();
+  if (!text) return null;
+  return ACTIVITY_PATTERNS.find((p) => p.pattern.test(text))?.status ?? null;
+}
+
+const sameSite = (a: string | null, b: string) => !!a && a.trim().toLowerCase() === b.trim().toLowerCase();
+
+/**
+ * Status an open assignment should have given the NFO's latest heartbeat.
+ * Heartbeats from before the assignment was created are ignored.
+ */
+export function deriveAssignmentStatus(
+  assignment: NfoAssignment,
+  heartbeat: AssignmentHeartbeat | undefined
+): AssignmentStatus {
+  const current = assignment.status;
+  if (!isOpenAssignment(assignment) || !heartbeat?.last_active_at) return current;
+  if (new Date(heartbeat.last_active_at).getTime() < new Date(assignment.created_at).getTime()) return current;
+
+  let next: AssignmentStatus | null = null;
+  if (sameSite(heartbeat.site_id, assignment.site_id)) {
+    next = statusFromActivity(heartbeat.activity) ?? "accepted";
+  } else if (current === "on_site" && !(heartbeat.site_id ?? "").trim()) {
+    // Released the site after working there - job finished
+    next = "done";
+  }
+
+  return next && STATUS_ORDER[next] > STATUS_ORDER[current] ? next : current;
+}
+
+/**
+ * Replay heartbeats (oldest first) against an open assignment and return every
+ * status it passed through, each stamped with the heartbeat that caused it.
+ */
+export function replayAssignmentTransitions(
+  assignment: NfoAssignment,
+  heartbeats: AssignmentHeartbeat[]
+): AssignmentTransition[] {
+  const transitions: AssignmentTransition[] = [];
+  let current = assignment;
+  for (const heartbeat of heartbeats) {
+    const status = deriveAssignmentStatus(current, heartbeat);
+    if (status === current.status) continue;
+    transitions.push({ status, at: heartbeat.last_active_at! });
+    current = { ...current, status };
+    if (!isOpenAssignment(current)) break;
+  }
+  return transitions;
+}
+
+/**
+ * Time (ms) of the assignment's latest lifecycle step - heartbeats before it
+ * can't move the job any further.
+ */
+export function lastTransitionMs(assignment: NfoAssignment): number {
+  const column = ASSIGNMENT_STATUS_TIMESTAMP[assignment.status];
+  const stamped = column ? assignment[column] : null;
+  return new Date(typeof stamped === "string" ? stamped : assignment.created_at).getTime();
+}
+
+/**
+ * Why `assignment` may not move to `status` at `atMs`, or null when it may:
+ * statuses only move forward, and a step can't be dated before the job's
+ * previous step (or its creation) - that would fake SLA results.
+ */
+export function assignmentTransitionError(
+  assignment: NfoAssignment,
+  status: AssignmentStatus,
+  atMs: number
+): string | null {
+  if (STATUS_ORDER[status] <= STATUS_ORDER[assignment.status]) {
+    return `Cannot move a job from ${ASSIGNMENT_STATUS_LABELS[assignment.status]} to ${ASSIGNMENT_STATUS_LABELS[status]}`;
+  }
+  if (atMs < lastTransitionMs(assignment)) {
+    return "Status time is before the job's previous step";
+  }
+  return null;
+}
+
+/**
+ * The newest open assignment per NFO - the only one the lifecycle tracks, since
+ * older ones for the same NFO would otherwise all advance on the same heartbeat.
+ */
+export function newestOpenAssignments(assignments: NfoAssignment[]): NfoAssignment[] {
+  const newestOpenByUser = new Map<string, NfoAssignment>();
+  for (const a of assignments) {
+    if (!isOpenAssignment(a)) continue;
+    const existing = newestOpenByUser.get(a.username);
+    if (!existing || a.created_at > existing.created_at) newestOpenByUser.set(a.username, a);
+  }
+  return Array.from(newestOpenByUser.values());
+}
+
+/**
+ * Open assignments (newest per NFO) whose status moved forward with the latest
+ * heartbeat, with their new status and the heartbeat time it moved at.
+ */
+export function findAssignmentProgress(
+  assignments: NfoAssignment[],
+  heartbeats: Map<string, NfoStatusRow>
+): { assignment: NfoAssignment; transition: AssignmentTransition }[] {
+  const progress: { assignment: NfoAssignment; transition: AssignmentTransition }[] = [];
+  for (const assignment of newestOpenAssignments(assignments)) {
+    const heartbeat = heartbeats.get(assignment.username);
+    const status = deriveAssignmentStatus(assignment, heartbeat);
+    if (status !== assignment.status) {
+      progress.push({ assignment, transition: { status, at: heartbeat!.last_active_at! } });
+    }
+  }
+  return progress;
+}
@@ -0,0 +1,105 @@
+/**
+ * Manager console auth - Supabase Auth session → role + visible regions.
+ *
+ * Roles are read from the user's app_metadata (set by an admin via the Supabase
+ * dashboard or admin API - users cannot change it themselves):
+ *   { "role": "admin" | "supervisor" | "viewer", "regions": ["Jeddah", "Makkah"] }
+ *
+ * - admin:      all regions, can edit alert rules and geofences
+ * - supervisor: only NFOs whose home_location is in `regions`, can work alerts and assign jobs
+ * - viewer:     all regions, read-only
+ *
+ * Region filtering here scopes what the console renders. The same app_metadata
+ * claims should back Row Level Security on nfo_status so the data itself is
+ * restricted, e.g. home_location = ANY(auth.jwt() -> 'app_metadata' -> 'regions').
+ */
+
+import type { User } from "@supabase/supabase-js";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type ManagerRole = "admin" | "supervisor" | "viewer";
+
+export type ManagerProfile = {
+  userId: string;
+  email: string | null;
+  role: ManagerRole;
+  regions: string[]; // home_location values a supervisor may see (ignored for other roles)
+};
+
+export const MANAGER_ROLE_LABELS: Record<ManagerRole, string> = {
+  admin: "Admin",
+  supervisor: "Regional supervisor",
+  viewer: "Viewer",
+};
+
+// ============================================================================
+// Profile
+// ============================================================================
+
+const isManagerRole = (value: unknown): value is ManagerRole =>
+  value === "admin" || value === "supervisor" || value === "viewer";
+
+/**
+ * Build the console profile from a signed-in Supabase user.
+ * Missing or unknown roles fall back to "viewer" (least privilege that still works).
+ */
+export function getManagerProfile(user: User): ManagerProfile {
+  const meta = (user.app_metadata ?? {}) as Record<string, unknown>;
+  const role = isManagerRole(meta.role) ? meta.role : "viewer";
+  const regions = Array.isArray(meta.regions)
+    ? meta.regions.filter((r): r is string => typeof r === "string" && r.trim() !== "")
+    : [];
+
+  return {
+    userId: user.id,
+    email: user.email ?? null,
+    role,
+    regions,
+  };
+}
+
+// ============================================================================
+// Access checks
+// ============================================================================
+
+/**
+ * Whether the profile may see NFOs from `area` (home_location).
+ * A supervisor with no regions assigned sees nothing.
+ */
+export function canSeeArea(profile: ManagerProfile, area: string | null): boolean {
+  if (profile.role !== "supervisor") return true;
+  if (!area) return false;
+
+  const normalized = area.trim().toLowerCase();
+  return profile.regions.some((r) => r.trim().toLowerCase() === normalized);
+}
+
+/**
+ * NFO rows visible to the profile. Returns [] until a profile is known.
+ */
+export function filterNfosForProfile<T extends { home_location: string | null }>(
+  profile: ManagerProfile | null,
+  nfos: T[]
+): T[] {
+  if (!profile) return [];
+  if (profile.role !== "supervisor") return nfos;
+  return nfos.filter((nfo) => canSeeArea(profile, nfo.home_location));
+}
+
+// Alert rules, geofence radii and other shared configuration
+export const canEditConfig = (profile: ManagerProfile | null) => profile?.role === "admin";
+
+// Acknowledge / snooze alerts
+export const canActOnAlerts = (profile: ManagerProfile | null) =>
+  profile?.role === "admin" || profile?.role === "supervisor";
+
+// Send jobs to NFOs' apps and update their status
+export const canAssignJobs = (profile: ManagerProfile | null) =>
+  profile?.role === "admin" || profile?.role === "supervisor";
+
+// Plan shifts and import roster CSVs
+export const canEditRoster = (profile: ManagerProfile | null) =>
+  profile?.role === "admin" || profile?.role === "supervisor";
@@ -0,0 +1,251 @@
+/**
+ * Response-time coverage - which sites a free, on-shift NFO can reach within
+ * 15 / 30 / 60 minutes right now.
+ *
+ * /api/isochrones asks ORS for drive-time isochrones around every free NFO and
+ * falls back to a straight-line buffer (ISOCHRONE_BUFFER_SPEED_KMH) for any NFO
+ * ORS can't serve or that doesn't fit in one request. The Live Map shades the polygons per band and this module
+ * works out, per site, the fastest band it falls in - sites outside the largest
+ * band are "uncovered" and counted per area so managers can see where to move
+ * idle engineers before the next fault.
+ *
+ * Rings are [lng, lat] like every other geometry from the routing APIs.
+ */
+
+import type { RouteRequestOptions } from "./routing";
+import type { SiteRecord } from "./nfoHelpers";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type IsochroneEngine = "ors" | "haversine";
+
+export type IsochronePolygon = {
+  sourceIndex: number; // index into the requested locations
+  rangeMin: number;    // one of ISOCHRONE_BANDS_MIN
+  ring: [number, number][]; // outer ring, [lng, lat]
+};
+
+export type IsochroneResult = {
+  polygons: IsochronePolygon[];
+  engines: IsochroneEngine[]; // per requested location
+};
+
+export type AreaCoverage = {
+  area: string;
+  total: number;
+  uncovered: number;
+  byBand: Record<number, number>; // sites whose fastest band is this range
+};
+
+export type SiteCoverage = {
+  bandBySiteId: Map<string, number | null>; // fastest band in minutes, null = uncovered
+  uncoveredCount: number;
+  byArea: AreaCoverage[]; // most uncovered first
+};
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const ISOCHRONE_BANDS_MIN = [15, 30, 60];
+
+export const ISOCHRONE_BAND_COLORS: Record<number, string> = {
+  15: "#16a34a",
+  30: "#eab308",
+  60: "#f97316",
+};
+
+// Straight-line speed for the fallback buffer - below the routing fallback's
+// 50 km/h because roads are rarely straight
+export const ISOCHRONE_BUFFER_SPEED_KMH = 40;
+
+// Free NFOs sent per request (each is up to 3 polygons of a few hundred points).
+// The Live Map draws any beyond this as straight-line buffers.
+export const MAX_ISOCHRONE_SOURCES = 40;
+
+const BUFFER_RING_POINTS = 48;
+const EARTH_RADIUS_KM = 6371;
+
+// ============================================================================
+// Geometry
+// ============================================================================
+
+/**
+ * Circle of `radiusKm` around a point as a closed [lng, lat] ring.
+ */
+export function bufferRing(lat: number, lng: number, radiusKm: number): [number, number][] {
+  const toRad = (d: number) => (d * Math.PI) / 180;
+  const toDeg = (r: number) => (r * 180) / Math.PI;
+  const lat1 = toRad(lat);
+  const lng1 = toRad(lng);
+  const angular = radiusKm / EARTH_RADIUS_KM;
+
+  const ring: [number, number][] = [];
+  for (let i = 0; i <= BUFFER_RING_POINTS; i++) {
+    const bearing = (2 * Math.PI * i) / BUFFER_RING_POINTS;
+    const lat2 = Math.asin(
+      Math.sin(lat1) * Math.cos(angular) + Math.cos(lat1) * Math.sin(angular) * Math.cos(bearing)
+    );
+    const lng2 =
+      lng1 +
+      Math.atan2(
+        Math.sin(bearing) * Math.sin(angular) * Math.cos(lat1),
+        Math.cos(angular) - Math.sin(lat1) * Math.sin(lat2)
+      );
+    ring.push([toDeg(lng2), toDeg(lat2)]);
+  }
+  return ring;
+}
+
+/**
+ * Straight-line isochrones (one ring per band) around a point - what
+ * /api/isochrones returns for locations ORS can't serve.
+ */
+export function bufferIsochrones(
+  sourceIndex: number,
+  lat: number,
+  lng: number,
+  rangesMin: number[] = ISOCHRONE_BANDS_MIN
+): IsochronePolygon[] {
+  return rangesMin.map((rangeMin) => ({
+    sourceIndex,
+    rangeMin,
+    ring: bufferRing(lat, lng, (ISOCHRONE_BUFFER_SPEED_KMH * rangeMin) / 60),
+  }));
+}
+
+// Ray casting - fine for the small, non-self-intersecting rings ORS returns
+function pointInRing(lat: number, lng: number, ring: [number, number][]): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if (yi > lat !== yj > lat && lng < ((xj - xi) * (lat - yi)) / (yj - yi) + xi) inside = !inside;
+  }
+  return inside;
+}
+
+// ============================================================================
+// Source keys
+// ============================================================================
+
+/**
+ * Stable key for a set of isochrone sources. Positions are rounded to 3 decimals
+ * (~110 m) so GPS jitter doesn't refetch on every poll.
+ */
+export function coverageSourceKey(sources: { username: string; lat: number; lng: number }[]): string {
+  return sources.map((s) => `${s.username}@${s.lat.toFixed(3)},${s.lng.toFixed(3)}`).join("|");
+}
+
+/**
+ * The rounded [lng, lat] points a coverageSourceKey was built from.
+ */
+export function coverageKeyLocations(key: string): [number, number][] {
+  if (!key) return [];
+  return key.split("|").map((entry) => {
+    const [lat, lng] = entry.slice(entry.lastIndexOf("@") + 1).split(",").map(Number);
+    return [lng, lat] as [number, number];
+  });
+}
+
+// ============================================================================
+// Coverage
+// ============================================================================
+
+/**
+ * Fastest band per site and uncovered counts per area. Polygons get a bounding
+ * box first so thousands of sites stay cheap.
+ */
+export function computeSiteCoverage(sites: SiteRecord[], polygons: IsochronePolygon[]): SiteCoverage {
+  const indexed = polygons
+    .map((p) => {
+      const lngs = p.ring.map(([lng]) => lng);
+      const lats = p.ring.map(([, lat]) => lat);
+      return {
+        ...p,
+        minLng: Math.min(...lngs),
+        maxLng: Math.max(...lngs),
+        minLat: Math.min(...lats),
+        maxLat: Math.max(...lats),
+      };
+    })
+    .sort((a, b) => a.rangeMin - b.rangeMin);
+
+  // Fastest band per site_id (best row when Site_Coordinates has duplicates)
+  const bandBySiteId = new Map<string, number | null>();
+  const areaBySiteId = new Map<string, string>();
+  for (const site of sites) {
+    if (site.latitude == null || site.longitude == null) continue;
+    const lat = site.latitude;
+    const lng = site.longitude;
+
+    let band: number | null = null;
+    for (const p of indexed) {
+      if (lat < p.minLat || lat > p.maxLat || lng < p.minLng || lng > p.maxLng) continue;
+      if (pointInRing(lat, lng, p.ring)) {
+        band = p.rangeMin;
+        break; // sorted by range, so the first hit is the fastest band
+      }
+    }
+
+    const previous = bandBySiteId.get(site.site_id);
+    if (previous === undefined || (band != null && (previous == null || band < previous))) {
+      bandBySiteId.set(site.site_id, band);
+    }
+    if (!areaBySiteId.has(site.site_id)) areaBySiteId.set(site.site_id, site.area?.trim() || "No area");
+  }
+
+  const areaMap = new Map<string, AreaCoverage>();
+  let uncoveredCount = 0;
+  for (const [siteId, band] of bandBySiteId) {
+    const areaName = areaBySiteId.get(siteId)!;
+    const area = areaMap.get(areaName) ?? { area: areaName, total: 0, uncovered: 0, byBand: {} };
+    area.total += 1;
+    if (band == null) {
+      area.uncovered += 1;
+      uncoveredCount += 1;
+    } else {
+      area.byBand[band] = (area.byBand[band] ?? 0) + 1;
+    }
+    areaMap.set(areaName, area);
+  }
+
+  const byArea = Array.from(areaMap.values()).sort(
+    (a, b) => b.uncovered - a.uncovered || a.area.localeCompare(b.area)
+  );
+  return { bandBySiteId, uncoveredCount, byArea };
+}
+
+// ============================================================================
+// Fetching
+// ============================================================================
+
+/**
+ * Isochrones for the given [lng, lat] points via /api/isochrones.
+ * Returns null if the endpoint itself fails.
+ */
+export async function fetchIsochrones(
+  locations: [number, number][],
+  options: RouteRequestOptions = {}
+): Promise<IsochroneResult | null> {
+  try {
+    const response = await fetch("/api/isochrones", {
+      method: "POST",
+      signal: options.signal,
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ locations, ranges_min: ISOCHRONE_BANDS_MIN, profile: "driving-car" }),
+    });
+
+    const data = await response.json();
+    console.log("coverage.ts isochrones summary:", data.summary ?? data.error);
+
+    if (!data.ok) return null;
+    return { polygons: data.isochrones as IsochronePolygon[], engines: data.engines as IsochroneEngine[] };
+  } catch (error) {
+    if (options.signal?.aborted) throw error;
+    console.error("coverage.ts isochrones fetch error:", error);
+    return null;
+  }
+}
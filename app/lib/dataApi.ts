@@ -0,0 +1,748 @@
+/**
+ * Server-side data layer for /api/nfos, /api/sites, /api/warehouses, /api/assignments,
+ * /api/roster, /api/reports and /api/alerts.
+ *
+ * Centralises what the dashboard used to do in the browser:
+ * - paginated Supabase reads (PostgREST caps responses at 1000 rows)
+ * - string → number coordinate normalisation
+ * - latest nfo_status row per username (nfo_status_latest view)
+ * - nfo_assignments reads/writes (jobs sent to the Android app)
+ * - nfo_roster reads/writes plus the on-shift heartbeats around each shift
+ * - nfo_status history over a period for productivity reports
+ * - Site_Coordinates edits from the Sites admin view
+ * - warehouse edits (opening hours, areas) from the Warehouses view
+ * - alert_rules / alert_acks shared by every dashboard's Alerts view
+ * - ETag / If-None-Match handling so unchanged payloads come back as 304
+ *
+ * Server only - imports node:crypto. The browser side lives in dataClient.ts.
+ */
+
+import { createHash } from "node:crypto";
+import { NextRequest, NextResponse } from "next/server";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { NfoStatusRow, SiteRecord } from "./nfoHelpers";
+import type { WarehouseRecord } from "../components/RoutePlanner";
+import {
+  ASSIGNMENT_STATUS_TIMESTAMP,
+  assignmentTransitionError,
+  isAssignmentStatus,
+  type AssignmentStatus,
+  type NewAssignmentInput,
+  type NfoAssignment,
+} from "./assignments";
+import type { RouteEngine } from "./routing";
+import { DEFAULT_JOB_PRIORITY, isJobPriority } from "./sla";
+import { ROSTER_ACTUAL_WINDOW_MIN, type NewRosterShift, type RosterShift } from "./roster";
+import { normalizeOpeningHours } from "./warehouses";
+import { getManagerProfile, type ManagerProfile } from "./auth";
+import {
+  DEFAULT_ALERT_RULES,
+  normalizeAlertRules,
+  type AlertAck,
+  type AlertAckState,
+  type AlertRule,
+} from "./alertRules";
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const SITE_COLUMNS = "site_id, site_name, latitude, longitude, area";
+
+export const NFO_STATUS_COLUMNS =
+  "username, name, on_shift, status, activity, site_id, lat, lng, logged_in, last_active_at, home_location, via_warehouse, warehouse_name";
+
+export const WAREHOUSE_COLUMNS = "id, name, region, latitude, longitude, is_active";
+
+// Added for the Warehouses view - see warehouses.ts
+const WAREHOUSE_OPTIONAL_COLUMNS = "opening_hours, areas";
+
+export const ASSIGNMENT_COLUMNS =
+  "id, username, site_id, warehouse_id, warehouse_name, route_geometry, route_distance_km, route_engine, eta_min, eta_at, notes, priority, ticket_ref, response_due_at, restore_due_at, status, created_by, created_at, updated_at, accepted_at, en_route_at, on_site_at, done_at, cancelled_at";
+
+export const ROSTER_COLUMNS = "id, username, shift_start, shift_end, notes";
+
+export const ALERT_RULE_COLUMNS = "id, kind, area, enabled, severity, threshold_minutes, shift_start, shift_end";
+
+export const ALERT_ACK_COLUMNS = "alert_id, acknowledged_at, snoozed_until";
+
+const PAGE_SIZE = 1000;
+
+// Finished/cancelled assignments older than this drop out of /api/assignments
+const ASSIGNMENT_HISTORY_DAYS = 7;
+
+// Report periods (and roster actuals) read at most this many heartbeats (a month of a large team)
+const MAX_REPORT_ROWS = 300_000;
+
+
+// ============================================================================
+// Normalisation
+// ============================================================================
+
+// Untyped Supabase row
+type RawRow = Record<string, unknown>;
+
+const toStringOrNull = (value: unknown): string | null => (typeof value === "string" ? value : null);
+
+// Supabase returns numeric/text columns as strings on some tables
+const toNumberOrNull = (value: unknown): number | null => {
+  const n = typeof value === "string" ? parseFloat(value) : value;
+  return typeof n === "number" && Number.isFinite(n) ? n : null;
+};
+
+export function normalizeSiteRow(row: RawRow): SiteRecord {
+  return {
+    site_id: String(row.site_id ?? ""),
+    name: toStringOrNull(row.site_name),
+    latitude: toNumberOrNull(row.latitude),
+    longitude: toNumberOrNull(row.longitude),
+    area: toStringOrNull(row.area),
+    geofence_radius_m: toNumberOrNull(row.geofence_radius_m),
+  };
+}
+
+export function normalizeWarehouseRow(row: RawRow): WarehouseRecord {
+  return {
+    id: row.id as WarehouseRecord["id"],
+    name: toStringOrNull(row.name) ?? "",
+    region: toStringOrNull(row.region),
+    latitude: toNumberOrNull(row.latitude),
+    longitude: toNumberOrNull(row.longitude),
+    is_active: row.is_active === true,
+    opening_hours: normalizeOpeningHours(row.opening_hours),
+    areas: Array.isArray(row.areas) ? row.areas.filter((a): a is string => typeof a === "string") : null,
+  };
+}
+
+export function normalizeNfoStatusRow(row: RawRow): NfoStatusRow {
+  return {
+    ...(row as NfoStatusRow),
+    lat: toNumberOrNull(row.lat),
+    lng: toNumberOrNull(row.lng),
+    warehouse_id: toNumberOrNull(row.warehouse_id),
+  };
+}
+
+export function normalizeAssignmentRow(row: RawRow): NfoAssignment {
+  return {
+    id: Number(row.id),
+    username: String(row.username ?? ""),
+    site_id: String(row.site_id ?? ""),
+    warehouse_id: toNumberOrNull(row.warehouse_id),
+    warehouse_name: toStringOrNull(row.warehouse_name),
+    route_geometry: Array.isArray(row.route_geometry) ? (row.route_geometry as [number, number][]) : null,
+    route_distance_km: toNumberOrNull(row.route_distance_km),
+    route_engine: (toStringOrNull(row.route_engine) as RouteEngine | null),
+    eta_min: toNumberOrNull(row.eta_min),
+    eta_at: toStringOrNull(row.eta_at),
+    notes: toStringOrNull(row.notes),
+    priority: isJobPriority(row.priority) ? row.priority : DEFAULT_JOB_PRIORITY,
+    ticket_ref: toStringOrNull(row.ticket_ref),
+    response_due_at: toStringOrNull(row.response_due_at),
+    restore_due_at: toStringOrNull(row.restore_due_at),
+    status: isAssignmentStatus(row.status) ? row.status : "assigned",
+    created_by: toStringOrNull(row.created_by),
+    created_at: String(row.created_at ?? ""),
+    updated_at: toStringOrNull(row.updated_at),
+    accepted_at: toStringOrNull(row.accepted_at),
+    en_route_at: toStringOrNull(row.en_route_at),
+    on_site_at: toStringOrNull(row.on_site_at),
+    done_at: toStringOrNull(row.done_at),
+    cancelled_at: toStringOrNull(row.cancelled_at),
+  };
+}
+
+export function normalizeRosterRow(row: RawRow): RosterShift {
+  return {
+    id: Number(row.id),
+    username: String(row.username ?? ""),
+    shift_start: String(row.shift_start ?? ""),
+    shift_end: String(row.shift_end ?? ""),
+    notes: toStringOrNull(row.notes),
+    first_on_shift_at: null,
+    last_on_shift_at: null,
+  };
+}
+
+/**
+ * Keep only the latest row per username. Rows must be sorted newest first.
+ */
+export function latestRowPerUsername(rows: NfoStatusRow[]): NfoStatusRow[] {
+  const latestByUser = new Map<string, NfoStatusRow>();
+  for (const row of rows) {
+    if (!row.username) continue;
+    if (!latestByUser.has(row.username)) {
+      latestByUser.set(row.username, row);
+    }
+  }
+  return Array.from(latestByUser.values());
+}
+
+// ============================================================================
+// Supabase reads
+// ============================================================================
+
+type PageResult = { data: unknown[] | null; error: { code?: string; message: string } | null };
+
+/**
+ * Read every page of a query. `queryPage` receives the inclusive row range.
+ * Stops at `maxRows` when given.
+ */
+export async function fetchAllPages(
+  queryPage: (start: number, end: number) => PromiseLike<PageResult>,
+  maxRows = Infinity
+): Promise<RawRow[]> {
+  const rows: RawRow[] = [];
+  let pageNumber = 0;
+
+  while (rows.length < maxRows) {
+    const start = pageNumber * PAGE_SIZE;
+    const end = start + PAGE_SIZE - 1;
+
+    const { data, error } = await queryPage(start, end);
+    if (error) throw error;
+    if (!data || data.length === 0) break;
+
+    rows.push(...(data as RawRow[]));
+    if (data.length < PAGE_SIZE) break;
+    pageNumber++;
+  }
+
+  return rows.slice(0, maxRows);
+}
+
+export async function loadSites(client: SupabaseClient): Promise<SiteRecord[]> {
+  const queryWith = (columns: string) =>
+    fetchAllPages((start, end) => client.from("Site_Coordinates").select(columns).range(start, end));
+
+  // geofence_radius_m is optional - dropped if this Site_Coordinates table doesn't have it
+  try {
+    const rows = await queryWith(`${SITE_COLUMNS}, geofence_radius_m`);
+    return rows.map(normalizeSiteRow);
+  } catch (error) {
+    // 42703 = undefined column
+    if ((error as { code?: string })?.code !== "42703") throw error;
+    console.warn("dataApi.ts Site_Coordinates has no geofence_radius_m column - using default geofence radius");
+    const rows = await queryWith(SITE_COLUMNS);
+    return rows.map(normalizeSiteRow);
+  }
+}
+
+/**
+ * Write sites as one upsert per batch of rows, keyed on site_id - an existing
+ * row is updated in place, nothing is deleted first, so a failing batch leaves
+ * the stored rows as they were. Repeated site_ids in `sites` collapse to the
+ * last one.
+ *
+ * Needs a unique site_id. One-off migration that merges existing duplicates
+ * (keeps the newest row per site_id) and adds the constraint (Supabase SQL):
+ *   delete from "Site_Coordinates" a using "Site_Coordinates" b
+ *     where a.site_id = b.site_id and a.ctid < b.ctid;
+ *   alter table "Site_Coordinates" add constraint site_coordinates_site_id_key unique (site_id);
+ */
+export async function replaceSites(client: SupabaseClient, sites: SiteRecord[]): Promise<void> {
+  const bySiteId = new Map<string, SiteRecord>();
+  for (const site of sites) bySiteId.set(site.site_id, site);
+
+  const rows = Array.from(bySiteId.values(), (site) => {
+    const row: RawRow = {
+      site_id: site.site_id,
+      site_name: site.name ?? null,
+      latitude: site.latitude,
+      longitude: site.longitude,
+      area: site.area ?? null,
+    };
+    // Optional column - only sent when set, so tables without it still accept the upsert
+    if (site.geofence_radius_m != null) row.geofence_radius_m = site.geofence_radius_m;
+    return row;
+  });
+  for (let i = 0; i < rows.length; i += PAGE_SIZE) {
+    const { error } = await client
+      .from("Site_Coordinates")
+      .upsert(rows.slice(i, i + PAGE_SIZE), { onConflict: "site_id" });
+    if (error) throw error;
+  }
+}
+
+/**
+ * Set (or clear with null) the geofence radius of every row with this site_id.
+ */
+export async function setSiteGeofenceRadius(
+  client: SupabaseClient,
+  siteId: string,
+  radiusM: number | null
+): Promise<void> {
+  const { error } = await client.from("Site_Coordinates").update({ geofence_radius_m: radiusM }).eq("site_id", siteId);
+  if (error?.code === "42703") {
+    throw new Error("Site_Coordinates has no geofence_radius_m column - add it to set geofence radii");
+  }
+  if (error) throw error;
+}
+
+export async function deleteSite(client: SupabaseClient, siteId: string): Promise<void> {
+  const { error } = await client.from("Site_Coordinates").delete().eq("site_id", siteId);
+  if (error) throw error;
+}
+
+export async function loadWarehouses(client: SupabaseClient): Promise<WarehouseRecord[]> {
+  const queryWith = (columns: string) =>
+    fetchAllPages((start, end) => client.from("warehouses").select(columns).range(start, end));
+
+  // opening_hours / areas are optional - dropped if this warehouses table doesn't have them
+  try {
+    const rows = await queryWith(`${WAREHOUSE_COLUMNS}, ${WAREHOUSE_OPTIONAL_COLUMNS}`);
+    return rows.map(normalizeWarehouseRow);
+  } catch (error) {
+    if ((error as { code?: string })?.code !== "42703") throw error;
+    console.warn("dataApi.ts warehouses has no opening_hours/areas columns - treating every warehouse as always open");
+    const rows = await queryWith(WAREHOUSE_COLUMNS);
+    return rows.map(normalizeWarehouseRow);
+  }
+}
+
+/**
+ * Insert (no id) or update a warehouse from the Warehouses view and return the
+ * stored row. opening_hours / areas are always written, so editing needs the
+ * columns from warehouses.ts.
+ */
+export async function saveWarehouse(
+  client: SupabaseClient,
+  warehouse: Omit<WarehouseRecord, "id"> & { id?: number | null }
+): Promise<WarehouseRecord> {
+  const row: RawRow = {
+    name: warehouse.name,
+    region: warehouse.region,
+    latitude: warehouse.latitude,
+    longitude: warehouse.longitude,
+    is_active: warehouse.is_active,
+    opening_hours: warehouse.opening_hours ?? null,
+    areas: warehouse.areas && warehouse.areas.length > 0 ? warehouse.areas : null,
+  };
+  const columns = `${WAREHOUSE_COLUMNS}, ${WAREHOUSE_OPTIONAL_COLUMNS}`;
+
+  const { data, error } =
+    warehouse.id != null
+      ? await client.from("warehouses").update(row).eq("id", warehouse.id).select(columns).single()
+      : await client.from("warehouses").insert(row).select(columns).single();
+  if (error) throw error;
+  return normalizeWarehouseRow(data as RawRow);
+}
+
+/**
+ * Latest nfo_status row per username, however long ago it was sent. nfo_status
+ * keeps heartbeat history, so this reads the nfo_status_latest view - one row per
+ * username, security_invoker so nfo_status RLS still applies (Supabase SQL):
+ *   create view nfo_status_latest with (security_invoker = true) as
+ *     select distinct on (username) * from nfo_status
+ *     order by username, last_active_at desc nulls last;
+ */
+export async function loadLatestNfoStatus(client: SupabaseClient): Promise<NfoStatusRow[]> {
+  const queryWith = (columns: string) =>
+    fetchAllPages((start, end) =>
+      client
+        .from("nfo_status_latest")
+        .select(columns)
+        .order("last_active_at", { ascending: false })
+        .order("username", { ascending: true })
+        .range(start, end)
+    );
+
+  // warehouse_id is optional - older nfo_status tables only have warehouse_name
+  let rows: RawRow[];
+  try {
+    rows = await queryWith(`${NFO_STATUS_COLUMNS}, warehouse_id`);
+  } catch (error) {
+    if ((error as { code?: string })?.code !== "42703") throw error;
+    console.warn("dataApi.ts nfo_status has no warehouse_id column - linking warehouses by name");
+    rows = await queryWith(NFO_STATUS_COLUMNS);
+  }
+
+  return latestRowPerUsername(rows.map(normalizeNfoStatusRow));
+}
+
+/**
+ * Every heartbeat between `from` and `to` (ISO), oldest first, capped at
+ * MAX_REPORT_ROWS - `truncated` tells the report it is missing the tail.
+ */
+export async function loadNfoStatusHistory(
+  client: SupabaseClient,
+  from: string,
+  to: string
+): Promise<{ rows: NfoStatusRow[]; truncated: boolean }> {
+  const rows = await fetchAllPages(
+    (start, end) =>
+      client
+        .from("nfo_status")
+        .select(NFO_STATUS_COLUMNS)
+        .gte("last_active_at", from)
+        .lt("last_active_at", to)
+        .order("last_active_at", { ascending: true })
+        .range(start, end),
+    MAX_REPORT_ROWS
+  );
+
+  const truncated = rows.length >= MAX_REPORT_ROWS;
+  if (truncated) {
+    console.warn(`dataApi.ts nfo_status history read capped at ${MAX_REPORT_ROWS} rows`);
+  }
+
+  return { rows: rows.map(normalizeNfoStatusRow), truncated };
+}
+
+// ============================================================================
+// Assignments
+// ============================================================================
+
+/**
+ * Open assignments plus everything created in the last ASSIGNMENT_HISTORY_DAYS,
+ * newest first.
+ */
+export async function loadAssignments(client: SupabaseClient): Promise<NfoAssignment[]> {
+  const since = new Date(Date.now() - ASSIGNMENT_HISTORY_DAYS * 24 * 60 * 60 * 1000).toISOString();
+  const rows = await fetchAllPages((start, end) =>
+    client
+      .from("nfo_assignments")
+      .select(ASSIGNMENT_COLUMNS)
+      .or(`created_at.gte.${since},status.in.(assigned,accepted,en_route,on_site)`)
+      .order("created_at", { ascending: false })
+      .range(start, end)
+  );
+  return rows.map(normalizeAssignmentRow);
+}
+
+export async function insertAssignment(client: SupabaseClient, input: NewAssignmentInput): Promise<NfoAssignment> {
+  const { data, error } = await client
+    .from("nfo_assignments")
+    .insert({ ...input, status: "assigned" })
+    .select(ASSIGNMENT_COLUMNS)
+    .single();
+  if (error) throw error;
+  return normalizeAssignmentRow(data as RawRow);
+}
+
+/**
+ * Move an assignment to `status`, stamping that status's timestamp column with
+ * `at` (the heartbeat time that caused it) - or now when `at` is missing,
+ * invalid or in the future.
+ * Throws when the move goes backwards or `at` is before the job's previous step
+ * (assignmentTransitionError). The update only applies if nobody changed the job
+ * meanwhile (several open consoles advance the same job) - returns null in that
+ * case, or when the job's status isn't `expectedStatus`.
+ */
+export async function updateAssignmentStatus(
+  client: SupabaseClient,
+  id: number,
+  status: AssignmentStatus,
+  expectedStatus?: AssignmentStatus,
+  at?: string
+): Promise<NfoAssignment | null> {
+  const nowMs = Date.now();
+  const now = new Date(nowMs).toISOString();
+  const atMs = at ? new Date(at).getTime() : NaN;
+  const transitionMs = Number.isFinite(atMs) && atMs <= nowMs ? atMs : nowMs;
+
+  const { data: currentRow, error: currentError } = await client
+    .from("nfo_assignments")
+    .select(ASSIGNMENT_COLUMNS)
+    .eq("id", id)
+    .maybeSingle();
+  if (currentError) throw currentError;
+  if (!currentRow) throw new Error(`Assignment ${id} not found`);
+  const current = normalizeAssignmentRow(currentRow as RawRow);
+  if (expectedStatus && current.status !== expectedStatus) return null;
+
+  const transitionError = assignmentTransitionError(current, status, transitionMs);
+  if (transitionError) throw new Error(transitionError);
+
+  const patch: RawRow = { status, updated_at: now };
+  const timestampColumn = ASSIGNMENT_STATUS_TIMESTAMP[status];
+  if (timestampColumn) patch[timestampColumn] = new Date(transitionMs).toISOString();
+
+  const { data, error } = await client
+    .from("nfo_assignments")
+    .update(patch)
+    .eq("id", id)
+    .eq("status", current.status)
+    .select(ASSIGNMENT_COLUMNS)
+    .maybeSingle();
+  if (error) throw error;
+  return data ? normalizeAssignmentRow(data as RawRow) : null;
+}
+
+// ============================================================================
+// Roster
+// ============================================================================
+
+/**
+ * On-shift heartbeat times (ms, ascending) per username between `from` and `to`,
+ * read in one ranged query for the whole roster window.
+ */
+async function loadOnShiftHeartbeats(
+  client: SupabaseClient,
+  usernames: string[],
+  from: string,
+  to: string
+): Promise<Map<string, number[]>> {
+  const rows = await fetchAllPages(
+    (start, end) =>
+      client
+        .from("nfo_status")
+        .select("username, last_active_at")
+        .in("username", usernames)
+        .eq("on_shift", true)
+        .gte("last_active_at", from)
+        .lte("last_active_at", to)
+        .order("last_active_at", { ascending: true })
+        .range(start, end),
+    MAX_REPORT_ROWS
+  );
+
+  const byUsername = new Map<string, number[]>();
+  for (const row of rows) {
+    const username = toStringOrNull(row.username);
+    const at = new Date(toStringOrNull(row.last_active_at) ?? "").getTime();
+    if (!username || !Number.isFinite(at)) continue;
+    const times = byUsername.get(username) ?? [];
+    times.push(at);
+    byUsername.set(username, times);
+  }
+  return byUsername;
+}
+
+// Index of the first time >= `ms` in an ascending list
+function lowerBound(times: number[], ms: number): number {
+  let lo = 0;
+  let hi = times.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (times[mid] < ms) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+}
+
+/**
+ * First and last on-shift heartbeat around a shift: from ROSTER_ACTUAL_WINDOW_MIN
+ * before the start (early starters) to the same after the end (overtime).
+ */
+function withShiftActuals(shift: RosterShift, heartbeats: number[] | undefined, now: number): RosterShift {
+  const start = new Date(shift.shift_start).getTime();
+  const end = new Date(shift.shift_end).getTime();
+  if (start > now) return shift;
+
+  const times = heartbeats ?? [];
+  const windowMs = ROSTER_ACTUAL_WINDOW_MIN * 60_000;
+  const firstIndex = lowerBound(times, start - windowMs);
+  const lastIndex = lowerBound(times, end + windowMs + 1) - 1;
+  const first = firstIndex < times.length && times[firstIndex] <= end ? times[firstIndex] : null;
+  const last = lastIndex >= 0 && times[lastIndex] >= start ? times[lastIndex] : null;
+  return {
+    ...shift,
+    first_on_shift_at: first != null ? new Date(first).toISOString() : null,
+    last_on_shift_at: last != null ? new Date(last).toISOString() : null,
+  };
+}
+
+/**
+ * Shifts overlapping [from, to), ordered by start, with their actual on-shift
+ * heartbeats filled in for shifts that have started.
+ */
+export async function loadRoster(client: SupabaseClient, from: string, to: string): Promise<RosterShift[]> {
+  const rows = await fetchAllPages((start, end) =>
+    client
+      .from("nfo_roster")
+      .select(ROSTER_COLUMNS)
+      .lt("shift_start", to)
+      .gt("shift_end", from)
+      .order("shift_start", { ascending: true })
+      .range(start, end)
+  );
+  const shifts = rows.map(normalizeRosterRow);
+
+  const now = Date.now();
+  const started = shifts.filter((shift) => new Date(shift.shift_start).getTime() <= now);
+  if (started.length === 0) return shifts;
+
+  // One heartbeat read covering every started shift plus its early/overtime window
+  const windowMs = ROSTER_ACTUAL_WINDOW_MIN * 60_000;
+  const earliest = Math.min(...started.map((shift) => new Date(shift.shift_start).getTime())) - windowMs;
+  const latest = Math.min(now, Math.max(...started.map((shift) => new Date(shift.shift_end).getTime())) + windowMs);
+  const heartbeats = await loadOnShiftHeartbeats(
+    client,
+    Array.from(new Set(started.map((shift) => shift.username))),
+    new Date(earliest).toISOString(),
+    new Date(latest).toISOString()
+  );
+
+  return shifts.map((shift) => withShiftActuals(shift, heartbeats.get(shift.username), now));
+}
+
+/**
+ * Insert or replace shifts (same username + start → updated).
+ */
+export async function upsertRosterShifts(client: SupabaseClient, shifts: NewRosterShift[]): Promise<RosterShift[]> {
+  const { data, error } = await client
+    .from("nfo_roster")
+    .upsert(shifts, { onConflict: "username,shift_start" })
+    .select(ROSTER_COLUMNS);
+  if (error) throw error;
+  return ((data ?? []) as RawRow[]).map(normalizeRosterRow);
+}
+
+export async function deleteRosterShift(client: SupabaseClient, id: number): Promise<void> {
+  const { error } = await client.from("nfo_roster").delete().eq("id", id);
+  if (error) throw error;
+}
+
+// ============================================================================
+// Alerts
+// ============================================================================
+
+const alertRuleToRow = (rule: AlertRule): RawRow => ({
+  id: rule.id,
+  kind: rule.kind,
+  area: rule.area,
+  enabled: rule.enabled,
+  severity: rule.severity,
+  threshold_minutes: rule.thresholdMinutes,
+  shift_start: rule.shiftStart,
+  shift_end: rule.shiftEnd,
+});
+
+const alertAckFromRow = (row: RawRow): AlertAck => ({
+  acknowledgedAt: toStringOrNull(row.acknowledged_at),
+  snoozedUntil: toStringOrNull(row.snoozed_until),
+});
+
+/**
+ * Shared alert rules - DEFAULT_ALERT_RULES while alert_rules is empty.
+ */
+export async function loadAlertRules(client: SupabaseClient): Promise<AlertRule[]> {
+  const rows = await fetchAllPages((start, end) =>
+    client.from("alert_rules").select(ALERT_RULE_COLUMNS).order("id").range(start, end)
+  );
+  const rules = normalizeAlertRules(
+    rows.map((row) => ({
+      id: row.id,
+      kind: row.kind,
+      area: row.area,
+      enabled: row.enabled,
+      severity: row.severity,
+      thresholdMinutes: toNumberOrNull(row.threshold_minutes),
+      shiftStart: row.shift_start,
+      shiftEnd: row.shift_end,
+    }))
+  );
+  return rules.length > 0 ? rules : DEFAULT_ALERT_RULES;
+}
+
+/**
+ * Make alert_rules exactly `rules` (upsert on id, then delete the rest).
+ * An empty list clears the table, which brings back the defaults.
+ */
+export async function replaceAlertRules(client: SupabaseClient, rules: AlertRule[]): Promise<AlertRule[]> {
+  if (rules.length > 0) {
+    const { error } = await client.from("alert_rules").upsert(rules.map(alertRuleToRow), { onConflict: "id" });
+    if (error) throw error;
+  }
+
+  const keep = rules.map((rule) => `"${rule.id.replace(/"/g, '\\"')}"`).join(",");
+  const { error } = keep
+    ? await client.from("alert_rules").delete().not("id", "in", `(${keep})`)
+    : await client.from("alert_rules").delete().neq("id", "");
+  if (error) throw error;
+
+  return loadAlertRules(client);
+}
+
+export async function loadAlertAcks(client: SupabaseClient): Promise<AlertAckState> {
+  const rows = await fetchAllPages((start, end) =>
+    client.from("alert_acks").select(ALERT_ACK_COLUMNS).order("alert_id").range(start, end)
+  );
+  const acks: AlertAckState = {};
+  for (const row of rows) {
+    const alertId = toStringOrNull(row.alert_id);
+    if (alertId) acks[alertId] = alertAckFromRow(row);
+  }
+  return acks;
+}
+
+export async function loadAlertAck(client: SupabaseClient, alertId: string): Promise<AlertAck | undefined> {
+  const { data, error } = await client
+    .from("alert_acks")
+    .select(ALERT_ACK_COLUMNS)
+    .eq("alert_id", alertId)
+    .maybeSingle();
+  if (error) throw error;
+  return data ? alertAckFromRow(data as RawRow) : undefined;
+}
+
+/**
+ * Store an alert's ack/snooze state; null removes it (reopened).
+ */
+export async function saveAlertAck(client: SupabaseClient, alertId: string, ack: AlertAck | null): Promise<void> {
+  const { error } = ack
+    ? await client.from("alert_acks").upsert(
+        { alert_id: alertId, acknowledged_at: ack.acknowledgedAt, snoozed_until: ack.snoozedUntil },
+        { onConflict: "alert_id" }
+      )
+    : await client.from("alert_acks").delete().eq("alert_id", alertId);
+  if (error) throw error;
+}
+
+export async function deleteAlertAcks(client: SupabaseClient, alertIds: string[]): Promise<void> {
+  const { error } = await client.from("alert_acks").delete().in("alert_id", alertIds);
+  if (error) throw error;
+}
+
+// ============================================================================
+// Request / response helpers
+// ============================================================================
+
+/**
+ * The caller's Supabase access token from `Authorization: Bearer <token>`.
+ */
+export function getAccessToken(request: NextRequest): string | null {
+  const header = request.headers.get("authorization") ?? "";
+  const match = /^Bearer\s+(.+)$/i.exec(header);
+  return match ? match[1].trim() : null;
+}
+
+/**
+ * Console profile (role + regions) of the caller, or null when the token is
+ * invalid or expired. Roles come from app_metadata, which users cannot edit.
+ */
+export async function loadManagerProfile(client: SupabaseClient, accessToken: string): Promise<ManagerProfile | null> {
+  const { data, error } = await client.auth.getUser(accessToken);
+  if (error || !data.user) return null;
+  return getManagerProfile(data.user);
+}
+
+const computeEtag = (json: string) =>
+  `W/"${createHash("sha1").update(json).digest("base64url")}"`;
+
+const etagMatches = (ifNoneMatch: string | null, etag: string) =>
+  !!ifNoneMatch && ifNoneMatch.split(",").some((tag) => tag.trim() === etag || tag.trim() === "*");
+
+/**
+ * JSON response with an ETag. Returns an empty 304 when the client already has
+ * this exact payload (If-None-Match). `private, no-cache` keeps shared caches out
+ * (responses depend on the caller's RLS) and makes browsers revalidate each time.
+ */
+export function jsonWithEtag(request: NextRequest, body: unknown): NextResponse {
+  const json = JSON.stringify(body);
+  const etag = computeEtag(json);
+  const headers = {
+    ETag: etag,
+    "Cache-Control": "private, no-cache",
+  };
+
+  if (etagMatches(request.headers.get("if-none-match"), etag)) {
+    return new NextResponse(null, { status: 304, headers });
+  }
+
+  return new NextResponse(json, {
+    status: 200,
+    headers: { ...headers, "Content-Type": "application/json" },
+  });
+}
@@ -0,0 +1,267 @@
+/**
+ * Browser side of the dashboard data API (/api/nfos, /api/sites, /api/warehouses,
+ * /api/assignments, /api/roster, /api/reports, /api/alerts).
+ *
+ * Sends the Supabase access token so the server queries under the manager's RLS,
+ * and remembers the last ETag + payload per path. When the server answers 304 the
+ * cached payload is returned with `notModified: true`, so callers can skip
+ * re-rendering (e.g. the 30-second nfo_status poll when nothing moved).
+ */
+
+import { supabase } from "../../lib/supabaseClient";
+import type { NfoStatusRow, SiteRecord } from "./nfoHelpers";
+import type { WarehouseRecord } from "../components/RoutePlanner";
+import type { AssignmentStatus, NewAssignmentInput, NfoAssignment } from "./assignments";
+import type { NewRosterShift, RosterShift } from "./roster";
+import type { NfoDayMetrics } from "./reports";
+import type { AlertAck, AlertAckAction, AlertAckState, AlertRule } from "./alertRules";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type DataApiPath =
+  | "/api/nfos"
+  | "/api/sites"
+  | "/api/warehouses"
+  | "/api/assignments"
+  | "/api/roster"
+  | "/api/reports"
+  | "/api/alerts";
+
+export type DataApiResult<T> = {
+  data: T;
+  notModified: boolean;
+};
+
+type DataApiBody = {
+  ok: boolean;
+  error?: string;
+  nfos?: NfoStatusRow[];
+  sites?: SiteRecord[];
+  warehouses?: WarehouseRecord[];
+  warehouse?: WarehouseRecord;
+  assignments?: NfoAssignment[];
+  assignment?: NfoAssignment | null;
+  shifts?: RosterShift[];
+  days?: NfoDayMetrics[];
+  truncated?: boolean;
+  rules?: AlertRule[];
+  acks?: AlertAckState;
+  ack?: AlertAck | null;
+};
+
+// path (+ query) → last successful response (shared by every component in this tab)
+const etagCache = new Map<string, { etag: string; body: DataApiBody }>();
+
+// ============================================================================
+// Fetching
+// ============================================================================
+
+async function getAccessToken(): Promise<string> {
+  const { data: sessionData } = await supabase.auth.getSession();
+  const accessToken = sessionData.session?.access_token;
+  if (!accessToken) throw new Error("Not signed in");
+  return accessToken;
+}
+
+async function fetchDataApi(
+  path: DataApiPath,
+  params?: Record<string, string>
+): Promise<{ body: DataApiBody; notModified: boolean }> {
+  const accessToken = await getAccessToken();
+
+  const url = params ? `${path}?${new URLSearchParams(params)}` : path;
+  const cached = etagCache.get(url);
+  const headers: Record<string, string> = { Authorization: `Bearer ${accessToken}` };
+  if (cached) headers["If-None-Match"] = cached.etag;
+
+  // no-store: the conditional request is handled here, not by the HTTP cache
+  const res = await fetch(url, { headers, cache: "no-store" });
+
+  if (res.status === 304 && cached) {
+    return { body: cached.body, notModified: true };
+  }
+
+  if (!res.ok) {
+    throw new Error(`${path} request failed: ${res.status} ${res.statusText}`);
+  }
+
+  const body = (await res.json()) as DataApiBody;
+  if (!body.ok) {
+    throw new Error(body.error ?? `${path} request failed`);
+  }
+
+  const etag = res.headers.get("etag");
+  if (etag) {
+    etagCache.set(url, { etag, body });
+  } else {
+    etagCache.delete(url);
+  }
+
+  return { body, notModified: false };
+}
+
+export async function fetchLatestNfos(): Promise<DataApiResult<NfoStatusRow[]>> {
+  const { body, notModified } = await fetchDataApi("/api/nfos");
+  return { data: body.nfos ?? [], notModified };
+}
+
+export async function fetchSites(): Promise<DataApiResult<SiteRecord[]>> {
+  const { body, notModified } = await fetchDataApi("/api/sites");
+  return { data: body.sites ?? [], notModified };
+}
+
+export async function fetchWarehouses(): Promise<DataApiResult<WarehouseRecord[]>> {
+  const { body, notModified } = await fetchDataApi("/api/warehouses");
+  return { data: body.warehouses ?? [], notModified };
+}
+
+export async function fetchAssignments(): Promise<DataApiResult<NfoAssignment[]>> {
+  const { body, notModified } = await fetchDataApi("/api/assignments");
+  return { data: body.assignments ?? [], notModified };
+}
+
+/**
+ * Shifts overlapping [from, to) (ISO), with their actual on-shift heartbeats.
+ */
+export async function fetchRoster(from: string, to: string): Promise<DataApiResult<RosterShift[]>> {
+  const { body, notModified } = await fetchDataApi("/api/roster", { from, to });
+  return { data: body.shifts ?? [], notModified };
+}
+
+/**
+ * Per-NFO, per-local-day productivity metrics for [from, to) (ISO).
+ */
+export async function fetchReport(
+  from: string,
+  to: string
+): Promise<DataApiResult<{ days: NfoDayMetrics[]; truncated: boolean }>> {
+  const tzOffset = String(new Date(from).getTimezoneOffset());
+  const { body, notModified } = await fetchDataApi("/api/reports", { from, to, tzOffset });
+  return { data: { days: body.days ?? [], truncated: body.truncated === true }, notModified };
+}
+
+/**
+ * Shared alert rules and acknowledge/snooze state.
+ */
+export async function fetchAlertSettings(): Promise<DataApiResult<{ rules: AlertRule[]; acks: AlertAckState }>> {
+  const { body, notModified } = await fetchDataApi("/api/alerts");
+  return { data: { rules: body.rules ?? [], acks: body.acks ?? {} }, notModified };
+}
+
+// ============================================================================
+// Writing
+// ============================================================================
+
+async function sendDataApi(
+  path: DataApiPath,
+  method: "POST" | "PUT" | "PATCH" | "DELETE",
+  payload: unknown
+): Promise<DataApiBody> {
+  const accessToken = await getAccessToken();
+
+  const res = await fetch(path, {
+    method,
+    headers: { Authorization: `Bearer ${accessToken}`, "Content-Type": "application/json" },
+    body: JSON.stringify(payload),
+  });
+  if (!res.ok) {
+    throw new Error(`${path} request failed: ${res.status} ${res.statusText}`);
+  }
+
+  const body = (await res.json()) as DataApiBody;
+  if (!body.ok) {
+    throw new Error(body.error ?? `${path} request failed`);
+  }
+
+  // The cached lists are stale now - next fetch gets a full response
+  for (const url of etagCache.keys()) {
+    if (url === path || url.startsWith(`${path}?`)) etagCache.delete(url);
+  }
+  return body;
+}
+
+export async function createAssignment(input: NewAssignmentInput): Promise<NfoAssignment> {
+  const body = await sendDataApi("/api/assignments", "POST", input);
+  if (!body.assignment) throw new Error("/api/assignments returned no assignment");
+  return body.assignment;
+}
+
+/**
+ * Move an assignment to `status`, stamped at `at` (heartbeat time, defaults to
+ * now on the server). Returns null when `expectedStatus` no longer matched on
+ * the server (another console already moved it).
+ */
+export async function updateAssignment(
+  id: number,
+  status: AssignmentStatus,
+  expectedStatus?: AssignmentStatus,
+  at?: string
+): Promise<NfoAssignment | null> {
+  const body = await sendDataApi("/api/assignments", "PATCH", { id, status, expectedStatus, at });
+  return body.assignment ?? null;
+}
+
+export async function saveRosterShifts(shifts: NewRosterShift[]): Promise<RosterShift[]> {
+  const body = await sendDataApi("/api/roster", "POST", { shifts });
+  return body.shifts ?? [];
+}
+
+export async function deleteRosterShift(id: number): Promise<void> {
+  await sendDataApi("/api/roster", "DELETE", { id });
+}
+
+/**
+ * Save sites, upserted on site_id (a repeated site_id keeps its last entry).
+ */
+export async function saveSites(sites: SiteRecord[]): Promise<void> {
+  await sendDataApi("/api/sites", "POST", { sites });
+}
+
+/**
+ * Set a site's geofence radius in meters (null = back to the default).
+ */
+export async function saveSiteGeofenceRadius(siteId: string, radiusM: number | null): Promise<void> {
+  await sendDataApi("/api/sites", "PATCH", { site_id: siteId, geofence_radius_m: radiusM });
+}
+
+export async function deleteSite(siteId: string): Promise<void> {
+  await sendDataApi("/api/sites", "DELETE", { site_id: siteId });
+}
+
+/**
+ * Create (no id) or update a warehouse; returns the stored row.
+ */
+export async function saveWarehouse(
+  warehouse: Omit<WarehouseRecord, "id"> & { id?: number | null }
+): Promise<WarehouseRecord> {
+  const body = await sendDataApi("/api/warehouses", "POST", { warehouse });
+  if (!body.warehouse) throw new Error("/api/warehouses returned no warehouse");
+  return body.warehouse;
+}
+
+/**
+ * Replace every alert rule; returns the stored rules.
+ */
+export async function saveAlertRules(rules: AlertRule[]): Promise<AlertRule[]> {
+  const body = await sendDataApi("/api/alerts", "PUT", { rules });
+  return body.rules ?? [];
+}
+
+/**
+ * Acknowledge, snooze (for `minutes`) or reopen an alert; returns the stored
+ * state (null after reopen).
+ */
+export async function updateAlertAck(
+  alertId: string,
+  action: AlertAckAction,
+  minutes?: number
+): Promise<AlertAck | null> {
+  const body = await sendDataApi("/api/alerts", "POST", { alert_id: alertId, action, minutes });
+  return body.ack ?? null;
+}
+
+export async function deleteAlertAcks(alertIds: string[]): Promise<void> {
+  await sendDataApi("/api/alerts", "DELETE", { alert_ids: alertIds });
+}
@@ -0,0 +1,313 @@
+/**
+ * Dispatch recommendations - rank free NFOs for a site by real driving ETA.
+ *
+ * The Live Map "closest NFOs" list is haversine-only. This module:
+ * 1. Filters candidates with computeAssignmentState (free + on-shift) and ping status (not "Not Active")
+ * 2. Pre-selects the nearest candidates by air distance to keep routing calls bounded
+ * 3. Computes driving routes through the shared routing layer (ORS vs OSRM),
+ *    including the warehouse detour when the job needs a pickup: a warehouse chosen
+ *    for the job, or the open warehouse serving the site's area with the shortest
+ *    detour for each candidate (closed ones are skipped and noted)
+ * 4. Returns a shortlist ranked by ETA with human-readable explanations
+ */
+
+import {
+  type NfoStatusRow,
+  type SiteRecord,
+  hasValidLocation,
+  calculateDistanceKm,
+  computeAssignmentState,
+  computePingStatus,
+  ageMinutes,
+  STALE_MINUTES,
+} from "./nfoHelpers";
+import {
+  calculateBestRoute,
+  calculateRouteViaWarehouse,
+  type RouteResult,
+  type RouteRequestOptions,
+  ROUTE_SANITY_RATIO_THRESHOLD,
+} from "./routing";
+import type { WarehouseRecord } from "../components/RoutePlanner";
+import { closedPickupNote, isWarehouseOpen, warehousesForArea } from "./warehouses";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+// Pickup on the way to the site: none, the best warehouse serving the site's area, or a warehouse id
+export type DispatchPickup = "none" | "auto" | number;
+
+export type DispatchOptions = {
+  pickup?: DispatchPickup;  // warehouse detour for the job (default "none")
+  shortlistSize?: number;   // how many ranked candidates to return (default 5)
+  routeCandidates?: number; // how many air-nearest candidates to route (default 8)
+  concurrency?: number;     // parallel routing calls per batch (default 3)
+  staleMinutesForArea?: (area: string | null) => number; // Not Active threshold per home_location
+};
+
+export type DispatchCandidate<T extends NfoStatusRow = NfoStatusRow> = {
+  nfo: T;
+  rank: number;
+  airRank: number;                 // position when ranked by straight-line distance
+  airDistanceKm: number;           // direct NFO → site straight-line distance
+  etaMin: number | null;           // null when no driving route could be computed
+  distanceKm: number;              // driving distance (or air distance on fallback)
+  viaWarehouse: string | null;     // warehouse name if the route includes a pickup
+  viaWarehouseId: number | null;
+  closedWarehouse: string | null;  // pickup warehouse skipped because it is closed
+  route: RouteResult;
+  explanation: string[];
+};
+
+export type DispatchRecommendation<T extends NfoStatusRow = NfoStatusRow> = {
+  siteId: string;
+  candidates: DispatchCandidate<T>[];
+  eligibleCount: number;           // free, on-shift, active NFOs with GPS
+  excluded: { busyOrOffShift: number; notActive: number; noGps: number };
+};
+
+const DEFAULT_OPTIONS: Required<DispatchOptions> = {
+  pickup: "none",
+  shortlistSize: 5,
+  routeCandidates: 8,
+  concurrency: 3,
+  staleMinutesForArea: () => STALE_MINUTES,
+};
+
+// ============================================================================
+// Eligibility
+// ============================================================================
+
+/**
+ * Why an NFO can or cannot be dispatched right now.
+ * Eligible = free (no activity/site/warehouse), on shift, pinged within the stale window, has GPS.
+ */
+export function getDispatchEligibility(
+  nfo: NfoStatusRow,
+  now: number = Date.now(),
+  staleMinutes: number = STALE_MINUTES
+): { eligible: boolean; reason: "ok" | "busyOrOffShift" | "notActive" | "noGps" } {
+  const { isFree, isOnShift } = computeAssignmentState(nfo);
+  if (!isFree || !isOnShift) return { eligible: false, reason: "busyOrOffShift" };
+
+  const { isNotActive } = computePingStatus(nfo.last_active_at, now, staleMinutes);
+  if (isNotActive) return { eligible: false, reason: "notActive" };
+
+  if (!hasValidLocation({ lat: nfo.lat, lng: nfo.lng })) return { eligible: false, reason: "noGps" };
+
+  return { eligible: true, reason: "ok" };
+}
+
+// ============================================================================
+// Pickup
+// ============================================================================
+
+/**
+ * Warehouse a candidate picks up from on the way to the site, or null to route
+ * directly. A warehouse chosen for the job is used while open; "auto" takes the
+ * open warehouse serving the site's area with the shortest straight-line detour.
+ * `closedWarehouse` names the warehouse that would have been used but is closed.
+ */
+export function resolveDispatchPickup(
+  nfoPoint: { lat: number; lng: number },
+  site: SiteRecord,
+  warehouses: WarehouseRecord[],
+  pickup: DispatchPickup,
+  now: number = Date.now()
+): { warehouse: WarehouseRecord | null; closedWarehouse: string | null } {
+  const sitePoint = { lat: site.latitude!, lng: site.longitude! };
+  const located = (w: WarehouseRecord) => hasValidLocation({ lat: w.latitude, lng: w.longitude });
+
+  if (pickup === "none") return { warehouse: null, closedWarehouse: null };
+
+  if (typeof pickup === "number") {
+    const chosen = warehouses.find((w) => w.id === pickup);
+    if (!chosen || !located(chosen)) return { warehouse: null, closedWarehouse: null };
+    return isWarehouseOpen(chosen, now)
+      ? { warehouse: chosen, closedWarehouse: null }
+      : { warehouse: null, closedWarehouse: chosen.name };
+  }
+
+  const detourKm = (w: WarehouseRecord) => {
+    const whPoint = { lat: w.latitude!, lng: w.longitude! };
+    return calculateDistanceKm(nfoPoint, whPoint) + calculateDistanceKm(whPoint, sitePoint);
+  };
+  const shortestDetour = (list: WarehouseRecord[]) =>
+    list.reduce<WarehouseRecord | null>((best, w) => (!best || detourKm(w) < detourKm(best) ? w : best), null);
+
+  const serving = warehousesForArea(warehouses, site.area).filter(located);
+  const open = shortestDetour(serving.filter((w) => isWarehouseOpen(w, now)));
+  if (open) return { warehouse: open, closedWarehouse: null };
+  return { warehouse: null, closedWarehouse: shortestDetour(serving)?.name ?? null };
+}
+
+// ============================================================================
+// Ranking
+// ============================================================================
+
+/**
+ * Rank free NFOs for a site by driving ETA.
+ *
+ * Routes are computed in small parallel batches (`concurrency`) so we don't flood
+ * the ORS backend or the public OSRM server. Candidates whose routing fell back to
+ * straight-line distance are ranked after every real route.
+ */
+export async function recommendNfosForSite<T extends NfoStatusRow>(
+  site: SiteRecord,
+  nfos: T[],
+  warehouses: WarehouseRecord[],
+  options: DispatchOptions = {},
+  requestOptions: RouteRequestOptions = {}
+): Promise<DispatchRecommendation<T>> {
+  const opts = { ...DEFAULT_OPTIONS, ...options };
+
+  if (!hasValidLocation({ lat: site.latitude, lng: site.longitude })) {
+    throw new Error(`Site ${site.site_id} has no valid coordinates`);
+  }
+  const sitePoint = { lat: site.latitude!, lng: site.longitude! };
+
+  // Step 1: Filter eligible candidates
+  const now = Date.now();
+  const excluded = { busyOrOffShift: 0, notActive: 0, noGps: 0 };
+  const eligible: T[] = [];
+
+  for (const nfo of nfos) {
+    const { eligible: ok, reason } = getDispatchEligibility(
+      nfo,
+      now,
+      opts.staleMinutesForArea(nfo.home_location)
+    );
+    if (ok) {
+      eligible.push(nfo);
+    } else if (reason !== "ok") {
+      excluded[reason] += 1;
+    }
+  }
+
+  // Step 2: Pre-select by air distance
+  const byAir = eligible
+    .map((nfo) => ({
+      nfo,
+      airDistanceKm: calculateDistanceKm({ lat: nfo.lat, lng: nfo.lng }, sitePoint),
+    }))
+    .sort((a, b) => a.airDistanceKm - b.airDistanceKm);
+
+  const toRoute = byAir.slice(0, opts.routeCandidates);
+
+  console.log("dispatch.ts recommendNfosForSite", {
+    siteId: site.site_id,
+    totalNfos: nfos.length,
+    eligible: eligible.length,
+    routing: toRoute.length,
+    excluded,
+  });
+
+  // Step 3: Compute driving routes in batches
+  const routed: Omit<DispatchCandidate<T>, "rank" | "explanation">[] = [];
+
+  for (let i = 0; i < toRoute.length; i += opts.concurrency) {
+    const batch = toRoute.slice(i, i + opts.concurrency);
+    const results = await Promise.all(
+      batch.map(async ({ nfo, airDistanceKm }, batchIdx) => {
+        // Closed warehouses are skipped - the NFO is routed straight to the site
+        const { warehouse: matchingWarehouse, closedWarehouse } = resolveDispatchPickup(
+          { lat: nfo.lat!, lng: nfo.lng! },
+          site,
+          warehouses,
+          opts.pickup,
+          now
+        );
+
+        const route = matchingWarehouse
+          ? await calculateRouteViaWarehouse(
+              nfo.lat!, nfo.lng!,
+              matchingWarehouse.latitude!, matchingWarehouse.longitude!,
+              sitePoint.lat, sitePoint.lng,
+              requestOptions
+            )
+          : await calculateBestRoute(nfo.lat!, nfo.lng!, sitePoint.lat, sitePoint.lng, requestOptions);
+
+        return {
+          nfo,
+          airRank: i + batchIdx + 1,
+          airDistanceKm,
+          etaMin: route.isFallback ? null : route.durationMin,
+          distanceKm: route.distanceKm,
+          viaWarehouse: matchingWarehouse ? matchingWarehouse.name : null,
+          viaWarehouseId: matchingWarehouse ? matchingWarehouse.id : null,
+          closedWarehouse,
+          route,
+        };
+      })
+    );
+    routed.push(...results);
+  }
+
+  // Step 4: Rank - real routes by ETA first, then fallbacks by air distance
+  routed.sort((a, b) => {
+    if (a.etaMin != null && b.etaMin != null) return a.etaMin - b.etaMin;
+    if (a.etaMin != null) return -1;
+    if (b.etaMin != null) return 1;
+    return a.airDistanceKm - b.airDistanceKm;
+  });
+
+  const candidates: DispatchCandidate<T>[] = routed
+    .slice(0, opts.shortlistSize)
+    .map((c, idx) => ({
+      ...c,
+      rank: idx + 1,
+      explanation: explainCandidate(c, idx + 1, now),
+    }));
+
+  return {
+    siteId: site.site_id,
+    candidates,
+    eligibleCount: eligible.length,
+    excluded,
+  };
+}
+
+/**
+ * Build the explanation lines shown under each shortlist entry.
+ */
+function explainCandidate(
+  c: Omit<DispatchCandidate, "rank" | "explanation">,
+  rank: number,
+  now: number
+): string[] {
+  const lines: string[] = [];
+
+  const age = ageMinutes(c.nfo.last_active_at, now);
+  lines.push(
+    age != null
+      ? `Free and on shift, last ping ${Math.round(age)} min ago`
+      : "Free and on shift"
+  );
+
+  if (c.etaMin != null) {
+    const engine = c.route.engine.toUpperCase();
+    lines.push(`ETA ${Math.round(c.etaMin)} min · ${c.distanceKm.toFixed(1)} km by road (${engine})`);
+  } else {
+    lines.push(`No driving route found · ${c.airDistanceKm.toFixed(1)} km straight-line`);
+  }
+
+  if (c.viaWarehouse) {
+    lines.push(`Includes pickup at ${c.viaWarehouse}`);
+  }
+  if (c.closedWarehouse) {
+    lines.push(closedPickupNote(c.closedWarehouse));
+  }
+
+  // Road/air ratio tells the dispatcher when the crow-flies distance is misleading
+  const ratio = c.distanceKm / Math.max(c.airDistanceKm, 0.001);
+  if (c.etaMin != null && ratio > ROUTE_SANITY_RATIO_THRESHOLD) {
+    lines.push(`Road distance is ${ratio.toFixed(1)}× the straight-line distance`);
+  }
+
+  if (c.airRank !== rank) {
+    lines.push(`#${c.airRank} by straight-line distance`);
+  }
+
+  return lines;
+}
@@ -0,0 +1,167 @@
+/**
+ * Site geofences - arrival/departure detection and location mismatch checks.
+ *
+ * Every site gets a circular geofence:
+ * - Site_Coordinates.geofence_radius_m when the column is populated (set from
+ *   the Sites view or the dashboard's geofence panel via /api/sites), else
+ * - DEFAULT_GEOFENCE_RADIUS_M
+ *
+ * Successive heartbeats for the same NFO are compared to derive arrival and
+ * departure events, and the current position is checked against the NFO's
+ * assigned site_id to flag "busy but far away" / "inside a different site".
+ */
+
+import {
+  type LatLng,
+  type SiteRecord,
+  hasValidLocation,
+  calculateDistanceKm,
+  formatDistanceLabel,
+} from "./nfoHelpers";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type GeofenceEventKind = "arrival" | "departure";
+
+export type GeofenceEvent = {
+  username: string;
+  name: string | null;
+  siteId: string;
+  kind: GeofenceEventKind;
+  at: string; // last_active_at of the heartbeat that crossed the boundary
+};
+
+export type LocationMismatchKind = "busyFarFromSite" | "insideOtherSite";
+
+export type LocationMismatch = {
+  kind: LocationMismatchKind;
+  message: string;
+};
+
+export const DEFAULT_GEOFENCE_RADIUS_M = 500;
+
+// Sanity bounds for radii entered on the dashboard (also enforced by /api/sites)
+export const MIN_GEOFENCE_RADIUS_M = 50;
+export const MAX_GEOFENCE_RADIUS_M = 20_000;
+
+// How many recent arrival/departure events the dashboard keeps
+export const MAX_GEOFENCE_EVENTS = 100;
+
+// ============================================================================
+// Radius
+// ============================================================================
+
+const normalizeSiteId = (siteId: string) => siteId.trim().toLowerCase();
+
+/**
+ * Effective geofence radius (meters) for a site.
+ */
+export function getGeofenceRadiusM(site: SiteRecord): number {
+  const fromTable = site.geofence_radius_m;
+  if (fromTable != null && Number.isFinite(fromTable) && fromTable > 0) return fromTable;
+
+  return DEFAULT_GEOFENCE_RADIUS_M;
+}
+
+/**
+ * A radius entered on the dashboard, rounded and kept within the sanity bounds.
+ */
+export function clampGeofenceRadiusM(radiusM: number): number {
+  return Math.min(MAX_GEOFENCE_RADIUS_M, Math.max(MIN_GEOFENCE_RADIUS_M, Math.round(radiusM)));
+}
+
+// ============================================================================
+// Containment
+// ============================================================================
+
+/**
+ * Site whose geofence contains the point (closest one if several overlap), or null.
+ */
+export function findContainingGeofence(
+  point: LatLng,
+  sites: SiteRecord[]
+): { site: SiteRecord; distanceKm: number; radiusM: number } | null {
+  if (!hasValidLocation(point)) return null;
+
+  let best: { site: SiteRecord; distanceKm: number; radiusM: number } | null = null;
+
+  for (const site of sites) {
+    const siteLoc: LatLng = { lat: site.latitude, lng: site.longitude };
+    if (!hasValidLocation(siteLoc)) continue;
+
+    const distanceKm = calculateDistanceKm(point, siteLoc);
+    const radiusM = getGeofenceRadiusM(site);
+    if (distanceKm * 1000 > radiusM) continue;
+
+    if (!best || distanceKm < best.distanceKm) {
+      best = { site, distanceKm, radiusM };
+    }
+  }
+
+  return best;
+}
+
+// ============================================================================
+// Events and mismatches
+// ============================================================================
+
+/**
+ * Arrival/departure events between two successive heartbeats of one NFO.
+ * `prevSiteId` / `nextSiteId` are the geofences the NFO was inside (null = none).
+ * Moving directly from one site's geofence into another yields a departure then an arrival.
+ */
+export function deriveGeofenceEvents(
+  nfo: { username: string; name: string | null; last_active_at: string | null },
+  prevSiteId: string | null,
+  nextSiteId: string | null
+): GeofenceEvent[] {
+  if (prevSiteId === nextSiteId) return [];
+
+  const at = nfo.last_active_at ?? new Date().toISOString();
+  const events: GeofenceEvent[] = [];
+
+  if (prevSiteId) {
+    events.push({ username: nfo.username, name: nfo.name, siteId: prevSiteId, kind: "departure", at });
+  }
+  if (nextSiteId) {
+    events.push({ username: nfo.username, name: nfo.name, siteId: nextSiteId, kind: "arrival", at });
+  }
+
+  return events;
+}
+
+/**
+ * Compare where a busy NFO is against the site it reports being busy at.
+ *
+ * - busyFarFromSite: busy at site_id but outside that site's geofence
+ * - insideOtherSite: busy at site_id but inside a different site's geofence
+ *
+ * Returns null when the NFO isn't busy at a known site or the position matches.
+ */
+export function detectLocationMismatch(params: {
+  isBusy: boolean;
+  assignedSiteId: string | null;
+  assignedSite: SiteRecord | null;
+  distanceToAssignedSiteKm: number | null;
+  geofenceSiteId: string | null;
+}): LocationMismatch | null {
+  const { isBusy, assignedSiteId, assignedSite, distanceToAssignedSiteKm, geofenceSiteId } = params;
+  if (!isBusy || !assignedSiteId || !assignedSite || distanceToAssignedSiteKm == null) return null;
+
+  const radiusM = getGeofenceRadiusM(assignedSite);
+  if (distanceToAssignedSiteKm * 1000 <= radiusM) return null;
+
+  if (geofenceSiteId && normalizeSiteId(geofenceSiteId) !== normalizeSiteId(assignedSiteId)) {
+    return {
+      kind: "insideOtherSite",
+      message: `Busy at ${assignedSiteId} but inside geofence of ${geofenceSiteId}`,
+    };
+  }
+
+  return {
+    kind: "busyFarFromSite",
+    message: `Busy at ${assignedSiteId} but ${formatDistanceLabel(distanceToAssignedSiteKm)} away`,
+  };
+}
@@ -0,0 +1,67 @@
+/**
+ * Map tiles and marker images shared by the Leaflet maps (Live Map, Route
+ * Planner, NFO Routes).
+ *
+ * Marker images are served from /public/markers (Leaflet's own PNGs plus one
+ * SVG pin per NFO status colour) so the maps don't depend on unpkg.com or
+ * GitHub being reachable from the control room. Tiles still come from a tile
+ * server - public/sw.js caches them for offline use (see offline.ts).
+ *
+ * Tile server:
+ * - NEXT_PUBLIC_MAP_TILE_URL - Leaflet URL template, e.g. a self-hosted
+ *   "https://tiles.example.com/{z}/{x}/{y}.png". Region pre-caching is only
+ *   offered with one of these (and not when it points back at openstreetmap.org):
+ *   the OSM tile usage policy forbids bulk downloads from the public servers.
+ * - Otherwise tile.openstreetmap.org.
+ * - NEXT_PUBLIC_MAP_TILE_CORS=false for a tile server that sends no CORS headers.
+ *   Tiles are then loaded without crossOrigin and are not cached for offline use
+ *   (opaque responses cost megabytes of cache quota each).
+ */
+
+// ============================================================================
+// Tiles
+// ============================================================================
+
+export const MAP_TILE_URL =
+  process.env.NEXT_PUBLIC_MAP_TILE_URL || "https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png";
+
+export const MAP_TILE_SUBDOMAINS = ["a", "b", "c"];
+
+// Leaflet TileLayer `crossOrigin` - CORS tile responses are what public/sw.js caches
+export const MAP_TILE_CROSS_ORIGIN = process.env.NEXT_PUBLIC_MAP_TILE_CORS !== "false";
+
+// Bulk downloads (offline.ts precacheRegionTiles) need a self-hosted or licensed tile server
+export const MAP_TILE_BULK_DOWNLOAD_ALLOWED =
+  MAP_TILE_CROSS_ORIGIN &&
+  !!process.env.NEXT_PUBLIC_MAP_TILE_URL &&
+  !/(^|[/.])openstreetmap\.org\//i.test(MAP_TILE_URL);
+
+export const MAP_TILE_ATTRIBUTION =
+  '&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors';
+
+/**
+ * Concrete URL of one tile - same subdomain choice as Leaflet's TileLayer
+ * ((x + y) % subdomains) so the service worker cache matches what the map requests.
+ */
+export function tileUrl(z: number, x: number, y: number): string {
+  const subdomain = MAP_TILE_SUBDOMAINS[Math.abs(x + y) % MAP_TILE_SUBDOMAINS.length];
+  return MAP_TILE_URL.replace("{s}", subdomain)
+    .replace("{z}", String(z))
+    .replace("{x}", String(x))
+    .replace("{y}", String(y))
+    .replace("{r}", "");
+}
+
+// ============================================================================
+// Marker images
+// ============================================================================
+
+export const MARKER_ICON_URLS = {
+  default: "/markers/marker-icon.png",
+  defaultRetina: "/markers/marker-icon-2x.png",
+  shadow: "/markers/marker-shadow.png",
+  green: "/markers/marker-green.svg",
+  red: "/markers/marker-red.svg",
+  grey: "/markers/marker-grey.svg",
+  orange: "/markers/marker-orange.svg",
+};
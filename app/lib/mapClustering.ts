@@ -0,0 +1,299 @@
+/**
+ * Marker clustering, viewport culling and density heatmaps for the Live Map.
+ *
+ * "All Sites" means the whole Site_Coordinates table - one Leaflet Marker (plus
+ * a label marker) per site is several thousand DOM nodes and freezes the page.
+ * The map now only draws what is inside the current viewport (cullToViewport),
+ * groups nearby points into one cluster per screen grid cell (clusterPoints) and
+ * can shade a density grid instead (buildHeatGrid): sites per cell, or faults
+ * per cell from the assignments (jobs) loaded by the dashboard.
+ *
+ * Everything works in Web Mercator pixels at the current zoom, the same space
+ * Leaflet draws in, so a cell is the same size on screen at every latitude.
+ */
+
+import type { SiteRecord } from "./nfoHelpers";
+import type { NfoAssignment } from "./assignments";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type MapBounds = {
+  south: number;
+  west: number;
+  north: number;
+  east: number;
+};
+
+export type MapViewport = {
+  bounds: MapBounds;
+  zoom: number;
+};
+
+export type MarkerCluster = {
+  key: string;
+  lat: number; // mean position of the members
+  lng: number;
+  count: number;
+  bounds: MapBounds; // members' extent, for zooming in on click
+};
+
+export type ClusteredPoints<T> = {
+  singles: T[];
+  clusters: MarkerCluster[];
+};
+
+export type HeatmapMode = "off" | "sites" | "faults";
+
+export type HeatPoint = {
+  lat: number;
+  lng: number;
+  weight: number;
+};
+
+export type HeatCell = {
+  key: string;
+  bounds: MapBounds;
+  value: number;
+};
+
+export type HeatGrid = {
+  cells: HeatCell[];
+  max: number;
+};
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+// Screen size of one cluster cell
+export const CLUSTER_CELL_PX = 60;
+
+// From this zoom on every point is drawn on its own (street level)
+export const CLUSTER_MAX_ZOOM = 15;
+
+// Screen size of one heatmap cell
+export const HEAT_CELL_PX = 32;
+
+// Above this many site markers in view, sites are drawn as canvas circles
+// without the id labels
+export const MAX_DETAILED_SITE_MARKERS = 300;
+
+// Viewport is padded by this fraction on each side so panning doesn't show empty edges
+export const VIEWPORT_PADDING = 0.25;
+
+const TILE_SIZE = 256;
+
+// ============================================================================
+// Projection
+// ============================================================================
+
+function worldSize(zoom: number): number {
+  return TILE_SIZE * Math.pow(2, zoom);
+}
+
+function project(lat: number, lng: number, zoom: number): { x: number; y: number } {
+  const size = worldSize(zoom);
+  const clampedLat = Math.max(-85.05112878, Math.min(85.05112878, lat));
+  const sin = Math.sin((clampedLat * Math.PI) / 180);
+  return {
+    x: ((lng + 180) / 360) * size,
+    y: (0.5 - Math.log((1 + sin) / (1 - sin)) / (4 * Math.PI)) * size,
+  };
+}
+
+function unproject(x: number, y: number, zoom: number): { lat: number; lng: number } {
+  const size = worldSize(zoom);
+  const n = Math.PI - (2 * Math.PI * y) / size;
+  return {
+    lat: (180 / Math.PI) * Math.atan(Math.sinh(n)),
+    lng: (x / size) * 360 - 180,
+  };
+}
+
+// ============================================================================
+// Viewport
+// ============================================================================
+
+/**
+ * Bounds grown by `padding` of their size on every side.
+ */
+export function padBounds(bounds: MapBounds, padding: number = VIEWPORT_PADDING): MapBounds {
+  const latPad = (bounds.north - bounds.south) * padding;
+  const lngPad = (bounds.east - bounds.west) * padding;
+  return {
+    south: bounds.south - latPad,
+    west: bounds.west - lngPad,
+    north: bounds.north + latPad,
+    east: bounds.east + lngPad,
+  };
+}
+
+export function isInBounds(lat: number, lng: number, bounds: MapBounds): boolean {
+  return lat >= bounds.south && lat <= bounds.north && lng >= bounds.west && lng <= bounds.east;
+}
+
+/**
+ * Items inside the (padded) viewport. Null viewport - map not measured yet -
+ * returns nothing rather than everything.
+ */
+export function cullToViewport<T>(
+  items: T[],
+  getLatLng: (item: T) => [number, number],
+  viewport: MapViewport | null
+): T[] {
+  if (!viewport) return [];
+  const bounds = padBounds(viewport.bounds);
+  return items.filter((item) => {
+    const [lat, lng] = getLatLng(item);
+    return isInBounds(lat, lng, bounds);
+  });
+}
+
+// ============================================================================
+// Clustering
+// ============================================================================
+
+/**
+ * Group points sharing a CLUSTER_CELL_PX screen cell at `zoom`. Cells with a
+ * single point (and every point from CLUSTER_MAX_ZOOM on) stay singles.
+ */
+export function clusterPoints<T>(
+  items: T[],
+  getLatLng: (item: T) => [number, number],
+  zoom: number,
+  keyPrefix: string,
+  cellPx: number = CLUSTER_CELL_PX
+): ClusteredPoints<T> {
+  if (zoom >= CLUSTER_MAX_ZOOM) return { singles: items, clusters: [] };
+
+  const cells = new Map<string, T[]>();
+  for (const item of items) {
+    const [lat, lng] = getLatLng(item);
+    const { x, y } = project(lat, lng, zoom);
+    const key = `${Math.floor(x / cellPx)}:${Math.floor(y / cellPx)}`;
+    const members = cells.get(key);
+    if (members) members.push(item);
+    else cells.set(key, [item]);
+  }
+
+  const singles: T[] = [];
+  const clusters: MarkerCluster[] = [];
+  for (const [key, members] of cells) {
+    if (members.length === 1) {
+      singles.push(members[0]);
+      continue;
+    }
+    let latSum = 0;
+    let lngSum = 0;
+    const bounds: MapBounds = { south: 90, west: 180, north: -90, east: -180 };
+    for (const member of members) {
+      const [lat, lng] = getLatLng(member);
+      latSum += lat;
+      lngSum += lng;
+      bounds.south = Math.min(bounds.south, lat);
+      bounds.north = Math.max(bounds.north, lat);
+      bounds.west = Math.min(bounds.west, lng);
+      bounds.east = Math.max(bounds.east, lng);
+    }
+    clusters.push({
+      key: `${keyPrefix}-${zoom}-${key}`,
+      lat: latSum / members.length,
+      lng: lngSum / members.length,
+      count: members.length,
+      bounds,
+    });
+  }
+  return { singles, clusters };
+}
+
+// ============================================================================
+// Heatmap
+// ============================================================================
+
+/**
+ * Sum of point weights per HEAT_CELL_PX screen cell inside the padded viewport.
+ */
+export function buildHeatGrid(
+  points: HeatPoint[],
+  viewport: MapViewport | null,
+  cellPx: number = HEAT_CELL_PX
+): HeatGrid {
+  if (!viewport) return { cells: [], max: 0 };
+  const bounds = padBounds(viewport.bounds);
+  const zoom = viewport.zoom;
+
+  const sums = new Map<string, { cx: number; cy: number; value: number }>();
+  for (const p of points) {
+    if (!isInBounds(p.lat, p.lng, bounds)) continue;
+    const { x, y } = project(p.lat, p.lng, zoom);
+    const cx = Math.floor(x / cellPx);
+    const cy = Math.floor(y / cellPx);
+    const key = `${cx}:${cy}`;
+    const cell = sums.get(key);
+    if (cell) cell.value += p.weight;
+    else sums.set(key, { cx, cy, value: p.weight });
+  }
+
+  let max = 0;
+  const cells: HeatCell[] = [];
+  for (const [key, { cx, cy, value }] of sums) {
+    const topLeft = unproject(cx * cellPx, cy * cellPx, zoom);
+    const bottomRight = unproject((cx + 1) * cellPx, (cy + 1) * cellPx, zoom);
+    cells.push({
+      key: `heat-${zoom}-${key}`,
+      bounds: { south: bottomRight.lat, west: topLeft.lng, north: topLeft.lat, east: bottomRight.lng },
+      value,
+    });
+    max = Math.max(max, value);
+  }
+  return { cells, max };
+}
+
+/**
+ * One point per site with coordinates (duplicate site_id rows count once).
+ */
+export function siteHeatPoints(sites: SiteRecord[]): HeatPoint[] {
+  const seen = new Set<string>();
+  const points: HeatPoint[] = [];
+  for (const site of sites) {
+    if (site.latitude == null || site.longitude == null || seen.has(site.site_id)) continue;
+    seen.add(site.site_id);
+    points.push({ lat: site.latitude, lng: site.longitude, weight: 1 });
+  }
+  return points;
+}
+
+/**
+ * One point per assignment (job) at its site - cancelled jobs don't count.
+ * Assignments whose site has no coordinates are skipped.
+ */
+export function faultHeatPoints(assignments: NfoAssignment[], sites: SiteRecord[]): HeatPoint[] {
+  const siteById = new Map<string, SiteRecord>();
+  for (const site of sites) {
+    if (site.latitude == null || site.longitude == null) continue;
+    if (!siteById.has(site.site_id)) siteById.set(site.site_id, site);
+  }
+
+  const perSite = new Map<string, number>();
+  for (const a of assignments) {
+    if (a.status === "cancelled" || !siteById.has(a.site_id)) continue;
+    perSite.set(a.site_id, (perSite.get(a.site_id) ?? 0) + 1);
+  }
+
+  return Array.from(perSite, ([siteId, count]) => {
+    const site = siteById.get(siteId)!;
+    return { lat: site.latitude as number, lng: site.longitude as number, weight: count };
+  });
+}
+
+/**
+ * Cell colour from pale yellow (sparse) to dark red (densest in view).
+ */
+export function heatColor(ratio: number): string {
+  const t = Math.max(0, Math.min(1, ratio));
+  const hue = 55 - 55 * t;           // yellow → red
+  const lightness = 60 - 25 * t;     // lighter → darker
+  return `hsl(${Math.round(hue)}, 95%, ${Math.round(lightness)}%)`;
+}
@@ -32,6 +32,7 @@ export type SiteRecord = {
   longitude: number | null;
   area?: string | null;
   name?: string | null;
+  geofence_radius_m?: number | null; // optional per-site geofence radius from Site_Coordinates
 };
 
 export type NfoStatusRow = {
@@ -48,6 +49,7 @@ export type NfoStatusRow = {
   home_location: string | null;
   via_warehouse: boolean | null;
   warehouse_name: string | null;
+  warehouse_id?: number | null; // sent by newer app builds, preferred over warehouse_name
 };
 
 // ============================================================================
@@ -95,6 +97,26 @@ export function computeAssignmentState(nfo: NfoStatusRow): {
   return { isBusy, isFree, isOnShift, isOffShift };
 }
 
+/**
+ * Decide whether an incoming heartbeat row should replace the one we already hold
+ * for the same username. Used when patching the latest-row-per-user map from
+ * realtime events, which can arrive out of order after a reconnect.
+ * A row without a parseable last_active_at never replaces a row that has one.
+ */
+export function isNewerNfoRow(
+  incoming: NfoStatusRow,
+  existing: NfoStatusRow | null | undefined
+): boolean {
+  if (!existing) return true;
+
+  const incomingMs = incoming.last_active_at ? Date.parse(incoming.last_active_at) : NaN;
+  const existingMs = existing.last_active_at ? Date.parse(existing.last_active_at) : NaN;
+
+  if (!Number.isFinite(existingMs)) return true;
+  if (!Number.isFinite(incomingMs)) return false;
+  return incomingMs >= existingMs;
+}
+
 export function hasValidLocation(loc?: LatLng | null): boolean {
   if (!loc) return false;
   if (loc.lat == null || loc.lng == null) return false;
@@ -204,6 +226,9 @@ export function ageMinutes(
   return ageMins;
 }
 
+// Default "online" window - per-area values come from the alert rules (see alertRules.ts)
+export const ACTIVE_WINDOW_MINUTES = 15;
+
 /**
  * Determine if an NFO is "online" based on lastActiveAt.
  * Legacy threshold: active within last 15 minutes (ACTIVE_WINDOW_MINUTES = 15).
@@ -211,10 +236,10 @@ export function ageMinutes(
  */
 export function isOnline(
   lastActiveAt: string | null,
-  now: number = Date.now()
+  now: number = Date.now(),
+  windowMinutes: number = ACTIVE_WINDOW_MINUTES
 ): boolean {
-  const ACTIVE_WINDOW_MINUTES = 15;
-  const ACTIVE_WINDOW_MS = ACTIVE_WINDOW_MINUTES * 60 * 1000;
+  const ACTIVE_WINDOW_MS = windowMinutes * 60 * 1000;
 
   if (!lastActiveAt) {
     return false;
@@ -233,7 +258,8 @@ export function isOnline(
 // Ping Status (Not Active Detection)
 // ============================================================================
 
-const STALE_MINUTES = 30;
+// Default "Not Active" threshold - per-area values come from the alert rules (see alertRules.ts)
+export const STALE_MINUTES = 30;
 
 export type PingStatus = {
   isNotActive: boolean;
@@ -242,12 +268,13 @@ export type PingStatus = {
 
 /**
  * Compute ping status based on last_active_at timestamp.
- * An NFO is considered "Not Active" if no ping for > 30 minutes.
+ * An NFO is considered "Not Active" if no ping for > staleMinutes (default 30).
  * This is separate from on_shift/status logic - purely derived from last_active_at.
  */
 export function computePingStatus(
   lastActiveAt: string | null,
-  now: number = Date.now()
+  now: number = Date.now(),
+  staleMinutes: number = STALE_MINUTES
 ): PingStatus {
   if (!lastActiveAt) {
     return {
@@ -267,7 +294,7 @@ export function computePingStatus(
   const diffMs = now - parsed;
   const diffMinutes = diffMs / (1000 * 60);
 
-  if (diffMinutes > STALE_MINUTES) {
+  if (diffMinutes > staleMinutes) {
     return {
       isNotActive: true,
       pingReason: `No ping for ${Math.floor(diffMinutes)} min`,
@@ -0,0 +1,217 @@
+/**
+ * NFO Trail - historical heartbeat breadcrumbs for Live Map playback.
+ *
+ * The dashboard keeps only the newest nfo_status row per username; this module
+ * goes back to the full heartbeat history for ONE NFO over a time window so a
+ * supervisor can replay where the engineer actually went during a shift.
+ */
+
+import { supabase } from "../../lib/supabaseClient";
+import { hasValidLocation } from "./nfoHelpers";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type TrailPoint = {
+  lat: number;
+  lng: number;
+  at: number; // last_active_at in epoch ms
+  lastActiveAt: string;
+  status: string | null;
+  activity: string | null;
+  site_id: string | null;
+  on_shift: boolean | null;
+};
+
+export type TrailSegment = {
+  positions: [[number, number], [number, number]]; // Leaflet [lat, lng] pairs
+  color: string;
+};
+
+// Time windows offered in the playback panel (hours back from now)
+export const TRAIL_WINDOW_OPTIONS_HOURS = [2, 4, 8, 12, 24];
+
+// Playback speeds: how many seconds of shift time pass per real second
+export const TRAIL_SPEED_OPTIONS = [
+  { label: "1 min/s", value: 60 },
+  { label: "5 min/s", value: 300 },
+  { label: "15 min/s", value: 900 },
+  { label: "1 h/s", value: 3600 },
+];
+
+const PAGE_SIZE = 1000;
+
+// ============================================================================
+// Data loading
+// ============================================================================
+
+/**
+ * Load every heartbeat row for one NFO between fromMs and toMs, oldest first.
+ * Rows without valid GPS are dropped. Paginates the same way as the site loader
+ * because a busy day can exceed the default 1000-row response limit.
+ * Rejects with an AbortError when `signal` is aborted.
+ */
+export async function fetchNfoTrail(
+  username: string,
+  fromMs: number,
+  toMs: number,
+  signal?: AbortSignal
+): Promise<TrailPoint[]> {
+  const fromIso = new Date(fromMs).toISOString();
+  const toIso = new Date(toMs).toISOString();
+
+  const points: TrailPoint[] = [];
+  let pageNumber = 0;
+  let hasMoreRows = true;
+
+  while (hasMoreRows) {
+    const start = pageNumber * PAGE_SIZE;
+    const end = start + PAGE_SIZE - 1;
+
+    let query = supabase
+      .from("nfo_status")
+      .select("username, lat, lng, last_active_at, status, activity, site_id, on_shift")
+      .eq("username", username)
+      .gte("last_active_at", fromIso)
+      .lte("last_active_at", toIso)
+      .order("last_active_at", { ascending: true })
+      .range(start, end);
+    if (signal) query = query.abortSignal(signal);
+
+    const { data, error } = await query;
+    signal?.throwIfAborted();
+    if (error) throw error;
+
+    const rows = data ?? [];
+    for (const row of rows) {
+      const lat = typeof row.lat === "string" ? parseFloat(row.lat) : row.lat;
+      const lng = typeof row.lng === "string" ? parseFloat(row.lng) : row.lng;
+      if (!hasValidLocation({ lat, lng })) continue;
+
+      const at = row.last_active_at ? Date.parse(row.last_active_at) : NaN;
+      if (!Number.isFinite(at)) continue;
+
+      points.push({
+        lat,
+        lng,
+        at,
+        lastActiveAt: row.last_active_at,
+        status: row.status ?? null,
+        activity: row.activity ?? null,
+        site_id: row.site_id ?? null,
+        on_shift: row.on_shift ?? null,
+      });
+    }
+
+    if (rows.length < PAGE_SIZE) {
+      hasMoreRows = false;
+    }
+    pageNumber++;
+  }
+
+  console.log("nfoTrail.ts fetchNfoTrail", {
+    username,
+    from: fromIso,
+    to: toIso,
+    points: points.length,
+    pages: pageNumber,
+  });
+
+  return points;
+}
+
+// ============================================================================
+// Rendering helpers
+// ============================================================================
+
+/**
+ * Colour for a position along the time window (0 = start, 1 = end).
+ * Runs blue → green → yellow → red so the newest part of the trail stands out.
+ */
+export function trailColorAt(fraction: number): string {
+  const clamped = Math.min(1, Math.max(0, fraction));
+  const hue = 240 - clamped * 240; // 240 (blue) down to 0 (red)
+  return `hsl(${Math.round(hue)}, 85%, 45%)`;
+}
+
+/**
+ * Split a trail into per-segment polylines coloured by the segment's start time.
+ * Drawn only up to `untilMs` so the trail "grows" during playback - the segment
+ * under the playhead ends at the interpolated position.
+ */
+export function buildTrailSegments(
+  points: TrailPoint[],
+  untilMs: number = Number.POSITIVE_INFINITY
+): TrailSegment[] {
+  if (points.length < 2) return [];
+
+  const startMs = points[0].at;
+  const spanMs = Math.max(points[points.length - 1].at - startMs, 1);
+  const segments: TrailSegment[] = [];
+
+  for (let i = 0; i < points.length - 1; i++) {
+    const a = points[i];
+    const b = points[i + 1];
+    if (a.at > untilMs) break;
+
+    // Playhead between a and b - stop at the interpolated point
+    const t = b.at > untilMs ? (untilMs - a.at) / Math.max(b.at - a.at, 1) : 1;
+
+    segments.push({
+      positions: [
+        [a.lat, a.lng],
+        [a.lat + (b.lat - a.lat) * t, a.lng + (b.lng - a.lng) * t],
+      ],
+      color: trailColorAt((a.at - startMs) / spanMs),
+    });
+    if (t < 1) break;
+  }
+
+  return segments;
+}
+
+/**
+ * Index of the last heartbeat at or before `atMs` (0 if the playhead is before the first point).
+ */
+export function findTrailIndexAt(points: TrailPoint[], atMs: number): number {
+  let lo = 0;
+  let hi = points.length - 1;
+  let best = 0;
+
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    if (points[mid].at <= atMs) {
+      best = mid;
+      lo = mid + 1;
+    } else {
+      hi = mid - 1;
+    }
+  }
+  return best;
+}
+
+/**
+ * Interpolated position at `atMs`, linear between the surrounding heartbeats.
+ * Returns null for an empty trail.
+ */
+export function trailPositionAt(
+  points: TrailPoint[],
+  atMs: number
+): { lat: number; lng: number } | null {
+  if (points.length === 0) return null;
+  if (atMs <= points[0].at) return { lat: points[0].lat, lng: points[0].lng };
+
+  const last = points[points.length - 1];
+  if (atMs >= last.at) return { lat: last.lat, lng: last.lng };
+
+  const i = findTrailIndexAt(points, atMs);
+  const a = points[i];
+  const b = points[i + 1];
+  const t = (atMs - a.at) / Math.max(b.at - a.at, 1);
+
+  return {
+    lat: a.lat + (b.lat - a.lat) * t,
+    lng: a.lng + (b.lng - a.lng) * t,
+  };
+}
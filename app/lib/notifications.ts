@@ -0,0 +1,248 @@
+/**
+ * NFO alert notifications - browser Web Notifications + server webhook.
+ *
+ * Watches for NFOs ENTERING one of the notifiable states:
+ * - stuck:        busy at site past the area's stuck threshold
+ * - notActive:    on shift with no heartbeat past the area's silence threshold
+ * - deviceSilent: app reports "device-silent"
+ *
+ * De-duplication: each (state, username) episode is identified by the NFO's
+ * last_active_at when it entered the state. An episode notifies once; the entry
+ * is cleared when the NFO leaves the state, so the next episode notifies again.
+ * The notified map is persisted by the caller (localStorage) so reloading the
+ * dashboard doesn't repeat notifications.
+ *
+ * Webhook delivery goes through a queue: notifications stay queued until
+ * /api/notify accepted them, so a failed post is retried on the next refresh.
+ */
+
+import { supabase } from "../../lib/supabaseClient";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type NotificationKind = "stuck" | "notActive" | "deviceSilent";
+
+export type NfoNotification = {
+  key: string; // `${kind}:${username}:${episode}` - also used for webhook de-dup
+  kind: NotificationKind;
+  username: string;
+  name: string | null;
+  area: string | null;
+  title: string;
+  body: string;
+  at: string; // when the transition was detected (ISO)
+};
+
+// `${kind}:${username}` → episode id (last_active_at when the state was entered)
+export type NotifiedState = Record<string, string>;
+
+export type NotificationSubject = {
+  username: string;
+  name: string | null;
+  home_location: string | null;
+  last_active_at: string | null;
+  site_id: string | null;
+  isOnShift: boolean;
+  isNotActive: boolean;
+  isDeviceSilent: boolean;
+  isStuck: boolean;
+  minutesSinceActive: number | null;
+};
+
+// /api/notify takes at most this many per request (MAX_NOTIFICATIONS_PER_REQUEST there)
+export const WEBHOOK_BATCH_SIZE = 50;
+
+// Undelivered webhook notifications kept for retrying - oldest dropped beyond this
+const MAX_QUEUED_WEBHOOK_NOTIFICATIONS = 500;
+
+export const NOTIFICATION_KIND_LABELS: Record<NotificationKind, string> = {
+  stuck: "Stuck at site",
+  notActive: "Not active",
+  deviceSilent: "Device silent",
+};
+
+// ============================================================================
+// Transition detection
+// ============================================================================
+
+const describe = (kind: NotificationKind, nfo: NotificationSubject): string => {
+  const who = nfo.name ? `${nfo.username} – ${nfo.name}` : nfo.username;
+  const mins = nfo.minutesSinceActive != null ? `${Math.round(nfo.minutesSinceActive)} min` : "unknown time";
+  switch (kind) {
+    case "stuck":
+      return `${who} busy at ${nfo.site_id?.trim() || "site"} with no update for ${mins}`;
+    case "notActive":
+      return `${who} on shift with no heartbeat for ${mins}`;
+    case "deviceSilent":
+      return `${who} device reports device-silent`;
+  }
+};
+
+/**
+ * Compare current NFO states with what was already notified.
+ * Returns the updated notified map and the notifications to send now.
+ *
+ * When `seedOnly` is true (first run with nothing persisted) the current states
+ * are recorded without notifying, so opening the dashboard doesn't fire a burst.
+ */
+export function detectNotificationTransitions(
+  previous: NotifiedState,
+  nfos: NotificationSubject[],
+  seedOnly = false
+): { next: NotifiedState; fresh: NfoNotification[] } {
+  const next: NotifiedState = {};
+  const fresh: NfoNotification[] = [];
+  const at = new Date().toISOString();
+
+  for (const nfo of nfos) {
+    const states: Record<NotificationKind, boolean> = {
+      stuck: nfo.isStuck,
+      // Off-shift NFOs are expected to be silent - only notify while on shift
+      notActive: nfo.isNotActive && nfo.isOnShift,
+      deviceSilent: nfo.isDeviceSilent,
+    };
+
+    for (const kind of Object.keys(states) as NotificationKind[]) {
+      if (!states[kind]) continue;
+
+      const stateKey = `${kind}:${nfo.username}`;
+      // Still in the same episode - keep its id so later heartbeats don't re-notify
+      const ongoing = previous[stateKey];
+      if (ongoing !== undefined) {
+        next[stateKey] = ongoing;
+        continue;
+      }
+
+      const episode = nfo.last_active_at ?? "unknown";
+      next[stateKey] = episode;
+      if (seedOnly) continue;
+
+      fresh.push({
+        key: `${stateKey}:${episode}`,
+        kind,
+        username: nfo.username,
+        name: nfo.name,
+        area: nfo.home_location,
+        title: `NFO alert: ${NOTIFICATION_KIND_LABELS[kind]}`,
+        body: describe(kind, nfo),
+        at,
+      });
+    }
+  }
+
+  return { next, fresh };
+}
+
+/**
+ * Parse the notified map persisted in localStorage. Returns null when nothing
+ * valid is stored (caller should seed instead of notifying).
+ */
+export function parseNotifiedState(raw: string | null): NotifiedState | null {
+  if (!raw) return null;
+  try {
+    const parsed = JSON.parse(raw);
+    return parsed && typeof parsed === "object" && !Array.isArray(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+// ============================================================================
+// Delivery
+// ============================================================================
+
+export function isBrowserNotificationSupported(): boolean {
+  return typeof window !== "undefined" && "Notification" in window;
+}
+
+/**
+ * Ask for notification permission. Returns the resulting permission state.
+ */
+export async function requestBrowserNotificationPermission(): Promise<NotificationPermission | "unsupported"> {
+  if (!isBrowserNotificationSupported()) return "unsupported";
+  if (Notification.permission !== "default") return Notification.permission;
+  return Notification.requestPermission();
+}
+
+/**
+ * Show one Web Notification per alert. `tag` makes the browser replace rather
+ * than stack a repeat of the same episode (e.g. from a second open tab).
+ */
+export function showBrowserNotifications(notifications: NfoNotification[]): void {
+  if (!isBrowserNotificationSupported() || Notification.permission !== "granted") return;
+
+  for (const n of notifications) {
+    try {
+      new Notification(n.title, { body: n.body, tag: n.key });
+    } catch (error) {
+      console.warn("notifications.ts showBrowserNotifications failed:", error);
+    }
+  }
+}
+
+/**
+ * Add notifications to the webhook queue (once per key), keeping the newest
+ * MAX_QUEUED_WEBHOOK_NOTIFICATIONS.
+ */
+export function queueWebhookNotifications(
+  queue: NfoNotification[],
+  notifications: NfoNotification[]
+): NfoNotification[] {
+  const queued = new Set(queue.map((n) => n.key));
+  const next = [...queue, ...notifications.filter((n) => !queued.has(n.key))];
+  return next.slice(-MAX_QUEUED_WEBHOOK_NOTIFICATIONS);
+}
+
+/**
+ * Parse the webhook queue persisted in localStorage ([] when nothing valid is stored).
+ */
+export function parseWebhookQueue(raw: string | null): NfoNotification[] {
+  if (!raw) return [];
+  try {
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed)
+      ? parsed.filter((n): n is NfoNotification => !!n && typeof n.key === "string" && typeof n.title === "string")
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Send alerts to the configured webhook via /api/notify (signed-in admins and
+ * supervisors only), WEBHOOK_BATCH_SIZE per request. Returns the keys that were
+ * delivered - it stops at the first failed batch (webhook not configured, caller
+ * may not post, or the call failed), so the rest can be retried later.
+ */
+export async function postWebhookNotifications(notifications: NfoNotification[]): Promise<string[]> {
+  const delivered: string[] = [];
+  if (notifications.length === 0) return delivered;
+  try {
+    const { data: sessionData } = await supabase.auth.getSession();
+    const accessToken = sessionData.session?.access_token;
+    if (!accessToken) {
+      console.warn("notifications.ts webhook not delivered: not signed in");
+      return delivered;
+    }
+
+    for (let i = 0; i < notifications.length; i += WEBHOOK_BATCH_SIZE) {
+      const batch = notifications.slice(i, i + WEBHOOK_BATCH_SIZE);
+      const res = await fetch("/api/notify", {
+        method: "POST",
+        headers: { Authorization: `Bearer ${accessToken}`, "Content-Type": "application/json" },
+        body: JSON.stringify({ notifications: batch }),
+      });
+      const data = await res.json();
+      if (!data.ok) {
+        console.warn("notifications.ts webhook not delivered:", data.error);
+        return delivered;
+      }
+      delivered.push(...batch.map((n) => n.key));
+    }
+  } catch (error) {
+    console.warn("notifications.ts webhook exception:", error);
+  }
+  return delivered;
+}
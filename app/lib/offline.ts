@@ -0,0 +1,311 @@
+/**
+ * Degraded-network mode for the console.
+ *
+ * Three parts:
+ * - public/sw.js (registered by registerOfflineServiceWorker) serves map tiles
+ *   cache-first and keeps the app shell (pages, /_next/static, /markers) so the
+ *   console still opens without a connection. /api calls are never cached there.
+ * - precacheRegionTiles downloads the tiles covering every located site for a
+ *   range of zoom levels into the same cache, so the operating region is
+ *   available before the link drops. Only with a self-hosted or licensed tile
+ *   server (MAP_TILE_BULK_DOWNLOAD_ALLOWED in mapAssets.ts).
+ * - The last nfo_status / Site_Coordinates / warehouses payloads are kept in
+ *   IndexedDB (saveOfflineSnapshot). When the dashboard can't load, HomePage
+ *   shows them with an "offline, data as of HH:MM" banner instead of the error screen.
+ *   nfo_status is saved already filtered to the manager's regions, and every
+ *   snapshot is cleared on sign-out (clearOfflineSnapshots).
+ */
+
+import type { MapBounds } from "./mapClustering";
+import type { SiteRecord } from "./nfoHelpers";
+import { MAP_TILE_BULK_DOWNLOAD_ALLOWED, MAP_TILE_URL, tileUrl } from "./mapAssets";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type OfflineSnapshotKey = "nfo_status" | "sites" | "warehouses";
+
+export type OfflineSnapshot<T> = {
+  key: OfflineSnapshotKey;
+  data: T;
+  savedAt: string; // ISO
+};
+
+export type TilePrecachePlan = {
+  urls: string[];
+  bounds: MapBounds;
+  minZoom: number;
+  maxZoom: number;  // deepest zoom level that fits in MAX_PRECACHE_TILES
+  truncated: boolean; // deeper levels were dropped to stay under the limit
+};
+
+export type TilePrecacheResult = {
+  cached: number;
+  skipped: number; // already in the cache
+  failed: number;
+};
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const SERVICE_WORKER_URL = "/sw.js";
+
+// Must match TILE_CACHE / TILE_CACHED_AT_HEADER / TILE_MAX_AGE_MS in public/sw.js
+export const TILE_CACHE_NAME = "fieldpulse-tiles-v2";
+export const TILE_CACHED_AT_HEADER = "x-fieldpulse-cached-at";
+const TILE_MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+
+// Region zoom levels - country overview down to town level
+export const OFFLINE_TILE_MIN_ZOOM = 5;
+export const OFFLINE_TILE_MAX_ZOOM = 12;
+
+// Whole zoom levels are added until the next one would exceed this
+export const MAX_PRECACHE_TILES = 3000;
+
+// Parallel tile downloads while pre-caching
+const PRECACHE_CONCURRENCY = 4;
+
+const DB_NAME = "fieldpulse-offline";
+const DB_VERSION = 1;
+const SNAPSHOT_STORE = "snapshots";
+
+// ============================================================================
+// Service worker
+// ============================================================================
+
+export function isServiceWorkerSupported(): boolean {
+  return typeof navigator !== "undefined" && "serviceWorker" in navigator;
+}
+
+/**
+ * Register public/sw.js. Production builds only - in dev its cache-first
+ * /_next/static would serve stale bundles across hot reloads.
+ */
+export async function registerOfflineServiceWorker(): Promise<ServiceWorkerRegistration | null> {
+  if (!isServiceWorkerSupported() || process.env.NODE_ENV !== "production") return null;
+  try {
+    const registration = await navigator.serviceWorker.register(SERVICE_WORKER_URL);
+    console.log("offline.ts service worker registered:", registration.scope);
+    return registration;
+  } catch (error) {
+    console.warn("offline.ts service worker registration failed:", error);
+    return null;
+  }
+}
+
+// ============================================================================
+// Tile pre-caching
+// ============================================================================
+
+function lngToTileX(lng: number, zoom: number): number {
+  return Math.floor(((lng + 180) / 360) * Math.pow(2, zoom));
+}
+
+function latToTileY(lat: number, zoom: number): number {
+  const rad = (Math.max(-85.05112878, Math.min(85.05112878, lat)) * Math.PI) / 180;
+  return Math.floor(((1 - Math.log(Math.tan(rad) + 1 / Math.cos(rad)) / Math.PI) / 2) * Math.pow(2, zoom));
+}
+
+/**
+ * Bounding box of every located site, padded by ~10 km so edge sites get context.
+ */
+export function siteRegionBounds(sites: SiteRecord[]): MapBounds | null {
+  let bounds: MapBounds | null = null;
+  for (const site of sites) {
+    if (site.latitude == null || site.longitude == null) continue;
+    if (!bounds) {
+      bounds = { south: site.latitude, west: site.longitude, north: site.latitude, east: site.longitude };
+      continue;
+    }
+    bounds.south = Math.min(bounds.south, site.latitude);
+    bounds.north = Math.max(bounds.north, site.latitude);
+    bounds.west = Math.min(bounds.west, site.longitude);
+    bounds.east = Math.max(bounds.east, site.longitude);
+  }
+  if (!bounds) return null;
+  const pad = 0.1;
+  return { south: bounds.south - pad, west: bounds.west - pad, north: bounds.north + pad, east: bounds.east + pad };
+}
+
+/**
+ * Tile URLs covering `bounds`, zoom level by zoom level, stopping before the
+ * level that would go over `maxTiles`.
+ */
+export function planRegionTiles(
+  bounds: MapBounds,
+  minZoom: number = OFFLINE_TILE_MIN_ZOOM,
+  maxZoom: number = OFFLINE_TILE_MAX_ZOOM,
+  maxTiles: number = MAX_PRECACHE_TILES
+): TilePrecachePlan {
+  const urls: string[] = [];
+  let deepest = minZoom - 1;
+
+  for (let z = minZoom; z <= maxZoom; z++) {
+    const xMin = lngToTileX(bounds.west, z);
+    const xMax = lngToTileX(bounds.east, z);
+    const yMin = latToTileY(bounds.north, z);
+    const yMax = latToTileY(bounds.south, z);
+    const levelCount = (xMax - xMin + 1) * (yMax - yMin + 1);
+    if (urls.length + levelCount > maxTiles) break;
+
+    for (let x = xMin; x <= xMax; x++) {
+      for (let y = yMin; y <= yMax; y++) urls.push(tileUrl(z, x, y));
+    }
+    deepest = z;
+  }
+
+  return { urls, bounds, minZoom, maxZoom: deepest, truncated: deepest < maxZoom };
+}
+
+/**
+ * Download the planned tiles into the service worker's tile cache, stamped
+ * like public/sw.js does. Tiles cached within TILE_MAX_AGE_MS are skipped, so
+ * re-running only fetches what's missing or expired.
+ * Throws unless NEXT_PUBLIC_MAP_TILE_URL points at a server that allows bulk downloads.
+ */
+export async function precacheRegionTiles(
+  urls: string[],
+  onProgress?: (done: number, total: number) => void
+): Promise<TilePrecacheResult> {
+  if (!MAP_TILE_BULK_DOWNLOAD_ALLOWED) {
+    throw new Error("Region download needs a self-hosted or licensed tile server (NEXT_PUBLIC_MAP_TILE_URL)");
+  }
+
+  const cache = await caches.open(TILE_CACHE_NAME);
+  const result: TilePrecacheResult = { cached: 0, skipped: 0, failed: 0 };
+  let next = 0;
+  let done = 0;
+
+  const worker = async () => {
+    while (next < urls.length) {
+      const url = urls[next++];
+      try {
+        const cached = await cache.match(url);
+        const cachedAt = Number(cached?.headers.get(TILE_CACHED_AT_HEADER) || 0);
+        if (cached && Date.now() - cachedAt < TILE_MAX_AGE_MS) {
+          result.skipped += 1;
+        } else {
+          // CORS only - opaque responses would count megabytes each against the quota
+          const response = await fetch(url, { mode: "cors" });
+          if (response.ok) {
+            const headers = new Headers(response.headers);
+            headers.set(TILE_CACHED_AT_HEADER, String(Date.now()));
+            await cache.delete(url);
+            await cache.put(url, new Response(await response.blob(), { status: response.status, headers }));
+            result.cached += 1;
+          } else {
+            result.failed += 1;
+          }
+        }
+      } catch {
+        result.failed += 1;
+      }
+      done += 1;
+      onProgress?.(done, urls.length);
+    }
+  };
+
+  await Promise.all(Array.from({ length: PRECACHE_CONCURRENCY }, worker));
+  console.log("offline.ts precacheRegionTiles", { tileServer: MAP_TILE_URL, ...result });
+  return result;
+}
+
+/**
+ * Number of tiles currently in the tile cache (null when Cache Storage is unavailable).
+ */
+export async function countCachedTiles(): Promise<number | null> {
+  if (typeof caches === "undefined") return null;
+  const cache = await caches.open(TILE_CACHE_NAME);
+  return (await cache.keys()).length;
+}
+
+export async function clearCachedTiles(): Promise<void> {
+  if (typeof caches === "undefined") return;
+  await caches.delete(TILE_CACHE_NAME);
+}
+
+// ============================================================================
+// IndexedDB snapshots
+// ============================================================================
+
+function openSnapshotDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      if (!request.result.objectStoreNames.contains(SNAPSHOT_STORE)) {
+        request.result.createObjectStore(SNAPSHOT_STORE, { keyPath: "key" });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Replace the stored snapshot for `key`. Failures (private mode, quota) are
+ * logged and ignored - the snapshot is a fallback, not a requirement.
+ */
+export async function saveOfflineSnapshot<T>(key: OfflineSnapshotKey, data: T): Promise<void> {
+  if (typeof indexedDB === "undefined") return;
+  try {
+    const db = await openSnapshotDb();
+    await new Promise<void>((resolve, reject) => {
+      const tx = db.transaction(SNAPSHOT_STORE, "readwrite");
+      const snapshot: OfflineSnapshot<T> = { key, data, savedAt: new Date().toISOString() };
+      tx.objectStore(SNAPSHOT_STORE).put(snapshot);
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+    db.close();
+  } catch (error) {
+    console.warn("offline.ts saveOfflineSnapshot failed:", key, error);
+  }
+}
+
+export async function loadOfflineSnapshot<T>(key: OfflineSnapshotKey): Promise<OfflineSnapshot<T> | null> {
+  if (typeof indexedDB === "undefined") return null;
+  try {
+    const db = await openSnapshotDb();
+    const snapshot = await new Promise<OfflineSnapshot<T> | null>((resolve, reject) => {
+      const request = db.transaction(SNAPSHOT_STORE, "readonly").objectStore(SNAPSHOT_STORE).get(key);
+      request.onsuccess = () => resolve((request.result as OfflineSnapshot<T> | undefined) ?? null);
+      request.onerror = () => reject(request.error);
+    });
+    db.close();
+    return snapshot;
+  } catch (error) {
+    console.warn("offline.ts loadOfflineSnapshot failed:", key, error);
+    return null;
+  }
+}
+
+/**
+ * Drop every snapshot - on sign-out, so the next person on this browser
+ * doesn't see the previous manager's data.
+ */
+export async function clearOfflineSnapshots(): Promise<void> {
+  if (typeof indexedDB === "undefined") return;
+  try {
+    const db = await openSnapshotDb();
+    await new Promise<void>((resolve, reject) => {
+      const tx = db.transaction(SNAPSHOT_STORE, "readwrite");
+      tx.objectStore(SNAPSHOT_STORE).clear();
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+    });
+    db.close();
+  } catch (error) {
+    console.warn("offline.ts clearOfflineSnapshots failed:", error);
+  }
+}
+
+/**
+ * "HH:MM" of a snapshot for the offline banner (with the date when it isn't today).
+ */
+export function formatSnapshotTime(savedAt: string, now: Date = new Date()): string {
+  const at = new Date(savedAt);
+  const time = at.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit", hour12: false });
+  return at.toDateString() === now.toDateString() ? time : `${at.toLocaleDateString()} ${time}`;
+}
@@ -0,0 +1,256 @@
+/**
+ * Productivity reports - per-day metrics per NFO from the nfo_status history.
+ *
+ * Dashboard numbers (stats, areaSummary) are snapshots of the latest heartbeat.
+ * Reports walk every heartbeat in a period instead: the time between two
+ * heartbeats is credited to the state of the first one (on shift / busy / free,
+ * as computeAssignmentState decides), capped at ACTIVE_WINDOW_MINUTES. The rest
+ * of a longer on-shift gap counts as silent time.
+ *
+ * Aggregation runs on the server (/api/reports) so the browser only receives one
+ * row per NFO per day; summarizing by NFO, area or day happens in the browser.
+ */
+
+import {
+  ACTIVE_WINDOW_MINUTES,
+  calculateDistanceKm,
+  computeAssignmentState,
+  hasValidLocation,
+  type NfoStatusRow,
+} from "./nfoHelpers";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type NfoDayMetrics = {
+  day: string; // YYYY-MM-DD in the requesting browser's time zone
+  username: string;
+  name: string | null;
+  area: string | null; // home_location of the NFO's latest heartbeat that day
+  onShiftHours: number;
+  busyHours: number;
+  freeHours: number;
+  silentHours: number; // on shift but no heartbeat for longer than ACTIVE_WINDOW_MINUTES
+  siteIds: string[]; // distinct sites worked at while busy
+  kmDriven: number; // straight-line sum between on-shift GPS fixes
+  heartbeats: number;
+};
+
+export type ReportGrouping = "nfo" | "area" | "day";
+
+export type ReportRow = {
+  key: string;
+  label: string;
+  area: string | null;
+  nfoCount: number;
+  activeDays: number; // NFO-days with any on-shift time
+  onShiftHours: number;
+  busyHours: number;
+  freeHours: number;
+  silentHours: number;
+  sitesVisited: number; // distinct sites per NFO-day, summed
+  kmDriven: number;
+  utilisationPercent: number | null; // busy / on shift
+};
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+// Longest period /api/reports aggregates in one request
+export const MAX_REPORT_DAYS = 31;
+
+// GPS fixes closer than this are jitter, not driving
+const MIN_MOVE_KM = 0.05;
+
+// Jumps faster than this between fixes are GPS glitches and aren't counted
+const MAX_PLAUSIBLE_SPEED_KMH = 150;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// ============================================================================
+// Aggregation (server)
+// ============================================================================
+
+const dayKey = (ms: number, tzOffsetMin: number) => new Date(ms - tzOffsetMin * 60_000).toISOString().slice(0, 10);
+
+const round = (value: number, decimals = 2) => Math.round(value * 10 ** decimals) / 10 ** decimals;
+
+/**
+ * Per-day metrics for every NFO in `rows` (heartbeats of any order and users).
+ * `tzOffsetMin` is the browser's Date#getTimezoneOffset(), so days follow the
+ * manager's local midnight. Heartbeat intervals are credited to the day the
+ * interval started in.
+ */
+export function aggregateNfoHistory(rows: NfoStatusRow[], tzOffsetMin: number): NfoDayMetrics[] {
+  const byUser = new Map<string, { row: NfoStatusRow; at: number }[]>();
+  for (const row of rows) {
+    const at = row.last_active_at ? new Date(row.last_active_at).getTime() : NaN;
+    if (!row.username || Number.isNaN(at)) continue;
+    const list = byUser.get(row.username) ?? [];
+    list.push({ row, at });
+    byUser.set(row.username, list);
+  }
+
+  const capMs = ACTIVE_WINDOW_MINUTES * 60_000;
+  const result: NfoDayMetrics[] = [];
+
+  for (const [username, heartbeats] of byUser) {
+    heartbeats.sort((a, b) => a.at - b.at);
+    const days = new Map<string, NfoDayMetrics & { sites: Set<string> }>();
+
+    const metricsFor = (at: number, row: NfoStatusRow) => {
+      const key = dayKey(at, tzOffsetMin);
+      let m = days.get(key);
+      if (!m) {
+        m = {
+          day: key,
+          username,
+          name: null,
+          area: null,
+          onShiftHours: 0,
+          busyHours: 0,
+          freeHours: 0,
+          silentHours: 0,
+          siteIds: [],
+          kmDriven: 0,
+          heartbeats: 0,
+          sites: new Set<string>(),
+        };
+        days.set(key, m);
+      }
+      m.name = row.name ?? m.name;
+      m.area = row.home_location?.trim() || m.area;
+      return m;
+    };
+
+    for (let i = 0; i < heartbeats.length; i++) {
+      const { row, at } = heartbeats[i];
+      const m = metricsFor(at, row);
+      m.heartbeats += 1;
+
+      const state = computeAssignmentState(row);
+      const siteId = (row.site_id ?? "").trim();
+      if (state.isBusy && siteId) m.sites.add(siteId);
+
+      const next = heartbeats[i + 1];
+      if (!next || !state.isOnShift) continue;
+
+      const gapMs = next.at - at;
+      const creditedHours = Math.min(gapMs, capMs) / HOUR_MS;
+      m.onShiftHours += creditedHours;
+      if (state.isBusy) m.busyHours += creditedHours;
+      if (state.isFree) m.freeHours += creditedHours;
+      if (gapMs > capMs) m.silentHours += (gapMs - capMs) / HOUR_MS;
+
+      const from = { lat: row.lat, lng: row.lng };
+      const to = { lat: next.row.lat, lng: next.row.lng };
+      if (hasValidLocation(from) && hasValidLocation(to) && gapMs > 0) {
+        const km = calculateDistanceKm(from, to);
+        if (km >= MIN_MOVE_KM && km / (gapMs / HOUR_MS) <= MAX_PLAUSIBLE_SPEED_KMH) m.kmDriven += km;
+      }
+    }
+
+    for (const { sites, ...m } of days.values()) {
+      result.push({
+        ...m,
+        onShiftHours: round(m.onShiftHours),
+        busyHours: round(m.busyHours),
+        freeHours: round(m.freeHours),
+        silentHours: round(m.silentHours),
+        siteIds: Array.from(sites).sort(),
+        kmDriven: round(m.kmDriven, 1),
+      });
+    }
+  }
+
+  return result.sort((a, b) => a.day.localeCompare(b.day) || a.username.localeCompare(b.username));
+}
+
+// ============================================================================
+// Summaries (browser)
+// ============================================================================
+
+/**
+ * Roll per-day metrics up by NFO, by area, or by day (all visible NFOs).
+ */
+export function summarizeReport(days: NfoDayMetrics[], grouping: ReportGrouping): ReportRow[] {
+  const groups = new Map<string, { row: ReportRow; users: Set<string> }>();
+
+  for (const d of days) {
+    const key = grouping === "nfo" ? d.username : grouping === "area" ? d.area ?? "Unassigned" : d.day;
+    let group = groups.get(key);
+    if (!group) {
+      group = {
+        row: {
+          key,
+          label: grouping === "nfo" ? `${d.username}${d.name ? ` – ${d.name}` : ""}` : key,
+          area: grouping === "day" ? null : d.area,
+          nfoCount: 0,
+          activeDays: 0,
+          onShiftHours: 0,
+          busyHours: 0,
+          freeHours: 0,
+          silentHours: 0,
+          sitesVisited: 0,
+          kmDriven: 0,
+          utilisationPercent: null,
+        },
+        users: new Set<string>(),
+      };
+      groups.set(key, group);
+    }
+
+    const { row, users } = group;
+    users.add(d.username);
+    if (d.onShiftHours > 0) row.activeDays += 1;
+    row.onShiftHours += d.onShiftHours;
+    row.busyHours += d.busyHours;
+    row.freeHours += d.freeHours;
+    row.silentHours += d.silentHours;
+    row.sitesVisited += d.siteIds.length;
+    row.kmDriven += d.kmDriven;
+  }
+
+  return Array.from(groups.values())
+    .map(({ row, users }) => ({
+      ...row,
+      nfoCount: users.size,
+      onShiftHours: round(row.onShiftHours, 1),
+      busyHours: round(row.busyHours, 1),
+      freeHours: round(row.freeHours, 1),
+      silentHours: round(row.silentHours, 1),
+      kmDriven: round(row.kmDriven, 1),
+      utilisationPercent: row.onShiftHours > 0 ? Math.round((row.busyHours / row.onShiftHours) * 100) : null,
+    }))
+    .sort((a, b) => a.key.localeCompare(b.key));
+}
+
+// ============================================================================
+// Periods
+// ============================================================================
+
+/**
+ * Local-midnight bounds of a daily or weekly (Monday-start) report period
+ * containing `day` ("YYYY-MM-DD").
+ */
+export function reportPeriodRange(
+  day: string,
+  period: "day" | "week"
+): { from: string; to: string; firstDay: string; lastDay: string } | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(day);
+  if (!match) return null;
+  const start = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+  if (Number.isNaN(start.getTime())) return null;
+  if (period === "week") start.setDate(start.getDate() - ((start.getDay() + 6) % 7));
+
+  const end = new Date(start);
+  end.setDate(end.getDate() + (period === "week" ? 7 : 1));
+  const last = new Date(end);
+  last.setDate(last.getDate() - 1);
+
+  const local = (d: Date) =>
+    `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(d.getDate()).padStart(2, "0")}`;
+  return { from: start.toISOString(), to: end.toISOString(), firstDay: local(start), lastDay: local(last) };
+}
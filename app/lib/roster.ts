@@ -0,0 +1,259 @@
+/**
+ * Shift roster - planned shifts per NFO and planned-vs-actual compliance.
+ *
+ * computeAssignmentState only knows whether `on_shift` is set right now; the
+ * roster says whether the engineer was SUPPOSED to be on shift. Shifts live in
+ * the `nfo_roster` table (one row per NFO per shift, absolute start/end so night
+ * shifts across midnight just work). /api/roster returns each shift with the
+ * first and last on-shift heartbeat seen around it, and this module compares
+ * the two:
+ * - late start:    first on-shift heartbeat more than LATE_START_GRACE_MIN after the start
+ * - early logout:  last on-shift heartbeat more than EARLY_LOGOUT_GRACE_MIN before the end
+ *                  (or the NFO is already off shift mid-way through)
+ * - no-show:       no on-shift heartbeat at all once the grace period has passed
+ *
+ * Expected table (Supabase SQL):
+ *   create table nfo_roster (
+ *     id bigint generated always as identity primary key,
+ *     username text not null,
+ *     shift_start timestamptz not null, shift_end timestamptz not null,
+ *     notes text, created_at timestamptz not null default now(),
+ *     unique (username, shift_start)
+ *   );
+ */
+
+import type { NfoStatusRow } from "./nfoHelpers";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type RosterShift = {
+  id: number;
+  username: string;
+  shift_start: string; // ISO
+  shift_end: string;   // ISO
+  notes: string | null;
+  // From nfo_status history (filled by /api/roster for shifts that have started)
+  first_on_shift_at: string | null;
+  last_on_shift_at: string | null;
+};
+
+export type NewRosterShift = Pick<RosterShift, "username" | "shift_start" | "shift_end" | "notes">;
+
+export type ShiftComplianceFlag = "late_start" | "early_logout" | "no_show";
+
+export type ShiftCompliance = {
+  state: "upcoming" | "in_progress" | "completed";
+  flags: ShiftComplianceFlag[];
+  lateByMin: number | null;
+  earlyByMin: number | null;
+  firstOnShiftAt: number | null; // epoch ms, history merged with the live heartbeat
+};
+
+export type RosterCsvResult = {
+  shifts: NewRosterShift[];
+  errors: string[]; // "Line 3: ..." for rows that couldn't be parsed
+};
+
+export type RosterAreaCoverage = {
+  rosteredNow: number; // shifts covering `now`
+  coveredNow: number;  // of those, NFO currently on shift
+  issues: number;      // today's shifts with a late start / early logout / no-show
+};
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const LATE_START_GRACE_MIN = 10;
+export const EARLY_LOGOUT_GRACE_MIN = 10;
+
+// How far outside the shift an on-shift heartbeat still counts towards it
+export const ROSTER_ACTUAL_WINDOW_MIN = 120;
+
+export const SHIFT_FLAG_LABELS: Record<ShiftComplianceFlag, string> = {
+  late_start: "Late start",
+  early_logout: "Early logout",
+  no_show: "No-show",
+};
+
+// ============================================================================
+// CSV import
+// ============================================================================
+
+const TIME_PATTERN = /^(\d{1,2}):(\d{2})$/;
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+// Local date + "HH:MM" → Date (browser time zone)
+function localDateTime(date: string, time: string): Date | null {
+  const d = DATE_PATTERN.exec(date);
+  const t = TIME_PATTERN.exec(time);
+  if (!d || !t) return null;
+  const hours = Number(t[1]);
+  const minutes = Number(t[2]);
+  if (hours > 23 || minutes > 59) return null;
+  const result = new Date(Number(d[1]), Number(d[2]) - 1, Number(d[3]), hours, minutes);
+  return Number.isNaN(result.getTime()) ? null : result;
+}
+
+/**
+ * Build a shift from a local date and start/end times. An end time at or
+ * before the start is a night shift ending the next day.
+ */
+export function buildRosterShift(
+  username: string,
+  date: string,
+  startTime: string,
+  endTime: string,
+  notes: string | null = null
+): NewRosterShift | null {
+  const start = localDateTime(date, startTime);
+  const end = localDateTime(date, endTime);
+  if (!username.trim() || !start || !end) return null;
+  if (end.getTime() <= start.getTime()) end.setDate(end.getDate() + 1);
+  return {
+    username: username.trim(),
+    shift_start: start.toISOString(),
+    shift_end: end.toISOString(),
+    notes: notes?.trim() || null,
+  };
+}
+
+/**
+ * Parse roster CSV: `username,date,start,end[,notes]` with date YYYY-MM-DD and
+ * times HH:MM in local time. A header row and blank lines are skipped.
+ */
+export function parseRosterCsv(text: string): RosterCsvResult {
+  const shifts: NewRosterShift[] = [];
+  const errors: string[] = [];
+
+  text.split(/\r?\n/).forEach((rawLine, idx) => {
+    const line = rawLine.trim();
+    if (!line) return;
+    const cells = line.split(",").map((c) => c.trim().replace(/^"|"$/g, ""));
+    if (idx === 0 && cells[0]?.toLowerCase() === "username") return;
+
+    const [username, date, start, end, ...rest] = cells;
+    const shift = buildRosterShift(username ?? "", date ?? "", start ?? "", end ?? "", rest.join(",") || null);
+    if (shift) {
+      shifts.push(shift);
+    } else {
+      errors.push(`Line ${idx + 1}: expected username,YYYY-MM-DD,HH:MM,HH:MM – got "${line}"`);
+    }
+  });
+
+  return { shifts, errors };
+}
+
+// ============================================================================
+// Compliance
+// ============================================================================
+
+const toMs = (iso: string | null | undefined) => (iso ? new Date(iso).getTime() : null);
+
+/**
+ * Compare a planned shift with the NFO's on-shift heartbeats at `now`.
+ * The live heartbeat fills in what the (periodically loaded) history hasn't
+ * seen yet, e.g. an NFO who came on shift a minute ago.
+ */
+export function evaluateShiftCompliance(
+  shift: RosterShift,
+  live: NfoStatusRow | undefined,
+  now: number
+): ShiftCompliance {
+  const start = new Date(shift.shift_start).getTime();
+  const end = new Date(shift.shift_end).getTime();
+  const windowMs = ROSTER_ACTUAL_WINDOW_MIN * 60_000;
+
+  let first = toMs(shift.first_on_shift_at);
+  let last = toMs(shift.last_on_shift_at);
+
+  const liveAt = toMs(live?.last_active_at);
+  if (live?.on_shift === true && liveAt != null && liveAt >= start - windowMs && liveAt <= end + windowMs) {
+    if (liveAt <= end && (first == null || liveAt < first)) first = liveAt;
+    if (liveAt >= start && (last == null || liveAt > last)) last = liveAt;
+  }
+
+  const state = now < start ? "upcoming" : now <= end ? "in_progress" : "completed";
+  const flags: ShiftComplianceFlag[] = [];
+  let lateByMin: number | null = null;
+  let earlyByMin: number | null = null;
+
+  if (state === "upcoming") {
+    return { state, flags, lateByMin, earlyByMin, firstOnShiftAt: first };
+  }
+
+  if (first == null) {
+    if (now > start + LATE_START_GRACE_MIN * 60_000) flags.push("no_show");
+    return { state, flags, lateByMin, earlyByMin, firstOnShiftAt: first };
+  }
+
+  if (first > start + LATE_START_GRACE_MIN * 60_000) {
+    flags.push("late_start");
+    lateByMin = Math.round((first - start) / 60_000);
+  }
+
+  // Finished shift: last on-shift heartbeat well before the end.
+  // Running shift: the NFO has already switched off shift after starting.
+  const loggedOffMidShift =
+    state === "in_progress" && live?.on_shift === false && liveAt != null && liveAt > first;
+  const leftEarly = state === "completed" && last != null && last < end - EARLY_LOGOUT_GRACE_MIN * 60_000;
+  if (loggedOffMidShift || leftEarly) {
+    flags.push("early_logout");
+    earlyByMin = Math.round((end - (loggedOffMidShift ? liveAt! : last!)) / 60_000);
+  }
+
+  return { state, flags, lateByMin, earlyByMin, firstOnShiftAt: first };
+}
+
+/**
+ * Roster coverage per area (home_location of the rostered NFO) at `now`.
+ */
+export function computeRosterCoverage(
+  shifts: RosterShift[],
+  nfosByUsername: Map<string, NfoStatusRow & { isOnShift?: boolean }>,
+  now: number
+): Map<string, RosterAreaCoverage> {
+  const coverage = new Map<string, RosterAreaCoverage>();
+
+  for (const shift of shifts) {
+    const nfo = nfosByUsername.get(shift.username);
+    const area = nfo?.home_location?.trim();
+    if (!nfo || !area) continue;
+
+    const entry = coverage.get(area) ?? { rosteredNow: 0, coveredNow: 0, issues: 0 };
+    const compliance = evaluateShiftCompliance(shift, nfo, now);
+
+    if (compliance.state === "in_progress") {
+      entry.rosteredNow += 1;
+      if (nfo.isOnShift ?? nfo.on_shift === true) entry.coveredNow += 1;
+    }
+    if (compliance.flags.length > 0) entry.issues += 1;
+
+    coverage.set(area, entry);
+  }
+
+  return coverage;
+}
+
+// ============================================================================
+// Dates
+// ============================================================================
+
+/**
+ * [start, end) of the local day containing `day` ("YYYY-MM-DD"), as ISO strings.
+ */
+export function localDayRange(day: string): { from: string; to: string } | null {
+  const start = localDateTime(day, "00:00");
+  if (!start) return null;
+  const end = new Date(start);
+  end.setDate(end.getDate() + 1);
+  return { from: start.toISOString(), to: end.toISOString() };
+}
+
+export function toLocalDateInput(ms: number): string {
+  const d = new Date(ms);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+}
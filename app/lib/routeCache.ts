@@ -0,0 +1,179 @@
+/**
+ * Route result cache - the same NFO/site pair shouldn't cost a full round of
+ * routing engine calls every time someone clicks "Route".
+ *
+ * Two layers, both keyed by snapped coordinates + profile + engine:
+ * - Server (/api/route): in-memory per provider, shared by every dashboard user
+ *   of that server instance.
+ * - Browser (calculateBestRoute): IndexedDB, survives reloads.
+ *
+ * Coordinates are rounded to ROUTE_CACHE_COORD_DECIMALS (~11 m), so GPS jitter
+ * of an NFO standing still still hits the cache. Both layers expire entries
+ * after ROUTE_CACHE_TTL_MS and evict the oldest beyond their size limit.
+ */
+
+// ============================================================================
+// Keys
+// ============================================================================
+
+export const ROUTE_CACHE_COORD_DECIMALS = 4;
+
+// Bump whenever the cached route shape changes (e.g. v2 added turn-by-turn `steps`)
+// so entries saved in the old shape are never served
+const ROUTE_CACHE_SHAPE_VERSION = 2;
+
+// Road network changes are rare - durations are typical (no live traffic), so hours are fine
+export const ROUTE_CACHE_TTL_MS = 6 * 60 * 60 * 1000;
+
+export const SERVER_ROUTE_CACHE_MAX_ENTRIES = 2000;
+export const BROWSER_ROUTE_CACHE_MAX_ENTRIES = 500;
+
+/**
+ * Cache key for a route through `coordinates` ([lng, lat] pairs, in order).
+ * `engine` is a provider id on the server, or "best" for the browser's chosen result.
+ */
+export function routeCacheKey(coordinates: [number, number][], profile: string, engine: string): string {
+  const snapped = coordinates
+    .map(([lng, lat]) => `${lng.toFixed(ROUTE_CACHE_COORD_DECIMALS)},${lat.toFixed(ROUTE_CACHE_COORD_DECIMALS)}`)
+    .join(";");
+  return `v${ROUTE_CACHE_SHAPE_VERSION}|${engine}|${profile}|${snapped}`;
+}
+
+// ============================================================================
+// Server: in-memory
+// ============================================================================
+
+export type MemoryRouteCache<T> = {
+  get(key: string): T | null;
+  set(key: string, value: T): void;
+};
+
+/**
+ * Small TTL + LRU map. Map keeps insertion order, so re-inserting on read moves
+ * an entry to the end and the first key is always the least recently used.
+ */
+export function createMemoryRouteCache<T>(
+  maxEntries = SERVER_ROUTE_CACHE_MAX_ENTRIES,
+  ttlMs = ROUTE_CACHE_TTL_MS
+): MemoryRouteCache<T> {
+  const entries = new Map<string, { value: T; savedAt: number }>();
+
+  return {
+    get(key) {
+      const entry = entries.get(key);
+      if (!entry) return null;
+      if (Date.now() - entry.savedAt > ttlMs) {
+        entries.delete(key);
+        return null;
+      }
+      entries.delete(key);
+      entries.set(key, entry);
+      return entry.value;
+    },
+    set(key, value) {
+      entries.delete(key);
+      entries.set(key, { value, savedAt: Date.now() });
+      while (entries.size > maxEntries) {
+        const oldest = entries.keys().next().value;
+        if (oldest === undefined) break;
+        entries.delete(oldest);
+      }
+    },
+  };
+}
+
+// ============================================================================
+// Browser: IndexedDB
+// ============================================================================
+
+const DB_NAME = "nfo-route-cache";
+const DB_VERSION = 1;
+const STORE_NAME = "routes";
+
+type StoredRoute<T> = {
+  key: string;
+  value: T;
+  savedAt: number;
+};
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+function openRouteCacheDb(): Promise<IDBDatabase | null> {
+  if (typeof indexedDB === "undefined") return Promise.resolve(null);
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const store = request.result.createObjectStore(STORE_NAME, { keyPath: "key" });
+      store.createIndex("savedAt", "savedAt");
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      // Private browsing / blocked storage - run without the browser cache
+      console.warn("routeCache.ts IndexedDB unavailable:", request.error);
+      resolve(null);
+    };
+  });
+  return dbPromise;
+}
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * Cached value for `key`, or null when missing, expired or IndexedDB is unavailable.
+ */
+export async function getBrowserCachedRoute<T>(key: string): Promise<T | null> {
+  try {
+    const db = await openRouteCacheDb();
+    if (!db) return null;
+
+    const store = db.transaction(STORE_NAME, "readonly").objectStore(STORE_NAME);
+    const entry = (await requestToPromise(store.get(key))) as StoredRoute<T> | undefined;
+    if (!entry || Date.now() - entry.savedAt > ROUTE_CACHE_TTL_MS) return null;
+    return entry.value;
+  } catch (error) {
+    console.warn("routeCache.ts read failed:", error);
+    return null;
+  }
+}
+
+/**
+ * Store `value` under `key`, then drop the oldest entries beyond the size limit.
+ */
+export async function putBrowserCachedRoute<T>(key: string, value: T): Promise<void> {
+  try {
+    const db = await openRouteCacheDb();
+    if (!db) return;
+
+    const store = db.transaction(STORE_NAME, "readwrite").objectStore(STORE_NAME);
+    const entry: StoredRoute<T> = { key, value, savedAt: Date.now() };
+    await requestToPromise(store.put(entry));
+
+    const count = await requestToPromise(store.count());
+    let excess = count - BROWSER_ROUTE_CACHE_MAX_ENTRIES;
+    if (excess <= 0) return;
+
+    // savedAt index iterates oldest first
+    const cursorRequest = store.index("savedAt").openCursor();
+    await new Promise<void>((resolve, reject) => {
+      cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result;
+        if (!cursor || excess <= 0) {
+          resolve();
+          return;
+        }
+        cursor.delete();
+        excess--;
+        cursor.continue();
+      };
+      cursorRequest.onerror = () => reject(cursorRequest.error);
+    });
+  } catch (error) {
+    console.warn("routeCache.ts write failed:", error);
+  }
+}
@@ -0,0 +1,274 @@
+/**
+ * Multi-stop route optimisation for the Route Planner.
+ *
+ * Given an NFO start position, an optional warehouse pickup (always visited first)
+ * and a list of sites, find the visiting order with the lowest total driving time:
+ * 1. Fetch one duration/distance matrix for all stops via /api/route-matrix
+ * 2. Solve the open-path ordering (exact Held-Karp for small lists, nearest
+ *    neighbour + 2-opt for larger ones)
+ * 3. Compute each leg with calculateBestRoute (ORS vs OSRM) for geometry and per-leg ETA
+ */
+
+import {
+  calculateBestRoute,
+  fetchRouteMatrix,
+  haversineKm,
+  type RouteResult,
+  type RouteRequestOptions,
+} from "./routing";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type OptimizerStop = {
+  id: string;       // site_id, or warehouse id for the pickup
+  label: string;
+  lat: number;
+  lng: number;
+};
+
+export type OptimizedLeg = {
+  from: OptimizerStop;
+  to: OptimizerStop;
+  route: RouteResult;
+};
+
+export interface MultiStopRouteResult {
+  order: OptimizerStop[];          // sites in visiting order (warehouse excluded)
+  warehouse: OptimizerStop | null; // pickup visited before the first site
+  legs: OptimizedLeg[];
+  totalDistanceKm: number;
+  totalDurationMin: number;
+  coordinates: [number, number][]; // [lng, lat] pairs for the whole trip
+  isFallback: boolean;             // true if any leg fell back to straight-line
+  optimizer: "exact" | "heuristic";
+  costSource: "matrix" | "haversine";
+}
+
+// Above this many sites the exact solver gets too slow for the browser
+const EXACT_SOLVER_MAX_STOPS = 10;
+
+// Maximum sites per trip (matrix and per-leg routing cost grows quickly)
+export const MAX_MULTI_STOP_SITES = 12;
+
+// Used to turn straight-line km into a rough ordering cost when the matrix is unavailable
+const FALLBACK_SPEED_KMH = 50;
+
+// ============================================================================
+// Ordering
+// ============================================================================
+
+/**
+ * Exact open-path TSP (fixed start at index 0, no return) using Held-Karp DP.
+ * cost[i][j] is the cost of travelling from node i to node j.
+ * Returns node indices 1..n-1 in visiting order.
+ */
+function solveExact(cost: number[][]): number[] {
+  const n = cost.length - 1; // nodes to visit (excluding start)
+  if (n === 0) return [];
+
+  const FULL = 1 << n;
+  const dp: number[][] = Array.from({ length: FULL }, () => new Array(n).fill(Infinity));
+  const parent: number[][] = Array.from({ length: FULL }, () => new Array(n).fill(-1));
+
+  for (let j = 0; j < n; j++) {
+    dp[1 << j][j] = cost[0][j + 1];
+  }
+
+  for (let mask = 1; mask < FULL; mask++) {
+    for (let last = 0; last < n; last++) {
+      if (!(mask & (1 << last))) continue;
+      const current = dp[mask][last];
+      if (!Number.isFinite(current)) continue;
+
+      for (let next = 0; next < n; next++) {
+        if (mask & (1 << next)) continue;
+        const nextMask = mask | (1 << next);
+        const candidate = current + cost[last + 1][next + 1];
+        if (candidate < dp[nextMask][next]) {
+          dp[nextMask][next] = candidate;
+          parent[nextMask][next] = last;
+        }
+      }
+    }
+  }
+
+  // Best final node, then walk parents back
+  let bestLast = 0;
+  for (let j = 1; j < n; j++) {
+    if (dp[FULL - 1][j] < dp[FULL - 1][bestLast]) bestLast = j;
+  }
+
+  const order: number[] = [];
+  let mask = FULL - 1;
+  let node = bestLast;
+  while (node !== -1) {
+    order.push(node + 1);
+    const prev = parent[mask][node];
+    mask &= ~(1 << node);
+    node = prev;
+  }
+  return order.reverse();
+}
+
+/**
+ * Heuristic open-path ordering: nearest neighbour, then 2-opt improvement.
+ */
+function solveHeuristic(cost: number[][]): number[] {
+  const n = cost.length;
+  const visited = new Set<number>([0]);
+  const order: number[] = [];
+  let current = 0;
+
+  while (order.length < n - 1) {
+    let best = -1;
+    for (let j = 1; j < n; j++) {
+      if (visited.has(j)) continue;
+      if (best === -1 || cost[current][j] < cost[current][best]) best = j;
+    }
+    visited.add(best);
+    order.push(best);
+    current = best;
+  }
+
+  const pathCost = (path: number[]) => {
+    let total = 0;
+    let prev = 0;
+    for (const node of path) {
+      total += cost[prev][node];
+      prev = node;
+    }
+    return total;
+  };
+
+  // 2-opt: reverse segments while it lowers the total cost
+  let improved = true;
+  let bestCost = pathCost(order);
+  while (improved) {
+    improved = false;
+    for (let i = 0; i < order.length - 1; i++) {
+      for (let k = i + 1; k < order.length; k++) {
+        const candidate = [
+          ...order.slice(0, i),
+          ...order.slice(i, k + 1).reverse(),
+          ...order.slice(k + 1),
+        ];
+        const candidateCost = pathCost(candidate);
+        if (candidateCost < bestCost - 1e-9) {
+          order.splice(0, order.length, ...candidate);
+          bestCost = candidateCost;
+          improved = true;
+        }
+      }
+    }
+  }
+
+  return order;
+}
+
+/**
+ * Find the best visiting order for `sites` starting at `start`.
+ * Returns the sites in order plus which solver and cost source were used.
+ */
+export async function optimizeStopOrder(
+  start: { lat: number; lng: number },
+  sites: OptimizerStop[],
+  options: RouteRequestOptions = {}
+): Promise<{ order: OptimizerStop[]; optimizer: "exact" | "heuristic"; costSource: "matrix" | "haversine" }> {
+  if (sites.length <= 1) {
+    return { order: [...sites], optimizer: "exact", costSource: "haversine" };
+  }
+
+  const nodes: [number, number][] = [
+    [start.lng, start.lat],
+    ...sites.map((s) => [s.lng, s.lat] as [number, number]),
+  ];
+
+  // Cost matrix in minutes: driving duration where known, else straight-line at FALLBACK_SPEED_KMH
+  const airMinutes = (i: number, j: number) =>
+    (haversineKm(nodes[i][1], nodes[i][0], nodes[j][1], nodes[j][0]) / FALLBACK_SPEED_KMH) * 60;
+
+  const matrix = await fetchRouteMatrix(nodes, nodes, options);
+  const cost: number[][] = nodes.map((_, i) =>
+    nodes.map((__, j) => {
+      if (i === j) return 0;
+      const driving = matrix?.durationsMin[i][j];
+      return driving != null ? driving : airMinutes(i, j);
+    })
+  );
+
+  const useExact = sites.length <= EXACT_SOLVER_MAX_STOPS;
+  const indices = useExact ? solveExact(cost) : solveHeuristic(cost);
+
+  return {
+    order: indices.map((idx) => sites[idx - 1]),
+    optimizer: useExact ? "exact" : "heuristic",
+    costSource: matrix ? "matrix" : "haversine",
+  };
+}
+
+// ============================================================================
+// Full trip
+// ============================================================================
+
+/**
+ * Plan a full multi-stop trip: optional warehouse pickup, then all sites in optimal order.
+ * Each leg is routed with calculateBestRoute so the result carries per-leg ETA and geometry;
+ * legs are requested concurrently once the order is known.
+ */
+export async function planMultiStopRoute(
+  nfo: { lat: number; lng: number; label: string },
+  sites: OptimizerStop[],
+  warehouse: OptimizerStop | null,
+  options: RouteRequestOptions = {}
+): Promise<MultiStopRouteResult> {
+  if (sites.length === 0) {
+    throw new Error("Select at least one site");
+  }
+  if (sites.length > MAX_MULTI_STOP_SITES) {
+    throw new Error(`At most ${MAX_MULTI_STOP_SITES} sites per trip`);
+  }
+
+  // Ordering starts from the warehouse when there is a pickup, else from the NFO
+  const orderingStart = warehouse ?? nfo;
+  const { order, optimizer, costSource } = await optimizeStopOrder(orderingStart, sites, options);
+
+  const startStop: OptimizerStop = { id: "nfo", label: nfo.label, lat: nfo.lat, lng: nfo.lng };
+  const sequence: OptimizerStop[] = [startStop, ...(warehouse ? [warehouse] : []), ...order];
+
+  console.log("routeOptimizer.ts planMultiStopRoute", {
+    sites: sites.length,
+    viaWarehouse: !!warehouse,
+    optimizer,
+    costSource,
+    order: order.map((s) => s.id),
+  });
+
+  const legs: OptimizedLeg[] = await Promise.all(
+    sequence.slice(0, -1).map(async (from, i) => {
+      const to = sequence[i + 1];
+      const route = await calculateBestRoute(from.lat, from.lng, to.lat, to.lng, options);
+      return { from, to, route };
+    })
+  );
+
+  // Join leg geometries, skipping the duplicated joint point
+  const coordinates: [number, number][] = [];
+  for (const leg of legs) {
+    const legCoords = leg.route.coordinates;
+    coordinates.push(...(coordinates.length > 0 ? legCoords.slice(1) : legCoords));
+  }
+
+  return {
+    order,
+    warehouse,
+    legs,
+    totalDistanceKm: legs.reduce((sum, leg) => sum + leg.route.distanceKm, 0),
+    totalDurationMin: legs.reduce((sum, leg) => sum + leg.route.durationMin, 0),
+    coordinates,
+    isFallback: legs.some((leg) => leg.route.isFallback),
+    optimizer,
+    costSource,
+  };
+}
@@ -0,0 +1,181 @@
+/**
+ * Route sheet - turn-by-turn directions as a printable / shareable document.
+ *
+ * Supervisors used to read directions off the map to engineers over the phone.
+ * A route sheet groups the chosen route's steps per leg (NFO → warehouse →
+ * site) and can be printed from a new window or shared as plain text (Web Share
+ * API on phones, clipboard elsewhere).
+ */
+
+import type { RouteStep } from "./routing";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type RouteSheetLeg = {
+  from: string;
+  to: string;
+  distanceKm: number;
+  durationMin: number;
+  steps: RouteStep[];
+};
+
+export type RouteSheet = {
+  title: string;           // e.g. "NFO123 → SITE-0042"
+  engineLabel?: string;    // routing engine that produced the steps
+  distanceKm: number;
+  durationMin: number | null; // null for straight-line fallback routes
+  warning?: string;
+  legs: RouteSheetLeg[];
+};
+
+export type RouteSheetShareOutcome = "shared" | "copied" | "cancelled" | "failed";
+
+// ============================================================================
+// Building
+// ============================================================================
+
+/**
+ * Split a route's steps into legs between consecutive stops.
+ * `stops` are the labels of every stop in order (NFO, [warehouse,] site);
+ * steps carry legIndex when the route was joined from several legs.
+ */
+export function buildRouteSheetLegs(steps: RouteStep[], stops: string[]): RouteSheetLeg[] {
+  const legCount = Math.max(stops.length - 1, 1);
+  const legs: RouteSheetLeg[] = [];
+
+  for (let i = 0; i < legCount; i++) {
+    const legSteps = legCount === 1 ? steps : steps.filter((s) => (s.legIndex ?? 0) === i);
+    legs.push({
+      from: stops[i] ?? "Start",
+      to: stops[i + 1] ?? "Destination",
+      distanceKm: legSteps.reduce((sum, s) => sum + s.distanceKm, 0),
+      durationMin: legSteps.reduce((sum, s) => sum + s.durationMin, 0),
+      steps: legSteps,
+    });
+  }
+  return legs;
+}
+
+export function routeSheetStepCount(sheet: RouteSheet): number {
+  return sheet.legs.reduce((sum, leg) => sum + leg.steps.length, 0);
+}
+
+// ============================================================================
+// Formatting
+// ============================================================================
+
+export function formatStepDistance(km: number): string {
+  return km < 1 ? `${Math.round(km * 1000)} m` : `${km.toFixed(1)} km`;
+}
+
+function formatSheetTotals(sheet: RouteSheet): string {
+  const duration = sheet.durationMin != null ? `, ${Math.round(sheet.durationMin)} min` : " (straight line)";
+  const engine = sheet.engineLabel ? ` · ${sheet.engineLabel}` : "";
+  return `${sheet.distanceKm.toFixed(1)} km${duration}${engine}`;
+}
+
+/**
+ * Plain-text sheet for WhatsApp/SMS/email - one numbered line per step.
+ */
+export function formatRouteSheetText(sheet: RouteSheet): string {
+  const lines: string[] = [sheet.title, formatSheetTotals(sheet)];
+  if (sheet.warning) lines.push(`⚠️ ${sheet.warning}`);
+
+  for (const leg of sheet.legs) {
+    lines.push("");
+    if (sheet.legs.length > 1) {
+      lines.push(`${leg.from} → ${leg.to} (${leg.distanceKm.toFixed(1)} km, ${Math.round(leg.durationMin)} min)`);
+    }
+    if (leg.steps.length === 0) {
+      lines.push("No turn-by-turn directions available for this leg.");
+      continue;
+    }
+    leg.steps.forEach((step, idx) => {
+      lines.push(`${idx + 1}. ${step.instruction} (${formatStepDistance(step.distanceKm)})`);
+    });
+  }
+
+  return lines.join("\n");
+}
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+function renderRouteSheetHtml(sheet: RouteSheet): string {
+  const legsHtml = sheet.legs
+    .map((leg) => {
+      const heading =
+        sheet.legs.length > 1
+          ? `<h2>${escapeHtml(leg.from)} → ${escapeHtml(leg.to)} <small>${leg.distanceKm.toFixed(1)} km, ${Math.round(leg.durationMin)} min</small></h2>`
+          : "";
+      const rows = leg.steps.length
+        ? leg.steps
+            .map(
+              (step, idx) =>
+                `<tr><td>${idx + 1}</td><td>${escapeHtml(step.instruction)}</td><td>${formatStepDistance(step.distanceKm)}</td></tr>`
+            )
+            .join("")
+        : `<tr><td colspan="3">No turn-by-turn directions available for this leg.</td></tr>`;
+      return `${heading}<table>${rows}</table>`;
+    })
+    .join("");
+
+  return `<!doctype html><html><head><meta charset="utf-8"><title>${escapeHtml(sheet.title)}</title>
+<style>
+body{font-family:system-ui,sans-serif;margin:24px;color:#1e293b}
+h1{font-size:18px;margin:0 0 4px}h2{font-size:14px;margin:18px 0 6px}small{color:#64748b;font-weight:normal}
+p{margin:0 0 8px;font-size:13px}.warning{color:#c2410c}
+table{width:100%;border-collapse:collapse;font-size:13px}td{border-bottom:1px solid #e2e8f0;padding:4px 6px;vertical-align:top}
+td:first-child{width:28px;color:#64748b}td:last-child{width:70px;text-align:right;white-space:nowrap}
+</style></head><body>
+<h1>${escapeHtml(sheet.title)}</h1>
+<p>${escapeHtml(formatSheetTotals(sheet))} · generated ${escapeHtml(new Date().toLocaleString())}</p>
+${sheet.warning ? `<p class="warning">⚠️ ${escapeHtml(sheet.warning)}</p>` : ""}
+${legsHtml}
+</body></html>`;
+}
+
+// ============================================================================
+// Output
+// ============================================================================
+
+/**
+ * Open the sheet in a new window and bring up the print dialog.
+ * Returns false when the browser blocked the popup.
+ */
+export function printRouteSheet(sheet: RouteSheet): boolean {
+  const win = window.open("", "_blank");
+  if (!win) return false;
+  win.document.write(renderRouteSheetHtml(sheet));
+  win.document.close();
+  win.focus();
+  win.print();
+  return true;
+}
+
+/**
+ * Share the plain-text sheet via the Web Share API, falling back to the clipboard.
+ */
+export async function shareRouteSheet(sheet: RouteSheet): Promise<RouteSheetShareOutcome> {
+  const text = formatRouteSheetText(sheet);
+
+  if (typeof navigator.share === "function") {
+    try {
+      await navigator.share({ title: sheet.title, text });
+      return "shared";
+    } catch (error) {
+      // User closed the share sheet - don't silently copy instead
+      if (error instanceof DOMException && error.name === "AbortError") return "cancelled";
+    }
+  }
+
+  try {
+    await navigator.clipboard.writeText(text);
+    return "copied";
+  } catch (error) {
+    console.warn("routeSheet.ts clipboard write failed:", error);
+    return "failed";
+  }
+}
@@ -1,40 +1,105 @@
 /**
- * Shared routing logic for ORS vs OSRM comparison.
+ * Shared routing logic for comparing the configured routing providers.
  * Used by both Route Planner and Dashboard NFO Route button.
  * 
  * This module:
  * 1. Computes air distance using haversine
- * 2. Calls ORS backend (/api/ors-route)
- * 3. Calls OSRM public API
- * 4. Compares both and picks the better engine
- * 5. Returns standardized result with warning if route seems suspicious
+ * 2. Calls /api/route, which runs every configured provider (ORS, OSRM, self-hosted
+ *    OSRM, Valhalla, GraphHopper - see routingConfig.ts / routingProviders.ts)
+ * 3. Compares the results in priority order and picks the better engine
+ * 4. Returns standardized result with warning if route seems suspicious
+ *
+ * Results are cached in the browser (IndexedDB) and per provider on the server -
+ * see routeCache.ts. Cached results carry `cacheSource` so the UI can mark them.
+ *
+ * Concurrency: providers run in parallel on the server with per-provider timeouts,
+ * and /api/route answers as soon as the selection rule is decided (see
+ * isProviderSelectionDecided) - "first" once the primary answers, "best" at most
+ * BEST_ROUTE_GRACE_MS after the first answer (once the primary is known).
+ * Multi-leg routes request their legs concurrently.
+ * Every entry point takes an optional AbortSignal; an aborted request rejects with
+ * an AbortError (check with isAbortError) so a newer click can cancel a stale one.
  */
 
+import { routeCacheKey, getBrowserCachedRoute, putBrowserCachedRoute } from "./routeCache";
+
 // Sanity check threshold: if route distance > RATIO_THRESHOLD × air distance, warn user
 export const ROUTE_SANITY_RATIO_THRESHOLD = 2.0;
 
-// Engine type for route source tracking
-export type RouteEngine = "ors" | "osrm";
+// Engine type for route source tracking (one per routing provider kind)
+export type RouteEngine = "ors" | "osrm" | "valhalla" | "graphhopper";
+
+export const ROUTE_ENGINE_LABELS: Record<RouteEngine, string> = {
+  ors: "ORS",
+  osrm: "OSRM",
+  valhalla: "Valhalla",
+  graphhopper: "GraphHopper",
+};
+
+// One turn-by-turn instruction, normalised across engines
+export interface RouteStep {
+  instruction: string; // e.g. "Turn left onto King Fahd Road"
+  distanceKm: number;  // distance until the next step
+  durationMin: number;
+  name?: string;       // road name, when the engine reports one
+  location?: [number, number]; // [lng, lat] where the maneuver happens
+  legIndex?: number;   // via-warehouse routes: 0 = NFO → warehouse, 1 = warehouse → site
+}
 
 // Individual engine result (raw data from each engine)
 export interface EngineRouteData {
   distanceKm: number;
   durationMin: number;
   coordinates: [number, number][]; // [lng, lat] pairs
+  steps?: RouteStep[]; // turn-by-turn directions (empty/missing if the engine gave none)
 }
 
+// One configured provider's result from /api/route (route is null if it failed)
+export interface ProviderRouteData {
+  providerId: string; // e.g. "ors", "osrm-local"
+  engine: RouteEngine;
+  label: string;
+  route: EngineRouteData | null;
+  cached?: boolean; // served from the server route cache
+  skipped?: boolean; // cancelled because the selection was already decided
+}
+
+// "best" = calculateBestRoute's comparison, "first" = highest-priority provider that answers
+export type ProviderSelectionStrategy = "best" | "first";
+
+export type RouteRequestOptions = {
+  signal?: AbortSignal; // abort to cancel a request that is no longer wanted
+};
+
+// Whole /api/route round trip - a little above the server's per-provider timeout
+export const ROUTE_REQUEST_TIMEOUT_MS = 20_000;
+
+// "best": how long slower providers get to beat the primary route once any
+// provider has answered - after that the primary's route is used
+export const BEST_ROUTE_GRACE_MS = 2_000;
+
+// Where a cached result came from ("browser" = IndexedDB, "server" = /api/route memory)
+export type RouteCacheSource = "browser" | "server";
+
+// Routing profile used for every request (and part of the cache key)
+const ROUTE_PROFILE = "driving-car";
+
 // Result from calculateBestRoute
 export interface RouteResult {
   distanceKm: number;
   durationMin: number;
   engine: RouteEngine;
+  providerId?: string; // which configured provider produced the chosen route
   coordinates: [number, number][]; // [lng, lat] pairs (ORS/OSRM format)
   airDistanceKm: number;
   warning?: string;
-  isFallback?: boolean; // true if both engines failed and we're showing air distance
+  isFallback?: boolean; // true if every engine failed and we're showing air distance
   // NEW: Raw results from both engines (for showing alternatives in UI)
   orsResult?: EngineRouteData;
   osrmResult?: EngineRouteData;
+  providerResults?: ProviderRouteData[]; // every provider, in priority order
+  cacheSource?: RouteCacheSource; // set when the result was served from a route cache
+  steps?: RouteStep[]; // turn-by-turn directions of the chosen route
 }
 
 /**
@@ -60,82 +125,112 @@ export function haversineKm(lat1: number, lon1: number, lat2: number, lon2: numb
 }
 
 /**
- * Call OSRM public API for routing.
- * Returns null if OSRM fails or can't find a route.
+ * True for the rejection of an aborted request (fetch or signal.throwIfAborted()).
  */
-async function fetchOsrmRoute(
-  startLat: number,
-  startLon: number,
-  endLat: number,
-  endLon: number
-): Promise<{ distanceKm: number; durationMin: number; coordinates: [number, number][] } | null> {
-  try {
-    // OSRM public endpoint (uses lon,lat order in URL)
-    const osrmUrl =
-      `https://router.project-osrm.org/route/v1/driving/` +
-      `${startLon},${startLat};${endLon},${endLat}` +
-      `?overview=full&geometries=geojson`;
-
-    console.log("routing.ts OSRM URL:", osrmUrl);
-
-    const response = await fetch(osrmUrl);
-    const data = await response.json();
+export function isAbortError(error: unknown): boolean {
+  return error instanceof Error && error.name === "AbortError";
+}
 
-    console.log("routing.ts OSRM response:", data);
-
-    if (data.code === "Ok" && data.routes && data.routes[0]) {
-      const route = data.routes[0];
-      // OSRM returns GeoJSON coordinates as [lng, lat] which is what we need
-      const coordinates: [number, number][] = route.geometry.coordinates;
-      return {
-        distanceKm: route.distance / 1000,
-        durationMin: route.duration / 60,
-        coordinates,
-      };
+/**
+ * calculateBestRoute's selection rule: start with the highest-priority provider
+ * that answered; a lower-priority one only wins if it is shorter AND not crazy
+ * (ratio <= ROUTE_SANITY_RATIO_THRESHOLD). Returns null if none answered.
+ */
+export function selectBestProviderRoute(
+  results: ProviderRouteData[],
+  airDistanceKm: number
+): (ProviderRouteData & { route: EngineRouteData }) | null {
+  const successful = results.filter(
+    (r): r is ProviderRouteData & { route: EngineRouteData } => r.route != null
+  );
+  if (successful.length === 0) return null;
+
+  let chosen = successful[0];
+  for (const candidate of successful.slice(1)) {
+    const ratio = candidate.route.distanceKm / Math.max(airDistanceKm, 0.001);
+    if (candidate.route.distanceKm < chosen.route.distanceKm && ratio <= ROUTE_SANITY_RATIO_THRESHOLD) {
+      chosen = candidate;
     }
-    return null;
-  } catch (error) {
-    console.error("routing.ts OSRM fetch error:", error);
-    return null;
   }
+  return chosen;
+}
+
+/**
+ * Whether the outcome of `strategy` can no longer change, given results in
+ * priority order with `undefined` for providers still running.
+ *
+ * - "first": decided once the highest-priority provider that hasn't failed answered.
+ * - "best": the primary (first success) must be known. After that, a pending
+ *   lower-priority provider could still win with a shorter route, so it's decided
+ *   once nothing is pending, the chosen route is already at air distance (no
+ *   driving route is shorter), or `graceExpired` - BEST_ROUTE_GRACE_MS have
+ *   passed since the first answer and slower providers lose by default.
+ */
+export function isProviderSelectionDecided(
+  results: (ProviderRouteData | undefined)[],
+  airDistanceKm: number,
+  strategy: ProviderSelectionStrategy,
+  graceExpired = false
+): boolean {
+  const primaryIndex = results.findIndex((r) => r === undefined || r.route != null);
+  if (primaryIndex === -1) return true; // everything failed
+  if (results[primaryIndex] === undefined) return false; // primary still running
+
+  if (strategy === "first" || graceExpired) return true;
+
+  const pending = results.some((r) => r === undefined);
+  if (!pending) return true;
+
+  const chosen = selectBestProviderRoute(results.filter((r): r is ProviderRouteData => r !== undefined), airDistanceKm);
+  return chosen != null && chosen.route.distanceKm <= airDistanceKm;
 }
 
 /**
- * Call ORS backend API for routing.
- * Returns null if ORS fails or can't find a route.
+ * Route the waypoints with every configured provider via /api/route.
+ * Returns [] if the endpoint fails or times out (callers fall back to air distance);
+ * rejects with an AbortError if `signal` was aborted.
  */
-async function fetchOrsRoute(
-  coords: [number, number][] // Array of [lng, lat] pairs
-): Promise<{ distanceKm: number; durationMin: number; coordinates: [number, number][] } | null> {
+async function fetchProviderRoutes(
+  coords: [number, number][], // Array of [lng, lat] pairs
+  strategy: ProviderSelectionStrategy,
+  signal?: AbortSignal
+): Promise<ProviderRouteData[]> {
+  // Own controller so the request also ends on ROUTE_REQUEST_TIMEOUT_MS
+  const controller = new AbortController();
+  const abort = () => controller.abort();
+  signal?.addEventListener("abort", abort);
+  const timeoutId = setTimeout(abort, ROUTE_REQUEST_TIMEOUT_MS);
+
   try {
-    const response = await fetch("/api/ors-route", {
+    signal?.throwIfAborted();
+    const response = await fetch("/api/route", {
       method: "POST",
       headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
-        coordinates: coords,
-        profile: "driving-car",
-      }),
+      body: JSON.stringify({ coordinates: coords, strategy }),
+      signal: controller.signal,
     });
 
     const data = await response.json();
-    console.log("routing.ts ORS response:", data);
-
-    if (data.ok && data.route) {
-      return {
-        distanceKm: data.route.distanceMeters / 1000,
-        durationMin: data.route.durationSeconds / 60,
-        coordinates: data.route.coordinates,
-      };
-    }
-    return null;
+    console.log("routing.ts provider results:", data.results ?? data.error);
+
+    if (!data.ok || !Array.isArray(data.results)) return [];
+    return data.results as ProviderRouteData[];
   } catch (error) {
-    console.error("routing.ts ORS fetch error:", error);
-    return null;
+    if (signal?.aborted) throw error;
+    console.error("routing.ts provider route fetch error:", error);
+    return [];
+  } finally {
+    clearTimeout(timeoutId);
+    signal?.removeEventListener("abort", abort);
   }
 }
 
+// First successful result of an engine kind (for the ORS/OSRM alternative switch in the UI)
+const firstRouteOfEngine = (results: ProviderRouteData[], engine: RouteEngine) =>
+  results.find((r) => r.engine === engine && r.route)?.route ?? undefined;
+
 /**
- * Calculate the best route between two points using ORS and OSRM comparison.
+ * Calculate the best route between two points by comparing the configured providers.
  * 
  * This is the main entry point used by both Route Planner and Dashboard.
  * For simple point-to-point routing (no waypoints).
@@ -144,13 +239,15 @@ async function fetchOrsRoute(
  * @param startLon - Start longitude (NFO position)
  * @param endLat - End latitude (Site position)
  * @param endLon - End longitude (Site position)
+ * @param options - optional AbortSignal
  * @returns RouteResult with best route data and optional warning
  */
 export async function calculateBestRoute(
   startLat: number,
   startLon: number,
   endLat: number,
-  endLon: number
+  endLon: number,
+  options: RouteRequestOptions = {}
 ): Promise<RouteResult> {
   // Step 1: Compute air distance with haversine
   const airDistanceKm = haversineKm(startLat, startLon, endLat, endLon);
@@ -167,66 +264,34 @@ export async function calculateBestRoute(
     [endLon, endLat],
   ];
 
-  // Step 2: Call ORS
-  const orsResult = await fetchOrsRoute(coords);
-  
-  // Step 3: Call OSRM
-  const osrmResult = await fetchOsrmRoute(startLat, startLon, endLat, endLon);
-
-  // Step 4: Extract values
-  const orsKm = orsResult?.distanceKm ?? null;
-  const orsMin = orsResult?.durationMin ?? null;
-  const orsCoords = orsResult?.coordinates ?? null;
-
-  const osrmKm = osrmResult?.distanceKm ?? null;
-  const osrmMin = osrmResult?.durationMin ?? null;
-  const osrmCoords = osrmResult?.coordinates ?? null;
+  // Step 2: Browser cache first - same snapped start/end as an earlier click
+  const cacheKey = routeCacheKey(coords, ROUTE_PROFILE, "best");
+  const cachedResult = await getBrowserCachedRoute<RouteResult>(cacheKey);
+  options.signal?.throwIfAborted();
+  if (cachedResult) {
+    console.log("routing.ts: Using browser-cached route", { engine: cachedResult.engine });
+    return { ...cachedResult, cacheSource: "browser" };
+  }
 
-  // Calculate ratios for sanity check
-  const orsRatio = orsKm != null ? orsKm / Math.max(airDistanceKm, 0.001) : null;
-  const osrmRatio = osrmKm != null ? osrmKm / Math.max(airDistanceKm, 0.001) : null;
+  // Step 3: Call every configured provider (in parallel, results in priority order)
+  const providerResults = await fetchProviderRoutes(coords, "best", options.signal);
+  options.signal?.throwIfAborted();
 
   console.log("routing.ts engine comparison:", {
-    orsKm,
-    orsRatio,
-    osrmKm,
-    osrmRatio,
+    providers: providerResults.map((r) => ({
+      provider: r.providerId,
+      km: r.route?.distanceKm ?? null,
+      ratio: r.route ? r.route.distanceKm / Math.max(airDistanceKm, 0.001) : null,
+      skipped: r.skipped,
+    })),
     airDistanceKm,
   });
 
-  // Step 5: Choose the best engine
-  let finalEngine: RouteEngine = "ors";
-  let finalKm: number;
-  let finalMin: number;
-  let finalCoords: [number, number][];
-
-  // If ORS has valid data, start with that
-  if (orsKm != null && orsCoords != null && orsMin != null) {
-    finalKm = orsKm;
-    finalMin = orsMin;
-    finalCoords = orsCoords;
-    finalEngine = "ors";
-
-    // Check if OSRM is better: shorter AND not crazy (ratio <= 2.0)
-    if (osrmKm != null && osrmCoords != null && osrmMin != null && osrmRatio != null) {
-      if (osrmKm < orsKm && osrmRatio <= ROUTE_SANITY_RATIO_THRESHOLD) {
-        finalKm = osrmKm;
-        finalMin = osrmMin;
-        finalCoords = osrmCoords;
-        finalEngine = "osrm";
-        console.log("routing.ts: Switching to OSRM (shorter and not crazy)");
-      }
-    }
-  } else if (osrmKm != null && osrmCoords != null && osrmMin != null) {
-    // ORS failed but OSRM worked
-    finalKm = osrmKm;
-    finalMin = osrmMin;
-    finalCoords = osrmCoords;
-    finalEngine = "osrm";
-    console.log("routing.ts: Using OSRM (ORS failed)");
-  } else {
-    // Both failed - return fallback with air distance
-    console.log("routing.ts: Both engines failed - using air distance fallback");
+  // Step 4: Choose the best engine
+  const chosen = selectBestProviderRoute(providerResults, airDistanceKm);
+  if (!chosen) {
+    // All providers failed - return fallback with air distance
+    console.log("routing.ts: All engines failed - using air distance fallback");
     return {
       distanceKm: airDistanceKm,
       durationMin: 0,
@@ -235,10 +300,17 @@ export async function calculateBestRoute(
       airDistanceKm,
       isFallback: true,
       warning: "Could not calculate driving route. Showing straight-line distance.",
+      providerResults,
     };
   }
 
-  // Step 6: Warning logic - warn if chosen engine distance > 2× air distance
+  const finalEngine = chosen.engine;
+  const finalKm = chosen.route.distanceKm;
+  const finalMin = chosen.route.durationMin;
+  const finalCoords = chosen.route.coordinates;
+  const finalSteps = chosen.route.steps ?? [];
+
+  // Step 5: Warning logic - warn if chosen engine distance > 2× air distance
   const finalRatio = finalKm / Math.max(airDistanceKm, 0.001);
   let warning: string | undefined;
 
@@ -248,31 +320,32 @@ export async function calculateBestRoute(
 
   console.log("routing.ts final decision:", {
     engine: finalEngine,
+    provider: chosen.providerId,
     finalKm,
     finalMin,
     finalRatio,
     hasWarning: !!warning,
   });
 
-  return {
+  const result: RouteResult = {
     distanceKm: finalKm,
     durationMin: finalMin,
     engine: finalEngine,
+    providerId: chosen.providerId,
     coordinates: finalCoords,
+    steps: finalSteps,
     airDistanceKm,
     warning,
-    // Include raw results from both engines (if available) for UI alternatives
-    orsResult: orsResult ? {
-      distanceKm: orsResult.distanceKm,
-      durationMin: orsResult.durationMin,
-      coordinates: orsResult.coordinates,
-    } : undefined,
-    osrmResult: osrmResult ? {
-      distanceKm: osrmResult.distanceKm,
-      durationMin: osrmResult.durationMin,
-      coordinates: osrmResult.coordinates,
-    } : undefined,
+    // Include raw ORS / OSRM results (if available) for UI alternatives
+    orsResult: firstRouteOfEngine(providerResults, "ors"),
+    osrmResult: firstRouteOfEngine(providerResults, "osrm"),
+    providerResults,
   };
+
+  // Step 6: Remember it in the browser (air-distance fallbacks are never cached)
+  await putBrowserCachedRoute(cacheKey, result);
+
+  return chosen.cached ? { ...result, cacheSource: "server" } : result;
 }
 
 /**
@@ -282,14 +355,22 @@ export interface MultiLegRouteResult extends RouteResult {
   legs: RouteResult[]; // [NFO→Warehouse, Warehouse→Site]
 }
 
+// Tag a leg's steps with its index when joining legs into one route
+function withLegIndex(steps: RouteStep[] | undefined, legIndex: number): RouteStep[] {
+  return (steps ?? []).map((step) => ({ ...step, legIndex }));
+}
+
 /**
  * Calculate route via warehouse using ORS+OSRM comparison for EACH leg.
  * 
  * This enables OSRM fallback for via-warehouse routes by:
  * 1. Computing best route (ORS vs OSRM) for NFO → Warehouse
- * 2. Computing best route (ORS vs OSRM) for Warehouse → Site
+ * 2. Computing best route (ORS vs OSRM) for Warehouse → Site (concurrently with 1)
  * 3. Combining results into a single route
  * 
+ * Each leg is looked up in the route cache first (via calculateBestRoute), so a
+ * repeat request only routes the legs that changed.
+ * 
  * Engine selection:
  * - If both legs use ORS → Engine: ORS
  * - If either leg uses OSRM → Engine: OSRM (fallback)
@@ -300,6 +381,7 @@ export interface MultiLegRouteResult extends RouteResult {
  * @param warehouseLon - Warehouse longitude
  * @param siteLat - Site latitude
  * @param siteLon - Site longitude
+ * @param options - optional AbortSignal (cancels both legs)
  * @returns MultiLegRouteResult with combined route data
  */
 export async function calculateRouteViaWarehouse(
@@ -308,7 +390,8 @@ export async function calculateRouteViaWarehouse(
   warehouseLat: number,
   warehouseLon: number,
   siteLat: number,
-  siteLon: number
+  siteLon: number,
+  options: RouteRequestOptions = {}
 ): Promise<MultiLegRouteResult> {
   // Step 1: Compute direct NFO→Site air distance for the warning comparison
   // (not the sum of legs - we want to compare against the "as the crow flies" distance)
@@ -321,8 +404,12 @@ export async function calculateRouteViaWarehouse(
     directNfoSiteKm,
   });
 
-  // Step 2: Calculate best route for leg 1 (NFO → Warehouse)
-  const leg1 = await calculateBestRoute(nfoLat, nfoLon, warehouseLat, warehouseLon);
+  // Steps 2-3: Calculate best route for both legs concurrently
+  // (NFO → Warehouse and Warehouse → Site don't depend on each other)
+  const [leg1, leg2] = await Promise.all([
+    calculateBestRoute(nfoLat, nfoLon, warehouseLat, warehouseLon, options),
+    calculateBestRoute(warehouseLat, warehouseLon, siteLat, siteLon, options),
+  ]);
   console.log("routing.ts leg1 (NFO→Warehouse):", {
     engine: leg1.engine,
     distanceKm: leg1.distanceKm,
@@ -330,8 +417,6 @@ export async function calculateRouteViaWarehouse(
     isFallback: leg1.isFallback,
   });
 
-  // Step 3: Calculate best route for leg 2 (Warehouse → Site)
-  const leg2 = await calculateBestRoute(warehouseLat, warehouseLon, siteLat, siteLon);
   console.log("routing.ts leg2 (Warehouse→Site):", {
     engine: leg2.engine,
     distanceKm: leg2.distanceKm,
@@ -387,8 +472,11 @@ export async function calculateRouteViaWarehouse(
   }
 
   // Step 6: Determine overall engine
-  // If both legs used ORS → ORS; if any leg used OSRM → OSRM (fallback)
-  const engine: RouteEngine = (leg1.engine === "ors" && leg2.engine === "ors") ? "ors" : "osrm";
+  // Both legs on the same engine → that engine; otherwise report the leg that
+  // fell back from the primary provider (e.g. ORS + OSRM → OSRM)
+  const primaryEngine = leg1.providerResults?.[0]?.engine ?? "ors";
+  const engine: RouteEngine =
+    leg1.engine === leg2.engine ? leg1.engine : leg1.engine !== primaryEngine ? leg1.engine : leg2.engine;
 
   // Step 7: Warning - compare total driving distance to SUM of leg air distances
   // For via-warehouse routes, fair comparison is: driving vs (NFO→WH air + WH→Site air)
@@ -441,6 +529,7 @@ export async function calculateRouteViaWarehouse(
       distanceKm: leg1.orsResult.distanceKm + leg2.orsResult.distanceKm,
       durationMin: leg1.orsResult.durationMin + leg2.orsResult.durationMin,
       coordinates: orsCoords,
+      steps: [...withLegIndex(leg1.orsResult.steps, 0), ...withLegIndex(leg2.orsResult.steps, 1)],
     };
   }
 
@@ -465,6 +554,7 @@ export async function calculateRouteViaWarehouse(
       distanceKm: leg1.osrmResult.distanceKm + leg2.osrmResult.distanceKm,
       durationMin: leg1.osrmResult.durationMin + leg2.osrmResult.durationMin,
       coordinates: osrmCoords,
+      steps: [...withLegIndex(leg1.osrmResult.steps, 0), ...withLegIndex(leg2.osrmResult.steps, 1)],
     };
   }
 
@@ -475,11 +565,20 @@ export async function calculateRouteViaWarehouse(
     osrmKm: combinedOsrmResult?.distanceKm,
   });
 
+  // Cached only if both legs were - "browser" when neither needed the server
+  const cacheSource: RouteCacheSource | undefined =
+    leg1.cacheSource && leg2.cacheSource
+      ? leg1.cacheSource === "browser" && leg2.cacheSource === "browser" ? "browser" : "server"
+      : undefined;
+
   return {
     distanceKm: totalKm,
     durationMin: totalMin,
     engine,
+    cacheSource,
     coordinates: combinedCoordinates,
+    // NFO→WH directions then WH→Site, tagged so the route sheet can split them again
+    steps: [...withLegIndex(leg1.steps, 0), ...withLegIndex(leg2.steps, 1)],
     // Use sum of leg air distances for fair comparison (not direct NFO→Site)
     airDistanceKm: sumOfLegAirKm,
     warning,
@@ -500,10 +599,12 @@ export async function calculateRouteViaWarehouse(
  * For routes with waypoints, we now use ORS+OSRM comparison per leg.
  * 
  * @param coords - Array of [lng, lat] coordinate pairs (at least 2)
+ * @param options - optional AbortSignal
  * @returns RouteResult with route data and optional warning
  */
 export async function calculateRouteWithWaypoints(
-  coords: [number, number][] // Array of [lng, lat] pairs: NFO, [Warehouse,] Site
+  coords: [number, number][], // Array of [lng, lat] pairs: NFO, [Warehouse,] Site
+  options: RouteRequestOptions = {}
 ): Promise<RouteResult> {
   if (coords.length < 2) {
     throw new Error("At least 2 coordinates required for routing");
@@ -519,7 +620,8 @@ export async function calculateRouteWithWaypoints(
     return calculateRouteViaWarehouse(
       nfoLat, nfoLon,
       warehouseLat, warehouseLon,
-      siteLat, siteLon
+      siteLat, siteLon,
+      options
     );
   }
 
@@ -528,10 +630,10 @@ export async function calculateRouteWithWaypoints(
     const [startCoord, endCoord] = coords;
     const [startLon, startLat] = startCoord;
     const [endLon, endLat] = endCoord;
-    return calculateBestRoute(startLat, startLon, endLat, endLon);
+    return calculateBestRoute(startLat, startLon, endLat, endLon, options);
   }
 
-  // For routes with more than 3 points, fall back to ORS-only (rare case)
+  // For routes with more than 3 points, route all waypoints at once (rare case)
   // Calculate total air distance (sum of legs)
   let airDistanceKm = 0;
   for (let i = 0; i < coords.length - 1; i++) {
@@ -540,17 +642,20 @@ export async function calculateRouteWithWaypoints(
     airDistanceKm += haversineKm(lat1, lon1, lat2, lon2);
   }
 
-  console.log("routing.ts calculateRouteWithWaypoints (>3 points, ORS only)", {
+  console.log("routing.ts calculateRouteWithWaypoints (>3 points, first provider that answers)", {
     coords,
     airDistanceKm,
   });
 
-  // Call ORS (supports waypoints)
-  const orsResult = await fetchOrsRoute(coords);
+  // Every provider supports waypoints - take the highest-priority one that answered
+  const providerResults = await fetchProviderRoutes(coords, "first", options.signal);
+  options.signal?.throwIfAborted();
+  const chosen = providerResults.find((r) => r.route != null);
+  const chosenRoute = chosen?.route;
 
-  if (!orsResult) {
-    // ORS failed - return fallback with air distance
-    console.log("routing.ts: ORS failed for waypoint route - using air distance fallback");
+  if (!chosen || !chosenRoute) {
+    // All providers failed - return fallback with air distance
+    console.log("routing.ts: All engines failed for waypoint route - using air distance fallback");
     return {
       distanceKm: airDistanceKm,
       durationMin: 0,
@@ -562,9 +667,9 @@ export async function calculateRouteWithWaypoints(
     };
   }
 
-  const finalKm = orsResult.distanceKm;
-  const finalMin = orsResult.durationMin;
-  const finalCoords = orsResult.coordinates;
+  const finalKm = chosenRoute.distanceKm;
+  const finalMin = chosenRoute.durationMin;
+  const finalCoords = chosenRoute.coordinates;
 
   // Warning logic - warn if route distance > 2× air distance
   const finalRatio = finalKm / Math.max(airDistanceKm, 0.001);
@@ -575,7 +680,8 @@ export async function calculateRouteWithWaypoints(
   }
 
   console.log("routing.ts waypoint route result:", {
-    engine: "ors",
+    engine: chosen.engine,
+    provider: chosen.providerId,
     finalKm,
     finalMin,
     finalRatio,
@@ -585,9 +691,70 @@ export async function calculateRouteWithWaypoints(
   return {
     distanceKm: finalKm,
     durationMin: finalMin,
-    engine: "ors",
+    engine: chosen.engine,
+    providerId: chosen.providerId,
     coordinates: finalCoords,
+    steps: chosenRoute.steps ?? [],
     airDistanceKm,
     warning,
+    providerResults,
+    cacheSource: chosen.cached ? "server" : undefined,
   };
 }
+
+/**
+ * Result from fetchRouteMatrix - one cell per (source, destination) pair
+ */
+export type MatrixCellEngine = RouteEngine | "haversine";
+
+export interface RouteMatrixResult {
+  durationsMin: (number | null)[][]; // null when only straight-line distance is known
+  distancesKm: number[][];
+  engines: MatrixCellEngine[][];
+}
+
+/**
+ * Fetch a driving duration/distance matrix via /api/route-matrix.
+ * 
+ * Cells are filled by ORS first, then OSRM, then haversine (distance only).
+ * Returns null if the endpoint itself fails; per-cell failures come back as haversine.
+ * 
+ * @param sources - Array of [lng, lat] pairs (e.g. NFO positions)
+ * @param destinations - Array of [lng, lat] pairs (e.g. sites)
+ * @param options - optional AbortSignal (rejects with an AbortError when aborted)
+ */
+export async function fetchRouteMatrix(
+  sources: [number, number][],
+  destinations: [number, number][],
+  options: RouteRequestOptions = {}
+): Promise<RouteMatrixResult | null> {
+  try {
+    const response = await fetch("/api/route-matrix", {
+      method: "POST",
+      signal: options.signal,
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        sources,
+        destinations,
+        profile: "driving-car",
+      }),
+    });
+
+    const data = await response.json();
+    console.log("routing.ts route matrix summary:", data.summary ?? data.error);
+
+    if (!data.ok) return null;
+
+    return {
+      durationsMin: (data.durations as (number | null)[][]).map((row) =>
+        row.map((s) => (s == null ? null : s / 60))
+      ),
+      distancesKm: (data.distances as number[][]).map((row) => row.map((m) => m / 1000)),
+      engines: data.engines,
+    };
+  } catch (error) {
+    if (options.signal?.aborted) throw error;
+    console.error("routing.ts route matrix fetch error:", error);
+    return null;
+  }
+}
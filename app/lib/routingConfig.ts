@@ -0,0 +1,125 @@
+/**
+ * Shared routing backend configuration used by the API routes.
+ *
+ * Kept in one place so /api/ors-route, /api/route and /api/route-matrix snap
+ * coordinates to the road network the same way and use the same backends.
+ *
+ * Routing providers (tried in order by /api/route):
+ * - ROUTING_PROVIDERS - JSON array, replaces the defaults entirely:
+ *     [{ "kind": "osrm", "baseUrl": "http://osrm.internal:5000", "label": "OSRM (Jeddah)" },
+ *      { "kind": "ors",  "baseUrl": "https://ors.example.com", "apiKey": "..." }]
+ *   kind is one of "ors" | "osrm" | "valhalla" | "graphhopper"; id defaults to kind (+ index).
+ * - Otherwise the defaults are built from single URLs:
+ *     NEXT_PUBLIC_ORS_BACKEND_URL (ORS), OSRM_LOCAL_URL (self-hosted OSRM, tried before
+ *     the public one), OSRM_BASE_URL (public OSRM), VALHALLA_URL, GRAPHHOPPER_URL +
+ *     GRAPHHOPPER_API_KEY. Unset optional URLs are skipped.
+ */
+
+import type { RouteEngine } from "./routing";
+
+export const ORS_BACKEND_URL = process.env.NEXT_PUBLIC_ORS_BACKEND_URL || "https://meerabeer1990-nfo-ors-backend.hf.space";
+
+// Public OSRM server (demo instance - no API key, fair-use limits apply)
+export const OSRM_BASE_URL = process.env.OSRM_BASE_URL || "https://router.project-osrm.org";
+
+// Increased search radius to handle off-road sites (default is 350m, we use 5km)
+export const MAXIMUM_SEARCH_RADIUS = 5000;
+
+// Per-provider request timeout so one slow backend doesn't hold up the others
+export const ROUTING_PROVIDER_TIMEOUT_MS = 15_000;
+
+export type RoutingProviderConfig = {
+  id: string;
+  kind: RouteEngine;
+  label: string;
+  baseUrl: string;
+  apiKey?: string;
+};
+
+const PROVIDER_KINDS: RouteEngine[] = ["ors", "osrm", "valhalla", "graphhopper"];
+
+const DEFAULT_PROVIDER_LABELS: Record<RouteEngine, string> = {
+  ors: "ORS",
+  osrm: "OSRM",
+  valhalla: "Valhalla",
+  graphhopper: "GraphHopper",
+};
+
+const trimUrl = (url: string) => url.trim().replace(/\/+$/, "");
+
+function parseProviderList(raw: string): RoutingProviderConfig[] | null {
+  try {
+    const parsed = JSON.parse(raw);
+    if (!Array.isArray(parsed)) return null;
+
+    const configs: RoutingProviderConfig[] = [];
+    parsed.forEach((entry, index) => {
+      if (!entry || typeof entry !== "object") return;
+      const { id, kind, label, baseUrl, apiKey } = entry as Record<string, unknown>;
+      if (!PROVIDER_KINDS.includes(kind as RouteEngine) || typeof baseUrl !== "string" || !baseUrl.trim()) {
+        console.warn("routingConfig.ts ignoring invalid ROUTING_PROVIDERS entry:", entry);
+        return;
+      }
+      configs.push({
+        id: typeof id === "string" && id.trim() ? id.trim() : `${kind}-${index + 1}`,
+        kind: kind as RouteEngine,
+        label: typeof label === "string" && label.trim() ? label.trim() : DEFAULT_PROVIDER_LABELS[kind as RouteEngine],
+        baseUrl: trimUrl(baseUrl),
+        apiKey: typeof apiKey === "string" && apiKey ? apiKey : undefined,
+      });
+    });
+    return configs.length > 0 ? configs : null;
+  } catch (error) {
+    console.warn("routingConfig.ts ROUTING_PROVIDERS is not valid JSON:", error);
+    return null;
+  }
+}
+
+function defaultProviderList(): RoutingProviderConfig[] {
+  const configs: RoutingProviderConfig[] = [
+    { id: "ors", kind: "ors", label: "ORS", baseUrl: trimUrl(ORS_BACKEND_URL) },
+  ];
+  if (process.env.OSRM_LOCAL_URL) {
+    configs.push({ id: "osrm-local", kind: "osrm", label: "OSRM (local)", baseUrl: trimUrl(process.env.OSRM_LOCAL_URL) });
+  }
+  configs.push({ id: "osrm", kind: "osrm", label: "OSRM", baseUrl: trimUrl(OSRM_BASE_URL) });
+  if (process.env.VALHALLA_URL) {
+    configs.push({ id: "valhalla", kind: "valhalla", label: "Valhalla", baseUrl: trimUrl(process.env.VALHALLA_URL) });
+  }
+  if (process.env.GRAPHHOPPER_URL) {
+    configs.push({
+      id: "graphhopper",
+      kind: "graphhopper",
+      label: "GraphHopper",
+      baseUrl: trimUrl(process.env.GRAPHHOPPER_URL),
+      apiKey: process.env.GRAPHHOPPER_API_KEY || undefined,
+    });
+  }
+  return configs;
+}
+
+// Resolved once per server instance, in the order /api/route tries them
+export const ROUTING_PROVIDER_CONFIGS: RoutingProviderConfig[] =
+  (process.env.ROUTING_PROVIDERS && parseProviderList(process.env.ROUTING_PROVIDERS)) || defaultProviderList();
+
+/**
+ * First configured provider of `kind` (e.g. the self-hosted OSRM for the matrix
+ * service), or null if none is configured.
+ */
+export function getProviderConfig(kind: RouteEngine): RoutingProviderConfig | null {
+  return ROUTING_PROVIDER_CONFIGS.find((c) => c.kind === kind) ?? null;
+}
+
+export function getProviderBaseUrl(kind: RouteEngine): string | null {
+  return getProviderConfig(kind)?.baseUrl ?? null;
+}
+
+/**
+ * JSON request headers for an ORS backend - ORS takes its API key as the bare
+ * Authorization header.
+ */
+export function orsRequestHeaders(config: RoutingProviderConfig | null): Record<string, string> {
+  const headers: Record<string, string> = { "Content-Type": "application/json" };
+  if (config?.apiKey) headers.Authorization = config.apiKey;
+  return headers;
+}
@@ -0,0 +1,472 @@
+/**
+ * Routing providers - one implementation per routing engine API.
+ *
+ * Each configured backend (routingConfig.ts → ROUTING_PROVIDER_CONFIGS) becomes a
+ * RoutingProvider through the factory registered for its kind. /api/route runs
+ * every provider for a request and returns their results in configured order;
+ * calculateBestRoute (routing.ts) then picks the best one.
+ *
+ * Server only: providers call backends directly, which may be on an internal
+ * network (e.g. a self-hosted OSRM) the browser can't reach. Successful results
+ * are kept in an in-memory route cache per provider (routeCache.ts).
+ */
+
+import type { EngineRouteData, ProviderRouteData, RouteEngine, RouteStep } from "./routing";
+import {
+  MAXIMUM_SEARCH_RADIUS,
+  ROUTING_PROVIDER_CONFIGS,
+  ROUTING_PROVIDER_TIMEOUT_MS,
+  orsRequestHeaders,
+  type RoutingProviderConfig,
+} from "./routingConfig";
+import { createMemoryRouteCache, routeCacheKey } from "./routeCache";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type LngLat = [number, number];
+
+export interface RoutingProvider {
+  id: string;
+  kind: RouteEngine;
+  label: string;
+  /**
+   * Route through `coordinates` ([lng, lat], at least 2) in order.
+   * Returns null when the engine answers but finds no route; throws on transport errors.
+   */
+  route(coordinates: LngLat[], signal: AbortSignal): Promise<EngineRouteData | null>;
+}
+
+type RoutingProviderFactory = (config: RoutingProviderConfig) => RoutingProvider;
+
+type RawStep = Record<string, unknown>;
+
+// ============================================================================
+// Turn-by-turn step normalisation
+// ============================================================================
+
+const num = (value: unknown) => (typeof value === "number" && Number.isFinite(value) ? value : 0);
+const str = (value: unknown) => (typeof value === "string" ? value.trim() : "");
+const asSteps = (value: unknown): RawStep[] => (Array.isArray(value) ? (value as RawStep[]) : []);
+
+function makeStep(
+  instruction: string,
+  distanceKm: number,
+  durationMin: number,
+  name: string,
+  location: LngLat | undefined
+): RouteStep {
+  return {
+    instruction,
+    distanceKm,
+    durationMin,
+    ...(name && name !== "-" ? { name } : {}),
+    ...(location ? { location } : {}),
+  };
+}
+
+/**
+ * ORS GeoJSON feature → steps. Each step's way_points index into the feature's
+ * geometry, which gives the maneuver location.
+ */
+export function normalizeOrsSteps(feature: Record<string, unknown>): RouteStep[] {
+  const properties = (feature.properties ?? {}) as Record<string, unknown>;
+  const coordinates = ((feature.geometry as Record<string, unknown> | undefined)?.coordinates ?? []) as LngLat[];
+  return asSteps(properties.segments).flatMap((segment) =>
+    asSteps(segment.steps).map((step) => {
+      const wayPoints = Array.isArray(step.way_points) ? (step.way_points as number[]) : [];
+      return makeStep(
+        str(step.instruction),
+        num(step.distance) / 1000,
+        num(step.duration) / 60,
+        str(step.name),
+        coordinates[wayPoints[0]]
+      );
+    })
+  );
+}
+
+/**
+ * OSRM returns maneuvers without text, so build a short English instruction from
+ * the maneuver type/modifier and road name.
+ */
+function describeOsrmStep(step: RawStep): string {
+  const maneuver = (step.maneuver ?? {}) as Record<string, unknown>;
+  const type = str(maneuver.type);
+  const modifier = str(maneuver.modifier);
+  const name = str(step.name);
+  const onto = name ? ` onto ${name}` : "";
+
+  switch (type) {
+    case "depart":
+      return name ? `Head out on ${name}` : "Head out";
+    case "arrive":
+      return "Arrive at destination";
+    case "roundabout":
+    case "rotary":
+      return typeof maneuver.exit === "number"
+        ? `Enter the roundabout and take exit ${maneuver.exit}${onto}`
+        : `Enter the roundabout${onto}`;
+    case "exit roundabout":
+    case "exit rotary":
+      return `Exit the roundabout${onto}`;
+    case "fork":
+      return `Keep ${modifier || "straight"} at the fork${onto}`;
+    case "merge":
+      return `Merge ${modifier || "ahead"}${onto}`;
+    case "on ramp":
+      return `Take the ramp${modifier ? ` on the ${modifier}` : ""}${onto}`;
+    case "off ramp":
+      return `Take the exit${modifier ? ` on the ${modifier}` : ""}${onto}`;
+    case "end of road":
+      return `At the end of the road turn ${modifier || "ahead"}${onto}`;
+    case "new name":
+    case "continue":
+      return `Continue${modifier && modifier !== "straight" ? ` ${modifier}` : ""}${onto}`;
+    default:
+      if (!modifier || modifier === "straight") return `Continue straight${onto}`;
+      if (modifier === "uturn") return `Make a U-turn${onto}`;
+      return `Turn ${modifier}${onto}`;
+  }
+}
+
+function normalizeOsrmSteps(route: RawStep): RouteStep[] {
+  return asSteps(route.legs).flatMap((leg) =>
+    asSteps(leg.steps).map((step) => {
+      const location = ((step.maneuver ?? {}) as Record<string, unknown>).location;
+      return makeStep(
+        describeOsrmStep(step),
+        num(step.distance) / 1000,
+        num(step.duration) / 60,
+        str(step.name),
+        Array.isArray(location) ? (location as LngLat) : undefined
+      );
+    })
+  );
+}
+
+// Valhalla maneuvers carry text already; begin_shape_index is per leg
+function normalizeValhallaManeuvers(maneuvers: unknown, legCoords: LngLat[]): RouteStep[] {
+  return asSteps(maneuvers).map((maneuver) =>
+    makeStep(
+      str(maneuver.instruction),
+      num(maneuver.length), // already km (units: "kilometers")
+      num(maneuver.time) / 60,
+      Array.isArray(maneuver.street_names) ? maneuver.street_names.join(" / ") : "",
+      legCoords[num(maneuver.begin_shape_index)]
+    )
+  );
+}
+
+function normalizeGraphHopperInstructions(path: RawStep, coordinates: LngLat[]): RouteStep[] {
+  return asSteps(path.instructions).map((instruction) => {
+    const interval = Array.isArray(instruction.interval) ? (instruction.interval as number[]) : [];
+    return makeStep(
+      str(instruction.text),
+      num(instruction.distance) / 1000,
+      num(instruction.time) / 60_000,
+      str(instruction.street_name),
+      coordinates[interval[0]]
+    );
+  });
+}
+
+// ============================================================================
+// Implementations
+// ============================================================================
+
+// ORS (directions POST via our backend's /route_post, which accepts ORS options)
+const createOrsProvider: RoutingProviderFactory = (config) => ({
+  id: config.id,
+  kind: config.kind,
+  label: config.label,
+  async route(coordinates, signal) {
+    const res = await fetch(`${config.baseUrl}/route_post`, {
+      method: "POST",
+      headers: orsRequestHeaders(config),
+      signal,
+      body: JSON.stringify({
+        coordinates,
+        profile: "driving-car",
+        preference: "fastest",
+        instructions: true,
+        options: { maximum_search_radius: MAXIMUM_SEARCH_RADIUS },
+      }),
+    });
+    if (!res.ok) {
+      console.warn(`routingProviders.ts ${config.id} error:`, res.status, (await res.text()).substring(0, 300));
+      return null;
+    }
+
+    const data = await res.json();
+    const feature = data.features?.[0];
+    if (!feature) return null;
+
+    return {
+      distanceKm: (feature.properties?.summary?.distance ?? 0) / 1000,
+      durationMin: (feature.properties?.summary?.duration ?? 0) / 60,
+      coordinates: feature.geometry?.coordinates ?? [],
+      steps: normalizeOrsSteps(feature),
+    };
+  },
+});
+
+// OSRM route service (public demo server or self-hosted)
+const createOsrmProvider: RoutingProviderFactory = (config) => ({
+  id: config.id,
+  kind: config.kind,
+  label: config.label,
+  async route(coordinates, signal) {
+    const coordString = coordinates.map(([lng, lat]) => `${lng},${lat}`).join(";");
+    const url = `${config.baseUrl}/route/v1/driving/${coordString}?overview=full&geometries=geojson&steps=true`;
+
+    const res = await fetch(url, { signal });
+    const data = await res.json();
+
+    if (data.code !== "Ok" || !data.routes?.[0]) {
+      console.warn(`routingProviders.ts ${config.id} no route:`, data.code, data.message);
+      return null;
+    }
+
+    const route = data.routes[0];
+    return {
+      distanceKm: route.distance / 1000,
+      durationMin: route.duration / 60,
+      coordinates: route.geometry.coordinates,
+      steps: normalizeOsrmSteps(route),
+    };
+  },
+});
+
+/**
+ * Decode an encoded polyline ([lat, lng] pairs) into [lng, lat] pairs.
+ * Valhalla uses precision 6.
+ */
+function decodePolyline(encoded: string, precision: number): LngLat[] {
+  const factor = Math.pow(10, precision);
+  const points: LngLat[] = [];
+  let index = 0;
+  let lat = 0;
+  let lng = 0;
+
+  const nextValue = () => {
+    let result = 0;
+    let shift = 0;
+    let byte: number;
+    do {
+      byte = encoded.charCodeAt(index++) - 63;
+      result |= (byte & 0x1f) << shift;
+      shift += 5;
+    } while (byte >= 0x20);
+    return result & 1 ? ~(result >> 1) : result >> 1;
+  };
+
+  while (index < encoded.length) {
+    lat += nextValue();
+    lng += nextValue();
+    points.push([lng / factor, lat / factor]);
+  }
+  return points;
+}
+
+// Valhalla /route (also what Stadia and other hosted Valhalla services expose)
+const createValhallaProvider: RoutingProviderFactory = (config) => ({
+  id: config.id,
+  kind: config.kind,
+  label: config.label,
+  async route(coordinates, signal) {
+    const url = config.apiKey
+      ? `${config.baseUrl}/route?api_key=${encodeURIComponent(config.apiKey)}`
+      : `${config.baseUrl}/route`;
+
+    const res = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      signal,
+      body: JSON.stringify({
+        locations: coordinates.map(([lon, lat]) => ({ lat, lon, radius: MAXIMUM_SEARCH_RADIUS })),
+        costing: "auto",
+        units: "kilometers",
+        directions_type: "maneuvers",
+      }),
+    });
+    const data = await res.json();
+
+    const trip = data.trip;
+    if (!res.ok || !trip?.summary || !Array.isArray(trip.legs)) {
+      console.warn(`routingProviders.ts ${config.id} no route:`, res.status, data.error ?? data.status_message);
+      return null;
+    }
+
+    // One encoded shape per leg - join them without repeating the shared waypoint
+    const coords: LngLat[] = [];
+    const steps: RouteStep[] = [];
+    for (const leg of trip.legs) {
+      const legCoords = decodePolyline(leg.shape ?? "", 6);
+      coords.push(...(coords.length > 0 ? legCoords.slice(1) : legCoords));
+      steps.push(...normalizeValhallaManeuvers(leg.maneuvers, legCoords));
+    }
+
+    return {
+      distanceKm: trip.summary.length,
+      durationMin: trip.summary.time / 60,
+      coordinates: coords,
+      steps,
+    };
+  },
+});
+
+// GraphHopper /route (hosted API or self-hosted)
+const createGraphHopperProvider: RoutingProviderFactory = (config) => ({
+  id: config.id,
+  kind: config.kind,
+  label: config.label,
+  async route(coordinates, signal) {
+    const params = new URLSearchParams({
+      profile: "car",
+      points_encoded: "false",
+      instructions: "true",
+    });
+    for (const [lng, lat] of coordinates) params.append("point", `${lat},${lng}`);
+    if (config.apiKey) params.set("key", config.apiKey);
+
+    const res = await fetch(`${config.baseUrl}/route?${params}`, { signal });
+    const data = await res.json();
+
+    const path = data.paths?.[0];
+    if (!res.ok || !path) {
+      console.warn(`routingProviders.ts ${config.id} no route:`, res.status, data.message);
+      return null;
+    }
+
+    const coords: LngLat[] = path.points?.coordinates ?? [];
+    return {
+      distanceKm: path.distance / 1000,
+      durationMin: path.time / 60_000,
+      coordinates: coords,
+      steps: normalizeGraphHopperInstructions(path, coords),
+    };
+  },
+});
+
+// ============================================================================
+// Registry
+// ============================================================================
+
+const PROVIDER_FACTORIES: Record<RouteEngine, RoutingProviderFactory> = {
+  ors: createOrsProvider,
+  osrm: createOsrmProvider,
+  valhalla: createValhallaProvider,
+  graphhopper: createGraphHopperProvider,
+};
+
+// Built once per server instance from the environment configuration
+export const ROUTING_PROVIDERS: RoutingProvider[] = ROUTING_PROVIDER_CONFIGS.map((config) =>
+  PROVIDER_FACTORIES[config.kind](config)
+);
+
+export type ProviderRouteOutcome = ProviderRouteData & {
+  error?: string;
+};
+
+export type RouteWithProvidersOptions = {
+  signal?: AbortSignal; // e.g. the incoming request's signal - client went away
+  // Called with results so far (undefined = still running); true stops the rest.
+  // `graceExpired` turns true graceMs after the first successful result.
+  isDecided?: (partial: (ProviderRouteOutcome | undefined)[], graceExpired: boolean) => boolean;
+  graceMs?: number;
+};
+
+// Every provider currently routes for a car
+const ROUTE_PROFILE = "driving-car";
+
+// provider id + snapped coordinates → route (failures are not cached)
+const serverRouteCache = createMemoryRouteCache<EngineRouteData>();
+
+/**
+ * Run every configured provider for the same coordinates, in parallel, each with
+ * its own timeout. Cached provider results are reused without calling the engine.
+ *
+ * Resolves as soon as `isDecided` says the outcome can't change - or, with
+ * `graceMs`, that slower providers have had long enough: providers still
+ * running are aborted and reported as `skipped`. Results come back in configured
+ * (priority) order.
+ */
+export function routeWithAllProviders(
+  coordinates: LngLat[],
+  options: RouteWithProvidersOptions = {},
+  providers: RoutingProvider[] = ROUTING_PROVIDERS
+): Promise<ProviderRouteOutcome[]> {
+  const results: (ProviderRouteOutcome | undefined)[] = providers.map(() => undefined);
+  const stop = new AbortController();
+
+  return new Promise((resolve) => {
+    let finished = false;
+    let graceExpired = false;
+    let graceTimer: ReturnType<typeof setTimeout> | null = null;
+
+    const finish = () => {
+      if (finished) return;
+      finished = true;
+      if (graceTimer) clearTimeout(graceTimer);
+      stop.abort();
+      resolve(
+        results.map(
+          (r, i) =>
+            r ?? {
+              providerId: providers[i].id,
+              engine: providers[i].kind,
+              label: providers[i].label,
+              route: null,
+              skipped: true,
+            }
+        )
+      );
+    };
+
+    const isDecided = () => results.every((r) => r !== undefined) || !!options.isDecided?.(results, graceExpired);
+
+    const settle = (index: number, outcome: ProviderRouteOutcome) => {
+      if (finished) return;
+      results[index] = outcome;
+      if (outcome.route && options.graceMs != null && !graceTimer) {
+        graceTimer = setTimeout(() => {
+          graceExpired = true;
+          if (isDecided()) finish();
+        }, options.graceMs);
+      }
+      if (isDecided()) finish();
+    };
+
+    if (providers.length === 0) {
+      finish();
+      return;
+    }
+
+    const signals = [stop.signal, ...(options.signal ? [options.signal] : [])];
+
+    providers.forEach(async (provider, index) => {
+      const base = { providerId: provider.id, engine: provider.kind, label: provider.label };
+      const cacheKey = routeCacheKey(coordinates, ROUTE_PROFILE, provider.id);
+
+      const cachedRoute = serverRouteCache.get(cacheKey);
+      if (cachedRoute) {
+        settle(index, { ...base, route: cachedRoute, cached: true });
+        return;
+      }
+
+      try {
+        const route = await provider.route(
+          coordinates,
+          AbortSignal.any([...signals, AbortSignal.timeout(ROUTING_PROVIDER_TIMEOUT_MS)])
+        );
+        if (route) serverRouteCache.set(cacheKey, route);
+        settle(index, { ...base, route });
+      } catch (error) {
+        if (!finished) console.warn(`routingProviders.ts ${provider.id} exception:`, error);
+        settle(index, { ...base, route: null, error: error instanceof Error ? error.message : String(error) });
+      }
+    });
+  });
+}
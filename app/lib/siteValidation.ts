@@ -0,0 +1,259 @@
+/**
+ * Site master data checks - finds the Site_Coordinates problems behind the
+ * DISTANCE_THRESHOLD_AUDIT.md investigations before they show up as 350 km
+ * "distances" on the dashboard:
+ * - duplicate site_id rows (RoutePlanner silently keeps the last one)
+ * - missing / non-numeric / 0,0 coordinates
+ * - latitude and longitude swapped (only the swapped point is in the country)
+ * - points outside the operating country's bounding box
+ * - sites far from the centroid of their area
+ *
+ * Also parses bulk-import CSVs into SiteRecords for /api/sites.
+ */
+
+import { calculateDistanceKm, hasValidLocation, type SiteRecord } from "./nfoHelpers";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type SiteIssueKind = "duplicate" | "missing_coords" | "swapped" | "outside_country" | "far_from_area";
+
+export type SiteIssue = {
+  kind: SiteIssueKind;
+  message: string;
+};
+
+export type OperatingBounds = {
+  south: number;
+  west: number;
+  north: number;
+  east: number;
+};
+
+export type SiteValidation = {
+  issuesBySiteId: Map<string, SiteIssue[]>;
+  duplicateCount: number; // site_ids with more than one row
+  countsByKind: Record<SiteIssueKind, number>;
+};
+
+export type SiteCsvResult = {
+  sites: SiteRecord[];
+  errors: string[];
+};
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+export const SITE_ISSUE_LABELS: Record<SiteIssueKind, string> = {
+  duplicate: "Duplicate site_id",
+  missing_coords: "Missing coordinates",
+  swapped: "Lat/lng swapped",
+  outside_country: "Outside country",
+  far_from_area: "Far from area",
+};
+
+// Saudi Arabia (the console's default map centre is Jeddah/Makkah). Override with
+// NEXT_PUBLIC_OPERATING_BOUNDS="south,west,north,east".
+const DEFAULT_OPERATING_BOUNDS: OperatingBounds = { south: 16.3, west: 34.4, north: 32.2, east: 55.7 };
+
+// A site further than this from its area's centroid is probably mis-typed
+export const AREA_OUTLIER_KM = 150;
+
+// Areas need a few sites before their centroid means anything
+const MIN_SITES_FOR_CENTROID = 3;
+
+function parseOperatingBounds(value: string | undefined): OperatingBounds {
+  const parts = (value ?? "").split(",").map((p) => parseFloat(p.trim()));
+  if (parts.length !== 4 || parts.some((p) => !Number.isFinite(p))) return DEFAULT_OPERATING_BOUNDS;
+  const [south, west, north, east] = parts;
+  if (south >= north || west >= east) return DEFAULT_OPERATING_BOUNDS;
+  return { south, west, north, east };
+}
+
+export const OPERATING_BOUNDS = parseOperatingBounds(process.env.NEXT_PUBLIC_OPERATING_BOUNDS);
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+const inBounds = (lat: number, lng: number, bounds: OperatingBounds) =>
+  lat >= bounds.south && lat <= bounds.north && lng >= bounds.west && lng <= bounds.east;
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+/**
+ * Coordinate problems of a single site (no duplicate / area checks) - used by
+ * the edit form before saving.
+ */
+export function validateSiteCoordinates(
+  site: Pick<SiteRecord, "latitude" | "longitude">,
+  bounds: OperatingBounds = OPERATING_BOUNDS
+): SiteIssue[] {
+  const { latitude: lat, longitude: lng } = site;
+  if (!hasValidLocation({ lat, lng }) || (lat === 0 && lng === 0)) {
+    return [{ kind: "missing_coords", message: "No usable latitude/longitude" }];
+  }
+  if (inBounds(lat!, lng!, bounds)) return [];
+  if (inBounds(lng!, lat!, bounds)) {
+    return [{ kind: "swapped", message: `Latitude/longitude look swapped (${lat}, ${lng})` }];
+  }
+  return [{ kind: "outside_country", message: `Outside the operating area (${lat}, ${lng})` }];
+}
+
+/**
+ * Check every site row. Sites are keyed by site_id; duplicates get one issue
+ * listing how many rows share the id.
+ */
+export function validateSites(sites: SiteRecord[], bounds: OperatingBounds = OPERATING_BOUNDS): SiteValidation {
+  const issuesBySiteId = new Map<string, SiteIssue[]>();
+  const addIssue = (siteId: string, issue: SiteIssue) => {
+    const list = issuesBySiteId.get(siteId) ?? [];
+    if (!list.some((i) => i.kind === issue.kind)) list.push(issue);
+    issuesBySiteId.set(siteId, list);
+  };
+
+  // Duplicates
+  const rowsById = new Map<string, SiteRecord[]>();
+  for (const site of sites) {
+    const id = site.site_id.trim();
+    if (!id) continue;
+    rowsById.set(id, [...(rowsById.get(id) ?? []), site]);
+  }
+  let duplicateCount = 0;
+  for (const [id, rows] of rowsById) {
+    if (rows.length < 2) continue;
+    duplicateCount += 1;
+    const distinctCoords = new Set(rows.map((r) => `${r.latitude},${r.longitude}`)).size;
+    addIssue(id, {
+      kind: "duplicate",
+      message: `${rows.length} rows${distinctCoords > 1 ? ` with ${distinctCoords} different positions` : ""}`,
+    });
+  }
+
+  // Coordinates
+  const usable: SiteRecord[] = [];
+  for (const site of sites) {
+    const id = site.site_id.trim();
+    if (!id) continue;
+    const issues = validateSiteCoordinates(site, bounds);
+    issues.forEach((issue) => addIssue(id, issue));
+    if (issues.length === 0) usable.push(site);
+  }
+
+  // Distance from the area centroid (median, so the outliers don't drag it)
+  const byArea = new Map<string, SiteRecord[]>();
+  for (const site of usable) {
+    const area = site.area?.trim();
+    if (area) byArea.set(area, [...(byArea.get(area) ?? []), site]);
+  }
+  for (const [area, areaSites] of byArea) {
+    if (areaSites.length < MIN_SITES_FOR_CENTROID) continue;
+    const centroid = {
+      lat: median(areaSites.map((s) => s.latitude!)),
+      lng: median(areaSites.map((s) => s.longitude!)),
+    };
+    for (const site of areaSites) {
+      const km = calculateDistanceKm(centroid, { lat: site.latitude, lng: site.longitude });
+      if (km > AREA_OUTLIER_KM) {
+        addIssue(site.site_id.trim(), {
+          kind: "far_from_area",
+          message: `${Math.round(km)} km from the centre of ${area}`,
+        });
+      }
+    }
+  }
+
+  const countsByKind: Record<SiteIssueKind, number> = {
+    duplicate: 0,
+    missing_coords: 0,
+    swapped: 0,
+    outside_country: 0,
+    far_from_area: 0,
+  };
+  for (const issues of issuesBySiteId.values()) {
+    for (const issue of issues) countsByKind[issue.kind] += 1;
+  }
+
+  return { issuesBySiteId, duplicateCount, countsByKind };
+}
+
+// ============================================================================
+// CSV import
+// ============================================================================
+
+const SITE_CSV_COLUMNS = ["site_id", "site_name", "latitude", "longitude", "area", "geofence_radius_m"] as const;
+
+const numberOrNull = (value: string | undefined) => {
+  if (value == null || value.trim() === "") return null;
+  const n = parseFloat(value);
+  return Number.isFinite(n) ? n : NaN;
+};
+
+/**
+ * Parse `site_id,site_name,latitude,longitude,area[,geofence_radius_m]`. A header
+ * row may list the columns in any order; without one this order is assumed.
+ * A site_id listed twice keeps its last line (reported in `errors`).
+ */
+export function parseSitesCsv(text: string): SiteCsvResult {
+  const sites: SiteRecord[] = [];
+  const errors: string[] = [];
+  const lineBySiteId = new Map<string, { line: number; index: number }>();
+  const lines = text.split(/\r?\n/);
+
+  let columns: string[] = [...SITE_CSV_COLUMNS];
+  lines.forEach((rawLine, idx) => {
+    const line = rawLine.trim();
+    if (!line) return;
+    const cells = line.split(",").map((c) => c.trim().replace(/^"|"$/g, ""));
+
+    if (idx === 0 && cells.some((c) => c.toLowerCase() === "site_id")) {
+      columns = cells.map((c) => c.toLowerCase());
+      return;
+    }
+
+    const get = (name: string) => {
+      const i = columns.indexOf(name);
+      return i >= 0 ? cells[i] : undefined;
+    };
+    const siteId = (get("site_id") ?? "").trim();
+    const latitude = numberOrNull(get("latitude"));
+    const longitude = numberOrNull(get("longitude"));
+    const radius = numberOrNull(get("geofence_radius_m"));
+
+    if (!siteId) {
+      errors.push(`Line ${idx + 1}: missing site_id`);
+      return;
+    }
+    if (Number.isNaN(latitude) || Number.isNaN(longitude) || Number.isNaN(radius)) {
+      errors.push(`Line ${idx + 1} (${siteId}): latitude, longitude and radius must be numbers`);
+      return;
+    }
+
+    const site: SiteRecord = {
+      site_id: siteId,
+      name: get("site_name")?.trim() || null,
+      latitude,
+      longitude,
+      area: get("area")?.trim() || null,
+      geofence_radius_m: radius,
+    };
+
+    const earlier = lineBySiteId.get(siteId);
+    if (earlier) {
+      errors.push(`Line ${idx + 1} (${siteId}): duplicate site_id - replaces line ${earlier.line}`);
+      sites[earlier.index] = site;
+      lineBySiteId.set(siteId, { line: idx + 1, index: earlier.index });
+      return;
+    }
+    lineBySiteId.set(siteId, { line: idx + 1, index: sites.length });
+    sites.push(site);
+  });
+
+  return { sites, errors };
+}
@@ -0,0 +1,153 @@
+/**
+ * Job SLAs - priority-based response and restore targets for assignments.
+ *
+ * Every job (nfo_assignments row) has a priority. When it is created, the
+ * priority's targets are turned into two deadlines stored on the row:
+ * - response_due_at: the NFO must be on site (on_site_at) by then
+ * - restore_due_at:  the job must be done (done_at) by then
+ * Storing deadlines rather than recomputing them means changing the targets
+ * later doesn't rewrite history for jobs already opened.
+ *
+ * Replaces the spreadsheet operators used to track SLA compliance in.
+ */
+
+import type { NfoAssignment } from "./assignments";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type JobPriority = "P1" | "P2" | "P3" | "P4";
+
+export type SlaTarget = {
+  responseMinutes: number; // created → on site
+  restoreMinutes: number;  // created → done
+};
+
+// running = deadline ahead, at_risk = running with little time left,
+// met / breached = decided, none = cancelled or no deadline
+export type SlaClockState = "running" | "at_risk" | "met" | "breached" | "none";
+
+export type SlaClock = {
+  state: SlaClockState;
+  dueAt: number | null;       // epoch ms
+  remainingMs: number | null; // dueAt - now while running (negative once overdue)
+};
+
+export type JobSla = {
+  response: SlaClock;
+  restore: SlaClock;
+  breached: boolean; // either clock breached
+};
+
+export type SlaCompliance = {
+  closed: number;   // done jobs with a restore deadline
+  met: number;      // of those, restored in time
+  percent: number | null;
+};
+
+// ============================================================================
+// Targets
+// ============================================================================
+
+export const JOB_PRIORITIES: JobPriority[] = ["P1", "P2", "P3", "P4"];
+
+export const JOB_PRIORITY_LABELS: Record<JobPriority, string> = {
+  P1: "P1 – Critical",
+  P2: "P2 – High",
+  P3: "P3 – Medium",
+  P4: "P4 – Low",
+};
+
+export const DEFAULT_JOB_PRIORITY: JobPriority = "P3";
+
+export const SLA_TARGETS: Record<JobPriority, SlaTarget> = {
+  P1: { responseMinutes: 60, restoreMinutes: 4 * 60 },
+  P2: { responseMinutes: 2 * 60, restoreMinutes: 8 * 60 },
+  P3: { responseMinutes: 4 * 60, restoreMinutes: 24 * 60 },
+  P4: { responseMinutes: 8 * 60, restoreMinutes: 72 * 60 },
+};
+
+// A running clock is "at risk" in the last quarter of its target (at least 15 min)
+const AT_RISK_FRACTION = 0.25;
+const AT_RISK_MIN_MS = 15 * 60 * 1000;
+
+export const isJobPriority = (value: unknown): value is JobPriority =>
+  typeof value === "string" && (JOB_PRIORITIES as string[]).includes(value);
+
+/**
+ * Deadlines (ISO) for a job of `priority` opened at `openedAt` (epoch ms).
+ */
+export function computeSlaDueDates(
+  priority: JobPriority,
+  openedAt: number
+): { response_due_at: string; restore_due_at: string } {
+  const target = SLA_TARGETS[priority];
+  return {
+    response_due_at: new Date(openedAt + target.responseMinutes * 60_000).toISOString(),
+    restore_due_at: new Date(openedAt + target.restoreMinutes * 60_000).toISOString(),
+  };
+}
+
+// ============================================================================
+// Evaluation
+// ============================================================================
+
+const toMs = (iso: string | null) => (iso ? new Date(iso).getTime() : null);
+
+function evaluateClock(
+  openedAt: number,
+  dueAt: number | null,
+  metAt: number | null,
+  cancelled: boolean,
+  now: number
+): SlaClock {
+  if (dueAt == null || cancelled) return { state: "none", dueAt, remainingMs: null };
+  if (metAt != null) return { state: metAt <= dueAt ? "met" : "breached", dueAt, remainingMs: null };
+
+  const remainingMs = dueAt - now;
+  if (remainingMs < 0) return { state: "breached", dueAt, remainingMs };
+
+  const atRiskMs = Math.max((dueAt - openedAt) * AT_RISK_FRACTION, AT_RISK_MIN_MS);
+  return { state: remainingMs <= atRiskMs ? "at_risk" : "running", dueAt, remainingMs };
+}
+
+/**
+ * Response and restore clocks for a job at `now`. Reaching "done" also
+ * counts as having responded.
+ */
+export function evaluateJobSla(job: NfoAssignment, now: number): JobSla {
+  const openedAt = toMs(job.created_at) ?? now;
+  const cancelled = job.status === "cancelled";
+  const doneAt = toMs(job.done_at);
+
+  const response = evaluateClock(openedAt, toMs(job.response_due_at), toMs(job.on_site_at) ?? doneAt, cancelled, now);
+  const restore = evaluateClock(openedAt, toMs(job.restore_due_at), doneAt, cancelled, now);
+
+  return { response, restore, breached: response.state === "breached" || restore.state === "breached" };
+}
+
+/**
+ * Restore-SLA compliance over finished jobs.
+ */
+export function computeSlaCompliance(jobs: NfoAssignment[]): SlaCompliance {
+  let closed = 0;
+  let met = 0;
+  for (const job of jobs) {
+    if (job.status !== "done" || !job.restore_due_at || !job.done_at) continue;
+    closed += 1;
+    if (new Date(job.done_at).getTime() <= new Date(job.restore_due_at).getTime()) met += 1;
+  }
+  return { closed, met, percent: closed > 0 ? Math.round((met / closed) * 100) : null };
+}
+
+/**
+ * "in 1h 05m" / "12m overdue" for a countdown.
+ */
+export function formatSlaRemaining(remainingMs: number): string {
+  const totalMinutes = Math.floor(Math.abs(remainingMs) / 60_000);
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  const text = hours > 0 ? `${hours}h ${String(minutes).padStart(2, "0")}m` : `${minutes}m`;
+  return remainingMs < 0 ? `${text} overdue` : `in ${text}`;
+}
@@ -0,0 +1,300 @@
+/**
+ * Table export - turn rendered dashboard tables into downloadable files.
+ *
+ * Each export describes its columns once (header + how to read the cell from a
+ * row), so what's in the file matches what's on screen, including the current
+ * filters. Browser only - downloads go through a temporary object URL.
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type ExportCell = string | number | boolean | null | undefined;
+
+export type ExportColumn<T> = {
+  header: string;
+  value: (row: T) => ExportCell;
+};
+
+// ============================================================================
+// CSV
+// ============================================================================
+
+const escapeCsvCell = (cell: ExportCell): string => {
+  if (cell == null) return "";
+  const text = String(cell);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export function toCsv<T>(columns: ExportColumn<T>[], rows: T[]): string {
+  const lines = [columns.map((c) => escapeCsvCell(c.header)).join(",")];
+  for (const row of rows) {
+    lines.push(columns.map((c) => escapeCsvCell(c.value(row))).join(","));
+  }
+  return lines.join("\r\n");
+}
+
+// ============================================================================
+// Download
+// ============================================================================
+
+export function downloadFile(filename: string, content: BlobPart, mimeType: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Give the browser a moment to start the download before revoking
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+/**
+ * Download rows as CSV. A UTF-8 BOM keeps Excel from mangling non-ASCII names.
+ */
+export function downloadCsv<T>(filename: string, columns: ExportColumn<T>[], rows: T[]): void {
+  downloadFile(filename, `\uFEFF${toCsv(columns, rows)}`, "text/csv;charset=utf-8");
+}
+
+// ============================================================================
+// XLSX
+// ============================================================================
+
+// One worksheet, cells already read from the rows (so sheets of different row types mix)
+export type ExportSheet = {
+  name: string;
+  headers: string[];
+  cells: ExportCell[][];
+};
+
+export function toExportSheet<T>(name: string, columns: ExportColumn<T>[], rows: T[]): ExportSheet {
+  return {
+    name,
+    headers: columns.map((c) => c.header),
+    cells: rows.map((row) => columns.map((c) => c.value(row))),
+  };
+}
+
+const XLSX_MIME = "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet";
+
+const escapeXml = (text: string) =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    // Control characters other than tab/newline are invalid in XML
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, "");
+
+// 0 → A, 25 → Z, 26 → AA
+const columnLetter = (index: number): string => {
+  let n = index + 1;
+  let letters = "";
+  while (n > 0) {
+    const rem = (n - 1) % 26;
+    letters = String.fromCharCode(65 + rem) + letters;
+    n = Math.floor((n - 1) / 26);
+  }
+  return letters;
+};
+
+// Sheet names: max 31 chars, no []:*?/\
+const safeSheetName = (name: string, index: number) =>
+  name.replace(/[[\]:*?/\\]/g, " ").trim().slice(0, 31) || `Sheet${index + 1}`;
+
+function xlsxCell(ref: string, cell: ExportCell, style = 0): string {
+  const s = style ? ` s="${style}"` : "";
+  if (cell == null || cell === "") return "";
+  if (typeof cell === "number") return Number.isFinite(cell) ? `<c r="${ref}"${s}><v>${cell}</v></c>` : "";
+  if (typeof cell === "boolean") return `<c r="${ref}"${s} t="b"><v>${cell ? 1 : 0}</v></c>`;
+  return `<c r="${ref}"${s} t="inlineStr"><is><t xml:space="preserve">${escapeXml(cell)}</t></is></c>`;
+}
+
+function sheetXml(sheet: ExportSheet): string {
+  const rows: string[] = [];
+  const header = sheet.headers.map((h, i) => xlsxCell(`${columnLetter(i)}1`, h, 1)).join("");
+  rows.push(`<row r="1">${header}</row>`);
+  sheet.cells.forEach((rowCells, r) => {
+    const cells = rowCells.map((cell, i) => xlsxCell(`${columnLetter(i)}${r + 2}`, cell)).join("");
+    rows.push(`<row r="${r + 2}">${cells}</row>`);
+  });
+  return (
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>` +
+    `<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">` +
+    `<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" state="frozen"/></sheetView></sheetViews>` +
+    `<sheetData>${rows.join("")}</sheetData></worksheet>`
+  );
+}
+
+/**
+ * Minimal Office Open XML workbook (one worksheet per sheet, bold frozen header
+ * row, inline strings) - enough for Excel, LibreOffice and Google Sheets
+ * without pulling in a spreadsheet library.
+ */
+export function toXlsx(sheets: ExportSheet[]): Uint8Array {
+  // Excel refuses workbooks with two sheets of the same name
+  const names: string[] = [];
+  sheets.forEach((sheet, i) => {
+    const base = safeSheetName(sheet.name, i);
+    let name = base;
+    for (let n = 2; names.includes(name); n++) name = `${base.slice(0, 27)} (${n})`;
+    names.push(name);
+  });
+  const files: { path: string; content: string }[] = [
+    {
+      path: "[Content_Types].xml",
+      content:
+        `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>` +
+        `<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">` +
+        `<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>` +
+        `<Default Extension="xml" ContentType="application/xml"/>` +
+        `<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>` +
+        `<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>` +
+        names
+          .map(
+            (_, i) =>
+              `<Override PartName="/xl/worksheets/sheet${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`
+          )
+          .join("") +
+        `</Types>`,
+    },
+    {
+      path: "_rels/.rels",
+      content:
+        `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>` +
+        `<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+        `<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>` +
+        `</Relationships>`,
+    },
+    {
+      path: "xl/workbook.xml",
+      content:
+        `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>` +
+        `<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">` +
+        `<sheets>${names
+          .map((name, i) => `<sheet name="${escapeXml(name)}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`)
+          .join("")}</sheets></workbook>`,
+    },
+    {
+      path: "xl/_rels/workbook.xml.rels",
+      content:
+        `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>` +
+        `<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+        names
+          .map(
+            (_, i) =>
+              `<Relationship Id="rId${i + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`
+          )
+          .join("") +
+        `<Relationship Id="rId${names.length + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>` +
+        `</Relationships>`,
+    },
+    {
+      path: "xl/styles.xml",
+      content:
+        `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>` +
+        `<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">` +
+        `<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>` +
+        `<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>` +
+        `<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>` +
+        `<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>` +
+        `<cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>` +
+        `<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs>` +
+        `</styleSheet>`,
+    },
+    ...sheets.map((sheet, i) => ({ path: `xl/worksheets/sheet${i + 1}.xml`, content: sheetXml(sheet) })),
+  ];
+
+  return zipStored(files.map((f) => ({ path: f.path, data: new TextEncoder().encode(f.content) })));
+}
+
+export function downloadXlsx(filename: string, sheets: ExportSheet[]): void {
+  downloadFile(filename, toXlsx(sheets) as Uint8Array<ArrayBuffer>, XLSX_MIME);
+}
+
+// ============================================================================
+// ZIP (store only)
+// ============================================================================
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Uncompressed ZIP archive. XLSX only requires a valid container, and skipping
+ * deflate keeps this dependency-free; dashboard tables are small anyway.
+ */
+function zipStored(files: { path: string; data: Uint8Array }[]): Uint8Array {
+  const encoder = new TextEncoder();
+  const localParts: Uint8Array[] = [];
+  const centralParts: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const file of files) {
+    const name = encoder.encode(file.path);
+    const crc = crc32(file.data);
+    const size = file.data.length;
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true); // local file header signature
+    local.setUint16(4, 20, true); // version needed
+    local.setUint16(6, 0x0800, true); // UTF-8 names
+    local.setUint16(8, 0, true); // stored
+    local.setUint16(10, 0, true); // mod time
+    local.setUint16(12, 0x21, true); // mod date (1980-01-01)
+    local.setUint32(14, crc, true);
+    local.setUint32(18, size, true);
+    local.setUint32(22, size, true);
+    local.setUint16(26, name.length, true);
+    local.setUint16(28, 0, true);
+    localParts.push(new Uint8Array(local.buffer), name, file.data);
+
+    const central = new DataView(new ArrayBuffer(46));
+    central.setUint32(0, 0x02014b50, true); // central directory signature
+    central.setUint16(4, 20, true); // version made by
+    central.setUint16(6, 20, true);
+    central.setUint16(8, 0x0800, true);
+    central.setUint16(10, 0, true);
+    central.setUint16(12, 0, true);
+    central.setUint16(14, 0x21, true);
+    central.setUint32(16, crc, true);
+    central.setUint32(20, size, true);
+    central.setUint32(24, size, true);
+    central.setUint16(28, name.length, true);
+    central.setUint32(42, offset, true);
+    centralParts.push(new Uint8Array(central.buffer), name);
+
+    offset += 30 + name.length + size;
+  }
+
+  const centralSize = centralParts.reduce((sum, p) => sum + p.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true); // end of central directory signature
+  end.setUint16(8, files.length, true);
+  end.setUint16(10, files.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+
+  const parts = [...localParts, ...centralParts, new Uint8Array(end.buffer)];
+  const out = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let pos = 0;
+  for (const part of parts) {
+    out.set(part, pos);
+    pos += part.length;
+  }
+  return out;
+}
@@ -0,0 +1,138 @@
+/**
+ * Automatic pickup warehouse for the Route Planner's "Auto" option.
+ *
+ * calculateRouteViaWarehouse needs the caller to name a warehouse. This module
+ * picks it: every open warehouse serving the NFO's area (warehousesForArea) is
+ * scored by NFO → warehouse → site driving time from ONE /api/route-matrix call
+ * (sources: NFO + warehouses, destinations: warehouses + site), and the fastest
+ * total wins. The same matrix gives the direct NFO → site cost, so each option
+ * carries its detour in km and minutes versus going straight to the site.
+ *
+ * Only the winner is routed in full afterwards (by the caller).
+ */
+
+import { fetchRouteMatrix, haversineKm, type RouteRequestOptions } from "./routing";
+import { hasValidLocation } from "./nfoHelpers";
+import { isWarehouseOpen, warehousesForArea } from "./warehouses";
+import type { WarehouseRecord } from "../components/RoutePlanner";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type WarehouseOption = {
+  warehouseId: number;
+  name: string;
+  totalKm: number;   // NFO → warehouse → site
+  totalMin: number;
+  detourKm: number;  // versus driving straight to the site
+  detourMin: number;
+  estimated: boolean; // at least one leg fell back to straight-line distance
+};
+
+export type WarehouseRanking = {
+  options: WarehouseOption[]; // best first, at most `topN`
+  direct: { km: number; min: number; estimated: boolean };
+  evaluated: number;          // warehouses scored
+  area: string | null;        // NFO area used to pick the candidates
+  costSource: "matrix" | "haversine";
+};
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+// Options shown under the warehouse selector
+export const WAREHOUSE_RANKING_TOP_N = 3;
+
+// Warehouses sent to the matrix (nearest by straight-line detour first)
+const MAX_WAREHOUSE_CANDIDATES = 20;
+
+// Minutes for legs the matrix could only measure in a straight line (same as routeOptimizer.ts)
+const FALLBACK_SPEED_KMH = 50;
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+// ============================================================================
+// Ranking
+// ============================================================================
+
+/**
+ * Score open warehouses in the NFO's area for a NFO → warehouse → site trip.
+ * Returns null when no warehouse qualifies.
+ */
+export async function rankWarehousesForTrip(
+  nfo: { lat: number; lng: number; area: string | null },
+  site: { lat: number; lng: number },
+  warehouses: WarehouseRecord[],
+  requestOptions: RouteRequestOptions = {},
+  topN: number = WAREHOUSE_RANKING_TOP_N
+): Promise<WarehouseRanking | null> {
+  const airDirectKm = haversineKm(nfo.lat, nfo.lng, site.lat, site.lng);
+
+  // Open, located warehouses in the area - the closest detours go to the matrix
+  const candidates = warehousesForArea(warehouses, nfo.area)
+    .filter((w) => isWarehouseOpen(w) && hasValidLocation({ lat: w.latitude, lng: w.longitude }))
+    .map((w) => ({
+      warehouse: w,
+      airKm:
+        haversineKm(nfo.lat, nfo.lng, w.latitude!, w.longitude!) +
+        haversineKm(w.latitude!, w.longitude!, site.lat, site.lng),
+    }))
+    .sort((a, b) => a.airKm - b.airKm)
+    .slice(0, MAX_WAREHOUSE_CANDIDATES)
+    .map((c) => c.warehouse);
+
+  if (candidates.length === 0) return null;
+
+  const whCoords = candidates.map((w) => [w.longitude!, w.latitude!] as [number, number]);
+  const matrix = await fetchRouteMatrix(
+    [[nfo.lng, nfo.lat], ...whCoords],
+    [...whCoords, [site.lng, site.lat]],
+    requestOptions
+  );
+
+  // Cost of one matrix cell; straight-line fallback when the cell (or the matrix) has no duration
+  const siteCol = candidates.length;
+  const cell = (row: number, col: number, airKm: number) => {
+    const minutes = matrix?.durationsMin[row]?.[col];
+    if (matrix && minutes != null) return { km: matrix.distancesKm[row][col], min: minutes, estimated: false };
+    return { km: airKm, min: (airKm / FALLBACK_SPEED_KMH) * 60, estimated: true };
+  };
+
+  const direct = cell(0, siteCol, airDirectKm);
+
+  const options: WarehouseOption[] = candidates.map((w, i) => {
+    const toWarehouse = cell(0, i, haversineKm(nfo.lat, nfo.lng, w.latitude!, w.longitude!));
+    const toSite = cell(i + 1, siteCol, haversineKm(w.latitude!, w.longitude!, site.lat, site.lng));
+    const totalKm = toWarehouse.km + toSite.km;
+    const totalMin = toWarehouse.min + toSite.min;
+    return {
+      warehouseId: w.id,
+      name: w.name,
+      totalKm: round1(totalKm),
+      totalMin: Math.round(totalMin),
+      detourKm: round1(totalKm - direct.km),
+      detourMin: Math.round(totalMin - direct.min),
+      estimated: toWarehouse.estimated || toSite.estimated,
+    };
+  });
+
+  // Real driving times first, then straight-line estimates
+  options.sort((a, b) => Number(a.estimated) - Number(b.estimated) || a.totalMin - b.totalMin);
+
+  console.log("warehouseRanking.ts rankWarehousesForTrip", {
+    area: nfo.area,
+    evaluated: candidates.length,
+    matrix: !!matrix,
+    best: options[0]?.name,
+  });
+
+  return {
+    options: options.slice(0, topN),
+    direct: { km: round1(direct.km), min: Math.round(direct.min), estimated: direct.estimated },
+    evaluated: candidates.length,
+    area: nfo.area,
+    costSource: matrix ? "matrix" : "haversine",
+  };
+}
@@ -0,0 +1,242 @@
+/**
+ * Warehouses - opening hours, area assignment and the nfo_status → warehouse link.
+ *
+ * The Android app used to send only a free-text `warehouse_name`, which the
+ * dashboard matched case-insensitively against `warehouses.name`. Newer builds
+ * also send `warehouse_id`; resolveNfoWarehouse prefers it and only falls back
+ * to the name for rows without an id. findUnmatchedWarehouseNames lists the
+ * names that still don't resolve so they can be fixed in the Warehouses view.
+ *
+ * Pickup routing (dashboard, Live Map, dispatch shortlist, Route Planner) only
+ * uses warehouses that are active AND open at the time of routing.
+ *
+ * Expected columns (Supabase SQL):
+ *   alter table warehouses add column opening_hours jsonb, add column areas text[];
+ *   alter table nfo_status add column warehouse_id bigint references warehouses(id);
+ * opening_hours is `{ "sun": { "open": "08:00", "close": "17:00" }, "fri": null, ... }`
+ * (missing day or null = closed, close before open = past midnight); a null
+ * opening_hours means no hours are set and the warehouse counts as always open.
+ */
+
+import { hasValidLocation, type NfoStatusRow } from "./nfoHelpers";
+import type { WarehouseRecord } from "../components/RoutePlanner";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type Weekday = "sun" | "mon" | "tue" | "wed" | "thu" | "fri" | "sat";
+
+export type WarehouseDayHours = {
+  open: string;  // "HH:MM", local time
+  close: string; // "HH:MM", before `open` when the warehouse closes after midnight
+};
+
+export type WarehouseOpeningHours = Partial<Record<Weekday, WarehouseDayHours | null>>;
+
+export type WarehouseLink = {
+  warehouse: WarehouseRecord;
+  matchedBy: "id" | "name";
+};
+
+export type UnmatchedWarehouseName = {
+  warehouseName: string;
+  warehouseId: number | null; // set when the app sent an id that doesn't exist
+  usernames: string[];
+};
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+// Date.getDay() order
+export const WEEKDAYS: Weekday[] = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+
+export const WEEKDAY_LABELS: Record<Weekday, string> = {
+  sun: "Sun",
+  mon: "Mon",
+  tue: "Tue",
+  wed: "Wed",
+  thu: "Thu",
+  fri: "Fri",
+  sat: "Sat",
+};
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+// ============================================================================
+// Opening hours
+// ============================================================================
+
+const minutesOfDay = (time: string): number | null => {
+  const match = TIME_PATTERN.exec(time.trim());
+  return match ? Number(match[1]) * 60 + Number(match[2]) : null;
+};
+
+/**
+ * Validate an opening_hours value from the database or an API body. Days with
+ * malformed times are dropped (= closed); anything that isn't an object gives null.
+ */
+export function normalizeOpeningHours(value: unknown): WarehouseOpeningHours | null {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return null;
+  const raw = value as Record<string, unknown>;
+  const hours: WarehouseOpeningHours = {};
+  for (const day of WEEKDAYS) {
+    const entry = raw[day] as { open?: unknown; close?: unknown } | null | undefined;
+    if (
+      entry &&
+      typeof entry.open === "string" &&
+      typeof entry.close === "string" &&
+      minutesOfDay(entry.open) != null &&
+      minutesOfDay(entry.close) != null
+    ) {
+      hours[day] = { open: entry.open.trim(), close: entry.close.trim() };
+    } else {
+      hours[day] = null;
+    }
+  }
+  return hours;
+}
+
+/**
+ * Whether the warehouse can be used for a pickup at `at` (local time).
+ * Inactive warehouses are never open; warehouses without opening hours always are.
+ */
+export function isWarehouseOpen(warehouse: WarehouseRecord, at: number = Date.now()): boolean {
+  if (!warehouse.is_active) return false;
+  const hours = warehouse.opening_hours;
+  if (!hours) return true;
+
+  const date = new Date(at);
+  const nowMin = date.getHours() * 60 + date.getMinutes();
+  const today = hours[WEEKDAYS[date.getDay()]];
+  const yesterday = hours[WEEKDAYS[(date.getDay() + 6) % 7]];
+
+  if (today) {
+    const open = minutesOfDay(today.open)!;
+    const close = minutesOfDay(today.close)!;
+    if (open === close) return true; // 24h
+    if (close > open ? nowMin >= open && nowMin < close : nowMin >= open) return true;
+  }
+  // Still inside yesterday's after-midnight window
+  if (yesterday) {
+    const open = minutesOfDay(yesterday.open)!;
+    const close = minutesOfDay(yesterday.close)!;
+    if (close < open && nowMin < close) return true;
+  }
+  return false;
+}
+
+/**
+ * One-line summary, e.g. "Sun–Thu 08:00–17:00 · Sat 09:00–13:00" ("No hours set" when null).
+ */
+export function formatOpeningHours(hours: WarehouseOpeningHours | null | undefined): string {
+  if (!hours) return "No hours set";
+  const groups: { days: Weekday[]; label: string }[] = [];
+  for (const day of WEEKDAYS) {
+    const h = hours[day];
+    const label = h ? (h.open === h.close ? "24h" : `${h.open}–${h.close}`) : "closed";
+    const last = groups[groups.length - 1];
+    if (last && last.label === label) last.days.push(day);
+    else groups.push({ days: [day], label });
+  }
+  const open = groups.filter((g) => g.label !== "closed");
+  if (open.length === 0) return "Always closed";
+  return open
+    .map((g) => {
+      const first = WEEKDAY_LABELS[g.days[0]];
+      const range = g.days.length > 1 ? `${first}–${WEEKDAY_LABELS[g.days[g.days.length - 1]]}` : first;
+      return `${range} ${g.label}`;
+    })
+    .join(" · ");
+}
+
+// ============================================================================
+// NFO → warehouse link
+// ============================================================================
+
+const sameName = (a: string | null | undefined, b: string | null | undefined) =>
+  !!a && !!b && a.trim().toLowerCase() === b.trim().toLowerCase();
+
+/**
+ * The warehouse an nfo_status row refers to: by `warehouse_id`, or by name for
+ * rows from app builds that don't send the id yet.
+ */
+export function resolveNfoWarehouse(
+  nfo: Pick<NfoStatusRow, "warehouse_id" | "warehouse_name">,
+  warehouses: WarehouseRecord[]
+): WarehouseLink | null {
+  if (nfo.warehouse_id != null) {
+    const byId = warehouses.find((w) => w.id === nfo.warehouse_id);
+    return byId ? { warehouse: byId, matchedBy: "id" } : null;
+  }
+  const name = (nfo.warehouse_name ?? "").trim();
+  if (!name) return null;
+  const byName = warehouses.find((w) => sameName(w.name, name));
+  return byName ? { warehouse: byName, matchedBy: "name" } : null;
+}
+
+/**
+ * Warehouse to route an NFO through, or null to route directly: only when the
+ * row says via_warehouse, the warehouse resolves, has coordinates and is open.
+ */
+export function pickupWarehouseForNfo(
+  nfo: Pick<NfoStatusRow, "via_warehouse" | "warehouse_id" | "warehouse_name">,
+  warehouses: WarehouseRecord[],
+  at: number = Date.now()
+): WarehouseRecord | null {
+  if (!nfo.via_warehouse) return null;
+  const link = resolveNfoWarehouse(nfo, warehouses);
+  if (!link) return null;
+  const { warehouse } = link;
+  if (!hasValidLocation({ lat: warehouse.latitude, lng: warehouse.longitude })) return null;
+  return isWarehouseOpen(warehouse, at) ? warehouse : null;
+}
+
+/**
+ * The NFO's linked warehouse when pickupWarehouseForNfo skips it because it is
+ * closed at `at` - the NFO is then routed straight to the site.
+ */
+export function closedPickupWarehouseForNfo(
+  nfo: Pick<NfoStatusRow, "via_warehouse" | "warehouse_id" | "warehouse_name">,
+  warehouses: WarehouseRecord[],
+  at: number = Date.now()
+): WarehouseRecord | null {
+  if (!nfo.via_warehouse) return null;
+  const warehouse = resolveNfoWarehouse(nfo, warehouses)?.warehouse;
+  return warehouse && !isWarehouseOpen(warehouse, at) ? warehouse : null;
+}
+
+export const closedPickupNote = (warehouseName: string) => `${warehouseName} is closed – pickup skipped`;
+
+/**
+ * warehouse_name / warehouse_id values on the latest nfo_status rows that don't
+ * resolve to any warehouse, most used first.
+ */
+export function findUnmatchedWarehouseNames(
+  nfos: Pick<NfoStatusRow, "username" | "warehouse_id" | "warehouse_name">[],
+  warehouses: WarehouseRecord[]
+): UnmatchedWarehouseName[] {
+  const byKey = new Map<string, UnmatchedWarehouseName>();
+  for (const nfo of nfos) {
+    const name = (nfo.warehouse_name ?? "").trim();
+    if (!name && nfo.warehouse_id == null) continue;
+    if (resolveNfoWarehouse(nfo, warehouses)) continue;
+
+    const key = `${nfo.warehouse_id ?? ""}|${name.toLowerCase()}`;
+    const entry = byKey.get(key) ?? { warehouseName: name, warehouseId: nfo.warehouse_id ?? null, usernames: [] };
+    entry.usernames.push(nfo.username);
+    byKey.set(key, entry);
+  }
+  return Array.from(byKey.values()).sort((a, b) => b.usernames.length - a.usernames.length);
+}
+
+/**
+ * Active warehouses assigned to an area (case-insensitive); warehouses without
+ * any area assignment serve every area.
+ */
+export function warehousesForArea(warehouses: WarehouseRecord[], area: string | null | undefined): WarehouseRecord[] {
+  return warehouses.filter(
+    (w) => w.is_active && (!w.areas || w.areas.length === 0 || w.areas.some((a) => sameName(a, area)))
+  );
+}
@@ -0,0 +1,107 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import { supabase, isSupabaseConfigured } from "../../lib/supabaseClient";
+
+/**
+ * Login page - Supabase Auth email/password sign-in for the manager console.
+ * Already signed-in users are sent straight to the dashboard.
+ */
+export default function LoginPage() {
+  const router = useRouter();
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [checkingSession, setCheckingSession] = useState(true);
+
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data }) => {
+      if (data.session) {
+        router.replace("/");
+      } else {
+        setCheckingSession(false);
+      }
+    });
+  }, [router]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    setError(null);
+
+    const { error: signInError } = await supabase.auth.signInWithPassword({
+      email: email.trim(),
+      password,
+    });
+
+    if (signInError) {
+      console.warn("[Login] Sign-in failed:", signInError.message);
+      setError(signInError.message);
+      setSubmitting(false);
+      return;
+    }
+
+    router.replace("/");
+  };
+
+  if (checkingSession) {
+    return (
+      <main className="min-h-screen flex items-center justify-center">
+        <p>Checking sign-in…</p>
+      </main>
+    );
+  }
+
+  return (
+    <main className="min-h-screen flex items-center justify-center bg-slate-50">
+      <form onSubmit={handleSubmit} className="w-full max-w-sm bg-white shadow rounded-xl p-6 space-y-4">
+        <div>
+          <h1 className="text-lg font-semibold">NFO Manager</h1>
+          <p className="text-xs text-slate-500">Sign in to the web console</p>
+        </div>
+
+        {!isSupabaseConfigured && (
+          <p className="text-xs text-orange-600">
+            Supabase is not configured (NEXT_PUBLIC_SUPABASE_URL / NEXT_PUBLIC_SUPABASE_ANON_KEY).
+          </p>
+        )}
+
+        <label className="block text-sm">
+          <span className="text-slate-700">Email</span>
+          <input
+            type="email"
+            autoComplete="email"
+            required
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            className="mt-1 w-full border border-slate-300 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-sky-500"
+          />
+        </label>
+
+        <label className="block text-sm">
+          <span className="text-slate-700">Password</span>
+          <input
+            type="password"
+            autoComplete="current-password"
+            required
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            className="mt-1 w-full border border-slate-300 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-sky-500"
+          />
+        </label>
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        <button
+          type="submit"
+          disabled={submitting}
+          className="w-full py-2 rounded-lg bg-sky-600 text-white font-medium hover:bg-sky-700 disabled:bg-slate-300"
+        >
+          {submitting ? "Signing in…" : "Sign in"}
+        </button>
+      </form>
+    </main>
+  );
+}
@@ -1,7 +1,8 @@
 "use client";
 
 import { useEffect, useState, useMemo, useCallback, useRef } from "react";
-import { supabase } from "../lib/supabaseClient";
+import { useRouter } from "next/navigation";
+import { supabase, isSupabaseConfigured } from "../lib/supabaseClient";
 import {
   NfoStatusRow,
   SiteRecord,
@@ -14,10 +15,19 @@ import {
   formatDistanceLabel,
   computePingStatus,
   computeAssignmentState,
+  isNewerNfoRow,
 } from "./lib/nfoHelpers";
 import LiveMap from "./components/LiveMap";
 import NfoRoutesView from "./components/NfoRoutesView";
 import RoutePlanner from "./components/RoutePlanner";
+import AssignmentsView from "./components/AssignmentsView";
+import RosterView from "./components/RosterView";
+import ReportsView from "./components/ReportsView";
+import SitesView from "./components/SitesView";
+import WarehousesView from "./components/WarehousesView";
+import SlaPanel from "./components/SlaPanel";
+import AlertRulesView from "./components/AlertRulesView";
+import ExportButtons from "./components/ExportButtons";
 import type { WarehouseRecord, RoutePlannerState } from "./components/RoutePlanner";
 import { 
   calculateBestRoute, 
@@ -25,11 +35,111 @@ import {
   type RouteResult as SharedRouteResult, 
   type RouteEngine,
   type EngineRouteData,
+  type RouteCacheSource,
+  isAbortError,
   ROUTE_SANITY_RATIO_THRESHOLD,
+  fetchRouteMatrix,
+  type MatrixCellEngine,
 } from "./lib/routing";
-
-const STUCK_MINUTES = 150; // 2.5 hours
-const REFRESH_INTERVAL_MS = 30_000; // 30 seconds auto-refresh
+import {
+  findContainingGeofence,
+  detectLocationMismatch,
+  deriveGeofenceEvents,
+  clampGeofenceRadiusM,
+  DEFAULT_GEOFENCE_RADIUS_M,
+  MIN_GEOFENCE_RADIUS_M,
+  MAX_GEOFENCE_RADIUS_M,
+  MAX_GEOFENCE_EVENTS,
+  type GeofenceEvent,
+  type LocationMismatch,
+} from "./lib/geofence";
+import {
+  DEFAULT_ALERT_RULES,
+  applyAlertAckAction,
+  evaluateAlertRules,
+  findStaleAlertAcks,
+  getAlertVisibility,
+  resolveAreaThresholds,
+  withAlertAck,
+  type AlertAckAction,
+  type AlertAckState,
+  type AlertRule,
+} from "./lib/alertRules";
+import {
+  detectNotificationTransitions,
+  isBrowserNotificationSupported,
+  parseNotifiedState,
+  parseWebhookQueue,
+  postWebhookNotifications,
+  queueWebhookNotifications,
+  requestBrowserNotificationPermission,
+  showBrowserNotifications,
+  type NfoNotification,
+  type NotifiedState,
+} from "./lib/notifications";
+import {
+  getManagerProfile,
+  filterNfosForProfile,
+  canEditConfig,
+  canActOnAlerts,
+  canAssignJobs,
+  canEditRoster,
+  MANAGER_ROLE_LABELS,
+  type ManagerProfile,
+} from "./lib/auth";
+import {
+  deleteAlertAcks,
+  fetchAlertSettings,
+  fetchAssignments,
+  fetchLatestNfos,
+  fetchRoster,
+  fetchSites,
+  fetchWarehouses,
+  saveAlertRules,
+  saveSiteGeofenceRadius,
+  updateAlertAck,
+  updateAssignment,
+} from "./lib/dataClient";
+import {
+  findAssignmentProgress,
+  isOpenAssignment,
+  lastTransitionMs,
+  newestOpenAssignments,
+  replayAssignmentTransitions,
+  type AssignmentStatus,
+  type AssignmentTransition,
+  type NfoAssignment,
+} from "./lib/assignments";
+import { fetchNfoTrail } from "./lib/nfoTrail";
+import { evaluateJobSla } from "./lib/sla";
+import { computeRosterCoverage, localDayRange, toLocalDateInput, type RosterShift } from "./lib/roster";
+import type { ExportColumn } from "./lib/tableExport";
+import {
+  closedPickupNote,
+  closedPickupWarehouseForNfo,
+  findUnmatchedWarehouseNames,
+  pickupWarehouseForNfo,
+} from "./lib/warehouses";
+import {
+  formatSnapshotTime,
+  clearOfflineSnapshots,
+  loadOfflineSnapshot,
+  registerOfflineServiceWorker,
+  saveOfflineSnapshot,
+} from "./lib/offline";
+import OfflineMapPanel from "./components/OfflineMapPanel";
+
+const REFRESH_INTERVAL_MS = 30_000; // 30 seconds polling fallback
+const ALERT_CLOCK_INTERVAL_MS = 60_000; // re-evaluate time-based alert rules without new data
+const SLA_CLOCK_INTERVAL_MS = 15_000; // SLA countdowns on the dashboard
+const ALERT_RULES_SAVE_DELAY_MS = 800; // rule edits are saved once typing pauses
+const ROSTER_REFRESH_INTERVAL_MS = 5 * 60_000; // today's roster + actual on-shift times (one heartbeat read)
+const ASSIGNMENT_CATCH_UP_HOURS = 24; // how far back open jobs replay heartbeats when a console opens
+const NEAREST_ETA_CONCURRENCY = 4; // parallel /api/route-matrix calls (one per nearest site)
+
+// Realtime is on unless explicitly disabled (e.g. a project without replication on nfo_status)
+const REALTIME_SNAPSHOT_INTERVAL_MS = 60_000; // offline nfo_status snapshot from realtime changes
+const REALTIME_ENABLED = process.env.NEXT_PUBLIC_SUPABASE_REALTIME !== "false";
 
 /**
  * LocalStorage keys for persistence across hard refresh (F5).
@@ -37,10 +147,11 @@ const REFRESH_INTERVAL_MS = 30_000; // 30 seconds auto-refresh
  * PERSISTED STATE:
  * - Dashboard: selectedTab, statusFilter, areaFilter, searchTerm
  * - Live Map: mapAreaFilter (NFOs_ONLY / All Sites / specific area), mapNfoFilter (legend filter)
+ * - Notifications: browser/webhook toggles and which state transitions were already notified
  * 
  * This ensures users don't lose their selections when:
  * 1. Switching between tabs (Dashboard ↔ Live Map)
- * 2. Data refreshes every 30 seconds
+ * 2. Data refreshes (realtime patches or 30-second polling)
  * 3. Hard browser refresh (F5)
  */
 const LS_KEYS = {
@@ -52,6 +163,11 @@ const LS_KEYS = {
   // Live Map state
   mapAreaFilter: "nfoDashboard.mapAreaFilter",   // "NFOs_ONLY", null (All Sites), or area name
   mapNfoFilter: "nfoDashboard.mapNfoFilter",     // null (all), "free", "busy", "on-shift", "off-shift"
+  // Notifications
+  notifyBrowser: "nfoDashboard.notifyBrowser",
+  notifyWebhook: "nfoDashboard.notifyWebhook",
+  notifiedState: "nfoDashboard.notifiedState",
+  webhookQueue: "nfoDashboard.webhookQueue",
 };
 
 type EnrichedNfo = NfoStatusRow & {
@@ -72,6 +188,8 @@ type EnrichedNfo = NfoStatusRow & {
   isOnShift: boolean;
   isOffShift: boolean;
   isDeviceSilent: boolean; // status field from Kotlin app is "device-silent"
+  geofenceSiteId: string | null; // Site whose geofence currently contains the NFO
+  locationMismatch: LocationMismatch | null; // Busy at site_id but positioned elsewhere
 };
 
 type Stats = {
@@ -81,6 +199,7 @@ type Stats = {
   free: number;
   offShift: number;
   notActive: number;
+  locationMismatch: number;
 };
 
 type AreaSummary = {
@@ -91,6 +210,11 @@ type AreaSummary = {
   free: number;
   offShift: number;
   notActive: number;
+  openJobs: number;
+  slaBreached: number; // open jobs past a response or restore deadline
+  rosteredNow: number; // planned shifts in progress
+  rosterCovered: number; // of those, NFO actually on shift
+  rosterIssues: number; // today's late starts / early logouts / no-shows
 };
 
 type StatusFilter =
@@ -102,9 +226,12 @@ type StatusFilter =
   | "devicesilent"
   | "notactive";
 
-type KpiCategory = "total" | "onShift" | "busy" | "free" | "offShift" | "notActive";
+type KpiCategory = "total" | "onShift" | "busy" | "free" | "offShift" | "notActive" | "locationMismatch";
 
-type View = "dashboard" | "map" | "routes" | "routePlanner" | "settings";
+// How nfo_status updates reach the dashboard
+type FeedMode = "connecting" | "live" | "polling";
+
+type View = "dashboard" | "map" | "routes" | "routePlanner" | "assignments" | "roster" | "reports" | "sites" | "warehouses" | "alerts" | "settings";
 
 // Helper to safely read from localStorage (client-side only)
 function getStoredValue<T>(key: string, fallback: T): T {
@@ -128,6 +255,71 @@ function setStoredValue(key: string, value: string): void {
   }
 }
 
+/**
+ * Export columns for enriched NFO rows (Field Engineers table, stuck panel, KPI
+ * lists). Route km / ETA come from rows where "Route" was clicked, ETA to the
+ * nearest site from the last "Compute ETAs".
+ */
+function buildNfoExportColumns(
+  rowRoutes: Map<string, RowRouteResult>,
+  nearestSiteEtas: Map<string, NearestSiteEta>
+): ExportColumn<EnrichedNfo>[] {
+  const round = (value: number | null | undefined, decimals = 2) =>
+    value == null ? null : Math.round(value * 10 ** decimals) / 10 ** decimals;
+
+  return [
+    { header: "Username", value: (n) => n.username },
+    { header: "Name", value: (n) => n.name },
+    { header: "Area", value: (n) => n.home_location },
+    { header: "On shift", value: (n) => n.on_shift === true },
+    { header: "Status", value: (n) => n.status },
+    { header: "Busy", value: (n) => n.isBusy },
+    { header: "Free", value: (n) => n.isFree },
+    { header: "Not active", value: (n) => n.isNotActive },
+    { header: "Ping reason", value: (n) => n.pingReason },
+    { header: "Activity", value: (n) => n.activity },
+    { header: "Site ID", value: (n) => n.site_id?.trim() || null },
+    { header: "Via warehouse", value: (n) => n.via_warehouse === true },
+    { header: "Warehouse", value: (n) => n.warehouse_name },
+    { header: "Latitude", value: (n) => n.lat },
+    { header: "Longitude", value: (n) => n.lng },
+    { header: "Nearest site ID", value: (n) => n.nearestSiteId },
+    { header: "Nearest site name", value: (n) => n.nearestSiteName },
+    { header: "Nearest site (km)", value: (n) => round(n.nearestSiteDistanceKm) },
+    { header: "ETA to nearest site (min)", value: (n) => round(nearestSiteEtas.get(n.username)?.durationMin, 0) },
+    { header: "Distance to assigned site (km)", value: (n) => round(n.distanceToAssignedSiteKm) },
+    { header: "Air distance (km)", value: (n) => round(n.airDistanceKm) },
+    { header: "Route (km)", value: (n) => round(rowRoutes.get(n.username)?.distanceKm) },
+    { header: "Route ETA (min)", value: (n) => round(rowRoutes.get(n.username)?.durationMin, 0) },
+    {
+      header: "Route engine",
+      value: (n) => {
+        const route = rowRoutes.get(n.username);
+        return route ? (route.isFallback ? "air" : route.engine ?? null) : null;
+      },
+    },
+    { header: "Geofence site", value: (n) => n.geofenceSiteId },
+    { header: "Location mismatch", value: (n) => n.locationMismatch?.message ?? null },
+    { header: "Minutes since active", value: (n) => round(n.minutesSinceActive, 0) },
+    { header: "Last active", value: (n) => (n.last_active_at ? new Date(n.last_active_at).toLocaleString() : null) },
+  ];
+}
+
+const AREA_SUMMARY_EXPORT_COLUMNS: ExportColumn<AreaSummary>[] = [
+  { header: "Area", value: (a) => a.area },
+  { header: "Total", value: (a) => a.total },
+  { header: "On shift", value: (a) => a.onShift },
+  { header: "Busy", value: (a) => a.busy },
+  { header: "Free", value: (a) => a.free },
+  { header: "Off shift", value: (a) => a.offShift },
+  { header: "Not active", value: (a) => a.notActive },
+  { header: "Open jobs", value: (a) => a.openJobs },
+  { header: "SLA breached", value: (a) => a.slaBreached },
+  { header: "Rostered now", value: (a) => a.rosteredNow },
+  { header: "Rostered on shift", value: (a) => a.rosterCovered },
+  { header: "Roster issues", value: (a) => a.rosterIssues },
+];
+
 /**
  * FieldEngineerRow - Renders a single row in the Field Engineers table
  * with per-row Route/Clear functionality using ORS.
@@ -136,33 +328,56 @@ interface FieldEngineerRowProps {
   enriched: EnrichedNfo;
   sites: SiteRecord[];
   warehouses: WarehouseRecord[];
+  nearestSiteEta?: NearestSiteEta; // from the batch matrix call, if computed
+  onRouteResultChange?: (username: string, result: RowRouteResult | null) => void; // for exports
 }
 
+// Driving ETA from an NFO to its nearest site (one cell of /api/route-matrix)
+type NearestSiteEta = {
+  siteId: string;
+  durationMin: number | null; // null when only straight-line distance is known
+  distanceKm: number;
+  engine: MatrixCellEngine;
+};
+
 interface RowRouteResult {
   distanceKm: number;
   durationMin: number | null; // null for fallback (straight-line)
   viaWarehouse: string | null; // warehouse name if routed via warehouse
+  closedWarehouse: string | null; // linked warehouse skipped because it is closed
   isFallback?: boolean; // true if routing engines couldn't find route
-  engine?: RouteEngine; // "ors" or "osrm" - which engine produced the result
+  engine?: RouteEngine; // which engine produced the result
   warning?: string; // warning if route seems suspicious (> 2x air distance)
   airDistanceKm?: number; // air distance for alternative route ratio check
+  cacheSource?: RouteCacheSource; // set when served from the route cache
   // Alternative engine results for switching
   orsResult?: EngineRouteData;
   osrmResult?: EngineRouteData;
 }
 
-function FieldEngineerRow({ enriched, sites, warehouses }: FieldEngineerRowProps) {
+function FieldEngineerRow({ enriched, sites, warehouses, nearestSiteEta, onRouteResultChange }: FieldEngineerRowProps) {
   const [routeResult, setRouteResult] = useState<RowRouteResult | null>(null);
   const [routeLoading, setRouteLoading] = useState(false);
   const [routeError, setRouteError] = useState<string | null>(null);
 
-  // Helper for case-insensitive warehouse name matching
-  const namesMatch = (a: string | null, b: string | null): boolean => {
-    if (!a || !b) return false;
-    return a.toLowerCase().trim() === b.toLowerCase().trim();
-  };
+  // Report the computed route up so table exports can include its km / ETA
+  const username = enriched.username;
+  useEffect(() => {
+    if (!onRouteResultChange) return;
+    onRouteResultChange(username, routeResult);
+    return () => onRouteResultChange(username, null);
+  }, [username, routeResult, onRouteResultChange]);
+
+  // In-flight route request - a newer click (or Clear) cancels it so it can't overwrite
+  const routeAbortRef = useRef<AbortController | null>(null);
+  useEffect(() => () => routeAbortRef.current?.abort(), []);
 
   const handleRoute = async () => {
+    routeAbortRef.current?.abort();
+    const controller = new AbortController();
+    routeAbortRef.current = controller;
+    const routeOptions = { signal: controller.signal };
+
     setRouteLoading(true);
     setRouteError(null);
     setRouteResult(null);
@@ -191,14 +406,9 @@ function FieldEngineerRow({ enriched, sites, warehouses }: FieldEngineerRowProps
 
       const sitePoint = { lat: targetSite.latitude!, lng: targetSite.longitude! };
 
-      // Check if we should route via warehouse
-      const warehouseNameTrimmed = (enriched.warehouse_name ?? "").trim();
-      const matchingWarehouse = enriched.via_warehouse && warehouseNameTrimmed
-        ? warehouses.find(w =>
-            namesMatch(w.name, warehouseNameTrimmed) &&
-            hasValidLocation({ lat: w.latitude, lng: w.longitude })
-          )
-        : null;
+      // Check if we should route via warehouse (skipped while it is closed)
+      const matchingWarehouse = pickupWarehouseForNfo(enriched, warehouses);
+      const closedWarehouse = closedPickupWarehouseForNfo(enriched, warehouses);
 
       // Debug logging
       console.log("FieldEngineerRow route request", {
@@ -218,7 +428,8 @@ function FieldEngineerRow({ enriched, sites, warehouses }: FieldEngineerRowProps
           matchingWarehouse.latitude!,
           matchingWarehouse.longitude!,
           sitePoint.lat,
-          sitePoint.lng
+          sitePoint.lng,
+          routeOptions
         );
       } else {
         // Direct route - use best route comparison (ORS vs OSRM)
@@ -226,7 +437,8 @@ function FieldEngineerRow({ enriched, sites, warehouses }: FieldEngineerRowProps
           nfoPoint.lat,
           nfoPoint.lng,
           sitePoint.lat,
-          sitePoint.lng
+          sitePoint.lng,
+          routeOptions
         );
       }
 
@@ -235,22 +447,32 @@ function FieldEngineerRow({ enriched, sites, warehouses }: FieldEngineerRowProps
         distanceKm: result.distanceKm,
         durationMin: result.isFallback ? null : result.durationMin,
         viaWarehouse: matchingWarehouse ? matchingWarehouse.name : null,
+        closedWarehouse: closedWarehouse ? closedWarehouse.name : null,
         isFallback: result.isFallback,
         engine: result.engine,
         warning: result.warning,
         airDistanceKm: result.airDistanceKm,
+        cacheSource: result.cacheSource,
         orsResult: result.orsResult,
         osrmResult: result.osrmResult,
       });
     } catch (err) {
+      // Superseded by a newer request - that one owns the state now
+      if (isAbortError(err)) return;
       // Only show error for actual failures (like missing GPS)
       setRouteError(err instanceof Error ? err.message : "Route failed");
     } finally {
-      setRouteLoading(false);
+      if (routeAbortRef.current === controller) {
+        routeAbortRef.current = null;
+        setRouteLoading(false);
+      }
     }
   };
 
   const handleClear = () => {
+    routeAbortRef.current?.abort();
+    routeAbortRef.current = null;
+    setRouteLoading(false);
     setRouteResult(null);
     setRouteError(null);
   };
@@ -328,7 +550,7 @@ function FieldEngineerRow({ enriched, sites, warehouses }: FieldEngineerRowProps
     
     // Normal route: show distance, ETA, and engine
     const durationStr = Math.round(result.durationMin ?? 0);
-    const engineStr = result.engine ? ` (${result.engine.toUpperCase()})` : "";
+    const engineStr = result.engine ? ` (${result.engine.toUpperCase()}${result.cacheSource ? ", cached" : ""})` : "";
     
     if (result.viaWarehouse) {
       return `${distStr} km, ${durationStr} min${engineStr} via ${result.viaWarehouse}`;
@@ -384,6 +606,11 @@ function FieldEngineerRow({ enriched, sites, warehouses }: FieldEngineerRowProps
               <span className={`text-xs ${routeResult.isFallback ? "text-amber-600" : "text-green-700"}`}>
                 {formatRouteSummary(routeResult)}
               </span>
+              {routeResult.closedWarehouse && (
+                <span className="text-[10px] text-orange-600 leading-tight">
+                  {closedPickupNote(routeResult.closedWarehouse)}
+                </span>
+              )}
               {routeResult.warning && (
                 <span className="text-[10px] text-orange-600 leading-tight">
                   ⚠️ {routeResult.warning}
@@ -422,6 +649,20 @@ function FieldEngineerRow({ enriched, sites, warehouses }: FieldEngineerRowProps
         </div>
       </td>
       <td className="py-2 px-2 text-xs">{enriched.nearestSiteId ?? "-"}</td>
+      <td className="py-2 px-2 text-xs">
+        {nearestSiteEta ? (
+          nearestSiteEta.durationMin != null ? (
+            <span className="text-green-700">
+              {Math.round(nearestSiteEta.durationMin)} min
+              <span className="text-gray-400"> · {nearestSiteEta.distanceKm.toFixed(1)} km</span>
+            </span>
+          ) : (
+            <span className="text-amber-600">{nearestSiteEta.distanceKm.toFixed(1)} km (air)</span>
+          )
+        ) : (
+          "-"
+        )}
+      </td>
       <td className="py-2 px-2 text-xs">
         {enriched.airDistanceKm != null ? enriched.airDistanceKm.toFixed(2) : "-"}
       </td>
@@ -433,6 +674,8 @@ function FieldEngineerRow({ enriched, sites, warehouses }: FieldEngineerRowProps
 }
 
 export default function HomePage() {
+  const router = useRouter();
+
   // ============================================================
   // UI STATE - Persisted across hard refresh via localStorage
   // ============================================================
@@ -460,12 +703,23 @@ export default function HomePage() {
     routeResult: null,
     siteSearch: "",
     nfoSearch: "",
+    mode: "single",
+    selectedSiteIds: [],
+    multiStopResult: null,
+    autoWarehouse: null,
   });
   
   // ============================================================
-  // DATA STATE - Refreshed every 30 seconds from Supabase
+  // DATA STATE - Static tables load once; nfo_status is patched from
+  // Supabase Realtime, or re-polled every 30 seconds as a fallback
   // ============================================================
-  const [nfos, setNfos] = useState<NfoStatusRow[]>([]);
+  // Signed-in manager (role + visible regions); null until the session is checked
+  const [profile, setProfile] = useState<ManagerProfile | null>(null);
+  const profileUserId = profile?.userId ?? null;
+
+  // Every latest heartbeat row; `nfos` is the subset the signed-in manager may see
+  const [allNfos, setAllNfos] = useState<NfoStatusRow[]>([]);
+  const nfos = useMemo(() => filterNfosForProfile(profile, allNfos), [profile, allNfos]);
   const [sites, setSites] = useState<SiteRecord[]>([]);
   const [warehouses, setWarehouses] = useState<WarehouseRecord[]>([]);
   const [loading, setLoading] = useState(true);
@@ -474,10 +728,103 @@ export default function HomePage() {
   // Track last successful refresh time
   const [lastRefresh, setLastRefresh] = useState<Date | null>(null);
   const [refreshError, setRefreshError] = useState<string | null>(null);
+  // Set while showing the IndexedDB snapshot because the data API is unreachable (ISO time of the snapshot)
+  const [offlineDataAt, setOfflineDataAt] = useState<string | null>(null);
+
+  // Whether nfo_status updates arrive via realtime ("live") or polling
+  const [feedMode, setFeedMode] = useState<FeedMode>("connecting");
   
+  // Batch ETA-to-nearest-site column (computed on demand via /api/route-matrix)
+  const [nearestSiteEtas, setNearestSiteEtas] = useState<Map<string, NearestSiteEta>>(new Map());
+  const [etaLoading, setEtaLoading] = useState(false);
+  const [etaError, setEtaError] = useState<string | null>(null);
+  const [etaComputedAt, setEtaComputedAt] = useState<Date | null>(null);
+
+  // Per-row routes from the Field Engineers "Route" button, for table exports
+  const [rowRoutes, setRowRoutes] = useState<Map<string, RowRouteResult>>(new Map());
+  const handleRowRouteResult = useCallback((username: string, result: RowRouteResult | null) => {
+    setRowRoutes((prev) => {
+      if (!result && !prev.has(username)) return prev;
+      const next = new Map(prev);
+      if (result) next.set(username, result);
+      else next.delete(username);
+      return next;
+    });
+  }, []);
+
+  // Geofences: recent arrival/departure events and the radius form (radii live in Site_Coordinates)
+  const [geofenceEvents, setGeofenceEvents] = useState<GeofenceEvent[]>([]);
+  const [geofenceSiteInput, setGeofenceSiteInput] = useState("");
+  const [geofenceRadiusInput, setGeofenceRadiusInput] = useState("");
+  const [geofenceError, setGeofenceError] = useState<string | null>(null);
+
+  // Alert rules (per-area thresholds) and acknowledge/snooze state, shared via /api/alerts
+  const [alertRules, setAlertRules] = useState<AlertRule[]>(DEFAULT_ALERT_RULES);
+  const [alertAcks, setAlertAcks] = useState<AlertAckState>({});
+  const [alertSettingsError, setAlertSettingsError] = useState<string | null>(null);
+  // Pending rule save - polls don't overwrite rules while an edit is unsaved
+  const alertRulesSaveTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const alertRulesSavingRef = useRef(false);
+  // Ticks once a minute so silence/stuck/hours rules fire even when no new heartbeats arrive
+  const [alertClock, setAlertClock] = useState(() => Date.now());
+
+  // Jobs sent to the Android app (nfo_assignments), refreshed with every nfo_status poll
+  const [assignments, setAssignments] = useState<NfoAssignment[]>([]);
+  const [assignmentsError, setAssignmentsError] = useState<string | null>(null);
+  // Assignment ids with a status update in flight (so a poll doesn't send it twice)
+  const assignmentUpdatesRef = useRef<Set<number>>(new Set());
+  // Open assignment ids whose heartbeat history was already replayed this session
+  const assignmentCatchUpRef = useRef<Set<number>>(new Set());
+  // Ticks every few seconds for the SLA countdowns
+  const [slaClock, setSlaClock] = useState(() => Date.now());
+  // Jobs of the NFOs this manager may see (supervisors: their regions)
+  const visibleAssignments = useMemo(() => {
+    const visible = new Set(nfos.map((n) => n.username));
+    return assignments.filter((a) => visible.has(a.username));
+  }, [assignments, nfos]);
+
+  // Today's planned shifts (nfo_roster) for coverage in the Area summary
+  const [todayRoster, setTodayRoster] = useState<RosterShift[]>([]);
+  const [rosterReloadToken, setRosterReloadToken] = useState(0);
+  const rosterDay = toLocalDateInput(alertClock);
+
+  // Notification delivery toggles (transitions into stuck / not active / device-silent)
+  const [notifyBrowser, setNotifyBrowser] = useState(false);
+  const [notifyWebhook, setNotifyWebhook] = useState(false);
+  const [notificationPermission, setNotificationPermission] = useState<NotificationPermission | "unsupported">("default");
+  const [webhookError, setWebhookError] = useState<string | null>(null);
+
   // Ref to track if initial load is complete (for showing loading state only on first load)
   const initialLoadComplete = useRef(false);
 
+  // Latest heartbeat row per username - patched in place by realtime events
+  const latestByUserRef = useRef<Map<string, NfoStatusRow>>(new Map());
+  // Pending throttled offline snapshot of realtime changes
+  const snapshotTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  // Signed-in manager, readable from the data callbacks (offline snapshot filtering)
+  const profileRef = useRef<ManagerProfile | null>(null);
+  useEffect(() => {
+    profileRef.current = profile;
+  }, [profile]);
+
+  // Last successful refresh, readable from fetchDashboardData (offline banner time)
+  const lastRefreshRef = useRef<Date | null>(null);
+  useEffect(() => {
+    lastRefreshRef.current = lastRefresh;
+  }, [lastRefresh]);
+
+  // Geofence each NFO was inside at its previous heartbeat (for arrival/departure events)
+  const geofenceByUserRef = useRef<Map<string, string | null>>(new Map());
+  // Sites the map above was built with - reseed instead of emitting events when they change
+  const geofenceSeedRef = useRef<SiteRecord[] | null>(null);
+
+  // State transitions already notified (null until restored - first run seeds without notifying)
+  const notifiedRef = useRef<NotifiedState | null>(null);
+  // Webhook notifications not yet accepted by /api/notify, and whether a post is running
+  const webhookQueueRef = useRef<NfoNotification[]>([]);
+  const webhookPostingRef = useRef(false);
+
   // Restore persisted UI state from localStorage on mount (client-side only)
   useEffect(() => {
     // Dashboard state
@@ -508,8 +855,51 @@ export default function HomePage() {
     } else {
       setMapNfoFilter(storedMapNfo);
     }
+
+    // Notification settings
+    setNotifyBrowser(getStoredValue<string>(LS_KEYS.notifyBrowser, "false") === "true");
+    setNotifyWebhook(getStoredValue<string>(LS_KEYS.notifyWebhook, "false") === "true");
+    setNotificationPermission(isBrowserNotificationSupported() ? Notification.permission : "unsupported");
+    notifiedRef.current = parseNotifiedState(getStoredValue<string>(LS_KEYS.notifiedState, ""));
+    webhookQueueRef.current = parseWebhookQueue(getStoredValue<string>(LS_KEYS.webhookQueue, ""));
+  }, []);
+
+  useEffect(() => {
+    const id = setInterval(() => setAlertClock(Date.now()), ALERT_CLOCK_INTERVAL_MS);
+    return () => clearInterval(id);
+  }, []);
+
+  useEffect(() => {
+    const id = setInterval(() => setSlaClock(Date.now()), SLA_CLOCK_INTERVAL_MS);
+    return () => clearInterval(id);
   }, []);
 
+  // Load today's roster once signed in, then every few minutes - optional like
+  // assignments, the Area summary just shows no coverage when it fails
+  useEffect(() => {
+    if (!profileUserId) return;
+    const range = localDayRange(rosterDay);
+    if (!range) return;
+
+    let cancelled = false;
+    const loadRoster = () => {
+      fetchRoster(range.from, range.to)
+        .then(({ data, notModified }) => {
+          if (!cancelled && !notModified) setTodayRoster(data);
+        })
+        .catch((rosterError) => console.warn("Failed to load roster:", rosterError));
+    };
+
+    loadRoster();
+    const id = setInterval(loadRoster, ROSTER_REFRESH_INTERVAL_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(id);
+    };
+  }, [profileUserId, rosterDay, rosterReloadToken]);
+
+  const handleRosterChanged = useCallback(() => setRosterReloadToken((t) => t + 1), []);
+
   // Persist UI state changes to localStorage
   const handleSetActiveView = useCallback((view: View) => {
     setActiveView(view);
@@ -543,123 +933,222 @@ export default function HomePage() {
     setStoredValue(LS_KEYS.mapNfoFilter, filter === null ? "null" : filter);
   }, []);
 
-  // Main data fetching function - called on mount and every 30 seconds
-  const fetchDashboardData = useCallback(async (isInitialLoad: boolean = false) => {
+  // Load shared alert rules and ack/snooze state - optional like assignments
+  const fetchAlertSettingsList = useCallback(async () => {
     try {
-      // Only show loading spinner on initial load, not on refresh
-      if (isInitialLoad) {
-        setLoading(true);
+      const { data, notModified } = await fetchAlertSettings();
+      if (notModified) return;
+      if (!alertRulesSaveTimerRef.current && !alertRulesSavingRef.current) setAlertRules(data.rules);
+      setAlertAcks(data.acks);
+      setAlertSettingsError(null);
+    } catch (alertError) {
+      console.warn("Failed to load alert rules:", alertError);
+      setAlertSettingsError(`Alert rules not loaded: ${alertError instanceof Error ? alertError.message : String(alertError)}`);
+    }
+  }, []);
+
+  // Alert rule edits (admins) - saved to /api/alerts once typing pauses
+  const handleSetAlertRules = useCallback((next: AlertRule[]) => {
+    setAlertRules(next);
+    if (alertRulesSaveTimerRef.current) clearTimeout(alertRulesSaveTimerRef.current);
+    alertRulesSaveTimerRef.current = setTimeout(async () => {
+      alertRulesSaveTimerRef.current = null;
+      alertRulesSavingRef.current = true;
+      try {
+        const saved = await saveAlertRules(next);
+        if (!alertRulesSaveTimerRef.current) setAlertRules(saved);
+        setAlertSettingsError(null);
+      } catch (saveError) {
+        console.warn("Failed to save alert rules:", saveError);
+        setAlertSettingsError(`Alert rules not saved: ${saveError instanceof Error ? saveError.message : String(saveError)}`);
+      } finally {
+        alertRulesSavingRef.current = false;
       }
-      setRefreshError(null);
+    }, ALERT_RULES_SAVE_DELAY_MS);
+  }, []);
 
-      // 1) Load all heartbeat/status rows, newest first
-      const { data, error: nfoError } = await supabase
-        .from("nfo_status")
-        .select(
-          "username, name, on_shift, status, activity, site_id, lat, lng, logged_in, last_active_at, home_location, via_warehouse, warehouse_name"
-        )
-        .order("last_active_at", { ascending: false });
+  // Acknowledge / snooze / reopen - shown right away, then replaced by what the server stored
+  const handleAlertAckAction = useCallback(async (alertId: string, action: AlertAckAction, minutes?: number) => {
+    setAlertAcks((prev) => withAlertAck(prev, alertId, applyAlertAckAction(prev[alertId], action, minutes ?? null)));
+    try {
+      const stored = await updateAlertAck(alertId, action, minutes);
+      setAlertAcks((prev) => withAlertAck(prev, alertId, stored));
+      setAlertSettingsError(null);
+    } catch (ackError) {
+      console.warn("Failed to update alert:", ackError);
+      setAlertSettingsError(`Alert not updated: ${ackError instanceof Error ? ackError.message : String(ackError)}`);
+      await fetchAlertSettingsList();
+    }
+  }, [fetchAlertSettingsList]);
 
-      if (nfoError) throw nfoError;
+  const handleAcknowledgeAlert = useCallback(
+    (alertId: string) => handleAlertAckAction(alertId, "acknowledge"),
+    [handleAlertAckAction]
+  );
 
-      const rows = (data ?? []) as NfoStatusRow[];
+  const handleSnoozeAlert = useCallback(
+    (alertId: string, minutes: number) => handleAlertAckAction(alertId, "snooze", minutes),
+    [handleAlertAckAction]
+  );
 
-      // 1b) Load Site_Coordinates - fetch ALL sites using pagination
-      let allSiteRows: any[] = [];
-      let pageNumber = 0;
-      const PAGE_SIZE = 1000;
-      let hasMoreRows = true;
+  const handleReopenAlert = useCallback(
+    (alertId: string) => handleAlertAckAction(alertId, "reopen"),
+    [handleAlertAckAction]
+  );
 
-      while (hasMoreRows) {
-        const start = pageNumber * PAGE_SIZE;
-        const end = start + PAGE_SIZE - 1;
-        
-        const { data: siteRowsPage, error: siteError } = await supabase
-          .from("Site_Coordinates")
-          .select("site_id, site_name, latitude, longitude, area")
-          .range(start, end);
+  // Notification toggles - enabling browser notifications asks for permission first
+  const handleSetNotifyBrowser = useCallback(async (enabled: boolean) => {
+    if (enabled) {
+      const permission = await requestBrowserNotificationPermission();
+      setNotificationPermission(permission);
+      if (permission !== "granted") return;
+    }
+    setNotifyBrowser(enabled);
+    setStoredValue(LS_KEYS.notifyBrowser, String(enabled));
+  }, []);
 
-        if (siteError) throw siteError;
+  const handleSetNotifyWebhook = useCallback((enabled: boolean) => {
+    setNotifyWebhook(enabled);
+    setWebhookError(null);
+    setStoredValue(LS_KEYS.notifyWebhook, String(enabled));
+  }, []);
 
-        if (!siteRowsPage || siteRowsPage.length === 0) {
-          hasMoreRows = false;
-          break;
-        }
+  // Per-area dashboard thresholds (stuck / not active / online) from the alert rules
+  const thresholdsForArea = useCallback(
+    (area: string | null) => resolveAreaThresholds(alertRules, area),
+    [alertRules]
+  );
 
-        allSiteRows = allSiteRows.concat(siteRowsPage);
-        
-        if (siteRowsPage.length < PAGE_SIZE) {
-          hasMoreRows = false;
-        }
+  // Load the static tables (Site_Coordinates, warehouses) via the data API - called once on mount
+  const fetchStaticData = useCallback(async () => {
+    // 1) Sites - paginated and normalised on the server
+    const { data: siteRecords, notModified: sitesNotModified } = await fetchSites();
+    if (!sitesNotModified) {
+      setSites(siteRecords);
+      console.log("Site rows from /api/sites:", siteRecords.length, "rows");
+      saveOfflineSnapshot("sites", siteRecords);
+    }
 
-        pageNumber++;
+    // 2) Warehouses
+    try {
+      const { data: warehouseRecords, notModified } = await fetchWarehouses();
+      if (!notModified) {
+        setWarehouses(warehouseRecords);
+        console.log("Warehouse rows from /api/warehouses:", warehouseRecords.length, "rows");
+        saveOfflineSnapshot("warehouses", warehouseRecords);
       }
+    } catch (warehouseError) {
+      console.warn("Failed to load warehouses:", warehouseError);
+      // Don't throw - warehouses are optional for the app to function
+    }
+  }, []);
 
-      if (isInitialLoad) {
-        console.log("Site rows from Supabase:", allSiteRows.length, "rows (fetched across", pageNumber, "pages)");
-      }
+  // Re-read Site_Coordinates after an edit in the Sites view (the write already cleared the ETag cache)
+  const reloadSites = useCallback(async () => {
+    const { data: siteRecords, notModified } = await fetchSites();
+    if (!notModified) setSites(siteRecords);
+  }, []);
 
-      const siteRecords: SiteRecord[] =
-        (allSiteRows ?? []).map((row: any) => {
-          const lat = typeof row.latitude === "string" ? parseFloat(row.latitude) : row.latitude;
-          const lng = typeof row.longitude === "string" ? parseFloat(row.longitude) : row.longitude;
-          return {
-            site_id: row.site_id,
-            name: row.site_name ?? null,
-            latitude: Number.isFinite(lat) ? lat : null,
-            longitude: Number.isFinite(lng) ? lng : null,
-            area: row.area ?? null,
-          };
-        }) ?? [];
-      
-      setSites(siteRecords);
+  // Re-read warehouses after an edit in the Warehouses view
+  const reloadWarehouses = useCallback(async () => {
+    const { data: warehouseRecords, notModified } = await fetchWarehouses();
+    if (!notModified) setWarehouses(warehouseRecords);
+  }, []);
 
-      // 1c) Load warehouses
-      const { data: warehouseRows, error: warehouseError } = await supabase
-        .from("warehouses")
-        .select("id, name, region, latitude, longitude, is_active");
+  // Set (or clear with radiusM = null) a site's Site_Coordinates.geofence_radius_m, then re-read sites
+  const handleSetGeofenceRadius = useCallback(async (siteId: string, radiusM: number | null) => {
+    try {
+      await saveSiteGeofenceRadius(siteId, radiusM == null ? null : clampGeofenceRadiusM(radiusM));
+      await reloadSites();
+      setGeofenceError(null);
+    } catch (radiusError) {
+      console.warn("Failed to save geofence radius:", radiusError);
+      setGeofenceError(radiusError instanceof Error ? radiusError.message : String(radiusError));
+    }
+  }, [reloadSites]);
 
-      if (warehouseError) {
-        console.warn("Failed to load warehouses:", warehouseError);
-        // Don't throw - warehouses are optional for the app to function
-      } else {
-        const warehouseRecords: WarehouseRecord[] = (warehouseRows ?? []).map((row: any) => {
-          const lat = typeof row.latitude === "string" ? parseFloat(row.latitude) : row.latitude;
-          const lng = typeof row.longitude === "string" ? parseFloat(row.longitude) : row.longitude;
-          return {
-            id: row.id,
-            name: row.name ?? "",
-            region: row.region ?? null,
-            latitude: Number.isFinite(lat) ? lat : null,
-            longitude: Number.isFinite(lng) ? lng : null,
-            is_active: row.is_active ?? false,
-          };
-        });
-        setWarehouses(warehouseRecords);
-        
-        if (isInitialLoad) {
-          console.log("Warehouse rows from Supabase:", warehouseRecords.length, "rows");
-        }
-      }
+  // Offline nfo_status snapshot - only the rows this manager may see, nothing once signed out
+  const saveNfoStatusSnapshot = useCallback((rows: NfoStatusRow[]) => {
+    const currentProfile = profileRef.current;
+    if (!currentProfile) return;
+    saveOfflineSnapshot("nfo_status", filterNfosForProfile(currentProfile, rows));
+  }, []);
 
-      // 2) Keep only latest row per username
-      const latestByUser = new Map<string, NfoStatusRow>();
-      for (const row of rows) {
-        if (!row.username) continue;
-        if (!latestByUser.has(row.username)) {
-          latestByUser.set(row.username, row);
-        }
+  // Load the latest nfo_status row per username (deduplicated server-side) into the latest-row map
+  const fetchNfoStatus = useCallback(async () => {
+    const { data: rows, notModified } = await fetchLatestNfos();
+
+    // 304 - same payload as last time, and realtime changes are already in the map
+    if (notModified) return;
+
+    const latestByUser = new Map<string, NfoStatusRow>();
+    for (const row of rows) {
+      latestByUser.set(row.username, row);
+    }
+
+    // Keep any realtime row that arrived while this query was in flight and is newer
+    for (const [username, row] of latestByUserRef.current) {
+      if (isNewerNfoRow(row, latestByUser.get(username))) {
+        latestByUser.set(username, row);
       }
+    }
 
-      const current = Array.from(latestByUser.values());
+    latestByUserRef.current = latestByUser;
+    const latestRows = Array.from(latestByUser.values());
+    setAllNfos(latestRows);
+    saveNfoStatusSnapshot(latestRows);
+  }, [saveNfoStatusSnapshot]);
+
+  // Last nfo_status / sites / warehouses from IndexedDB when the data API can't be reached.
+  // Returns the nfo_status snapshot time, or null when there is nothing to show.
+  const restoreOfflineSnapshot = useCallback(async (): Promise<string | null> => {
+    const nfoSnapshot = await loadOfflineSnapshot<NfoStatusRow[]>("nfo_status");
+    if (!nfoSnapshot) return null;
+
+    const [siteSnapshot, warehouseSnapshot] = await Promise.all([
+      loadOfflineSnapshot<SiteRecord[]>("sites"),
+      loadOfflineSnapshot<WarehouseRecord[]>("warehouses"),
+    ]);
+
+    latestByUserRef.current = new Map(nfoSnapshot.data.map((row) => [row.username, row]));
+    setAllNfos(nfoSnapshot.data);
+    if (siteSnapshot) setSites(siteSnapshot.data);
+    if (warehouseSnapshot) setWarehouses(warehouseSnapshot.data);
+    return nfoSnapshot.savedAt;
+  }, []);
 
-      // 3) Compute stats - these are basic counts from raw data
-      //    Full stats with enriched flags will be computed after enrichedNfos
-      const totalNFOs = current.length;
+  // Load assignments - optional like warehouses, a failure only shows on the Assignments view
+  const fetchAssignmentList = useCallback(async () => {
+    try {
+      const { data, notModified } = await fetchAssignments();
+      if (!notModified) setAssignments(data);
+      setAssignmentsError(null);
+    } catch (assignmentError) {
+      console.warn("Failed to load assignments:", assignmentError);
+      setAssignmentsError(assignmentError instanceof Error ? assignmentError.message : String(assignmentError));
+    }
+  }, []);
+
+  // Main data fetching function - static tables on initial load, nfo_status every time
+  const fetchDashboardData = useCallback(async (isInitialLoad: boolean = false) => {
+    try {
+      // Only show loading spinner on initial load, not on refresh
+      if (isInitialLoad) {
+        setLoading(true);
+      }
+      // Static tables again after an offline start - the snapshot may be stale
+      if (isInitialLoad || !initialLoadComplete.current) {
+        await fetchStaticData();
+      }
+      setRefreshError(null);
+
+      await fetchNfoStatus();
+      await fetchAssignmentList();
+      await fetchAlertSettingsList();
 
-      setNfos(current);
       setLastRefresh(new Date());
       setError(null);
+      setOfflineDataAt(null);
       initialLoadComplete.current = true;
     } catch (err: any) {
       // Extract error message safely
@@ -672,37 +1161,206 @@ export default function HomePage() {
        * - Use console.warn instead of console.error to avoid Next.js red overlay
        */
       if (isInitialLoad || !initialLoadComplete.current) {
-        // Initial load failed - show error screen
-        setError(errorMsg);
-        console.warn("[Dashboard] Initial load failed:", errorMsg);
+        // Initial load failed - show the last snapshot from IndexedDB, else the error screen
+        const snapshotAt = await restoreOfflineSnapshot();
+        if (snapshotAt) {
+          setOfflineDataAt(snapshotAt);
+          console.warn("[Dashboard] Initial load failed, showing offline snapshot from", snapshotAt, errorMsg);
+        } else {
+          setError(errorMsg);
+          console.warn("[Dashboard] Initial load failed:", errorMsg);
+        }
       } else {
         // Refresh failed - KEEP existing data, just show warning
         // Do NOT clear nfos, sites, stats - they stay as-is from last successful fetch
         setRefreshError(errorMsg);
         console.warn("[Dashboard] Auto-refresh failed (keeping last good data):", errorMsg);
+        // Browser reports no connection - same offline state, data as of the last successful refresh
+        if (!navigator.onLine) {
+          setOfflineDataAt((current) => current ?? lastRefreshRef.current?.toISOString() ?? null);
+        }
       }
     } finally {
       if (isInitialLoad) {
         setLoading(false);
       }
     }
+  }, [fetchStaticData, fetchNfoStatus, fetchAssignmentList, fetchAlertSettingsList, restoreOfflineSnapshot]);
+
+  // Patch a single heartbeat from a realtime INSERT/UPDATE into the latest-row map
+  const applyNfoStatusChange = useCallback((row: NfoStatusRow) => {
+    if (!row || !row.username) return;
+
+    const latestByUser = latestByUserRef.current;
+    if (!isNewerNfoRow(row, latestByUser.get(row.username))) return;
+
+    latestByUser.set(row.username, row);
+    setAllNfos(Array.from(latestByUser.values()));
+    setLastRefresh(new Date());
+
+    // Offline snapshot at most once per interval - heartbeats arrive far more often
+    if (!snapshotTimerRef.current) {
+      snapshotTimerRef.current = setTimeout(() => {
+        snapshotTimerRef.current = null;
+        saveNfoStatusSnapshot(Array.from(latestByUserRef.current.values()));
+      }, REALTIME_SNAPSHOT_INTERVAL_MS);
+    }
+  }, [saveNfoStatusSnapshot]);
+
+  useEffect(
+    () => () => {
+      if (snapshotTimerRef.current) clearTimeout(snapshotTimerRef.current);
+    },
+    []
+  );
+
+  // Session handling - no session means back to /login
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data }) => {
+      if (data.session) {
+        setProfile(getManagerProfile(data.session.user));
+      } else {
+        router.replace("/login");
+      }
+    });
+
+    const { data: listener } = supabase.auth.onAuthStateChange((event, session) => {
+      if (!session) {
+        setProfile(null);
+        router.replace("/login");
+        return;
+      }
+      // Token refreshes keep the same user - only rebuild the profile when something changed
+      if (event === "SIGNED_IN" || event === "USER_UPDATED") {
+        setProfile(getManagerProfile(session.user));
+      }
+    });
+
+    return () => {
+      listener.subscription.unsubscribe();
+    };
+  }, [router]);
+
+  // Sign out and drop the offline snapshot, so it can't be shown to whoever signs in next
+  const handleSignOut = useCallback(async () => {
+    profileRef.current = null;
+    if (snapshotTimerRef.current) {
+      clearTimeout(snapshotTimerRef.current);
+      snapshotTimerRef.current = null;
+    }
+    await clearOfflineSnapshots();
+    await supabase.auth.signOut();
   }, []);
 
-  // Initial load and auto-refresh interval
+  // Offline map tiles + app shell (public/sw.js)
   useEffect(() => {
-    // Initial fetch
-    fetchDashboardData(true);
+    registerOfflineServiceWorker();
+  }, []);
 
-    // Set up 30-second polling interval
-    const intervalId = setInterval(() => {
+  // Refresh as soon as the browser reports the connection is back
+  useEffect(() => {
+    if (!profileUserId) return;
+    const handleOnline = () => {
+      console.log("[Dashboard] Connection restored, refreshing");
       fetchDashboardData(false);
+    };
+    window.addEventListener("online", handleOnline);
+    return () => window.removeEventListener("online", handleOnline);
+  }, [fetchDashboardData, profileUserId]);
+
+  // Initial load, then realtime subscription with polling fallback (once signed in)
+  useEffect(() => {
+    if (!profileUserId) return;
+
+    // Initial fetch (static tables + nfo_status)
+    fetchDashboardData(true);
+
+    let intervalId: ReturnType<typeof setInterval> | null = null;
+    // Set on cleanup - removeChannel() still reports CLOSED to the subscribe callback
+    let disposed = false;
+
+    // Fall back to 30-second polling of nfo_status only
+    const startPolling = () => {
+      if (disposed) return;
+      setFeedMode("polling");
+      if (intervalId) return;
+      intervalId = setInterval(() => {
+        fetchDashboardData(false);
+      }, REFRESH_INTERVAL_MS);
+    };
+
+    const stopPolling = () => {
+      if (!intervalId) return;
+      clearInterval(intervalId);
+      intervalId = null;
+    };
+
+    if (!REALTIME_ENABLED || !isSupabaseConfigured) {
+      startPolling();
+      return () => {
+        disposed = true;
+        stopPolling();
+      };
+    }
+
+    // Realtime only delivers changes - keep retrying a failed initial load until one succeeds
+    // (while polling, the poll itself retries)
+    let retryId: ReturnType<typeof setInterval> | null = setInterval(() => {
+      if (initialLoadComplete.current) {
+        if (retryId) clearInterval(retryId);
+        retryId = null;
+        return;
+      }
+      if (!intervalId) fetchDashboardData(false);
     }, REFRESH_INTERVAL_MS);
 
+    const channel = supabase
+      .channel("nfo_status_feed")
+      .on(
+        "postgres_changes",
+        { event: "INSERT", schema: "public", table: "nfo_status" },
+        (payload) => applyNfoStatusChange(payload.new as NfoStatusRow)
+      )
+      .on(
+        "postgres_changes",
+        { event: "UPDATE", schema: "public", table: "nfo_status" },
+        (payload) => applyNfoStatusChange(payload.new as NfoStatusRow)
+      )
+      .subscribe((status, err) => {
+        if (disposed) return;
+        if (status === "SUBSCRIBED") {
+          // If we were polling, resync once so nothing missed while disconnected is lost
+          if (intervalId) {
+            stopPolling();
+            fetchDashboardData(false);
+          }
+          setFeedMode("live");
+          console.log("[Dashboard] Realtime subscription active for nfo_status");
+        } else if (status === "CHANNEL_ERROR" || status === "TIMED_OUT" || status === "CLOSED") {
+          console.warn("[Dashboard] Realtime unavailable, falling back to polling:", status, err?.message ?? "");
+          startPolling();
+        }
+      });
+
     // Cleanup on unmount
     return () => {
-      clearInterval(intervalId);
+      disposed = true;
+      stopPolling();
+      if (retryId) clearInterval(retryId);
+      supabase.removeChannel(channel);
     };
-  }, [fetchDashboardData]);
+  }, [fetchDashboardData, applyNfoStatusChange, profileUserId]);
+
+  // Realtime only covers nfo_status - while live, re-read assignments and alert settings on the
+  // polling interval so changes from other consoles show up (unchanged lists come back as 304)
+  useEffect(() => {
+    if (!profileUserId || feedMode !== "live") return;
+    const id = setInterval(() => {
+      fetchAssignmentList();
+      fetchAlertSettingsList();
+    }, REFRESH_INTERVAL_MS);
+    return () => clearInterval(id);
+  }, [profileUserId, feedMode, fetchAssignmentList, fetchAlertSettingsList]);
 
   const areas = useMemo(
     () =>
@@ -716,6 +1374,18 @@ export default function HomePage() {
     [nfos]
   );
 
+  // Areas a warehouse can be assigned to - NFO home locations plus Site_Coordinates areas
+  const warehouseAreaOptions = useMemo(() => {
+    const siteAreas = sites.map((s) => s.area).filter((x): x is string => !!x && x.trim() !== "");
+    return Array.from(new Set([...areas, ...siteAreas]));
+  }, [areas, sites]);
+
+  // nfo_status warehouse_name / warehouse_id values that match no warehouse (sidebar badge)
+  const unmatchedWarehouseNames = useMemo(
+    () => (warehouses.length > 0 ? findUnmatchedWarehouseNames(nfos, warehouses) : []),
+    [nfos, warehouses]
+  );
+
   const filteredNfos = useMemo(
     () =>
       nfos.filter((row) => {
@@ -751,8 +1421,12 @@ export default function HomePage() {
             break;
           }
           case "notactive": {
-            // Check if NFO is not active (no ping > 30 min)
-            const { isNotActive } = computePingStatus(row.last_active_at);
+            // Check if NFO is not active (no ping > the area's silence threshold)
+            const { isNotActive } = computePingStatus(
+              row.last_active_at,
+              alertClock,
+              thresholdsForArea(row.home_location).staleMinutes
+            );
             matchesStatus = isNotActive;
             break;
           }
@@ -768,55 +1442,44 @@ export default function HomePage() {
           matchesArea
         );
       }),
-    [nfos, search, statusFilter, areaFilter]
+    [nfos, search, statusFilter, areaFilter, thresholdsForArea, alertClock]
   );
 
+  // alertClock stands in for "now" so durations are re-checked once a minute
   const stuckNfos = useMemo(
     () =>
       nfos
-        .filter((row) => {
-          if (!row.last_active_at) return false;
+        .flatMap((row) => {
+          if (!row.last_active_at) return [];
 
           const loggedIn = !!row.logged_in;
           const onShift = !!row.on_shift;
           const s = (row.status ?? "").toLowerCase();
 
-          if (!loggedIn || !onShift || s !== "busy") return false;
+          if (!loggedIn || !onShift || s !== "busy") return [];
 
-          const last = new Date(row.last_active_at).getTime();
-          const now = Date.now();
-          const diffMinutes = (now - last) / 1000 / 60;
+          // No enabled stuck rule for this area - never stuck
+          const stuckThresholdMinutes = thresholdsForArea(row.home_location).stuckMinutes;
+          if (stuckThresholdMinutes == null) return [];
 
-          return diffMinutes >= STUCK_MINUTES;
-        })
-        .map((row) => {
-          const last = row.last_active_at
-            ? new Date(row.last_active_at).getTime()
-            : Date.now();
-          const now = Date.now();
-          const diffMinutes = Math.max(0, (now - last) / 1000 / 60);
-
-          return {
-            ...row,
-            minutesSinceActive: Math.round(diffMinutes),
-          };
+          const diffMinutes = Math.max(0, ageMinutes(row.last_active_at, alertClock) ?? 0);
+          if (diffMinutes < stuckThresholdMinutes) return [];
+
+          return [{ ...row, minutesSinceActive: Math.round(diffMinutes), stuckThresholdMinutes }];
         })
         // sort longest stuck first
         .sort((a, b) => b.minutesSinceActive - a.minutesSinceActive),
-    [nfos]
+    [nfos, thresholdsForArea, alertClock]
   );
 
   const enrichedNfos = useMemo(() => {
-    // Helper for case-insensitive warehouse name matching
-    const namesMatch = (a: string | null | undefined, b: string | null | undefined): boolean => {
-      if (!a || !b) return false;
-      return a.trim().toLowerCase() === b.trim().toLowerCase();
-    };
-
     return nfos.map((nfo) => {
-      // Calculate online status
-      const online = isOnline(nfo.last_active_at);
-      const minutesSinceActive = ageMinutes(nfo.last_active_at);
+      // Thresholds for this NFO's area (from the alert rules)
+      const thresholds = thresholdsForArea(nfo.home_location);
+
+      // Calculate online status (alertClock as now, so ping age is re-checked once a minute)
+      const online = isOnline(nfo.last_active_at, alertClock, thresholds.onlineMinutes);
+      const minutesSinceActive = ageMinutes(nfo.last_active_at, alertClock);
 
       // Determine which site to show
       let nearestSiteId: string | null = null;
@@ -832,10 +1495,10 @@ export default function HomePage() {
 
       const hasValidNfoCoords = hasValidLocation({ lat: nfo.lat, lng: nfo.lng });
       const assignedSiteId = (nfo.site_id ?? "").trim();
+      const assignedSite = assignedSiteId ? getSiteById(sites, assignedSiteId) : null;
 
       // Compute distance to assigned site (site_id) if available
       if (assignedSiteId && hasValidNfoCoords) {
-        const assignedSite = getSiteById(sites, assignedSiteId);
         if (
           assignedSite &&
           hasValidLocation({ lat: assignedSite.latitude, lng: assignedSite.longitude })
@@ -895,14 +1558,8 @@ export default function HomePage() {
           const nfoPoint = { lat: nfo.lat!, lng: nfo.lng! };
           const sitePoint = { lat: targetSite.latitude!, lng: targetSite.longitude! };
           
-          // Check if we should route via warehouse
-          const warehouseNameTrimmed = (nfo.warehouse_name ?? "").trim();
-          const matchingWarehouse = nfo.via_warehouse && warehouseNameTrimmed
-            ? warehouses.find(w => 
-                namesMatch(w.name, warehouseNameTrimmed) && 
-                hasValidLocation({ lat: w.latitude, lng: w.longitude })
-              )
-            : null;
+          // Check if we should route via warehouse (skipped while it is closed)
+          const matchingWarehouse = pickupWarehouseForNfo(nfo, warehouses, alertClock);
           
           if (matchingWarehouse) {
             // Route via warehouse: NFO -> Warehouse + Warehouse -> Site
@@ -917,13 +1574,30 @@ export default function HomePage() {
         }
       }
 
-      // Compute ping status (not active if no ping > 30 min)
-      const { isNotActive, pingReason } = computePingStatus(nfo.last_active_at);
+      // Compute ping status (not active if no ping > the area's silence threshold)
+      const { isNotActive, pingReason } = computePingStatus(
+        nfo.last_active_at,
+        alertClock,
+        thresholds.staleMinutes
+      );
 
       // Compute device-silent flag (status from Kotlin app)
       const statusLower = (nfo.status ?? "").toLowerCase().trim();
       const isDeviceSilent = statusLower === "device-silent";
 
+      // Geofence containment and busy-site location check
+      const geofence = hasValidNfoCoords
+        ? findContainingGeofence({ lat: nfo.lat, lng: nfo.lng }, sites)
+        : null;
+      const geofenceSiteId = geofence ? geofence.site.site_id : null;
+      const locationMismatch = detectLocationMismatch({
+        isBusy,
+        assignedSiteId: assignedSiteId || null,
+        assignedSite,
+        distanceToAssignedSiteKm,
+        geofenceSiteId,
+      });
+
       return {
         ...nfo,
         isOnline: online,
@@ -943,9 +1617,185 @@ export default function HomePage() {
         isOnShift,
         isOffShift,
         isDeviceSilent,
+        geofenceSiteId,
+        locationMismatch,
       };
     });
-  }, [nfos, sites, warehouses]);
+  }, [nfos, sites, warehouses, thresholdsForArea, alertClock]);
+
+  // Evaluate alert rules against the enriched NFOs
+  const firingAlerts = useMemo(
+    () => evaluateAlertRules(alertRules, enrichedNfos, alertClock),
+    [alertRules, enrichedNfos, alertClock]
+  );
+
+  // Walk an assignment through one or more statuses, each stamped with its heartbeat time -
+  // every step only applies if the job still has the status we saw before it
+  const applyAssignmentTransitions = useCallback(
+    async (assignment: NfoAssignment, transitions: AssignmentTransition[]) => {
+      if (transitions.length === 0 || assignmentUpdatesRef.current.has(assignment.id)) return;
+      assignmentUpdatesRef.current.add(assignment.id);
+      try {
+        let expectedStatus = assignment.status;
+        for (const { status, at } of transitions) {
+          const updated = await updateAssignment(assignment.id, status, expectedStatus, at);
+          if (!updated) {
+            // Another console moved it first - reload to pick up their change
+            await fetchAssignmentList();
+            return;
+          }
+          setAssignments((prev) => prev.map((a) => (a.id === updated.id ? updated : a)));
+          expectedStatus = updated.status;
+        }
+      } catch (updateError) {
+        console.warn("Failed to update assignment:", updateError);
+        setAssignmentsError(updateError instanceof Error ? updateError.message : String(updateError));
+      } finally {
+        assignmentUpdatesRef.current.delete(assignment.id);
+      }
+    },
+    [fetchAssignmentList]
+  );
+
+  // Manual status change from the Assignments view (e.g. cancel) - stamped now
+  const handleUpdateAssignmentStatus = useCallback(
+    (assignment: NfoAssignment, status: AssignmentStatus) =>
+      applyAssignmentTransitions(assignment, [{ status, at: new Date().toISOString() }]),
+    [applyAssignmentTransitions]
+  );
+
+  const handleAssignmentCreated = useCallback((assignment: NfoAssignment) => {
+    setAssignments((prev) => [assignment, ...prev.filter((a) => a.id !== assignment.id)]);
+  }, []);
+
+  // Advance open assignments from the NFOs' heartbeats (site_id / activity).
+  // Only consoles allowed to assign write the new status.
+  const mayAssignJobs = canAssignJobs(profile);
+  useEffect(() => {
+    if (!mayAssignJobs) return;
+    const heartbeats = new Map(allNfos.map((n) => [n.username, n]));
+    for (const { assignment, transition } of findAssignmentProgress(assignments, heartbeats)) {
+      console.log("page.tsx assignment progress:", { id: assignment.id, from: assignment.status, ...transition });
+      void applyAssignmentTransitions(assignment, [transition]);
+    }
+  }, [assignments, allNfos, mayAssignJobs, applyAssignmentTransitions]);
+
+  // Once per open job: replay the NFO's heartbeats since its last step, so visits that
+  // happened while no console was open (arrived and left again) still move it forward
+  useEffect(() => {
+    if (!mayAssignJobs) return;
+    const pending = newestOpenAssignments(assignments).filter((a) => !assignmentCatchUpRef.current.has(a.id));
+    if (pending.length === 0) return;
+    for (const a of pending) assignmentCatchUpRef.current.add(a.id);
+
+    void (async () => {
+      for (const assignment of pending) {
+        const now = Date.now();
+        const from = Math.max(lastTransitionMs(assignment), now - ASSIGNMENT_CATCH_UP_HOURS * 60 * 60_000);
+        try {
+          const heartbeats = await fetchNfoTrail(assignment.username, from, now);
+          const transitions = replayAssignmentTransitions(
+            assignment,
+            heartbeats.map((p) => ({ site_id: p.site_id, activity: p.activity, last_active_at: p.lastActiveAt }))
+          );
+          if (transitions.length === 0) continue;
+          console.log("page.tsx assignment catch-up:", { id: assignment.id, from: assignment.status, transitions });
+          await applyAssignmentTransitions(assignment, transitions);
+        } catch (catchUpError) {
+          console.warn("Failed to replay assignment heartbeats:", catchUpError);
+        }
+      }
+    })();
+  }, [assignments, mayAssignJobs, applyAssignmentTransitions]);
+
+  const openAssignmentCount = useMemo(() => visibleAssignments.filter(isOpenAssignment).length, [visibleAssignments]);
+
+  const activeAlertCount = useMemo(
+    () => firingAlerts.filter((a) => getAlertVisibility(alertAcks[a.id], alertClock) === "active").length,
+    [firingAlerts, alertAcks, alertClock]
+  );
+
+  // Post the webhook queue; only notifications /api/notify accepted leave it
+  const flushWebhookQueue = useCallback(async () => {
+    if (webhookPostingRef.current || webhookQueueRef.current.length === 0) return;
+    webhookPostingRef.current = true;
+    try {
+      const sending = webhookQueueRef.current;
+      const delivered = new Set(await postWebhookNotifications(sending));
+      webhookQueueRef.current = webhookQueueRef.current.filter((n) => !delivered.has(n.key));
+      setStoredValue(LS_KEYS.webhookQueue, JSON.stringify(webhookQueueRef.current));
+      setWebhookError(
+        delivered.size === sending.length ? null : "Webhook delivery failed - check ALERT_WEBHOOK_URL on the server"
+      );
+    } finally {
+      webhookPostingRef.current = false;
+    }
+  }, []);
+
+  // Notify once per NFO entering stuck / not active / device-silent
+  useEffect(() => {
+    if (!initialLoadComplete.current) return;
+
+    const stuckUsernames = new Set(stuckNfos.map((n) => n.username));
+    const previous = notifiedRef.current;
+    const { next, fresh } = detectNotificationTransitions(
+      previous ?? {},
+      enrichedNfos.map((n) => ({ ...n, isStuck: stuckUsernames.has(n.username) })),
+      previous === null
+    );
+    notifiedRef.current = next;
+    setStoredValue(LS_KEYS.notifiedState, JSON.stringify(next));
+
+    const mayPostWebhook = notifyWebhook && canActOnAlerts(profile);
+    if (fresh.length > 0) {
+      console.log("page.tsx new notifications:", fresh);
+      if (notifyBrowser) showBrowserNotifications(fresh);
+      if (mayPostWebhook) {
+        webhookQueueRef.current = queueWebhookNotifications(webhookQueueRef.current, fresh);
+        setStoredValue(LS_KEYS.webhookQueue, JSON.stringify(webhookQueueRef.current));
+      }
+    }
+    // Also retries what an earlier refresh failed to deliver
+    if (mayPostWebhook) void flushWebhookQueue();
+  }, [enrichedNfos, stuckNfos, notifyBrowser, notifyWebhook, profile, flushWebhookQueue]);
+
+  // Forget ack/snooze for alerts that stopped firing (only once real data is loaded)
+  useEffect(() => {
+    if (!initialLoadComplete.current || !canActOnAlerts(profile)) return;
+    const stale = findStaleAlertAcks(
+      alertAcks,
+      new Set(firingAlerts.map((a) => a.id)),
+      new Set(enrichedNfos.map((n) => n.username)),
+      alertRules
+    );
+    if (stale.length === 0) return;
+    setAlertAcks((prev) => stale.reduce((next, id) => withAlertAck(next, id, null), prev));
+    deleteAlertAcks(stale).catch((pruneError) => console.warn("Failed to prune alert acks:", pruneError));
+  }, [firingAlerts, alertAcks, enrichedNfos, alertRules, profile]);
+
+  // Derive arrival/departure events by comparing each NFO's geofence with its previous heartbeat
+  useEffect(() => {
+    if (sites.length === 0) return;
+
+    const reseed = geofenceSeedRef.current !== sites;
+    const previous = geofenceByUserRef.current;
+    const newEvents: GeofenceEvent[] = [];
+
+    for (const nfo of enrichedNfos) {
+      if (!reseed && previous.has(nfo.username)) {
+        newEvents.push(...deriveGeofenceEvents(nfo, previous.get(nfo.username) ?? null, nfo.geofenceSiteId));
+      }
+      previous.set(nfo.username, nfo.geofenceSiteId);
+    }
+    geofenceSeedRef.current = sites;
+
+    if (newEvents.length > 0) {
+      console.log("page.tsx geofence events:", newEvents);
+      // Newest first, matching how the events list is rendered
+      const newestFirst = [...newEvents].reverse();
+      setGeofenceEvents((prev) => [...newestFirst, ...prev].slice(0, MAX_GEOFENCE_EVENTS));
+    }
+  }, [enrichedNfos, sites]);
 
   // Compute stats from enrichedNfos using the computed flags
   const stats = useMemo((): Stats => {
@@ -956,6 +1806,7 @@ export default function HomePage() {
       free: enrichedNfos.filter(n => n.isFree).length,
       offShift: enrichedNfos.filter(n => n.isOffShift).length,
       notActive: enrichedNfos.filter(n => n.isNotActive).length,
+      locationMismatch: enrichedNfos.filter(n => n.locationMismatch).length,
     };
   }, [enrichedNfos]);
 
@@ -972,6 +1823,11 @@ export default function HomePage() {
         free: 0,
         offShift: 0,
         notActive: 0,
+        openJobs: 0,
+        slaBreached: 0,
+        rosteredNow: 0,
+        rosterCovered: 0,
+        rosterIssues: 0,
       });
     }
 
@@ -991,8 +1847,115 @@ export default function HomePage() {
       if (nfo.isNotActive) summary.notActive += 1;
     }
 
+    // Open jobs and SLA breaches count towards the assigned NFO's area
+    const areaByUser = new Map(enrichedNfos.map((n) => [n.username, n.home_location?.trim() ?? ""]));
+    for (const job of visibleAssignments) {
+      if (!isOpenAssignment(job)) continue;
+      const summary = summaryMap.get(areaByUser.get(job.username) ?? "");
+      if (!summary) continue;
+      summary.openJobs += 1;
+      if (evaluateJobSla(job, slaClock).breached) summary.slaBreached += 1;
+    }
+
+    // Planned-vs-actual shift coverage per home_location
+    const nfosByUser = new Map(enrichedNfos.map((n) => [n.username, n]));
+    for (const [area, coverage] of computeRosterCoverage(todayRoster, nfosByUser, slaClock)) {
+      const summary = summaryMap.get(area);
+      if (!summary) continue;
+      summary.rosteredNow = coverage.rosteredNow;
+      summary.rosterCovered = coverage.coveredNow;
+      summary.rosterIssues = coverage.issues;
+    }
+
     return Array.from(summaryMap.values());
-  }, [enrichedNfos, areas]);
+  }, [enrichedNfos, areas, visibleAssignments, todayRoster, slaClock]);
+
+  // Batch-compute driving ETA from each listed NFO to its nearest site - one N×1 matrix per
+  // site (only those cells are needed), a few sites at a time
+  const computeNearestSiteEtas = useCallback(async () => {
+    const visible = new Set(filteredNfos.map((n) => n.username));
+    const rows = enrichedNfos.filter(
+      (n) =>
+        visible.has(n.username) &&
+        n.nearestSiteId &&
+        hasValidLocation({ lat: n.lat, lng: n.lng })
+    );
+    if (rows.length === 0) return;
+
+    // NFOs grouped by nearest site, so NFOs sharing a site share one request
+    const groups = new Map<string, { destination: [number, number]; nfos: EnrichedNfo[] }>();
+    for (const n of rows) {
+      const siteId = n.nearestSiteId!;
+      let group = groups.get(siteId);
+      if (!group) {
+        const site = getSiteById(sites, siteId);
+        if (!site || !hasValidLocation({ lat: site.latitude, lng: site.longitude })) continue;
+        group = { destination: [site.longitude!, site.latitude!], nfos: [] };
+        groups.set(siteId, group);
+      }
+      group.nfos.push(n);
+    }
+    if (groups.size === 0) return;
+
+    setEtaLoading(true);
+    setEtaError(null);
+    try {
+      const next = new Map<string, NearestSiteEta>();
+      let failedNfos = 0;
+
+      const entries = Array.from(groups.entries());
+      for (let i = 0; i < entries.length; i += NEAREST_ETA_CONCURRENCY) {
+        const batch = entries.slice(i, i + NEAREST_ETA_CONCURRENCY);
+        const matrices = await Promise.all(
+          batch.map(([, group]) =>
+            fetchRouteMatrix(
+              group.nfos.map((n) => [n.lng!, n.lat!] as [number, number]),
+              [group.destination]
+            )
+          )
+        );
+
+        batch.forEach(([siteId, group], b) => {
+          const matrix = matrices[b];
+          if (!matrix) {
+            failedNfos += group.nfos.length;
+            return;
+          }
+          group.nfos.forEach((n, row) => {
+            next.set(n.username, {
+              siteId,
+              durationMin: matrix.durationsMin[row][0],
+              distanceKm: matrix.distancesKm[row][0],
+              engine: matrix.engines[row][0],
+            });
+          });
+        });
+      }
+
+      if (next.size === 0) throw new Error("Route matrix unavailable");
+      setNearestSiteEtas(next);
+      setEtaComputedAt(new Date());
+      if (failedNfos > 0) setEtaError(`Route matrix unavailable for ${failedNfos} NFOs`);
+    } catch (err) {
+      setEtaError(err instanceof Error ? err.message : "ETA calculation failed");
+    } finally {
+      setEtaLoading(false);
+    }
+  }, [filteredNfos, enrichedNfos, sites]);
+
+  // Global thresholds for labels (areas with their own rules may differ)
+  const defaultThresholds = useMemo(() => resolveAreaThresholds(alertRules, null), [alertRules]);
+
+  // NFOs in each KPI category (panel list and its export)
+  const kpiMembers = useMemo((): Record<KpiCategory, EnrichedNfo[]> => ({
+    total: enrichedNfos,
+    onShift: enrichedNfos.filter(n => n.isOnShift),
+    busy: enrichedNfos.filter(n => n.isBusy),
+    free: enrichedNfos.filter(n => n.isFree),
+    offShift: enrichedNfos.filter(n => n.isOffShift),
+    notActive: enrichedNfos.filter(n => n.isNotActive),
+    locationMismatch: enrichedNfos.filter(n => n.locationMismatch),
+  }), [enrichedNfos]);
 
   // Generate NFO lists for KPI panel (replaces old tooltip strings)
   const kpiLists = useMemo((): Record<KpiCategory, { label: string; items: string[] }> => {
@@ -1001,30 +1964,75 @@ export default function HomePage() {
     return {
       total: {
         label: "Total NFOs",
-        items: enrichedNfos.map(formatName),
+        items: kpiMembers.total.map(formatName),
       },
       onShift: {
         label: "On-shift NFOs",
-        items: enrichedNfos.filter(n => n.isOnShift).map(formatName),
+        items: kpiMembers.onShift.map(formatName),
       },
       busy: {
         label: "Busy NFOs",
-        items: enrichedNfos.filter(n => n.isBusy).map(formatName),
+        items: kpiMembers.busy.map(formatName),
       },
       free: {
         label: "Free NFOs",
-        items: enrichedNfos.filter(n => n.isFree).map(formatName),
+        items: kpiMembers.free.map(formatName),
       },
       offShift: {
         label: "Off-shift NFOs",
-        items: enrichedNfos.filter(n => n.isOffShift).map(formatName),
+        items: kpiMembers.offShift.map(formatName),
       },
       notActive: {
-        label: "Not Active (>30m) NFOs",
-        items: enrichedNfos.filter(n => n.isNotActive).map(formatName),
+        label: `Not Active (>${defaultThresholds.staleMinutes}m) NFOs`,
+        items: kpiMembers.notActive.map(formatName),
+      },
+      locationMismatch: {
+        label: "Location mismatch NFOs",
+        items: kpiMembers.locationMismatch.map(n => `${formatName(n)} · ${n.locationMismatch!.message}`),
       },
     };
-  }, [enrichedNfos]);
+  }, [kpiMembers, defaultThresholds]);
+
+  // Table exports follow the Field Engineers search / status / area filters
+  const nfoExportColumns = useMemo(
+    () => buildNfoExportColumns(rowRoutes, nearestSiteEtas),
+    [rowRoutes, nearestSiteEtas]
+  );
+  const exportRows = useMemo(() => {
+    const enrichedByUser = new Map(enrichedNfos.map((n) => [n.username, n]));
+    const filtered = filteredNfos
+      .map((n) => enrichedByUser.get(n.username))
+      .filter((n): n is EnrichedNfo => !!n);
+    const inFilter = new Set(filtered.map((n) => n.username));
+    const stuckByUser = new Map(stuckNfos.map((n) => [n.username, n]));
+    return {
+      fieldEngineers: filtered,
+      stuck: stuckNfos
+        .filter((n) => inFilter.has(n.username))
+        .map((n) => enrichedByUser.get(n.username))
+        .filter((n): n is EnrichedNfo => !!n),
+      stuckByUser,
+      kpi: activeKpi ? kpiMembers[activeKpi].filter((n) => inFilter.has(n.username)) : [],
+      areaSummary: areaSummary.filter((a) => areaFilter === "all" || a.area === areaFilter),
+    };
+  }, [enrichedNfos, filteredNfos, stuckNfos, activeKpi, kpiMembers, areaSummary, areaFilter]);
+  const stuckExportColumns = useMemo((): ExportColumn<EnrichedNfo>[] => [
+    ...nfoExportColumns,
+    { header: "Minutes stuck", value: (n) => exportRows.stuckByUser.get(n.username)?.minutesSinceActive ?? null },
+    { header: "Stuck threshold (min)", value: (n) => exportRows.stuckByUser.get(n.username)?.stuckThresholdMinutes ?? null },
+  ], [nfoExportColumns, exportRows]);
+  const exportFilterNote = "Respects the Field Engineers search, status and area filters";
+
+  // Role-based permissions for the signed-in manager
+  const canEditGeofences = canEditConfig(profile);
+  // Sites with their own geofence radius (one entry per site_id)
+  const sitesWithGeofenceRadius = useMemo(() => {
+    const bySiteId = new Map<string, SiteRecord>();
+    for (const site of sites) {
+      if (site.geofence_radius_m != null && !bySiteId.has(site.site_id)) bySiteId.set(site.site_id, site);
+    }
+    return Array.from(bySiteId.values()).sort((a, b) => a.site_id.localeCompare(b.site_id));
+  }, [sites]);
 
   if (loading) {
     return (
@@ -1058,6 +2066,12 @@ export default function HomePage() {
             { id: "dashboard", label: "Dashboard" },
             { id: "map", label: "Live map" },
             { id: "routePlanner", label: "Route Planner" },
+            { id: "assignments", label: "Assignments" },
+            { id: "roster", label: "Shift roster" },
+            { id: "reports", label: "Reports" },
+            { id: "sites", label: "Sites" },
+            { id: "warehouses", label: "Warehouses" },
+            { id: "alerts", label: "Alert rules" },
             // { id: "routes", label: "NFO routes" },  // Hidden from sidebar
             // { id: "settings", label: "Settings" }, // Hidden from sidebar
           ].map((item) => (
@@ -1073,9 +2087,45 @@ export default function HomePage() {
               ].join(" ")}
             >
               {item.label}
+              {item.id === "assignments" && openAssignmentCount > 0 && (
+                <span className="ml-2 inline-flex items-center justify-center min-w-5 px-1.5 rounded-full bg-sky-500 text-white text-[10px] font-semibold">
+                  {openAssignmentCount}
+                </span>
+              )}
+              {item.id === "warehouses" && unmatchedWarehouseNames.length > 0 && (
+                <span
+                  className="ml-2 inline-flex items-center justify-center min-w-5 px-1.5 rounded-full bg-orange-500 text-white text-[10px] font-semibold"
+                  title="warehouse_name values that match no warehouse"
+                >
+                  {unmatchedWarehouseNames.length}
+                </span>
+              )}
+              {item.id === "alerts" && activeAlertCount > 0 && (
+                <span className="ml-2 inline-flex items-center justify-center min-w-5 px-1.5 rounded-full bg-red-500 text-white text-[10px] font-semibold">
+                  {activeAlertCount}
+                </span>
+              )}
             </button>
           ))}
         </nav>
+        {profile && (
+          <div className="px-4 py-3 border-t border-slate-800 text-xs">
+            <div className="text-slate-200 truncate" title={profile.email ?? undefined}>
+              {profile.email ?? profile.userId}
+            </div>
+            <div className="text-slate-400">
+              {MANAGER_ROLE_LABELS[profile.role]}
+              {profile.role === "supervisor" && ` · ${profile.regions.length > 0 ? profile.regions.join(", ") : "no regions assigned"}`}
+            </div>
+            <button
+              type="button"
+              onClick={handleSignOut}
+              className="mt-2 text-slate-300 hover:text-white underline"
+            >
+              Sign out
+            </button>
+          </div>
+        )}
         <div className="px-4 py-3 border-t border-slate-800 text-xs text-slate-500">
           <div>Data source: Supabase · nfo_status</div>
           {lastRefresh && (
@@ -1084,16 +2134,48 @@ export default function HomePage() {
               {refreshError && " ⚠️"}
             </div>
           )}
-          <div className="mt-1 text-slate-400">
-            Auto-refresh: every 30s
+          <div className="mt-1 flex items-center gap-1.5">
+            <span
+              className={`h-2 w-2 rounded-full ${
+                feedMode === "live"
+                  ? "bg-emerald-400"
+                  : feedMode === "polling"
+                  ? "bg-amber-400"
+                  : "bg-slate-500"
+              }`}
+            />
+            <span className={feedMode === "live" ? "text-emerald-300" : "text-slate-400"}>
+              {feedMode === "live"
+                ? "Live (realtime)"
+                : feedMode === "polling"
+                ? `Polling every ${Math.round(REFRESH_INTERVAL_MS / 1000)}s`
+                : "Connecting…"}
+            </span>
           </div>
         </div>
       </aside>
 
       {/* Main content */}
       <main className="flex-1 px-4 py-8 overflow-auto">
+        {/* Offline banner - data API unreachable, showing the last snapshot */}
+        {offlineDataAt && (
+          <div className="max-w-6xl mx-auto mb-4">
+            <div className="bg-slate-800 text-slate-100 rounded-lg px-4 py-2 flex items-center justify-between">
+              <div className="flex items-center gap-2">
+                <span>📴</span>
+                <span className="text-sm font-semibold">
+                  Offline – data as of {formatSnapshotTime(offlineDataAt)}
+                </span>
+              </div>
+              <span className="text-xs text-slate-300">
+                Positions, sites and warehouses are from the last successful load. Updates resume when the connection is back.
+              </span>
+            </div>
+          </div>
+        )}
+
         {/* Global refresh error banner - shows on all tabs when auto-refresh fails */}
-        {refreshError && (
+        {refreshError && !offlineDataAt && (
           <div className="max-w-6xl mx-auto mb-4">
             <div className="bg-orange-50 border border-orange-200 rounded-lg px-4 py-2 flex items-center justify-between">
               <div className="flex items-center gap-2">
@@ -1103,7 +2185,9 @@ export default function HomePage() {
                 </span>
               </div>
               <span className="text-xs text-orange-500">
-                Retrying in {Math.round(REFRESH_INTERVAL_MS / 1000)}s...
+                {feedMode === "live"
+                  ? "Waiting for live updates..."
+                  : `Retrying in ${Math.round(REFRESH_INTERVAL_MS / 1000)}s...`}
               </span>
             </div>
           </div>
@@ -1127,8 +2211,8 @@ export default function HomePage() {
               </div>
             </header>
 
-            {/* KPI cards - Order: Total, On shift, Busy, Free, Off shift, Not Active */}
-            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-6 gap-4">
+            {/* KPI cards - Order: Total, On shift, Busy, Free, Off shift, Not Active, Location mismatch */}
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 xl:grid-cols-7 gap-4">
               <StatCard
                 label="Total NFOs"
                 value={stats.totalNFOs}
@@ -1165,12 +2249,19 @@ export default function HomePage() {
                 onMouseEnter={() => setActiveKpi("offShift")}
               />
               <StatCard
-                label="Not Active (>30m)"
+                label={`Not Active (>${defaultThresholds.staleMinutes}m)`}
                 value={stats.notActive}
                 accent="bg-yellow-500"
                 isActive={activeKpi === "notActive"}
                 onMouseEnter={() => setActiveKpi("notActive")}
               />
+              <StatCard
+                label="Location mismatch"
+                value={stats.locationMismatch}
+                accent="bg-orange-500"
+                isActive={activeKpi === "locationMismatch"}
+                onMouseEnter={() => setActiveKpi("locationMismatch")}
+              />
             </div>
 
             {/* NFO List Panel - shows NFOs for the active KPI category */}
@@ -1180,8 +2271,15 @@ export default function HomePage() {
                   <h3 className="font-semibold text-sm text-slate-700">
                     {kpiLists[activeKpi].label}
                   </h3>
-                  <span className="text-xs text-slate-500">
+                  <span className="flex items-center gap-2 text-xs text-slate-500">
                     {kpiLists[activeKpi].items.length} NFOs
+                    <ExportButtons
+                      filename={`nfo-kpi-${activeKpi}`}
+                      sheetName={kpiLists[activeKpi].label}
+                      columns={nfoExportColumns}
+                      rows={exportRows.kpi}
+                      title={exportFilterNote}
+                    />
                   </span>
                 </div>
                 {kpiLists[activeKpi].items.length === 0 ? (
@@ -1198,12 +2296,21 @@ export default function HomePage() {
               </div>
             )}
 
-            {/* Stuck at site > 2.5 hours panel */}
+            {/* Stuck at site panel - threshold per area from the "stuck" alert rule */}
             {stuckNfos.length > 0 && (
               <section className="bg-white rounded-xl shadow p-4 border-l-4 border-red-500">
-                <h2 className="text-lg font-semibold mb-3 text-red-700">
-                  NFOs busy at site for &gt; 2.5 hours
-                </h2>
+                <div className="flex items-center justify-between mb-3">
+                  <h2 className="text-lg font-semibold text-red-700">
+                    NFOs busy at site past their area&apos;s stuck threshold
+                  </h2>
+                  <ExportButtons
+                    filename="nfo-stuck"
+                    sheetName="Stuck NFOs"
+                    columns={stuckExportColumns}
+                    rows={exportRows.stuck}
+                    title={exportFilterNote}
+                  />
+                </div>
                 <div className="overflow-x-auto">
                   <table className="min-w-full text-sm">
                     <thead>
@@ -1215,6 +2322,7 @@ export default function HomePage() {
                         <th className="text-left py-2 px-2">Activity</th>
                         <th className="text-left py-2 px-2">Last active</th>
                         <th className="text-left py-2 px-2">Minutes stuck</th>
+                        <th className="text-left py-2 px-2">Threshold</th>
                       </tr>
                     </thead>
                     <tbody>
@@ -1235,6 +2343,9 @@ export default function HomePage() {
                           <td className="py-2 px-2 font-semibold text-red-600">
                             {nfo.minutesSinceActive}
                           </td>
+                          <td className="py-2 px-2 text-xs text-gray-500">
+                            {nfo.stuckThresholdMinutes} min
+                          </td>
                         </tr>
                       ))}
                     </tbody>
@@ -1243,10 +2354,129 @@ export default function HomePage() {
               </section>
             )}
 
+            {/* Geofence events and per-site radii */}
+            <section className="bg-white rounded-xl shadow p-4 border-l-4 border-orange-500">
+              <h2 className="text-lg font-semibold mb-3">Site geofences</h2>
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+                <div>
+                  <h3 className="text-sm font-semibold text-slate-700 mb-2">
+                    Arrivals / departures{" "}
+                    <span className="text-xs font-normal text-slate-500">(since page load)</span>
+                  </h3>
+                  {geofenceEvents.length === 0 ? (
+                    <div className="text-xs text-slate-400">No geofence crossings yet.</div>
+                  ) : (
+                    <ul className="text-xs space-y-1 max-h-48 overflow-y-auto">
+                      {geofenceEvents.map((evt, idx) => (
+                        <li key={`${evt.username}-${evt.siteId}-${evt.kind}-${evt.at}-${idx}`} className="flex justify-between gap-2">
+                          <span>
+                            <span className={evt.kind === "arrival" ? "text-emerald-600 font-semibold" : "text-slate-500 font-semibold"}>
+                              {evt.kind === "arrival" ? "↘ Arrived" : "↗ Left"}
+                            </span>{" "}
+                            <span className="font-mono">{evt.siteId}</span> · {evt.name ? `${evt.username} – ${evt.name}` : evt.username}
+                          </span>
+                          <span className="text-slate-400 whitespace-nowrap">
+                            {new Date(evt.at).toLocaleTimeString()}
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+                <div>
+                  <h3 className="text-sm font-semibold text-slate-700 mb-2">
+                    Site radii{" "}
+                    <span className="text-xs font-normal text-slate-500">
+                      (Site_Coordinates, default {DEFAULT_GEOFENCE_RADIUS_M} m)
+                    </span>
+                  </h3>
+                  {canEditGeofences && (
+                    <>
+                    <form
+                      className="flex gap-2 mb-2 text-sm"
+                      onSubmit={(e) => {
+                        e.preventDefault();
+                        const site = getSiteById(sites, geofenceSiteInput);
+                        const radius = parseFloat(geofenceRadiusInput);
+                        if (!site || !Number.isFinite(radius)) return;
+                        handleSetGeofenceRadius(site.site_id, radius);
+                        setGeofenceSiteInput("");
+                        setGeofenceRadiusInput("");
+                      }}
+                    >
+                      <input
+                        type="text"
+                        value={geofenceSiteInput}
+                        onChange={(e) => setGeofenceSiteInput(e.target.value)}
+                        placeholder="Site ID"
+                        className="border rounded-md px-2 py-1 w-28"
+                      />
+                      <input
+                        type="number"
+                        min={MIN_GEOFENCE_RADIUS_M}
+                        max={MAX_GEOFENCE_RADIUS_M}
+                        value={geofenceRadiusInput}
+                        onChange={(e) => setGeofenceRadiusInput(e.target.value)}
+                        placeholder="Radius (m)"
+                        className="border rounded-md px-2 py-1 w-28"
+                      />
+                      <button
+                        type="submit"
+                        disabled={!getSiteById(sites, geofenceSiteInput) || !Number.isFinite(parseFloat(geofenceRadiusInput))}
+                        className="px-3 py-1 rounded-md bg-orange-500 text-white font-medium hover:bg-orange-600 disabled:bg-slate-300"
+                      >
+                        Set
+                      </button>
+                    </form>
+                    {geofenceSiteInput.trim() !== "" && !getSiteById(sites, geofenceSiteInput) && (
+                      <div className="text-xs text-orange-600 mb-2">Unknown site ID</div>
+                    )}
+                    {geofenceError && <div className="text-xs text-orange-600 mb-2">⚠️ {geofenceError}</div>}
+                    </>
+                  )}
+                  {sitesWithGeofenceRadius.length === 0 ? (
+                    <div className="text-xs text-slate-400">No site radii set - every site uses the default.</div>
+                  ) : (
+                    <ul className="text-xs space-y-1 max-h-36 overflow-y-auto">
+                      {sitesWithGeofenceRadius.map((site) => (
+                        <li key={site.site_id} className="flex items-center justify-between bg-slate-50 rounded px-2 py-1">
+                          <span>
+                            <span className="font-mono">{site.site_id}</span> · {site.geofence_radius_m} m
+                          </span>
+                          {canEditGeofences && (
+                            <button
+                              type="button"
+                              onClick={() => handleSetGeofenceRadius(site.site_id, null)}
+                              className="text-slate-400 hover:text-red-600 px-1"
+                              title="Back to the default radius"
+                            >
+                              ✕
+                            </button>
+                          )}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              </div>
+            </section>
+
+            {/* SLA timers for open jobs */}
+            <SlaPanel jobs={visibleAssignments} nfos={nfos} now={slaClock} />
+
             {/* Area summary section */}
             {areaSummary.length > 0 && (
               <section className="bg-white rounded-xl shadow p-4">
-                <h2 className="text-lg font-semibold mb-3">Area summary</h2>
+                <div className="flex items-center justify-between mb-3">
+                  <h2 className="text-lg font-semibold">Area summary</h2>
+                  <ExportButtons
+                    filename="nfo-area-summary"
+                    sheetName="Area summary"
+                    columns={AREA_SUMMARY_EXPORT_COLUMNS}
+                    rows={exportRows.areaSummary}
+                    title="Respects the Field Engineers area filter"
+                  />
+                </div>
                 <div className="overflow-x-auto">
                   <table className="min-w-full text-sm border-collapse">
                     <thead>
@@ -1258,6 +2488,10 @@ export default function HomePage() {
                         <th className="text-center px-3 py-2 font-semibold">Free</th>
                         <th className="text-center px-3 py-2 font-semibold">Off shift</th>
                         <th className="text-center px-3 py-2 font-semibold">Not Active</th>
+                        <th className="text-center px-3 py-2 font-semibold">Open jobs</th>
+                        <th className="text-center px-3 py-2 font-semibold">SLA breached</th>
+                        <th className="text-center px-3 py-2 font-semibold">Rostered on shift</th>
+                        <th className="text-center px-3 py-2 font-semibold">Roster issues</th>
                       </tr>
                     </thead>
                     <tbody>
@@ -1270,6 +2504,30 @@ export default function HomePage() {
                           <td className="text-center px-3 py-2">{summary.free}</td>
                           <td className="text-center px-3 py-2">{summary.offShift}</td>
                           <td className="text-center px-3 py-2">{summary.notActive}</td>
+                          <td className="text-center px-3 py-2">{summary.openJobs}</td>
+                          <td
+                            className={`text-center px-3 py-2 ${
+                              summary.slaBreached > 0 ? "text-red-600 font-semibold bg-red-50" : ""
+                            }`}
+                          >
+                            {summary.slaBreached}
+                          </td>
+                          <td
+                            className={`text-center px-3 py-2 ${
+                              summary.rosterCovered < summary.rosteredNow ? "text-orange-600 font-semibold bg-orange-50" : ""
+                            }`}
+                            title="NFOs on shift / shifts planned right now"
+                          >
+                            {summary.rosteredNow > 0 ? `${summary.rosterCovered}/${summary.rosteredNow}` : "-"}
+                          </td>
+                          <td
+                            className={`text-center px-3 py-2 ${
+                              summary.rosterIssues > 0 ? "text-red-600 font-semibold bg-red-50" : ""
+                            }`}
+                            title="Late starts, early logouts and no-shows today"
+                          >
+                            {summary.rosterIssues}
+                          </td>
                         </tr>
                       ))}
                     </tbody>
@@ -1280,9 +2538,18 @@ export default function HomePage() {
 
             {/* Simple list of current NFO statuses */}
             <section className="bg-white rounded-xl shadow p-4">
-              <h2 className="text-lg font-semibold mb-3">
-                Field Engineers ( Status )
-              </h2>
+              <div className="flex items-center justify-between mb-3">
+                <h2 className="text-lg font-semibold">
+                  Field Engineers ( Status )
+                </h2>
+                <ExportButtons
+                  filename="nfo-field-engineers"
+                  sheetName="Field Engineers"
+                  columns={nfoExportColumns}
+                  rows={exportRows.fieldEngineers}
+                  title={exportFilterNote}
+                />
+              </div>
               <div className="flex flex-wrap items-center gap-3 mb-4 text-sm">
                 <input
                   type="text"
@@ -1304,7 +2571,7 @@ export default function HomePage() {
                   <option value="busy">Busy</option>
                   <option value="free">Free</option>
                   <option value="devicesilent">Device-silent</option>
-                  <option value="notactive">Not Active (&gt;30m)</option>
+                  <option value="notactive">Not Active (&gt;{defaultThresholds.staleMinutes}m)</option>
                 </select>
                 <select
                   value={areaFilter}
@@ -1318,6 +2585,22 @@ export default function HomePage() {
                     </option>
                   ))}
                 </select>
+                <button
+                  type="button"
+                  onClick={computeNearestSiteEtas}
+                  disabled={etaLoading}
+                  className="px-3 py-1 text-sm bg-sky-600 text-white rounded-md hover:bg-sky-700 disabled:bg-sky-300"
+                >
+                  {etaLoading ? "Computing ETAs..." : "Compute ETAs"}
+                </button>
+                {etaComputedAt && !etaLoading && (
+                  <span className="text-xs text-gray-500">
+                    ETAs as of {etaComputedAt.toLocaleTimeString()}
+                  </span>
+                )}
+                {etaError && (
+                  <span className="text-xs text-red-600">{etaError}</span>
+                )}
               </div>
               <div className="overflow-x-auto">
                 <table className="min-w-full text-sm">
@@ -1334,6 +2617,7 @@ export default function HomePage() {
                       <th className="text-left py-2 px-2">Warehouse</th>
                       <th className="text-left py-2 px-2">Route</th>
                       <th className="text-left py-2 px-2">Nearest site</th>
+                      <th className="text-left py-2 px-2">ETA to nearest site</th>
                       <th className="text-left py-2 px-2">Air distance (km)</th>
                       <th className="text-left py-2 px-2">Last active</th>
                     </tr>
@@ -1348,6 +2632,8 @@ export default function HomePage() {
                           enriched={enriched}
                           sites={sites}
                           warehouses={warehouses}
+                          nearestSiteEta={nearestSiteEtas.get(nfo.username)}
+                          onRouteResultChange={handleRowRouteResult}
                         />
                       );
                     })}
@@ -1389,6 +2675,10 @@ export default function HomePage() {
             onMapAreaFilterChange={handleSetMapAreaFilter}
             onMapNfoFilterChange={handleSetMapNfoFilter}
             isActive={activeView === "map"}
+            alertRules={alertRules}
+            canAssignJobs={mayAssignJobs}
+            onAssignmentCreated={handleAssignmentCreated}
+            assignments={visibleAssignments}
           />
         </div>
 
@@ -1414,8 +2704,108 @@ export default function HomePage() {
               nfos={enrichedNfos}
               sites={sites}
               warehouses={warehouses}
+              now={alertClock}
               state={routePlannerState}
               onStateChange={setRoutePlannerState}
+              canAssign={mayAssignJobs}
+              onAssignmentCreated={handleAssignmentCreated}
+            />
+          </div>
+        )}
+
+        {activeView === "assignments" && (
+          <AssignmentsView
+            assignments={visibleAssignments}
+            nfos={nfos}
+            sites={sites}
+            onUpdateStatus={handleUpdateAssignmentStatus}
+            onAssignmentCreated={handleAssignmentCreated}
+            now={alertClock}
+            canManage={mayAssignJobs}
+            error={assignmentsError}
+          />
+        )}
+
+        {activeView === "roster" && (
+          <RosterView
+            nfos={nfos}
+            now={alertClock}
+            canEdit={canEditRoster(profile)}
+            onRosterChanged={handleRosterChanged}
+          />
+        )}
+
+        {activeView === "reports" && <ReportsView nfos={nfos} now={alertClock} />}
+
+        {activeView === "sites" && (
+          <SitesView sites={sites} canEdit={canEditConfig(profile)} onSitesChanged={reloadSites} />
+        )}
+
+        {activeView === "warehouses" && (
+          <WarehousesView
+            warehouses={warehouses}
+            nfos={nfos}
+            areas={warehouseAreaOptions}
+            canEdit={canEditConfig(profile)}
+            now={alertClock}
+            onWarehousesChanged={reloadWarehouses}
+          />
+        )}
+
+        {activeView === "alerts" && (
+          <div className="space-y-6">
+            <section className="max-w-6xl mx-auto bg-white rounded-xl shadow p-4">
+              <h2 className="text-lg font-semibold mb-1">Notifications</h2>
+              <p className="text-xs text-slate-500 mb-3">
+                Sent once when an NFO becomes stuck, not active (on shift) or device-silent.
+              </p>
+              <div className="flex flex-wrap gap-6 text-sm">
+                <label className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={notifyBrowser}
+                    disabled={notificationPermission === "unsupported" || notificationPermission === "denied"}
+                    onChange={(e) => handleSetNotifyBrowser(e.target.checked)}
+                  />
+                  Browser notifications
+                  <span className="text-xs text-slate-500">
+                    {notificationPermission === "unsupported"
+                      ? "(not supported in this browser)"
+                      : notificationPermission === "denied"
+                      ? "(blocked - allow in browser settings)"
+                      : notificationPermission === "granted"
+                      ? "(permission granted)"
+                      : ""}
+                  </span>
+                </label>
+                <label className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={notifyWebhook && canActOnAlerts(profile)}
+                    disabled={!canActOnAlerts(profile)}
+                    onChange={(e) => handleSetNotifyWebhook(e.target.checked)}
+                  />
+                  Webhook{" "}
+                  <span className="text-xs text-slate-500">
+                    {canActOnAlerts(profile) ? "(server ALERT_WEBHOOK_URL)" : "(admins and supervisors only)"}
+                  </span>
+                </label>
+              </div>
+              {webhookError && <div className="text-xs text-orange-600 mt-2">⚠️ {webhookError}</div>}
+              {alertSettingsError && <div className="text-xs text-orange-600 mt-2">⚠️ {alertSettingsError}</div>}
+            </section>
+            <AlertRulesView
+              rules={alertRules}
+              onRulesChange={handleSetAlertRules}
+              alerts={firingAlerts}
+              acks={alertAcks}
+              onAcknowledge={handleAcknowledgeAlert}
+              onSnooze={handleSnoozeAlert}
+              onReopen={handleReopenAlert}
+              areas={areas}
+              now={alertClock}
+              canEditRules={canEditConfig(profile)}
+              canActOnAlerts={canActOnAlerts(profile)}
             />
           </div>
         )}
@@ -1426,6 +2816,7 @@ export default function HomePage() {
             <p className="text-sm text-slate-600">
               Here we will later configure ORS backend URLs, map options, and notification thresholds.
             </p>
+            <OfflineMapPanel sites={sites} />
           </div>
         )}
       </main>
@@ -0,0 +1,24 @@
+import { createClient } from "@supabase/supabase-js";
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
+
+/**
+ * Per-request Supabase client for API route handlers.
+ *
+ * Uses the anon key plus the caller's access token, so queries run as the
+ * signed-in manager and Row Level Security applies exactly as it did when the
+ * browser queried Supabase directly. No session is stored on the server.
+ */
+export function createSupabaseServerClient(accessToken: string | null) {
+  return createClient(
+    supabaseUrl || "https://placeholder.supabase.co",
+    supabaseAnonKey || "placeholder-key",
+    {
+      auth: { persistSession: false, autoRefreshToken: false },
+      global: accessToken ? { headers: { Authorization: `Bearer ${accessToken}` } } : undefined,
+    }
+  );
+}
+
+export const isSupabaseServerConfigured = Boolean(supabaseUrl && supabaseAnonKey);
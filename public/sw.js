@@ -0,0 +1,162 @@
+/**
+ * FieldPulse service worker - offline map tiles and app shell (see app/lib/offline.ts).
+ *
+ * - Map tiles ({z}/{x}/{y}.png from any tile server): cache-first, so tiles
+ *   pre-cached from Settings or seen before keep working without a connection.
+ *   Only CORS responses are kept (the maps request tiles with crossOrigin) -
+ *   opaque ones are padded to megabytes of quota each. Tiles older than
+ *   TILE_MAX_AGE_MS are refreshed when online, and the cache is trimmed to
+ *   MAX_CACHED_TILES as it fills.
+ * - /_next/static and /markers: cache-first (content-hashed / static files).
+ * - Page navigations: network-first, falling back to the last cached page.
+ * - /api: never touched - the dashboard keeps its own snapshot in IndexedDB.
+ */
+
+// Must match TILE_CACHE_NAME / TILE_CACHED_AT_HEADER in app/lib/offline.ts
+// (v2: v1 held opaque responses without a cached-at stamp)
+const TILE_CACHE = "fieldpulse-tiles-v2";
+const TILE_CACHED_AT_HEADER = "x-fieldpulse-cached-at";
+const SHELL_CACHE = "fieldpulse-shell-v1";
+const KNOWN_CACHES = [TILE_CACHE, SHELL_CACHE];
+
+// Oldest tiles are dropped above this
+const MAX_CACHED_TILES = 20000;
+
+// Re-fetched when older than this (the cached copy is still served offline)
+const TILE_MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+
+// Trim the tile cache after this many new tiles (listing 20000 keys on every put is too slow)
+const TRIM_EVERY_PUTS = 100;
+
+const SHELL_URLS = [
+  "/",
+  "/markers/marker-icon.png",
+  "/markers/marker-icon-2x.png",
+  "/markers/marker-shadow.png",
+  "/markers/marker-green.svg",
+  "/markers/marker-red.svg",
+  "/markers/marker-grey.svg",
+  "/markers/marker-orange.svg",
+];
+
+const TILE_PATH = /\/\d+\/\d+\/\d+(@2x)?\.(png|jpe?g|webp)$/;
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    caches
+      .open(SHELL_CACHE)
+      .then((cache) => cache.addAll(SHELL_URLS))
+      .catch((error) => console.warn("sw.js shell precache failed:", error))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    (async () => {
+      const names = await caches.keys();
+      await Promise.all(names.filter((name) => !KNOWN_CACHES.includes(name)).map((name) => caches.delete(name)));
+      await trimTileCache(await caches.open(TILE_CACHE));
+      await self.clients.claim();
+    })()
+  );
+});
+
+// Cache keys come back in insertion order, so the first ones are the oldest tiles
+async function trimTileCache(cache) {
+  const keys = await cache.keys();
+  const excess = keys.length - MAX_CACHED_TILES;
+  if (excess > 0) await Promise.all(keys.slice(0, excess).map((request) => cache.delete(request)));
+}
+
+let putsSinceTrim = 0;
+
+async function putTile(cache, url, response) {
+  // Copy with a cached-at stamp - Cache Storage keeps no dates of its own
+  const headers = new Headers(response.headers);
+  headers.set(TILE_CACHED_AT_HEADER, String(Date.now()));
+  const stamped = new Response(await response.blob(), {
+    status: response.status,
+    statusText: response.statusText,
+    headers,
+  });
+  // Re-inserted, so a refreshed tile counts as the newest when trimming
+  await cache.delete(url);
+  await cache.put(url, stamped);
+
+  putsSinceTrim += 1;
+  if (putsSinceTrim >= TRIM_EVERY_PUTS) {
+    putsSinceTrim = 0;
+    await trimTileCache(cache);
+  }
+}
+
+const isFreshTile = (response) =>
+  Date.now() - Number(response.headers.get(TILE_CACHED_AT_HEADER) || 0) < TILE_MAX_AGE_MS;
+
+async function tileCacheFirst(request) {
+  const cache = await caches.open(TILE_CACHE);
+  const cached = await cache.match(request.url);
+  if (cached && isFreshTile(cached)) return cached;
+
+  try {
+    const response = await fetch(request);
+    // Opaque (no-cors) responses are passed through but not kept
+    if (response.ok && response.type !== "opaque") {
+      putTile(cache, request.url, response.clone()).catch(() => {});
+    }
+    return response;
+  } catch (error) {
+    // Offline - an expired tile beats no tile
+    if (cached) return cached;
+    throw error;
+  }
+}
+
+async function cacheFirst(request, cacheName) {
+  const cache = await caches.open(cacheName);
+  const cached = await cache.match(request.url);
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  if (response.ok) {
+    cache.put(request.url, response.clone()).catch(() => {});
+  }
+  return response;
+}
+
+async function networkFirst(request, cacheName) {
+  const cache = await caches.open(cacheName);
+  try {
+    const response = await fetch(request);
+    if (response.ok) cache.put(request, response.clone()).catch(() => {});
+    return response;
+  } catch (error) {
+    const cached = (await cache.match(request)) || (await cache.match("/"));
+    if (cached) return cached;
+    throw error;
+  }
+}
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  if (request.method !== "GET") return;
+
+  const url = new URL(request.url);
+
+  if (TILE_PATH.test(url.pathname)) {
+    event.respondWith(tileCacheFirst(request));
+    return;
+  }
+
+  if (url.origin !== self.location.origin || url.pathname.startsWith("/api/")) return;
+
+  if (url.pathname.startsWith("/_next/static/") || url.pathname.startsWith("/markers/")) {
+    event.respondWith(cacheFirst(request, SHELL_CACHE));
+    return;
+  }
+
+  if (request.mode === "navigate") {
+    event.respondWith(networkFirst(request, SHELL_CACHE));
+  }
+});